@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "RevisionColor" AS ENUM ('WHITE', 'BLUE', 'PINK', 'YELLOW', 'GREEN', 'GOLDENROD', 'BUFF', 'SALMON', 'CHERRY');
+
+-- CreateEnum
+CREATE TYPE "RevisionChangeType" AS ENUM ('ADDED', 'OMITTED', 'CHANGED');
+
+-- CreateEnum
+CREATE TYPE "RevisionChangeStatus" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "BreakdownSheet" ADD COLUMN     "isOmitted" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ScriptRevision" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "color" "RevisionColor" NOT NULL,
+    "revisionDate" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScriptRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScriptRevisionChange" (
+    "id" TEXT NOT NULL,
+    "revisionId" TEXT NOT NULL,
+    "breakdownId" TEXT,
+    "type" "RevisionChangeType" NOT NULL,
+    "status" "RevisionChangeStatus" NOT NULL DEFAULT 'PENDING',
+    "sceneNumbers" TEXT NOT NULL,
+    "changedFields" TEXT[],
+    "intExt" "IntExt",
+    "location" TEXT,
+    "dayNight" "DayNight",
+    "pageCount" TEXT,
+    "description" TEXT,
+    "characters" TEXT[],
+    "reviewedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ScriptRevisionChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScriptRevision_projectId_createdAt_idx" ON "ScriptRevision"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ScriptRevisionChange_revisionId_idx" ON "ScriptRevisionChange"("revisionId");
+
+-- AddForeignKey
+ALTER TABLE "ScriptRevision" ADD CONSTRAINT "ScriptRevision_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScriptRevisionChange" ADD CONSTRAINT "ScriptRevisionChange_revisionId_fkey" FOREIGN KEY ("revisionId") REFERENCES "ScriptRevision"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScriptRevisionChange" ADD CONSTRAINT "ScriptRevisionChange_breakdownId_fkey" FOREIGN KEY ("breakdownId") REFERENCES "BreakdownSheet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "BreakdownSheet" ADD COLUMN     "pageEighths" INTEGER;
+
+-- Backfill from the display string ("2", "3/8", "1 2/8"); anything else stays NULL
+UPDATE "BreakdownSheet"
+SET "pageEighths" = CASE
+    WHEN "pageCount" ~ '^\s*\d+\s*$'
+        THEN substring("pageCount" from '^\s*(\d+)')::INTEGER * 8
+    WHEN "pageCount" ~ '^\s*\d+/8\s*$'
+        THEN substring("pageCount" from '^\s*(\d+)/8')::INTEGER
+    WHEN "pageCount" ~ '^\s*\d+\s+[0-7]/8\s*$'
+        THEN substring("pageCount" from '^\s*(\d+)\s')::INTEGER * 8
+           + substring("pageCount" from '\s([0-7])/8\s*$')::INTEGER
+END
+WHERE "pageCount" IS NOT NULL;
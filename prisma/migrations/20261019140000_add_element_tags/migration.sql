@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "BreakdownSheet" ADD COLUMN     "scriptText" TEXT;
+
+-- CreateTable
+CREATE TABLE "ElementTag" (
+    "id" TEXT NOT NULL,
+    "breakdownId" TEXT NOT NULL,
+    "elementId" TEXT NOT NULL,
+    "start" INTEGER NOT NULL,
+    "end" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ElementTag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ElementTag_breakdownId_idx" ON "ElementTag"("breakdownId");
+
+-- AddForeignKey
+ALTER TABLE "ElementTag" ADD CONSTRAINT "ElementTag_breakdownId_fkey" FOREIGN KEY ("breakdownId") REFERENCES "BreakdownSheet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ElementTag" ADD CONSTRAINT "ElementTag_elementId_fkey" FOREIGN KEY ("elementId") REFERENCES "ProductionElement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- DropIndex
+DROP INDEX "Schedule_projectId_key";
+
+-- DropIndex
+DROP INDEX "StripSlot_breakdownId_key";
+
+-- AlterTable
+ALTER TABLE "Schedule" ADD COLUMN     "isActive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "name" TEXT NOT NULL DEFAULT 'Main';
+
+-- Existing schedules become each project's active version
+UPDATE "Schedule" SET "isActive" = true;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Schedule_projectId_name_key" ON "Schedule"("projectId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StripSlot_scheduleId_breakdownId_key" ON "StripSlot"("scheduleId", "breakdownId");
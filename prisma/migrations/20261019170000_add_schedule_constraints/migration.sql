@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "ConstraintType" AS ENUM ('CAST_AVAILABILITY', 'LOCATION_AVAILABILITY', 'SCENE_ORDER', 'NIGHT_REQUIRED', 'MAX_PAGES_PER_DAY');
+
+-- CreateTable
+CREATE TABLE "ScheduleConstraint" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "type" "ConstraintType" NOT NULL,
+    "characterId" TEXT,
+    "location" TEXT,
+    "breakdownId" TEXT,
+    "laterBreakdownId" TEXT,
+    "dates" DATE[],
+    "weekdays" INTEGER[],
+    "maxEighths" INTEGER,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduleConstraint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduleConstraint_projectId_idx" ON "ScheduleConstraint"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "ScheduleConstraint" ADD CONSTRAINT "ScheduleConstraint_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduleConstraint" ADD CONSTRAINT "ScheduleConstraint_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduleConstraint" ADD CONSTRAINT "ScheduleConstraint_breakdownId_fkey" FOREIGN KEY ("breakdownId") REFERENCES "BreakdownSheet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduleConstraint" ADD CONSTRAINT "ScheduleConstraint_laterBreakdownId_fkey" FOREIGN KEY ("laterBreakdownId") REFERENCES "BreakdownSheet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- Day breaks and banners follow a strip instead of a board position
+
+-- AlterTable
+ALTER TABLE "DayBreak" ADD COLUMN "afterStripId" TEXT;
+ALTER TABLE "BannerStrip" ADD COLUMN "afterStripId" TEXT,
+ADD COLUMN "sortOrder" INTEGER NOT NULL DEFAULT 0;
+
+-- Anchor each to the strip now at its position
+UPDATE "DayBreak" AS d
+SET "afterStripId" = s."id"
+FROM "StripSlot" AS s
+WHERE s."scheduleId" = d."scheduleId" AND s."position" = d."afterPosition";
+
+UPDATE "BannerStrip" AS b
+SET "afterStripId" = s."id"
+FROM "StripSlot" AS s
+WHERE s."scheduleId" = b."scheduleId" AND s."position" = b."afterPosition";
+
+-- Banners past the end of the board follow its last strip
+UPDATE "BannerStrip" AS b
+SET "afterStripId" = (
+  SELECT s."id" FROM "StripSlot" AS s
+  WHERE s."scheduleId" = b."scheduleId"
+  ORDER BY s."position" DESC
+  LIMIT 1
+)
+WHERE b."afterStripId" IS NULL AND b."afterPosition" > 0;
+
+UPDATE "BannerStrip" AS b
+SET "sortOrder" = ranked."rank"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "scheduleId", "afterPosition" ORDER BY "id") - 1 AS "rank"
+  FROM "BannerStrip"
+) AS ranked
+WHERE ranked."id" = b."id";
+
+-- A day break with no strip at its position ended no day
+DELETE FROM "DayBreak" WHERE "afterStripId" IS NULL;
+
+-- DropIndex
+DROP INDEX "DayBreak_scheduleId_afterPosition_key";
+
+-- DropIndex
+DROP INDEX "BannerStrip_scheduleId_afterPosition_idx";
+
+-- AlterTable
+ALTER TABLE "DayBreak" DROP COLUMN "afterPosition",
+ALTER COLUMN "afterStripId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "BannerStrip" DROP COLUMN "afterPosition";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DayBreak_afterStripId_key" ON "DayBreak"("afterStripId");
+
+-- CreateIndex
+CREATE INDEX "BannerStrip_scheduleId_idx" ON "BannerStrip"("scheduleId");
+
+-- CreateIndex
+CREATE INDEX "BannerStrip_afterStripId_idx" ON "BannerStrip"("afterStripId");
+
+-- AddForeignKey
+ALTER TABLE "DayBreak" ADD CONSTRAINT "DayBreak_afterStripId_fkey" FOREIGN KEY ("afterStripId") REFERENCES "StripSlot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BannerStrip" ADD CONSTRAINT "BannerStrip_afterStripId_fkey" FOREIGN KEY ("afterStripId") REFERENCES "StripSlot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ScheduleOperation" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "userId" TEXT,
+    "description" TEXT NOT NULL,
+    "before" JSONB NOT NULL,
+    "after" JSONB NOT NULL,
+    "isUndone" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScheduleOperation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduleOperation_scheduleId_createdAt_idx" ON "ScheduleOperation"("scheduleId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ScheduleOperation" ADD CONSTRAINT "ScheduleOperation_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "Schedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduleOperation" ADD CONSTRAINT "ScheduleOperation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
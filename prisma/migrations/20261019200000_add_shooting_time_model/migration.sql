@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "minutesPerSetup" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "minutesPerEighth" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "companyMoveMinutes" INTEGER NOT NULL DEFAULT 60,
+ADD COLUMN     "mealBreakMinutes" INTEGER NOT NULL DEFAULT 60,
+ADD COLUMN     "maxDayMinutes" INTEGER NOT NULL DEFAULT 720;
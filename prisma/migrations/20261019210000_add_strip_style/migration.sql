@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "stripColorRules" JSONB,
+ADD COLUMN     "stripLayout" JSONB;
+
+-- AlterTable
+ALTER TABLE "BreakdownSheet" ADD COLUMN     "stripTag" TEXT;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Schedule" ADD COLUMN     "workDays" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "BannerStrip" ADD COLUMN     "date" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ProjectHoliday" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectHoliday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectHoliday_projectId_date_key" ON "ProjectHoliday"("projectId", "date");
+
+-- AddForeignKey
+ALTER TABLE "ProjectHoliday" ADD CONSTRAINT "ProjectHoliday_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
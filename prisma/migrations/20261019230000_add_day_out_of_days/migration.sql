@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "DoodOverrideCode" AS ENUM ('TRAVEL', 'REHEARSAL', 'FITTING');
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "dropPickupDays" INTEGER NOT NULL DEFAULT 10;
+
+-- AlterTable
+ALTER TABLE "Character" ADD COLUMN     "dropPickupDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "DoodOverride" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "characterId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "code" "DoodOverrideCode" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoodOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DoodOverride_characterId_date_key" ON "DoodOverride"("characterId", "date");
+
+-- AddForeignKey
+ALTER TABLE "DoodOverride" ADD CONSTRAINT "DoodOverride_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoodOverride" ADD CONSTRAINT "DoodOverride_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "CallSheet" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "dayNumber" INTEGER NOT NULL,
+    "crewCall" TEXT,
+    "castCalls" JSONB,
+    "locationAddresses" JSONB,
+    "departmentNotes" JSONB,
+    "notes" TEXT,
+    "snapshot" JSONB,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CallSheet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CallSheet_scheduleId_dayNumber_key" ON "CallSheet"("scheduleId", "dayNumber");
+
+-- AddForeignKey
+ALTER TABLE "CallSheet" ADD CONSTRAINT "CallSheet_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "Schedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,295 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { formatPageCount, sheetEighths } from "@/lib/page-count";
+import {
+  formatSceneList,
+  parseSceneNumbers,
+  sceneNumberKey,
+  type SceneNumber,
+} from "@/lib/scene-numbers";
+import { removeStrip } from "@/lib/strip-board";
+import { recordBoardChange } from "@/lib/schedule-history";
+import { DEPARTMENT_TEXT_FIELDS } from "@/lib/breakdown-fields";
+
+interface RouteParams {
+  params: Promise<{ id: string; bdId: string }>;
+}
+
+// POST /api/projects/[id]/breakdowns/[bdId]/merge - Merge other sheets into this one
+// The sheet keeps its strip; the merged sheets' strips are removed and the board
+// closes up around them. Cast, elements and eighths are combined, and parts of
+// a scene that are all merged back together become the whole scene again.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, bdId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to merge breakdowns" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { breakdownIds } = body;
+
+    if (!Array.isArray(breakdownIds) || breakdownIds.length === 0) {
+      return NextResponse.json(
+        { error: "breakdownIds must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+
+    const sourceIds = [...new Set<string>(breakdownIds)].filter((id) => id !== bdId);
+    const include = { cast: true, elements: true, stripSlots: true };
+
+    const target = await prisma.breakdownSheet.findFirst({
+      where: { id: bdId, projectId },
+      include,
+    });
+
+    if (!target) {
+      return NextResponse.json(
+        { error: "Breakdown not found" },
+        { status: 404 }
+      );
+    }
+
+    const sources = await prisma.breakdownSheet.findMany({
+      where: { projectId, id: { in: sourceIds } },
+      orderBy: { sortOrder: "asc" },
+      include,
+    });
+
+    if (sourceIds.length === 0 || sources.length !== sourceIds.length) {
+      return NextResponse.json(
+        { error: "Some breakdown IDs are invalid or don't belong to this project" },
+        { status: 400 }
+      );
+    }
+
+    const sheets = [target, ...sources];
+
+    // Combine scene numbers
+    const merged = new Map<string, SceneNumber[]>();
+    for (const sheet of sheets) {
+      const parsed = parseSceneNumbers(sheet.sceneNumbers);
+      if (!parsed.ok) {
+        return NextResponse.json(
+          { error: `Scene numbers "${sheet.sceneNumbers}" can't be merged: ${parsed.error}` },
+          { status: 400 }
+        );
+      }
+      parsed.scenes.forEach((scene) => {
+        const key = sceneNumberKey(scene);
+        merged.set(key, [...(merged.get(key) || []), scene]);
+      });
+    }
+
+    // A scene's parts become the whole scene again unless a part stays on another sheet
+    const otherSheets = await prisma.breakdownSheet.findMany({
+      where: { projectId, id: { notIn: [bdId, ...sourceIds] } },
+      select: { sceneNumbers: true },
+    });
+    const keysElsewhere = new Set(
+      otherSheets.flatMap((sheet) => {
+        const parsed = parseSceneNumbers(sheet.sceneNumbers);
+        return parsed.ok ? parsed.scenes.map(sceneNumberKey) : [];
+      })
+    );
+    const scenes = [...merged.entries()].map(([key, shares]) => {
+      if (shares.length === 1) return shares[0];
+      return keysElsewhere.has(key)
+        ? { ...shares[0], part: true, partNumber: null }
+        : { ...shares[0], part: false, partNumber: null };
+    });
+
+    const eighths = sheets.reduce((sum, sheet) => sum + sheetEighths(sheet), 0);
+    const setups = sheets
+      .map((sheet) => sheet.cameraSetups)
+      .filter((n): n is number => n != null);
+
+    const joinText = (values: (string | null)[], separator: string) => {
+      const unique = [...new Set(values.filter((v): v is string => !!v?.trim()))];
+      return unique.length > 0 ? unique.join(separator) : null;
+    };
+
+    const textData = Object.fromEntries(
+      DEPARTMENT_TEXT_FIELDS.map((field) => [field, joinText(sheets.map((s) => s[field]), ", ")])
+    );
+
+    // Script text is joined in sheet order; each sheet's tags move with its text
+    let scriptText = "";
+    const textOffsets = new Map<string, number>();
+    for (const sheet of sheets) {
+      if (!sheet.scriptText) continue;
+      if (scriptText) scriptText += "\n\n";
+      textOffsets.set(sheet.id, scriptText.length);
+      scriptText += sheet.scriptText;
+    }
+
+    // In each schedule version the target's strip stays put; if it has none,
+    // it takes the first merged sheet's strip
+    const allStrips = [target, ...sources].flatMap((s) => s.stripSlots);
+    const stripPlans = [...new Set(allStrips.map((slot) => slot.scheduleId))].map((scheduleId) => {
+      const [keptStrip, ...removedStrips] = allStrips.filter((slot) => slot.scheduleId === scheduleId);
+      return {
+        keptStrip,
+        removedStrips: removedStrips.sort((a, b) => b.position - a.position),
+      };
+    });
+
+    const breakdown = await prisma.$transaction(async (tx) => {
+      await tx.breakdownSheet.update({
+        where: { id: bdId },
+        data: {
+          sceneNumbers: formatSceneList(scenes),
+          intExt: target.intExt ?? sources.find((s) => s.intExt)?.intExt ?? null,
+          location: target.location ?? sources.find((s) => s.location)?.location ?? null,
+          dayNight: target.dayNight ?? sources.find((s) => s.dayNight)?.dayNight ?? null,
+          pageCount: eighths > 0 ? formatPageCount(eighths) : null,
+          pageEighths: eighths > 0 ? eighths : null,
+          description: joinText(sheets.map((s) => s.description), "\n"),
+          storyDay: target.storyDay ?? sources.find((s) => s.storyDay != null)?.storyDay ?? null,
+          cameraSetups: setups.length > 0 ? setups.reduce((sum, n) => sum + n, 0) : null,
+          isOmitted: sheets.every((s) => s.isOmitted),
+          scriptText: scriptText || null,
+          ...textData,
+        },
+      });
+
+      await tx.breakdownCast.createMany({
+        data: sources.flatMap((s) =>
+          s.cast.map((c) => ({ breakdownId: bdId, characterId: c.characterId }))
+        ),
+        skipDuplicates: true,
+      });
+      await tx.breakdownElement.createMany({
+        data: sources.flatMap((s) =>
+          s.elements.map((e) => ({ breakdownId: bdId, elementId: e.elementId }))
+        ),
+        skipDuplicates: true,
+      });
+
+      for (const source of sources) {
+        const offset = textOffsets.get(source.id) ?? 0;
+        await tx.elementTag.updateMany({
+          where: { breakdownId: source.id },
+          data: {
+            breakdownId: bdId,
+            start: { increment: offset },
+            end: { increment: offset },
+          },
+        });
+      }
+
+      // Pending revision changes follow the scenes onto the merged sheet
+      await tx.scriptRevisionChange.updateMany({
+        where: { breakdownId: { in: sourceIds } },
+        data: { breakdownId: bdId },
+      });
+
+      // Constraints on the merged sheets move to this one. An order between two
+      // of them no longer means anything, and copies of the same rule collapse.
+      const mergedIds = [bdId, ...sourceIds];
+      await tx.scheduleConstraint.deleteMany({
+        where: {
+          type: "SCENE_ORDER",
+          breakdownId: { in: mergedIds },
+          laterBreakdownId: { in: mergedIds },
+        },
+      });
+      await tx.scheduleConstraint.updateMany({
+        where: { breakdownId: { in: sourceIds } },
+        data: { breakdownId: bdId },
+      });
+      await tx.scheduleConstraint.updateMany({
+        where: { laterBreakdownId: { in: sourceIds } },
+        data: { laterBreakdownId: bdId },
+      });
+      const sceneConstraints = await tx.scheduleConstraint.findMany({
+        where: {
+          type: { in: ["SCENE_ORDER", "NIGHT_REQUIRED"] },
+          OR: [{ breakdownId: bdId }, { laterBreakdownId: bdId }],
+        },
+        orderBy: { createdAt: "asc" },
+      });
+      const constraintKeys = new Set<string>();
+      const duplicateIds = sceneConstraints
+        .filter((c) => {
+          const key = `${c.type}:${c.breakdownId}:${c.laterBreakdownId}`;
+          if (constraintKeys.has(key)) return true;
+          constraintKeys.add(key);
+          return false;
+        })
+        .map((c) => c.id);
+      if (duplicateIds.length > 0) {
+        await tx.scheduleConstraint.deleteMany({ where: { id: { in: duplicateIds } } });
+      }
+
+      for (const { keptStrip, removedStrips } of stripPlans) {
+        if (keptStrip.breakdownId !== bdId) {
+          // Move the strip over before its sheet is deleted, or it would cascade
+          // with it. The target has no strip in this version, so nothing clashes.
+          await tx.stripSlot.update({
+            where: { id: keptStrip.id },
+            data: { breakdownId: bdId },
+          });
+        }
+
+        await recordBoardChange(
+          tx,
+          { scheduleId: keptStrip.scheduleId, userId: session.user.id },
+          `Merged scenes into Sc. ${formatSceneList(scenes)}`,
+          async () => {
+            // Close the board up from the bottom so earlier positions stay valid
+            for (const slot of removedStrips) {
+              await removeStrip(tx, slot.id);
+            }
+          }
+        );
+      }
+
+      await tx.breakdownSheet.deleteMany({
+        where: { id: { in: sourceIds } },
+      });
+
+      return tx.breakdownSheet.findUnique({
+        where: { id: bdId },
+        include: {
+          cast: {
+            include: { character: true },
+            orderBy: { character: { number: "asc" } },
+          },
+          elements: {
+            include: { element: true },
+            orderBy: { element: { name: "asc" } },
+          },
+        },
+      });
+    });
+
+    return NextResponse.json(breakdown);
+  } catch (error) {
+    console.error("Error merging breakdowns:", error);
+    return NextResponse.json(
+      { error: "Failed to merge breakdowns" },
+      { status: 500 }
+    );
+  }
+}
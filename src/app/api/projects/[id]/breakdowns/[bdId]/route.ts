@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { normalizePageCount, PAGE_COUNT_FORMAT_MESSAGE } from "@/lib/page-count";
+import { findDuplicateScenes, parseSceneNumbers } from "@/lib/scene-numbers";
+import { relocateTags } from "@/lib/element-tags";
+import { removeStrip } from "@/lib/strip-board";
+import { syncShootDates } from "@/lib/working-calendar";
 
 interface RouteParams {
   params: Promise<{ id: string; bdId: string }>;
@@ -104,6 +109,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       storyDay,
       cameraSetups,
       isFlashback,
+      stripTag,
+      isOmitted,
       stunts,
       extras,
       wardrobe,
@@ -120,6 +127,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       soundMusic,
       other,
       dqs,
+      scriptText,
       castIds,
       elementIds,
     } = body;
@@ -134,17 +142,45 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
           { status: 400 }
         );
       }
-      updateData.sceneNumbers = sceneNumbers.trim();
+      const scenes = parseSceneNumbers(sceneNumbers);
+      if (!scenes.ok) {
+        return NextResponse.json({ error: scenes.error }, { status: 400 });
+      }
+
+      const otherSheets = await prisma.breakdownSheet.findMany({
+        where: { projectId, id: { not: bdId } },
+        select: { sceneNumbers: true },
+      });
+      const duplicates = findDuplicateScenes(scenes.scenes, otherSheets);
+      if (duplicates.length > 0) {
+        return NextResponse.json(
+          { error: `Scene ${duplicates.join(", ")} is already on another breakdown sheet` },
+          { status: 409 }
+        );
+      }
+      updateData.sceneNumbers = scenes.display;
     }
 
     if (intExt !== undefined) updateData.intExt = intExt || null;
     if (location !== undefined) updateData.location = location?.trim() || null;
     if (dayNight !== undefined) updateData.dayNight = dayNight || null;
-    if (pageCount !== undefined) updateData.pageCount = pageCount?.trim() || null;
+    if (pageCount !== undefined) {
+      const pages = normalizePageCount(pageCount);
+      if (!pages) {
+        return NextResponse.json(
+          { error: PAGE_COUNT_FORMAT_MESSAGE },
+          { status: 400 }
+        );
+      }
+      updateData.pageCount = pages.pageCount;
+      updateData.pageEighths = pages.pageEighths;
+    }
     if (description !== undefined) updateData.description = description?.trim() || null;
     if (storyDay !== undefined) updateData.storyDay = storyDay ? parseInt(storyDay, 10) : null;
     if (cameraSetups !== undefined) updateData.cameraSetups = cameraSetups ? parseInt(cameraSetups, 10) : null;
     if (isFlashback !== undefined) updateData.isFlashback = isFlashback || false;
+    if (stripTag !== undefined) updateData.stripTag = stripTag?.trim() || null;
+    if (isOmitted !== undefined) updateData.isOmitted = isOmitted || false;
     if (stunts !== undefined) updateData.stunts = stunts?.trim() || null;
     if (extras !== undefined) updateData.extras = extras?.trim() || null;
     if (wardrobe !== undefined) updateData.wardrobe = wardrobe?.trim() || null;
@@ -161,6 +197,15 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     if (soundMusic !== undefined) updateData.soundMusic = soundMusic?.trim() || null;
     if (other !== undefined) updateData.other = other?.trim() || null;
     if (dqs !== undefined) updateData.dqs = dqs?.trim() || null;
+    if (scriptText !== undefined) {
+      if (scriptText !== null && typeof scriptText !== "string") {
+        return NextResponse.json(
+          { error: "Script text must be a string" },
+          { status: 400 }
+        );
+      }
+      updateData.scriptText = scriptText?.trim() ? scriptText : null;
+    }
 
     // Handle cast update in transaction if castIds provided
     const breakdown = await prisma.$transaction(async (tx) => {
@@ -170,6 +215,23 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         data: updateData,
       });
 
+      // Keep element tags on the same words when the script text changes
+      if (scriptText !== undefined && updateData.scriptText !== existing.scriptText) {
+        const tags = await tx.elementTag.findMany({
+          where: { breakdownId: bdId },
+        });
+        const { moved, removed } = relocateTags((updateData.scriptText as string | null) || "", tags);
+        for (const tag of moved) {
+          await tx.elementTag.update({
+            where: { id: tag.id },
+            data: { start: tag.start, end: tag.end },
+          });
+        }
+        await tx.elementTag.deleteMany({
+          where: { id: { in: removed } },
+        });
+      }
+
       // If castIds is provided, replace all cast relations
       if (castIds !== undefined && Array.isArray(castIds)) {
         // Delete existing cast relations
@@ -222,6 +284,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
             })),
           });
         }
+
+        // Tags can't outlive their element's link to the sheet
+        await tx.elementTag.deleteMany({
+          where: { breakdownId: bdId, elementId: { notIn: elementIds } },
+        });
       }
 
       // Return with updated relations
@@ -278,7 +345,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     // Verify breakdown belongs to this project
     const existing = await prisma.breakdownSheet.findFirst({
       where: { id: bdId, projectId },
-      include: { stripSlot: true },
+      include: { stripSlots: true },
     });
 
     if (!existing) {
@@ -289,32 +356,21 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     await prisma.$transaction(async (tx) => {
-      // If there's a strip slot, we need to reorder after deletion
-      if (existing.stripSlot) {
-        const deletedPosition = existing.stripSlot.position;
-        const scheduleId = existing.stripSlot.scheduleId;
-
-        // Delete the strip slot (cascade doesn't apply here since we're deleting breakdown)
-        await tx.stripSlot.delete({
-          where: { id: existing.stripSlot.id },
-        });
-
-        // Reorder remaining strips to close the gap
-        await tx.stripSlot.updateMany({
-          where: {
-            scheduleId,
-            position: { gt: deletedPosition },
-          },
-          data: {
-            position: { decrement: 1 },
-          },
-        });
+      // Each schedule version has a strip for the sheet; close the gap in each
+      // so its day break and banners stay on the board
+      for (const stripSlot of existing.stripSlots) {
+        await removeStrip(tx, stripSlot.id);
       }
 
       // Delete the breakdown (cascades to BreakdownCast)
       await tx.breakdownSheet.delete({
         where: { id: bdId },
       });
+
+      // A dropped day break moves every later day earlier
+      for (const stripSlot of existing.stripSlots) {
+        await syncShootDates(tx, stripSlot.scheduleId);
+      }
     });
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,369 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import {
+  formatPageCount,
+  normalizePageCount,
+  PAGE_COUNT_FORMAT_MESSAGE,
+  sheetEighths,
+} from "@/lib/page-count";
+import {
+  findDuplicateScenes,
+  parseSceneNumbers,
+  sceneNumberKey,
+  type SceneNumber,
+} from "@/lib/scene-numbers";
+import { insertStripsAfter } from "@/lib/strip-board";
+import { recordBoardChange } from "@/lib/schedule-history";
+import { DEPARTMENT_TEXT_FIELDS } from "@/lib/breakdown-fields";
+
+interface RouteParams {
+  params: Promise<{ id: string; bdId: string }>;
+}
+
+interface SplitPart {
+  sceneNumbers?: string;
+  pageCount?: string;
+  castIds?: string[];
+  elementIds?: string[];
+}
+
+const MAX_PARTS = 10;
+
+// POST /api/projects/[id]/breakdowns/[bdId]/split - Split a breakdown sheet into parts
+// The original sheet becomes the first part and keeps its strips; in every schedule
+// version the other parts get strips directly after it, inside the same shoot day.
+// Parts default to "14pt1", "14pt2"... for a single scene, an even share of the
+// eighths, and all of the sheet's cast and elements.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, bdId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to split breakdowns" },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.breakdownSheet.findFirst({
+      where: { id: bdId, projectId },
+      include: {
+        cast: true,
+        elements: true,
+        stripSlots: true,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Breakdown not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parts: SplitPart[] = body.parts;
+
+    if (!Array.isArray(parts) || parts.length < 2 || parts.length > MAX_PARTS) {
+      return NextResponse.json(
+        { error: `parts must be an array of 2 to ${MAX_PARTS} parts` },
+        { status: 400 }
+      );
+    }
+
+    const isIdList = (ids: unknown) =>
+      ids === undefined || (Array.isArray(ids) && ids.every((id) => typeof id === "string"));
+    if (
+      parts.some(
+        (part) =>
+          !part ||
+          typeof part !== "object" ||
+          Array.isArray(part) ||
+          (part.pageCount !== undefined && typeof part.pageCount !== "string") ||
+          !isIdList(part.castIds) ||
+          !isIdList(part.elementIds)
+      )
+    ) {
+      return NextResponse.json(
+        { error: "Each part must be an object with optional sceneNumbers, pageCount, castIds and elementIds" },
+        { status: 400 }
+      );
+    }
+
+    const original = parseSceneNumbers(existing.sceneNumbers);
+    if (!original.ok) {
+      return NextResponse.json(
+        { error: `Scene numbers "${existing.sceneNumbers}" can't be split: ${original.error}` },
+        { status: 400 }
+      );
+    }
+
+    // Scene numbers for each part
+    const partScenes: { display: string; scenes: SceneNumber[] }[] = [];
+    for (const [index, part] of parts.entries()) {
+      if (part.sceneNumbers === undefined) {
+        if (original.scenes.length !== 1) {
+          return NextResponse.json(
+            { error: "Give each part its scene numbers when splitting a sheet with several scenes" },
+            { status: 400 }
+          );
+        }
+        const scene = { ...original.scenes[0], part: true, partNumber: index + 1 };
+        partScenes.push({
+          display: `${sceneNumberKey(scene)}pt${index + 1}`,
+          scenes: [scene],
+        });
+        continue;
+      }
+
+      const parsed =
+        typeof part.sceneNumbers === "string"
+          ? parseSceneNumbers(part.sceneNumbers)
+          : ({ ok: false, error: "Scene numbers must be a string" } as const);
+      if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      partScenes.push({ display: parsed.display, scenes: parsed.scenes });
+    }
+
+    // Every scene must stay on some part, and parts can't pick up new scenes
+    const originalKeys = new Set(original.scenes.map(sceneNumberKey));
+    const partKeys = new Set(partScenes.flatMap((p) => p.scenes.map(sceneNumberKey)));
+    const added = [...partKeys].filter((key) => !originalKeys.has(key));
+    const dropped = [...originalKeys].filter((key) => !partKeys.has(key));
+    if (added.length > 0) {
+      return NextResponse.json(
+        { error: `Scene ${added.join(", ")} is not on the sheet being split` },
+        { status: 400 }
+      );
+    }
+    if (dropped.length > 0) {
+      return NextResponse.json(
+        { error: `Scene ${dropped.join(", ")} is not on any of the parts` },
+        { status: 400 }
+      );
+    }
+
+    // A scene shared between parts, or with another sheet, must be marked "pt" everywhere
+    const otherSheets = await prisma.breakdownSheet.findMany({
+      where: { projectId, id: { not: bdId } },
+      select: { sceneNumbers: true },
+    });
+    for (const [index, part] of partScenes.entries()) {
+      const others = [
+        ...otherSheets,
+        ...partScenes
+          .filter((_, i) => i !== index)
+          .map((p) => ({ sceneNumbers: p.display })),
+      ];
+      const duplicates = findDuplicateScenes(part.scenes, others);
+      if (duplicates.length > 0) {
+        return NextResponse.json(
+          { error: `Scene ${duplicates.join(", ")} appears on more than one sheet; mark each share as a part (e.g. ${duplicates[0]}pt1)` },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Share out the eighths: either every part gives its page count or none does
+    const totalEighths = sheetEighths(existing);
+    const givenCounts = parts.filter((p) => p.pageCount !== undefined && p.pageCount !== "");
+    let partPages: { pageCount: string | null; pageEighths: number | null }[];
+
+    if (givenCounts.length === 0) {
+      const share = Math.floor(totalEighths / parts.length);
+      const remainder = totalEighths % parts.length;
+      partPages = parts.map((_, index) => {
+        const eighths = share + (index < remainder ? 1 : 0);
+        return eighths > 0
+          ? { pageCount: formatPageCount(eighths), pageEighths: eighths }
+          : { pageCount: null, pageEighths: null };
+      });
+    } else if (givenCounts.length === parts.length) {
+      partPages = [];
+      for (const part of parts) {
+        const pages = normalizePageCount(part.pageCount);
+        if (!pages) {
+          return NextResponse.json(
+            { error: PAGE_COUNT_FORMAT_MESSAGE },
+            { status: 400 }
+          );
+        }
+        partPages.push(pages);
+      }
+      const partTotal = partPages.reduce((sum, p) => sum + (p.pageEighths || 0), 0);
+      if (totalEighths > 0 && partTotal !== totalEighths) {
+        return NextResponse.json(
+          { error: `Part page counts add up to ${formatPageCount(partTotal)} but the sheet is ${formatPageCount(totalEighths)}` },
+          { status: 400 }
+        );
+      }
+    } else {
+      return NextResponse.json(
+        { error: "Give every part a page count, or none to share the eighths evenly" },
+        { status: 400 }
+      );
+    }
+
+    // Share out cast and elements: each part takes a subset, and nothing may be dropped
+    const castIdSet = new Set(existing.cast.map((c) => c.characterId));
+    const elementIdSet = new Set(existing.elements.map((e) => e.elementId));
+    const partCastIds = parts.map((p) => p.castIds ?? [...castIdSet]);
+    const partElementIds = parts.map((p) => p.elementIds ?? [...elementIdSet]);
+
+    if (partCastIds.flat().some((id) => !castIdSet.has(id))) {
+      return NextResponse.json(
+        { error: "Parts can only take cast from the sheet being split" },
+        { status: 400 }
+      );
+    }
+    if (partElementIds.flat().some((id) => !elementIdSet.has(id))) {
+      return NextResponse.json(
+        { error: "Parts can only take elements from the sheet being split" },
+        { status: 400 }
+      );
+    }
+    if ([...castIdSet].some((id) => !partCastIds.some((ids) => ids.includes(id)))) {
+      return NextResponse.json(
+        { error: "Every cast member must be on at least one part" },
+        { status: 400 }
+      );
+    }
+    if ([...elementIdSet].some((id) => !partElementIds.some((ids) => ids.includes(id)))) {
+      return NextResponse.json(
+        { error: "Every element must be on at least one part" },
+        { status: 400 }
+      );
+    }
+
+    // Everything but the scene numbers, length, cast and elements carries over to each part
+    const { sortOrder, stripSlots } = existing;
+    const sharedFields = {
+      projectId,
+      intExt: existing.intExt,
+      location: existing.location,
+      dayNight: existing.dayNight,
+      description: existing.description,
+      storyDay: existing.storyDay,
+      cameraSetups: existing.cameraSetups,
+      isFlashback: existing.isFlashback,
+      stripTag: existing.stripTag,
+      isOmitted: existing.isOmitted,
+      scriptText: existing.scriptText, // Tags stay with the first part
+      ...Object.fromEntries(DEPARTMENT_TEXT_FIELDS.map((field) => [field, existing[field]])),
+    };
+    const extraParts = parts.length - 1;
+
+    const breakdowns = await prisma.$transaction(async (tx) => {
+      // The first part keeps the original sheet, its strips and its revision history
+      await tx.breakdownSheet.update({
+        where: { id: bdId },
+        data: {
+          sceneNumbers: partScenes[0].display,
+          ...partPages[0],
+        },
+      });
+      await tx.breakdownCast.deleteMany({
+        where: { breakdownId: bdId, characterId: { notIn: partCastIds[0] } },
+      });
+      await tx.breakdownElement.deleteMany({
+        where: { breakdownId: bdId, elementId: { notIn: partElementIds[0] } },
+      });
+      await tx.elementTag.deleteMany({
+        where: { breakdownId: bdId, elementId: { notIn: partElementIds[0] } },
+      });
+
+      // Later parts follow the original in the breakdown list and on the board
+      await tx.breakdownSheet.updateMany({
+        where: { projectId, sortOrder: { gt: sortOrder } },
+        data: { sortOrder: { increment: extraParts } },
+      });
+
+      const ids = [bdId];
+      for (let index = 1; index < parts.length; index++) {
+        const created = await tx.breakdownSheet.create({
+          data: {
+            ...sharedFields,
+            sceneNumbers: partScenes[index].display,
+            ...partPages[index],
+            sortOrder: sortOrder + index,
+            cast: {
+              create: partCastIds[index].map((characterId) => ({ characterId })),
+            },
+            elements: {
+              create: partElementIds[index].map((elementId) => ({ elementId })),
+            },
+          },
+        });
+        ids.push(created.id);
+      }
+
+      // Every part keeps the sheet's constraints
+      const constraints = await tx.scheduleConstraint.findMany({
+        where: { OR: [{ breakdownId: bdId }, { laterBreakdownId: bdId }] },
+      });
+      await tx.scheduleConstraint.createMany({
+        data: ids.slice(1).flatMap((partId) =>
+          constraints.map((c) => ({
+            projectId: c.projectId,
+            type: c.type,
+            characterId: c.characterId,
+            location: c.location,
+            breakdownId: c.breakdownId === bdId ? partId : c.breakdownId,
+            laterBreakdownId: c.laterBreakdownId === bdId ? partId : c.laterBreakdownId,
+            dates: c.dates,
+            weekdays: c.weekdays,
+            maxEighths: c.maxEighths,
+            notes: c.notes,
+          }))
+        ),
+      });
+      for (const stripSlot of stripSlots) {
+        await recordBoardChange(
+          tx,
+          { scheduleId: stripSlot.scheduleId, userId: session.user.id },
+          `Split Sc. ${existing.sceneNumbers} into ${parts.length} parts`,
+          () => insertStripsAfter(tx, stripSlot, ids.slice(1))
+        );
+      }
+
+      return tx.breakdownSheet.findMany({
+        where: { id: { in: ids } },
+        orderBy: { sortOrder: "asc" },
+        include: {
+          cast: {
+            include: { character: true },
+            orderBy: { character: { number: "asc" } },
+          },
+          elements: {
+            include: { element: true },
+            orderBy: { element: { name: "asc" } },
+          },
+        },
+      });
+    });
+
+    return NextResponse.json(breakdowns, { status: 201 });
+  } catch (error) {
+    console.error("Error splitting breakdown:", error);
+    return NextResponse.json(
+      { error: "Failed to split breakdown" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+
+interface RouteParams {
+  params: Promise<{ id: string; bdId: string; tagId: string }>;
+}
+
+// DELETE /api/projects/[id]/breakdowns/[bdId]/tags/[tagId] - Remove a tag
+// The element stays linked to the sheet while other tags for it remain.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, bdId, tagId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to tag elements" },
+        { status: 403 }
+      );
+    }
+
+    const tag = await prisma.elementTag.findFirst({
+      where: { id: tagId, breakdownId: bdId, breakdown: { projectId } },
+    });
+
+    if (!tag) {
+      return NextResponse.json(
+        { error: "Tag not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.elementTag.delete({
+        where: { id: tagId },
+      });
+
+      const remaining = await tx.elementTag.count({
+        where: { breakdownId: bdId, elementId: tag.elementId },
+      });
+      if (remaining === 0) {
+        await tx.breakdownElement.deleteMany({
+          where: { breakdownId: bdId, elementId: tag.elementId },
+        });
+      }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting element tag:", error);
+    return NextResponse.json(
+      { error: "Failed to delete element tag" },
+      { status: 500 }
+    );
+  }
+}
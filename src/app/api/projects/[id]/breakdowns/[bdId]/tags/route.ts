@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { ElementCategory } from "@prisma/client";
+import { tagText } from "@/lib/element-tags";
+
+interface RouteParams {
+  params: Promise<{ id: string; bdId: string }>;
+}
+
+// GET /api/projects/[id]/breakdowns/[bdId]/tags - A sheet's script text and element tags
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, bdId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const breakdown = await prisma.breakdownSheet.findFirst({
+      where: { id: bdId, projectId },
+      select: {
+        id: true,
+        scriptText: true,
+        elementTags: {
+          include: { element: true },
+          orderBy: { start: "asc" },
+        },
+      },
+    });
+
+    if (!breakdown) {
+      return NextResponse.json(
+        { error: "Breakdown not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      scriptText: breakdown.scriptText,
+      tags: breakdown.elementTags,
+    });
+  } catch (error) {
+    console.error("Error fetching element tags:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch element tags" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/breakdowns/[bdId]/tags - Tag a range of the script text
+// Tags an existing element (elementId) or finds/creates one by category and name,
+// and links it to the sheet so reports pick it up.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, bdId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to tag elements" },
+        { status: 403 }
+      );
+    }
+
+    const breakdown = await prisma.breakdownSheet.findFirst({
+      where: { id: bdId, projectId },
+      select: { id: true, scriptText: true },
+    });
+
+    if (!breakdown) {
+      return NextResponse.json(
+        { error: "Breakdown not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!breakdown.scriptText) {
+      return NextResponse.json(
+        { error: "This breakdown has no script text to tag" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { start, end, elementId, category, name } = body;
+
+    const text = tagText(breakdown.scriptText, start, end);
+    if (text === null) {
+      return NextResponse.json(
+        { error: "start and end must select text within the script" },
+        { status: 400 }
+      );
+    }
+
+    let element;
+    if (elementId) {
+      element = await prisma.productionElement.findFirst({
+        where: { id: elementId, projectId },
+      });
+      if (!element) {
+        return NextResponse.json(
+          { error: "Element not found" },
+          { status: 404 }
+        );
+      }
+    } else {
+      if (!category || !Object.values(ElementCategory).includes(category)) {
+        return NextResponse.json(
+          { error: "Valid category is required" },
+          { status: 400 }
+        );
+      }
+      const elementName = typeof name === "string" && name.trim() ? name.trim() : text.trim();
+      element = await prisma.productionElement.upsert({
+        where: {
+          projectId_category_name: { projectId, category, name: elementName },
+        },
+        update: {},
+        create: { projectId, category, name: elementName },
+      });
+    }
+
+    const tag = await prisma.$transaction(async (tx) => {
+      await tx.breakdownElement.createMany({
+        data: [{ breakdownId: bdId, elementId: element.id }],
+        skipDuplicates: true,
+      });
+
+      return tx.elementTag.create({
+        data: { breakdownId: bdId, elementId: element.id, start, end, text },
+        include: { element: true },
+      });
+    });
+
+    return NextResponse.json(tag, { status: 201 });
+  } catch (error) {
+    console.error("Error tagging element:", error);
+    return NextResponse.json(
+      { error: "Failed to tag element" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,288 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface BatchChanges {
+  location?: string | null;
+  dayNight?: string | null;
+  storyDay?: number | string | null;
+  isFlashback?: boolean;
+  addCastIds?: string[];
+  removeCastIds?: string[];
+  addElementIds?: string[];
+  removeElementIds?: string[];
+}
+
+type SheetResult = {
+  breakdownId: string;
+  sceneNumbers: string | null;
+  status: "updated" | "unchanged" | "failed";
+  error?: string;
+};
+
+const DAY_NIGHT_VALUES = ["DAY", "NIGHT", "DUSK", "DAWN", "DAY_FOR_NIGHT"];
+const MAX_BATCH = 500;
+
+function idList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((id) => typeof id !== "string")) return null;
+  return [...new Set(value as string[])];
+}
+
+// POST /api/projects/[id]/breakdowns/batch - Apply one set of changes to many breakdowns
+// Sheets that fail validation are reported and left alone; the rest are updated
+// together in one transaction. The response lists the outcome for every sheet.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit breakdowns" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const breakdownIds = idList(body.breakdownIds);
+    const changes: BatchChanges = body.changes || {};
+
+    if (!breakdownIds || breakdownIds.length === 0 || breakdownIds.length > MAX_BATCH) {
+      return NextResponse.json(
+        { error: `breakdownIds must be an array of 1 to ${MAX_BATCH} breakdown IDs` },
+        { status: 400 }
+      );
+    }
+
+    // Scalar changes are the same for every sheet
+    const updateData: Record<string, unknown> = {};
+
+    if (changes.location !== undefined) {
+      if (changes.location !== null && typeof changes.location !== "string") {
+        return NextResponse.json(
+          { error: "Location must be a string" },
+          { status: 400 }
+        );
+      }
+      updateData.location = changes.location?.trim() || null;
+    }
+    if (changes.dayNight !== undefined) {
+      if (changes.dayNight && !DAY_NIGHT_VALUES.includes(changes.dayNight)) {
+        return NextResponse.json(
+          { error: `Day/night must be one of ${DAY_NIGHT_VALUES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      updateData.dayNight = changes.dayNight || null;
+    }
+    if (changes.storyDay !== undefined) {
+      if (changes.storyDay === null || changes.storyDay === "") {
+        updateData.storyDay = null;
+      } else {
+        const storyDay = Number(changes.storyDay);
+        if (!Number.isInteger(storyDay) || storyDay < 1) {
+          return NextResponse.json(
+            { error: "Story day must be a whole number of 1 or more" },
+            { status: 400 }
+          );
+        }
+        updateData.storyDay = storyDay;
+      }
+    }
+    if (changes.isFlashback !== undefined) {
+      if (typeof changes.isFlashback !== "boolean") {
+        return NextResponse.json(
+          { error: "isFlashback must be true or false" },
+          { status: 400 }
+        );
+      }
+      updateData.isFlashback = changes.isFlashback;
+    }
+
+    const addCastIds = idList(changes.addCastIds);
+    const removeCastIds = idList(changes.removeCastIds);
+    const addElementIds = idList(changes.addElementIds);
+    const removeElementIds = idList(changes.removeElementIds);
+
+    if (!addCastIds || !removeCastIds || !addElementIds || !removeElementIds) {
+      return NextResponse.json(
+        { error: "Cast and element changes must be arrays of IDs" },
+        { status: 400 }
+      );
+    }
+    if (addCastIds.some((id) => removeCastIds.includes(id))) {
+      return NextResponse.json(
+        { error: "A cast member can't be both added and removed" },
+        { status: 400 }
+      );
+    }
+    if (addElementIds.some((id) => removeElementIds.includes(id))) {
+      return NextResponse.json(
+        { error: "An element can't be both added and removed" },
+        { status: 400 }
+      );
+    }
+
+    const hasRelationChanges =
+      addCastIds.length + removeCastIds.length + addElementIds.length + removeElementIds.length > 0;
+    if (Object.keys(updateData).length === 0 && !hasRelationChanges) {
+      return NextResponse.json(
+        { error: "No changes given" },
+        { status: 400 }
+      );
+    }
+
+    // Cast and elements must belong to this project
+    const [characters, elements] = await Promise.all([
+      prisma.character.findMany({
+        where: { projectId, id: { in: [...addCastIds, ...removeCastIds] } },
+        select: { id: true },
+      }),
+      prisma.productionElement.findMany({
+        where: { projectId, id: { in: [...addElementIds, ...removeElementIds] } },
+        select: { id: true },
+      }),
+    ]);
+    if (characters.length !== addCastIds.length + removeCastIds.length) {
+      return NextResponse.json(
+        { error: "Some cast members were not found in this project" },
+        { status: 400 }
+      );
+    }
+    if (elements.length !== addElementIds.length + removeElementIds.length) {
+      return NextResponse.json(
+        { error: "Some elements were not found in this project" },
+        { status: 400 }
+      );
+    }
+
+    const sheets = await prisma.breakdownSheet.findMany({
+      where: { projectId, id: { in: breakdownIds } },
+      select: {
+        id: true,
+        sceneNumbers: true,
+        location: true,
+        dayNight: true,
+        storyDay: true,
+        isFlashback: true,
+        isOmitted: true,
+        cast: { select: { characterId: true } },
+        elements: { select: { elementId: true } },
+      },
+    });
+    const sheetsById = new Map(sheets.map((sheet) => [sheet.id, sheet]));
+
+    // Check each sheet on its own so one bad sheet doesn't block the rest
+    const results: SheetResult[] = [];
+    const changedIds: string[] = [];
+
+    for (const breakdownId of breakdownIds) {
+      const sheet = sheetsById.get(breakdownId);
+      if (!sheet) {
+        results.push({ breakdownId, sceneNumbers: null, status: "failed", error: "Breakdown not found" });
+        continue;
+      }
+      if (sheet.isOmitted) {
+        results.push({
+          breakdownId,
+          sceneNumbers: sheet.sceneNumbers,
+          status: "failed",
+          error: `Scene ${sheet.sceneNumbers} is omitted`,
+        });
+        continue;
+      }
+
+      const castIds = new Set(sheet.cast.map((c) => c.characterId));
+      const elementIds = new Set(sheet.elements.map((e) => e.elementId));
+      const changed =
+        Object.entries(updateData).some(
+          ([field, value]) => sheet[field as keyof typeof sheet] !== value
+        ) ||
+        addCastIds.some((id) => !castIds.has(id)) ||
+        removeCastIds.some((id) => castIds.has(id)) ||
+        addElementIds.some((id) => !elementIds.has(id)) ||
+        removeElementIds.some((id) => elementIds.has(id));
+
+      results.push({
+        breakdownId,
+        sceneNumbers: sheet.sceneNumbers,
+        status: changed ? "updated" : "unchanged",
+      });
+      if (changed) changedIds.push(breakdownId);
+    }
+
+    if (changedIds.length > 0) {
+      await prisma.$transaction(async (tx) => {
+        if (Object.keys(updateData).length > 0) {
+          await tx.breakdownSheet.updateMany({
+            where: { id: { in: changedIds } },
+            data: updateData,
+          });
+        }
+
+        if (addCastIds.length > 0) {
+          await tx.breakdownCast.createMany({
+            data: changedIds.flatMap((breakdownId) =>
+              addCastIds.map((characterId) => ({ breakdownId, characterId }))
+            ),
+            skipDuplicates: true,
+          });
+        }
+        if (removeCastIds.length > 0) {
+          await tx.breakdownCast.deleteMany({
+            where: { breakdownId: { in: changedIds }, characterId: { in: removeCastIds } },
+          });
+        }
+
+        if (addElementIds.length > 0) {
+          await tx.breakdownElement.createMany({
+            data: changedIds.flatMap((breakdownId) =>
+              addElementIds.map((elementId) => ({ breakdownId, elementId }))
+            ),
+            skipDuplicates: true,
+          });
+        }
+        if (removeElementIds.length > 0) {
+          await tx.breakdownElement.deleteMany({
+            where: { breakdownId: { in: changedIds }, elementId: { in: removeElementIds } },
+          });
+          // Tags can't outlive their element's link to the sheet
+          await tx.elementTag.deleteMany({
+            where: { breakdownId: { in: changedIds }, elementId: { in: removeElementIds } },
+          });
+        }
+      });
+    }
+
+    return NextResponse.json({
+      updated: results.filter((r) => r.status === "updated").length,
+      unchanged: results.filter((r) => r.status === "unchanged").length,
+      failed: results.filter((r) => r.status === "failed").length,
+      results,
+    });
+  } catch (error) {
+    console.error("Error batch updating breakdowns:", error);
+    return NextResponse.json(
+      { error: "Failed to update breakdowns" },
+      { status: 500 }
+    );
+  }
+}
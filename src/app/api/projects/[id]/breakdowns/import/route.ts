@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { parsePageCount } from "@/lib/page-count";
+import { SCRIPT_PARSERS, scriptParser } from "@/lib/script-parsers";
+import { planScriptImport } from "@/lib/script-import";
+import { appendStrips } from "@/lib/strip-board";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/breakdowns/import - Preview or import a screenplay
+// Without `commit: true` nothing is written; the response is the import plan.
+// Scenes matching an existing sheet's scene number update that sheet; scenes
+// another sheet already covers (in a range or in parts) are skipped.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to import scripts" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { format, content, commit } = body;
+
+    const parser = scriptParser(format);
+    if (!parser) {
+      return NextResponse.json(
+        { error: `format must be one of: ${Object.keys(SCRIPT_PARSERS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!content || typeof content !== "string") {
+      return NextResponse.json(
+        { error: "Script content is required" },
+        { status: 400 }
+      );
+    }
+
+    const scenes = parser(content);
+    if (scenes.length === 0) {
+      return NextResponse.json(
+        { error: "No scene headings found in script" },
+        { status: 400 }
+      );
+    }
+
+    const [existingSheets, existingCharacters] = await Promise.all([
+      prisma.breakdownSheet.findMany({
+        where: { projectId },
+        select: {
+          id: true,
+          sceneNumbers: true,
+          intExt: true,
+          location: true,
+          dayNight: true,
+          pageCount: true,
+          isOmitted: true,
+          cast: { select: { character: { select: { name: true } } } },
+        },
+      }),
+      prisma.character.findMany({
+        where: { projectId },
+        select: { id: true, number: true, name: true },
+      }),
+    ]);
+
+    const plan = planScriptImport(
+      scenes,
+      existingSheets.map(({ cast, ...sheet }) => ({
+        ...sheet,
+        castNames: cast.map((c) => c.character.name),
+      })),
+      existingCharacters
+    );
+
+    if (!commit) {
+      return NextResponse.json(plan);
+    }
+
+    const newScenes = plan.scenes.filter((scene) => scene.status === "new");
+    const changedScenes = plan.scenes.filter((scene) => scene.status === "changed");
+    const skippedCount = plan.scenes.filter((scene) => scene.status === "skipped").length;
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Create characters for speaking parts not yet on the cast list
+      const maxNumber = await tx.character.aggregate({
+        where: { projectId },
+        _max: { number: true },
+      });
+      let nextNumber = (maxNumber._max.number || 0) + 1;
+
+      const characterIds = new Map(
+        plan.matchedCharacters.map((c) => [c.name, c.characterId])
+      );
+
+      for (const name of plan.newCharacters) {
+        const character = await tx.character.create({
+          data: {
+            projectId,
+            // Cue names are upper case; store them title-cased like hand-entered names
+            name: name.toLowerCase().replace(/\b\w/g, (ch) => ch.toUpperCase()),
+            number: nextNumber++,
+          },
+        });
+        characterIds.set(name, character.id);
+      }
+
+      const maxSortOrder = await tx.breakdownSheet.aggregate({
+        where: { projectId },
+        _max: { sortOrder: true },
+      });
+      let nextSortOrder = (maxSortOrder._max.sortOrder || 0) + 1;
+
+      const castIdsFor = (names: string[]) =>
+        names
+          .map((name) => characterIds.get(name))
+          .filter((id): id is string => !!id);
+
+      // Revised scenes: take the script's slugline and length, keep hand-entered
+      // details, and add any newly speaking cast. Omitted scenes keep everything
+      // and just become placeholders.
+      for (const scene of changedScenes) {
+        const breakdownId = scene.existingId!;
+        if (scene.omitted) {
+          await tx.breakdownSheet.update({
+            where: { id: breakdownId },
+            data: { isOmitted: true },
+          });
+          continue;
+        }
+        await tx.breakdownSheet.update({
+          where: { id: breakdownId },
+          data: {
+            intExt: scene.intExt,
+            location: scene.location,
+            dayNight: scene.dayNight,
+            pageCount: scene.pageCount,
+            pageEighths: scene.pageCount ? parsePageCount(scene.pageCount) : null,
+            isOmitted: false,
+          },
+        });
+        await tx.breakdownCast.createMany({
+          data: castIdsFor(scene.characters).map((characterId) => ({
+            breakdownId,
+            characterId,
+          })),
+          skipDuplicates: true,
+        });
+      }
+
+      const createdIds: string[] = [];
+      for (const scene of newScenes) {
+        const castIds = castIdsFor(scene.characters);
+
+        const breakdown = await tx.breakdownSheet.create({
+          data: {
+            projectId,
+            sceneNumbers: scene.sceneNumbers,
+            intExt: scene.intExt,
+            location: scene.location,
+            dayNight: scene.dayNight,
+            pageCount: scene.pageCount,
+            pageEighths: scene.pageCount ? parsePageCount(scene.pageCount) : null,
+            description: scene.description,
+            isOmitted: scene.omitted,
+            scriptText: scene.scriptText,
+            sortOrder: nextSortOrder++,
+            cast: {
+              create: castIds.map((characterId) => ({ characterId })),
+            },
+          },
+        });
+
+        createdIds.push(breakdown.id);
+      }
+
+      // New scenes go on the end of every schedule version, in script order
+      await appendStrips(tx, projectId, createdIds);
+
+      // Give sheets broken down before the script was imported their scene text
+      const sheetsWithoutText = await tx.breakdownSheet.findMany({
+        where: { projectId, scriptText: null },
+        select: { id: true },
+      });
+      const needsText = new Set(sheetsWithoutText.map((sheet) => sheet.id));
+      for (const scene of plan.scenes) {
+        if (scene.existingId && scene.scriptText && needsText.has(scene.existingId)) {
+          await tx.breakdownSheet.update({
+            where: { id: scene.existingId },
+            data: { scriptText: scene.scriptText },
+          });
+        }
+      }
+
+      return {
+        created: newScenes.length,
+        updated: changedScenes.length,
+        unchanged: plan.scenes.length - newScenes.length - changedScenes.length - skippedCount,
+        skipped: skippedCount,
+        charactersCreated: plan.newCharacters.length,
+      };
+    }, { timeout: 30000 }); // A feature script can mean a few hundred inserts
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error importing script:", error);
+    return NextResponse.json(
+      { error: "Failed to import script" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,18 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { normalizePageCount, PAGE_COUNT_FORMAT_MESSAGE } from "@/lib/page-count";
+import { findDuplicateScenes, parseSceneNumbers } from "@/lib/scene-numbers";
+import { appendStrips } from "@/lib/strip-board";
+import { breakdownFilterWhere, parseBreakdownFilters } from "@/lib/breakdown-filters";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-// GET /api/projects/[id]/breakdowns - List all breakdown sheets
+// GET /api/projects/[id]/breakdowns - List breakdown sheets
+// Optional filters: cast, element (repeatable; all must match), location,
+// intExt, dayNight, storyDay, flashback and q (free text)
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await auth();
@@ -25,9 +31,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    const parsed = parseBreakdownFilters(request.nextUrl.searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
     const breakdowns = await prisma.breakdownSheet.findMany({
-      where: { projectId },
+      where: breakdownFilterWhere(projectId, parsed.filters),
       orderBy: { sortOrder: "asc" },
+      omit: { scriptText: true },
       include: {
         cast: {
           include: {
@@ -94,6 +106,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       storyDay,
       cameraSetups,
       isFlashback,
+      stripTag,
+      isOmitted,
       stunts,
       extras,
       wardrobe,
@@ -110,6 +124,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       soundMusic,
       other,
       dqs,
+      scriptText,
       castIds,
       elementIds,
     } = body;
@@ -121,31 +136,38 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Get the next sortOrder
-    const maxSortOrder = await prisma.breakdownSheet.aggregate({
-      where: { projectId },
-      _max: { sortOrder: true },
-    });
-    const nextSortOrder = (maxSortOrder._max.sortOrder || 0) + 1;
+    const scenes = parseSceneNumbers(sceneNumbers);
+    if (!scenes.ok) {
+      return NextResponse.json({ error: scenes.error }, { status: 400 });
+    }
+
+    const pages = normalizePageCount(pageCount);
+    if (!pages) {
+      return NextResponse.json(
+        { error: PAGE_COUNT_FORMAT_MESSAGE },
+        { status: 400 }
+      );
+    }
 
-    // Get the project's schedule
-    const schedule = await prisma.schedule.findUnique({
+    // A scene can only be on one sheet unless every sheet marks it as a part
+    const otherSheets = await prisma.breakdownSheet.findMany({
       where: { projectId },
+      select: { sceneNumbers: true },
     });
-
-    if (!schedule) {
+    const duplicates = findDuplicateScenes(scenes.scenes, otherSheets);
+    if (duplicates.length > 0) {
       return NextResponse.json(
-        { error: "Project schedule not found" },
-        { status: 500 }
+        { error: `Scene ${duplicates.join(", ")} is already on another breakdown sheet` },
+        { status: 409 }
       );
     }
 
-    // Get the next strip position
-    const maxPosition = await prisma.stripSlot.aggregate({
-      where: { scheduleId: schedule.id },
-      _max: { position: true },
+    // Get the next sortOrder
+    const maxSortOrder = await prisma.breakdownSheet.aggregate({
+      where: { projectId },
+      _max: { sortOrder: true },
     });
-    const nextPosition = (maxPosition._max.position || 0) + 1;
+    const nextSortOrder = (maxSortOrder._max.sortOrder || 0) + 1;
 
     // Validate castIds if provided
     let validCastIds: string[] = [];
@@ -178,15 +200,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       const newBreakdown = await tx.breakdownSheet.create({
         data: {
           projectId,
-          sceneNumbers: sceneNumbers.trim(),
+          sceneNumbers: scenes.display,
           intExt: intExt || null,
           location: location?.trim() || null,
           dayNight: dayNight || null,
-          pageCount: pageCount?.trim() || null,
+          pageCount: pages.pageCount,
+          pageEighths: pages.pageEighths,
           description: description?.trim() || null,
           storyDay: storyDay ? parseInt(storyDay, 10) : null,
           cameraSetups: cameraSetups ? parseInt(cameraSetups, 10) : null,
           isFlashback: isFlashback || false,
+          stripTag: stripTag?.trim() || null,
+          isOmitted: isOmitted || false,
           sortOrder: nextSortOrder,
           stunts: stunts?.trim() || null,
           extras: extras?.trim() || null,
@@ -204,6 +229,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           soundMusic: soundMusic?.trim() || null,
           other: other?.trim() || null,
           dqs: dqs?.trim() || null,
+          scriptText: typeof scriptText === "string" && scriptText.trim() ? scriptText : null,
           cast: {
             create: validCastIds.map((characterId) => ({
               characterId,
@@ -225,14 +251,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         },
       });
 
-      // Auto-create strip slot
-      await tx.stripSlot.create({
-        data: {
-          scheduleId: schedule.id,
-          breakdownId: newBreakdown.id,
-          position: nextPosition,
-        },
-      });
+      // Auto-create a strip at the end of every schedule version
+      await appendStrips(tx, projectId, [newBreakdown.id]);
 
       return newBreakdown;
     });
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { sortByScriptOrder } from "@/lib/scene-numbers";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/breakdowns/script-order - Sort breakdown sheets into script order
+// Rewrites sortOrder by natural scene number (A12, 12, 12A, 13...); the strip board is untouched
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to reorder breakdowns" },
+        { status: 403 }
+      );
+    }
+
+    const breakdowns = await prisma.breakdownSheet.findMany({
+      where: { projectId },
+      orderBy: { sortOrder: "asc" },
+      select: { id: true, sceneNumbers: true },
+    });
+
+    const ordered = sortByScriptOrder(breakdowns);
+
+    await prisma.$transaction(
+      ordered.map((bd, index) =>
+        prisma.breakdownSheet.update({
+          where: { id: bd.id },
+          data: { sortOrder: index + 1 },
+        })
+      )
+    );
+
+    return NextResponse.json({ count: ordered.length });
+  } catch (error) {
+    console.error("Error ordering breakdowns by script:", error);
+    return NextResponse.json(
+      { error: "Failed to order breakdowns by script" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { normalizeStoredFilters } from "@/lib/breakdown-filters";
+
+interface RouteParams {
+  params: Promise<{ id: string; viewId: string }>;
+}
+
+// PATCH /api/projects/[id]/breakdowns/views/[viewId] - Rename a view or replace its filters
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, viewId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // Users only ever see their own views
+    const existing = await prisma.breakdownView.findFirst({
+      where: { id: viewId, projectId, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "View not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, filters } = body;
+    const updateData: { name?: string; filters?: object } = {};
+
+    if (name !== undefined) {
+      if (typeof name !== "string" || name.trim().length === 0) {
+        return NextResponse.json(
+          { error: "Name cannot be empty" },
+          { status: 400 }
+        );
+      }
+      const duplicate = await prisma.breakdownView.findFirst({
+        where: {
+          projectId,
+          userId: session.user.id,
+          name: name.trim(),
+          id: { not: viewId },
+        },
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `You already have a view named "${name.trim()}"` },
+          { status: 409 }
+        );
+      }
+      updateData.name = name.trim();
+    }
+
+    if (filters !== undefined) {
+      const parsed = normalizeStoredFilters(filters);
+      if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updateData.filters = { ...parsed.filters };
+    }
+
+    const view = await prisma.breakdownView.update({
+      where: { id: viewId },
+      data: updateData,
+    });
+
+    return NextResponse.json(view);
+  } catch (error) {
+    console.error("Error updating breakdown view:", error);
+    return NextResponse.json(
+      { error: "Failed to update breakdown view" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/breakdowns/views/[viewId] - Delete a saved view
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, viewId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const existing = await prisma.breakdownView.findFirst({
+      where: { id: viewId, projectId, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "View not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.breakdownView.delete({
+      where: { id: viewId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting breakdown view:", error);
+    return NextResponse.json(
+      { error: "Failed to delete breakdown view" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { normalizeStoredFilters } from "@/lib/breakdown-filters";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/breakdowns/views - List the current user's saved views
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const views = await prisma.breakdownView.findMany({
+      where: { projectId, userId: session.user.id },
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json(views);
+  } catch (error) {
+    console.error("Error fetching breakdown views:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch breakdown views" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/breakdowns/views - Save a named view
+// Views are private to the user, so viewers can save them too.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, filters } = body;
+
+    if (!name || typeof name !== "string" || name.trim().length === 0) {
+      return NextResponse.json(
+        { error: "Name is required" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = normalizeStoredFilters(filters);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const existing = await prisma.breakdownView.findUnique({
+      where: {
+        projectId_userId_name: { projectId, userId: session.user.id, name: name.trim() },
+      },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: `You already have a view named "${name.trim()}"` },
+        { status: 409 }
+      );
+    }
+
+    const view = await prisma.breakdownView.create({
+      data: {
+        projectId,
+        userId: session.user.id,
+        name: name.trim(),
+        filters: { ...parsed.filters },
+      },
+    });
+
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    console.error("Error saving breakdown view:", error);
+    return NextResponse.json(
+      { error: "Failed to save breakdown view" },
+      { status: 500 }
+    );
+  }
+}
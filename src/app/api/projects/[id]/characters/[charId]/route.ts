@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { parseDropPickupDays } from "@/lib/day-out-of-days";
 
 interface RouteParams {
   params: Promise<{ id: string; charId: string }>;
@@ -45,7 +46,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { name, actor } = body;
+    const { name, actor, dropPickupDays } = body;
 
     const updateData: Record<string, unknown> = {};
 
@@ -63,6 +64,15 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       updateData.actor = actor?.trim() || null;
     }
 
+    // The character's own drop/pickup threshold, null for the project's
+    if (dropPickupDays !== undefined) {
+      const dropPickup = parseDropPickupDays(dropPickupDays, { nullable: true });
+      if (!dropPickup.ok) {
+        return NextResponse.json({ error: dropPickup.error }, { status: 400 });
+      }
+      updateData.dropPickupDays = dropPickup.days;
+    }
+
     const character = await prisma.character.update({
       where: { id: charId },
       data: updateData,
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+
+interface RouteParams {
+  params: Promise<{ id: string; constraintId: string }>;
+}
+
+// DELETE /api/projects/[id]/constraints/[constraintId] - Remove a constraint
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, constraintId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit constraints" },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.scheduleConstraint.findFirst({
+      where: { id: constraintId, projectId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Constraint not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.scheduleConstraint.delete({
+      where: { id: constraintId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting constraint:", error);
+    return NextResponse.json(
+      { error: "Failed to delete constraint" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { parseConstraintInput } from "@/lib/schedule-conflicts";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/constraints - List the project's scheduling constraints
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const constraints = await prisma.scheduleConstraint.findMany({
+      where: { projectId },
+      orderBy: [{ type: "asc" }, { createdAt: "asc" }],
+    });
+
+    return NextResponse.json(constraints);
+  } catch (error) {
+    console.error("Error fetching constraints:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch constraints" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/constraints - Add a scheduling constraint
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit constraints" },
+        { status: 403 }
+      );
+    }
+
+    const parsed = parseConstraintInput(await request.json());
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { constraint } = parsed;
+
+    if (constraint.characterId) {
+      const character = await prisma.character.findFirst({
+        where: { id: constraint.characterId, projectId },
+      });
+      if (!character) {
+        return NextResponse.json(
+          { error: "Character not found" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const breakdownIds = [constraint.breakdownId, constraint.laterBreakdownId].filter(
+      (id): id is string => id !== null
+    );
+    if (breakdownIds.length > 0) {
+      const found = await prisma.breakdownSheet.count({
+        where: { id: { in: breakdownIds }, projectId },
+      });
+      if (found !== breakdownIds.length) {
+        return NextResponse.json(
+          { error: "Breakdown sheet not found" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const created = await prisma.scheduleConstraint.create({
+      data: { ...constraint, projectId },
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Error creating constraint:", error);
+    return NextResponse.json(
+      { error: "Failed to create constraint" },
+      { status: 500 }
+    );
+  }
+}
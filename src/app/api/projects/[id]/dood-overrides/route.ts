@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { DOOD_OVERRIDE_CODES, type DoodOverrideCode } from "@/lib/day-out-of-days";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/projects/[id]/dood-overrides - List the travel, rehearsal and fitting days marked on the Day Out of Days
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const overrides = await prisma.doodOverride.findMany({
+      where: { projectId },
+      orderBy: { date: "asc" },
+    });
+
+    return NextResponse.json(overrides);
+  } catch (error) {
+    console.error("Error fetching Day Out of Days overrides:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch Day Out of Days overrides" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/dood-overrides - Mark a performer's day ({ characterId, date: YYYY-MM-DD, code })
+// code is TRAVEL, REHEARSAL or FITTING, or null to clear the day.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the Day Out of Days" },
+        { status: 403 }
+      );
+    }
+
+    const { characterId, date, code } = await request.json();
+
+    if (typeof date !== "string" || !DATE_PATTERN.test(date)) {
+      return NextResponse.json(
+        { error: "date must be a date such as 2026-12-25" },
+        { status: 400 }
+      );
+    }
+    if (code !== null && !Object.keys(DOOD_OVERRIDE_CODES).includes(code)) {
+      return NextResponse.json(
+        { error: `code must be one of ${Object.keys(DOOD_OVERRIDE_CODES).join(", ")}, or null` },
+        { status: 400 }
+      );
+    }
+
+    const character = await prisma.character.findFirst({
+      where: { id: characterId, projectId },
+    });
+    if (!character) {
+      return NextResponse.json(
+        { error: "Character not found" },
+        { status: 404 }
+      );
+    }
+
+    const where = { characterId_date: { characterId, date: new Date(date) } };
+
+    if (code === null) {
+      await prisma.doodOverride.deleteMany({ where: where.characterId_date });
+      return NextResponse.json({ success: true });
+    }
+
+    const override = await prisma.doodOverride.upsert({
+      where,
+      create: { projectId, characterId, date: new Date(date), code: code as DoodOverrideCode },
+      update: { code: code as DoodOverrideCode },
+    });
+
+    return NextResponse.json(override);
+  } catch (error) {
+    console.error("Error updating Day Out of Days override:", error);
+    return NextResponse.json(
+      { error: "Failed to update Day Out of Days override" },
+      { status: 500 }
+    );
+  }
+}
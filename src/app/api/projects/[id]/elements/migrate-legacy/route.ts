@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { LEGACY_ELEMENT_FIELDS } from "@/lib/breakdown-fields";
+import { planLegacyMigration } from "@/lib/legacy-elements";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/elements/migrate-legacy - Move legacy department text into the element library
+// Without `commit: true` nothing is written; the response is the dry-run plan.
+// With `clearText: true` the migrated department fields are emptied afterwards.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to migrate elements" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { commit, clearText } = body;
+
+    const [sheets, library] = await Promise.all([
+      prisma.breakdownSheet.findMany({
+        where: { projectId },
+        select: {
+          id: true,
+          sceneNumbers: true,
+          elements: { select: { elementId: true } },
+          stunts: true,
+          extras: true,
+          wardrobe: true,
+          props: true,
+          setDressing: true,
+          artDept: true,
+          specialPersonnel: true,
+          vehicles: true,
+          camera: true,
+          mechanicalFx: true,
+          visualFx: true,
+          specialEquip: true,
+          animals: true,
+          soundMusic: true,
+          other: true,
+          dqs: true,
+        },
+      }),
+      prisma.productionElement.findMany({
+        where: { projectId },
+        select: { id: true, category: true, name: true },
+      }),
+    ]);
+
+    const plan = planLegacyMigration(sheets, library);
+
+    if (!commit) {
+      return NextResponse.json(plan);
+    }
+
+    const migratedFields = LEGACY_ELEMENT_FIELDS.map(({ field }) => field);
+    const sheetIdsWithText = sheets
+      .filter((sheet) => migratedFields.some((field) => sheet[field]))
+      .map((sheet) => sheet.id);
+
+    const result = await prisma.$transaction(async (tx) => {
+      let elementsCreated = 0;
+      let linksCreated = 0;
+
+      for (const element of plan.elements) {
+        let elementId = element.elementId;
+        if (!elementId) {
+          const created = await tx.productionElement.create({
+            data: { projectId, category: element.category, name: element.name },
+          });
+          elementId = created.id;
+          elementsCreated++;
+        }
+
+        const links = await tx.breakdownElement.createMany({
+          data: element.links
+            .filter((link) => !link.alreadyLinked)
+            .map((link) => ({ breakdownId: link.breakdownId, elementId: elementId! })),
+          skipDuplicates: true,
+        });
+        linksCreated += links.count;
+      }
+
+      let sheetsCleared = 0;
+      if (clearText && sheetIdsWithText.length > 0) {
+        const cleared = await tx.breakdownSheet.updateMany({
+          where: { id: { in: sheetIdsWithText } },
+          data: Object.fromEntries(migratedFields.map((field) => [field, null])),
+        });
+        sheetsCleared = cleared.count;
+      }
+
+      return { elementsCreated, linksCreated, sheetsCleared };
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error migrating legacy elements:", error);
+    return NextResponse.json(
+      { error: "Failed to migrate legacy elements" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { syncProjectShootDates } from "@/lib/working-calendar";
+
+interface RouteParams {
+  params: Promise<{ id: string; holidayId: string }>;
+}
+
+// DELETE /api/projects/[id]/holidays/[holidayId] - Remove a holiday
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, holidayId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the calendar" },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.projectHoliday.findFirst({
+      where: { id: holidayId, projectId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Holiday not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.projectHoliday.delete({ where: { id: holidayId } });
+      await syncProjectShootDates(tx, projectId);
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting holiday:", error);
+    return NextResponse.json(
+      { error: "Failed to delete holiday" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { syncProjectShootDates } from "@/lib/working-calendar";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/projects/[id]/holidays - List the project's holidays
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const holidays = await prisma.projectHoliday.findMany({
+      where: { projectId },
+      orderBy: { date: "asc" },
+    });
+
+    return NextResponse.json(holidays);
+  } catch (error) {
+    console.error("Error fetching holidays:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch holidays" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/holidays - Add a holiday ({ date: YYYY-MM-DD, name })
+// No schedule version shoots on it; every version's dates are worked out again.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the calendar" },
+        { status: 403 }
+      );
+    }
+
+    const { date, name } = await request.json();
+
+    if (typeof date !== "string" || !DATE_PATTERN.test(date)) {
+      return NextResponse.json(
+        { error: "date must be a date such as 2026-12-25" },
+        { status: 400 }
+      );
+    }
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { error: "Holiday name is required" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.projectHoliday.findUnique({
+      where: { projectId_date: { projectId, date: new Date(date) } },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: `${date} is already a holiday (${existing.name})` },
+        { status: 409 }
+      );
+    }
+
+    const holiday = await prisma.$transaction(async (tx) => {
+      const created = await tx.projectHoliday.create({
+        data: { projectId, date: new Date(date), name: name.trim() },
+      });
+      await syncProjectShootDates(tx, projectId);
+      return created;
+    });
+
+    return NextResponse.json(holiday, { status: 201 });
+  } catch (error) {
+    console.error("Error creating holiday:", error);
+    return NextResponse.json(
+      { error: "Failed to create holiday" },
+      { status: 500 }
+    );
+  }
+}
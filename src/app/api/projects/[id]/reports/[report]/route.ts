@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { loadScheduleReport } from "@/lib/schedule-report";
+import { reportPDF } from "@/lib/report-pdf";
+import {
+  REPORT_TITLES,
+  parseDoodSubject,
+  reportFileName,
+  withOmittedPlaceholders,
+  withoutUnscheduledScenes,
+  type ReportType,
+} from "@/lib/reports";
+
+interface RouteParams {
+  params: Promise<{ id: string; report: string }>;
+}
+
+// GET /api/projects/[id]/reports/[type].pdf - Render a report as a PDF
+// Types are shooting, oneline, stripboard, dood and elements. ?subject= picks
+// the cast (the default) or an element category for the Day Out of Days.
+// Acts on the active version unless ?scheduleId= names another.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, report } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const type = report.replace(/\.pdf$/, "") as ReportType;
+    if (!report.endsWith(".pdf") || !Object.hasOwn(REPORT_TITLES, type)) {
+      return NextResponse.json(
+        { error: "Report not found" },
+        { status: 404 }
+      );
+    }
+
+    const subject = parseDoodSubject(request.nextUrl.searchParams.get("subject"));
+    if (!subject) {
+      return NextResponse.json(
+        { error: "subject must be CAST or an element category" },
+        { status: 400 }
+      );
+    }
+
+    const loaded = await loadScheduleReport(projectId, request.nextUrl.searchParams.get("scheduleId"));
+    if (!loaded) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const project = withoutUnscheduledScenes(loaded.project, loaded.schedule);
+    const schedule = withOmittedPlaceholders(loaded.schedule);
+    const doc = reportPDF(type, project, schedule, loaded.overrides, subject);
+
+    return new NextResponse(doc.output("arraybuffer"), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${reportFileName(project.title, type, subject)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering report:", error);
+    return NextResponse.json(
+      { error: "Failed to render report" },
+      { status: 500 }
+    );
+  }
+}
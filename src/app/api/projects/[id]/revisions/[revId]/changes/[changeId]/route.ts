@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { parsePageCount } from "@/lib/page-count";
+import { normalizeCharacterName } from "@/lib/script-import";
+import { findDuplicateScenes, parseSceneNumbers } from "@/lib/scene-numbers";
+import { appendStrips } from "@/lib/strip-board";
+
+interface RouteParams {
+  params: Promise<{ id: string; revId: string; changeId: string }>;
+}
+
+// PATCH /api/projects/[id]/revisions/[revId]/changes/[changeId] - Accept or reject a change
+// Accepting applies the change to the breakdown sheets:
+//   ADDED   - creates the sheet (and any new speaking characters) at the end of the board
+//   CHANGED - takes the revised slugline and length and adds new cast
+//   OMITTED - marks the sheet as an OMITTED placeholder, keeping its number and strip
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, revId, changeId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to review script revisions" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { status } = body;
+
+    if (status !== "ACCEPTED" && status !== "REJECTED") {
+      return NextResponse.json(
+        { error: "status must be ACCEPTED or REJECTED" },
+        { status: 400 }
+      );
+    }
+
+    const change = await prisma.scriptRevisionChange.findFirst({
+      where: { id: changeId, revisionId: revId, revision: { projectId } },
+    });
+
+    if (!change) {
+      return NextResponse.json(
+        { error: "Change not found" },
+        { status: 404 }
+      );
+    }
+
+    if (change.status !== "PENDING") {
+      return NextResponse.json(
+        { error: "This change has already been reviewed" },
+        { status: 400 }
+      );
+    }
+
+    if (status === "REJECTED") {
+      const rejected = await prisma.scriptRevisionChange.update({
+        where: { id: changeId },
+        data: { status, reviewedAt: new Date() },
+      });
+      return NextResponse.json(rejected);
+    }
+
+    if (change.type !== "ADDED" && !change.breakdownId) {
+      return NextResponse.json(
+        { error: `Scene ${change.sceneNumbers} no longer has a breakdown sheet` },
+        { status: 409 }
+      );
+    }
+
+    const accepted = await prisma.$transaction(async (tx) => {
+      // Checked again here so two reviewers can't both accept the change, and
+      // so no sheet for the scene is added in between
+      const current = await tx.scriptRevisionChange.findUniqueOrThrow({ where: { id: changeId } });
+      if (current.status !== "PENDING") {
+        return { ok: false as const, error: "This change has already been reviewed", status: 400 };
+      }
+
+      let sceneNumbers = change.sceneNumbers;
+      if (change.type === "ADDED") {
+        const parsed = parseSceneNumbers(change.sceneNumbers);
+        if (!parsed.ok) {
+          return { ok: false as const, error: parsed.error, status: 400 };
+        }
+        const sheets = await tx.breakdownSheet.findMany({
+          where: { projectId },
+          select: { sceneNumbers: true },
+        });
+        const duplicates = findDuplicateScenes(parsed.scenes, sheets);
+        if (duplicates.length > 0) {
+          return {
+            ok: false as const,
+            error: `Scene ${duplicates.join(", ")} is already on another breakdown sheet`,
+            status: 409,
+          };
+        }
+        sceneNumbers = parsed.display;
+      }
+
+      // Find the revised scene's speaking characters, creating any that are new
+      const castIdsFor = async (names: string[]) => {
+        if (names.length === 0) return [];
+
+        const characters = await tx.character.findMany({
+          where: { projectId },
+          select: { id: true, number: true, name: true },
+        });
+        const idsByName = new Map(
+          characters.map((c) => [normalizeCharacterName(c.name), c.id])
+        );
+        let nextNumber = Math.max(0, ...characters.map((c) => c.number)) + 1;
+
+        const ids: string[] = [];
+        for (const name of names) {
+          let characterId = idsByName.get(name);
+          if (!characterId) {
+            const character = await tx.character.create({
+              data: {
+                projectId,
+                // Cue names are upper case; store them title-cased like hand-entered names
+                name: name.toLowerCase().replace(/\b\w/g, (ch) => ch.toUpperCase()),
+                number: nextNumber++,
+              },
+            });
+            characterId = character.id;
+            idsByName.set(name, characterId);
+          }
+          ids.push(characterId);
+        }
+        return ids;
+      };
+
+      let breakdownId = change.breakdownId;
+
+      if (change.type === "ADDED") {
+        const castIds = await castIdsFor(change.characters);
+
+        const maxSortOrder = await tx.breakdownSheet.aggregate({
+          where: { projectId },
+          _max: { sortOrder: true },
+        });
+
+        const breakdown = await tx.breakdownSheet.create({
+          data: {
+            projectId,
+            sceneNumbers,
+            intExt: change.intExt,
+            location: change.location,
+            dayNight: change.dayNight,
+            pageCount: change.pageCount,
+            pageEighths: change.pageCount ? parsePageCount(change.pageCount) : null,
+            description: change.description,
+            sortOrder: (maxSortOrder._max.sortOrder || 0) + 1,
+            cast: {
+              create: castIds.map((characterId) => ({ characterId })),
+            },
+          },
+        });
+
+        await appendStrips(tx, projectId, [breakdown.id]);
+
+        breakdownId = breakdown.id;
+      } else if (change.type === "CHANGED") {
+        const castIds = await castIdsFor(change.characters);
+
+        await tx.breakdownSheet.update({
+          where: { id: breakdownId! },
+          data: {
+            intExt: change.intExt,
+            location: change.location,
+            dayNight: change.dayNight,
+            pageCount: change.pageCount,
+            pageEighths: change.pageCount ? parsePageCount(change.pageCount) : null,
+            isOmitted: false,
+          },
+        });
+
+        await tx.breakdownCast.createMany({
+          data: castIds.map((characterId) => ({
+            breakdownId: breakdownId!,
+            characterId,
+          })),
+          skipDuplicates: true,
+        });
+      } else {
+        await tx.breakdownSheet.update({
+          where: { id: breakdownId! },
+          data: { isOmitted: true },
+        });
+      }
+
+      const reviewed = await tx.scriptRevisionChange.update({
+        where: { id: changeId },
+        data: { status, breakdownId, reviewedAt: new Date() },
+      });
+      return { ok: true as const, change: reviewed };
+    });
+
+    if (!accepted.ok) {
+      return NextResponse.json({ error: accepted.error }, { status: accepted.status });
+    }
+
+    return NextResponse.json(accepted.change);
+  } catch (error) {
+    console.error("Error reviewing revision change:", error);
+    return NextResponse.json(
+      { error: "Failed to review revision change" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+
+interface RouteParams {
+  params: Promise<{ id: string; revId: string }>;
+}
+
+// GET /api/projects/[id]/revisions/[revId] - Fetch a revision with its scene changes
+// Each change includes the sheet as it currently stands so the review screen
+// can show both versions side by side.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, revId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const revision = await prisma.scriptRevision.findFirst({
+      where: { id: revId, projectId },
+      include: {
+        changes: {
+          include: {
+            breakdown: {
+              select: {
+                id: true,
+                sceneNumbers: true,
+                intExt: true,
+                location: true,
+                dayNight: true,
+                pageCount: true,
+                isOmitted: true,
+                cast: {
+                  select: { character: { select: { name: true } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: "Revision not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(revision);
+  } catch (error) {
+    console.error("Error fetching revision:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revision" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/revisions/[revId] - Delete a revision
+// Changes already accepted stay applied to the breakdown sheets.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, revId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to delete script revisions" },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.scriptRevision.findFirst({
+      where: { id: revId, projectId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Revision not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.scriptRevision.delete({
+      where: { id: revId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting revision:", error);
+    return NextResponse.json(
+      { error: "Failed to delete revision" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { SCRIPT_PARSERS, scriptParser } from "@/lib/script-parsers";
+import { diffRevision, nextRevisionColor } from "@/lib/script-revisions";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/revisions - List script revisions, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await prisma.scriptRevision.findMany({
+      where: { projectId },
+      orderBy: { createdAt: "desc" },
+      include: {
+        changes: { select: { type: true, status: true } },
+      },
+    });
+
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revisions" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/revisions - Upload a revised script
+// The revision takes the next page color and records every scene that was
+// added, omitted or changed against the current breakdown sheets. Nothing
+// is applied to the sheets until each change is accepted.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to add script revisions" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { format, content, revisionDate, notes } = body;
+
+    const parser = scriptParser(format);
+    if (!parser) {
+      return NextResponse.json(
+        { error: `format must be one of: ${Object.keys(SCRIPT_PARSERS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!content || typeof content !== "string") {
+      return NextResponse.json(
+        { error: "Script content is required" },
+        { status: 400 }
+      );
+    }
+
+    const date = revisionDate ? new Date(revisionDate) : new Date();
+    if (isNaN(date.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid revision date" },
+        { status: 400 }
+      );
+    }
+
+    const scenes = parser(content);
+    if (scenes.length === 0) {
+      return NextResponse.json(
+        { error: "No scene headings found in script" },
+        { status: 400 }
+      );
+    }
+
+    const existingSheets = await prisma.breakdownSheet.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        sceneNumbers: true,
+        intExt: true,
+        location: true,
+        dayNight: true,
+        pageCount: true,
+        isOmitted: true,
+        cast: { select: { character: { select: { name: true } } } },
+      },
+    });
+
+    const changes = diffRevision(
+      scenes,
+      existingSheets.map(({ cast, ...sheet }) => ({
+        ...sheet,
+        castNames: cast.map((c) => c.character.name),
+      }))
+    );
+
+    const revision = await prisma.$transaction(async (tx) => {
+      const revisionCount = await tx.scriptRevision.count({
+        where: { projectId },
+      });
+
+      // The latest revision is the project's current draft
+      await tx.project.update({
+        where: { id: projectId },
+        data: { scriptDate: date },
+      });
+
+      return tx.scriptRevision.create({
+        data: {
+          projectId,
+          color: nextRevisionColor(revisionCount),
+          revisionDate: date,
+          notes: notes?.trim() || null,
+          changes: {
+            create: changes.map((change) => ({
+              type: change.type,
+              breakdownId: change.breakdownId,
+              sceneNumbers: change.sceneNumbers,
+              changedFields: change.changedFields,
+              intExt: change.scene?.intExt ?? null,
+              location: change.scene?.location ?? null,
+              dayNight: change.scene?.dayNight ?? null,
+              pageCount: change.scene?.pageCount ?? null,
+              description: change.scene?.description ?? null,
+              characters: change.scene?.characters ?? [],
+            })),
+          },
+        },
+        include: {
+          changes: { select: { type: true, status: true } },
+        },
+      });
+    });
+
+    return NextResponse.json(revision, { status: 201 });
+  } catch (error) {
+    console.error("Error creating revision:", error);
+    return NextResponse.json(
+      { error: "Failed to create revision" },
+      { status: 500 }
+    );
+  }
+}
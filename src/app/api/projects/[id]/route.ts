@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { ANCHOR_POSITION, withBoardPositions } from "@/lib/strip-board";
+import { parseTimeModel } from "@/lib/shooting-time";
+import { parseDropPickupDays } from "@/lib/day-out-of-days";
+import { parseStripStyle } from "@/lib/strip-style";
+import { Prisma } from "@prisma/client";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -44,6 +49,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         },
         breakdowns: {
           orderBy: { sortOrder: "asc" },
+          // Script text is loaded per sheet by the tagging view
+          omit: { scriptText: true },
           include: {
             cast: {
               include: {
@@ -57,7 +64,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             },
           },
         },
-        schedule: {
+        schedules: {
+          where: { isActive: true },
           include: {
             stripSlots: {
               orderBy: { position: "asc" },
@@ -75,12 +83,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
                 },
               },
             },
-            dayBreaks: {
-              orderBy: { afterPosition: "asc" },
-            },
-            banners: {
-              orderBy: { afterPosition: "asc" },
-            },
+            dayBreaks: { include: ANCHOR_POSITION },
+            banners: { include: ANCHOR_POSITION },
           },
         },
       },
@@ -90,8 +94,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
+    // Clients see the active schedule version as the project's schedule
+    const { schedules, ...rest } = project;
+
     return NextResponse.json({
-      ...project,
+      ...rest,
+      schedule: schedules[0] ? withBoardPositions(schedules[0]) : null,
       userAccess: access,
     });
   } catch (error) {
@@ -104,6 +112,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 }
 
 // PATCH /api/projects/[id] - Update project fields
+// Also takes the shooting-time model: minutesPerSetup, minutesPerEighth,
+// companyMoveMinutes, mealBreakMinutes and maxDayMinutes, and the strip
+// board's stripColorRules and stripLayout (null for the defaults).
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await auth();
@@ -160,6 +171,29 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       updateData.scriptDate = scriptDate ? new Date(scriptDate) : null;
     }
 
+    // Shooting-time model fields, each optional
+    const timeModel = parseTimeModel(body);
+    if (!timeModel.ok) {
+      return NextResponse.json({ error: timeModel.error }, { status: 400 });
+    }
+    Object.assign(updateData, timeModel.model);
+
+    if (body.dropPickupDays !== undefined) {
+      const dropPickup = parseDropPickupDays(body.dropPickupDays, { nullable: false });
+      if (!dropPickup.ok) {
+        return NextResponse.json({ error: dropPickup.error }, { status: 400 });
+      }
+      updateData.dropPickupDays = dropPickup.days;
+    }
+
+    const stripStyle = parseStripStyle(body);
+    if (!stripStyle.ok) {
+      return NextResponse.json({ error: stripStyle.error }, { status: 400 });
+    }
+    for (const [field, value] of Object.entries(stripStyle.style)) {
+      updateData[field] = value === null ? Prisma.DbNull : value;
+    }
+
     const project = await prisma.project.update({
       where: { id },
       data: updateData,
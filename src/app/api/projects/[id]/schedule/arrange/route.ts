@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { describeArrangement, recordBoardChange } from "@/lib/schedule-history";
+import { arrangeBoard, planArrangement, type BoardItem } from "@/lib/strip-board";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const ITEM_TYPES = ["strip", "dayBreak", "banner"];
+
+// POST /api/projects/[id]/schedule/arrange - Lay out the whole board at once
+// Body: { items: { type: "strip" | "dayBreak" | "banner", id }[] } in board order.
+// Strips, day breaks and banners can all be moved. A day break left with no
+// strips in its day is removed, and the rest are renumbered.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to reorder the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { items } = body;
+
+    if (
+      !Array.isArray(items) ||
+      items.some(
+        (item) =>
+          !item ||
+          !ITEM_TYPES.includes(item.type) ||
+          typeof item.id !== "string"
+      )
+    ) {
+      return NextResponse.json(
+        { error: "items must be an array of { type, id } with type strip, dayBreak or banner" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const select = { id: true } as const;
+    const [strips, dayBreaks, banners] = await Promise.all([
+      prisma.stripSlot.findMany({ where: { scheduleId: schedule.id }, select }),
+      prisma.dayBreak.findMany({ where: { scheduleId: schedule.id }, select }),
+      prisma.bannerStrip.findMany({ where: { scheduleId: schedule.id }, select }),
+    ]);
+
+    const planned = planArrangement(
+      {
+        strip: strips.map((s) => s.id),
+        dayBreak: dayBreaks.map((db) => db.id),
+        banner: banners.map((b) => b.id),
+      },
+      items as BoardItem[]
+    );
+
+    if (!planned.ok) {
+      return NextResponse.json({ error: planned.error }, { status: 409 });
+    }
+
+    await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        describeArrangement,
+        () => arrangeBoard(tx, schedule.id, planned.arrangement)
+      )
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error arranging schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to arrange schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { recordBoardChange } from "@/lib/schedule-history";
 
 interface RouteParams {
   params: Promise<{ id: string; bId: string }>;
@@ -33,9 +35,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     // Get the schedule
-    const schedule = await prisma.schedule.findUnique({
-      where: { projectId },
-    });
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
 
     if (!schedule) {
       return NextResponse.json(
@@ -56,9 +56,14 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    await prisma.bannerStrip.delete({
-      where: { id: bId },
-    });
+    await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        `Removed the "${banner.label}" banner`,
+        () => tx.bannerStrip.delete({ where: { id: bId } })
+      )
+    );
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { recordBoardChange } from "@/lib/schedule-history";
+import { ANCHOR_POSITION, placeOnBoard } from "@/lib/strip-board";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -10,6 +13,7 @@ interface RouteParams {
 const VALID_BANNER_TYPES = ["TRAVEL", "MOVE", "HOLIDAY", "PRERIG", "INFO"];
 
 // POST /api/projects/[id]/schedule/banners - Create a banner strip
+// Body: { afterStripId, label, bannerType } - afterStripId null puts it at the top
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await auth();
@@ -35,11 +39,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { afterPosition, label, bannerType } = body;
+    const { afterStripId = null, label, bannerType } = body;
 
-    if (typeof afterPosition !== "number" || afterPosition < 0) {
+    if (afterStripId !== null && typeof afterStripId !== "string") {
       return NextResponse.json(
-        { error: "afterPosition must be a non-negative number" },
+        { error: "afterStripId must be a strip ID or null" },
         { status: 400 }
       );
     }
@@ -59,9 +63,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     // Get the schedule
-    const schedule = await prisma.schedule.findUnique({
-      where: { projectId },
-    });
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
 
     if (!schedule) {
       return NextResponse.json(
@@ -70,16 +72,45 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const banner = await prisma.bannerStrip.create({
-      data: {
-        scheduleId: schedule.id,
-        afterPosition,
-        label: label.trim(),
-        bannerType,
-      },
-    });
+    if (afterStripId) {
+      const strip = await prisma.stripSlot.findFirst({
+        where: { id: afterStripId, scheduleId: schedule.id },
+      });
+      if (!strip) {
+        return NextResponse.json(
+          { error: "Strip not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const banner = await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        `Added the "${label.trim()}" banner`,
+        async () => {
+          // New banners go after any already following the same strip
+          const last = await tx.bannerStrip.aggregate({
+            where: { scheduleId: schedule.id, afterStripId },
+            _max: { sortOrder: true },
+          });
+
+          return tx.bannerStrip.create({
+            data: {
+              scheduleId: schedule.id,
+              afterStripId,
+              sortOrder: (last._max.sortOrder ?? -1) + 1,
+              label: label.trim(),
+              bannerType,
+            },
+            include: ANCHOR_POSITION,
+          });
+        }
+      )
+    );
 
-    return NextResponse.json(banner, { status: 201 });
+    return NextResponse.json(placeOnBoard([banner])[0], { status: 201 });
   } catch (error) {
     console.error("Error creating banner:", error);
     return NextResponse.json(
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { describeDay, describeScenes, recordBoardChange } from "@/lib/schedule-history";
+import { placeStrips } from "@/lib/strip-board";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/schedule/boneyard/place - Put boneyard sheets on the board
+// Body: { breakdownIds: string[], afterStripId: string | null, sameDay?: boolean }
+// The new strips go after afterStripId (null for the top of the board). With
+// sameDay they join that strip's day; otherwise they follow its day break.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { breakdownIds, afterStripId = null, sameDay = false } = body;
+
+    if (
+      !Array.isArray(breakdownIds) ||
+      breakdownIds.length === 0 ||
+      breakdownIds.some((id) => typeof id !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "breakdownIds must be a non-empty array of breakdown IDs" },
+        { status: 400 }
+      );
+    }
+
+    if (afterStripId !== null && typeof afterStripId !== "string") {
+      return NextResponse.json(
+        { error: "afterStripId must be a strip ID or null" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const uniqueIds = [...new Set(breakdownIds as string[])];
+    const sheets = await prisma.breakdownSheet.findMany({
+      where: { id: { in: uniqueIds }, projectId },
+      include: { stripSlots: { where: { scheduleId: schedule.id } } },
+    });
+
+    if (sheets.length !== uniqueIds.length) {
+      return NextResponse.json(
+        { error: "Breakdown not found" },
+        { status: 404 }
+      );
+    }
+
+    const placed = sheets.filter((sheet) => sheet.stripSlots.length > 0);
+    if (placed.length > 0) {
+      return NextResponse.json(
+        { error: `Scene ${placed.map((s) => s.sceneNumbers).join(", ")} is already on the board` },
+        { status: 409 }
+      );
+    }
+
+    if (afterStripId) {
+      const strip = await prisma.stripSlot.findFirst({
+        where: { id: afterStripId, scheduleId: schedule.id },
+      });
+      if (!strip) {
+        return NextResponse.json(
+          { error: "Strip not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Sheets are placed in the order given
+    const scenes = describeScenes(
+      uniqueIds.map((id) => sheets.find((sheet) => sheet.id === id)!.sceneNumbers)
+    );
+    await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        (_, after) => {
+          const first = after.strips.find((s) => s.breakdownId === uniqueIds[0])!;
+          return `Moved ${scenes} from the boneyard to ${describeDay(after, first.id)}`;
+        },
+        () => placeStrips(tx, schedule.id, uniqueIds, afterStripId, sameDay === true)
+      )
+    );
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Error placing boneyard sheets:", error);
+    return NextResponse.json(
+      { error: "Failed to place boneyard sheets" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { describeScenes, recordBoardChange } from "@/lib/schedule-history";
+import { removeStrip } from "@/lib/strip-board";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/schedule/boneyard - Take strips off the board
+// Body: { stripIds: string[] }
+// Their sheets move to the version's boneyard; the board closes up as when a
+// sheet is deleted.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { stripIds } = body;
+
+    if (
+      !Array.isArray(stripIds) ||
+      stripIds.length === 0 ||
+      stripIds.some((id) => typeof id !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "stripIds must be a non-empty array of strip IDs" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const uniqueIds = [...new Set(stripIds as string[])];
+    const strips = await prisma.stripSlot.findMany({
+      where: { id: { in: uniqueIds }, scheduleId: schedule.id },
+      orderBy: { position: "desc" },
+      include: { breakdown: { select: { sceneNumbers: true } } },
+    });
+
+    if (strips.length !== uniqueIds.length) {
+      return NextResponse.json(
+        { error: "Strip not found" },
+        { status: 404 }
+      );
+    }
+
+    // Remove from the bottom up so each strip's day break falls back the same
+    // way it would one at a time
+    const scenes = describeScenes([...strips].reverse().map((s) => s.breakdown.sceneNumbers));
+    await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        `Moved ${scenes} to the boneyard`,
+        async () => {
+          for (const strip of strips) {
+            await removeStrip(tx, strip.id);
+          }
+        }
+      )
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error moving strips to the boneyard:", error);
+    return NextResponse.json(
+      { error: "Failed to move strips to the boneyard" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { loadScheduleReport } from "@/lib/schedule-report";
+import {
+  buildCallSheet,
+  callSheetEdits,
+  parseCallSheetEdits,
+  type CallSheetData,
+} from "@/lib/call-sheet";
+
+interface RouteParams {
+  params: Promise<{ id: string; dayNumber: string }>;
+}
+
+type ScheduleReport = NonNullable<Awaited<ReturnType<typeof loadScheduleReport>>>;
+
+// Addresses given for each location on any call sheet in the project, the
+// latest winning, so a location's address is only typed once
+async function knownAddresses(projectId: string) {
+  const sheets = await prisma.callSheet.findMany({
+    where: { schedule: { projectId } },
+    orderBy: { updatedAt: "asc" },
+    select: { locationAddresses: true },
+  });
+  return Object.assign({}, ...sheets.map((s) => (s.locationAddresses as Record<string, string> | null) ?? {}));
+}
+
+// The stored edits and the sheet built with them, or as published
+async function callSheetResponse(
+  report: ScheduleReport,
+  dayNumber: number,
+  record: Awaited<ReturnType<typeof prisma.callSheet.findUnique>>
+) {
+  const edits = callSheetEdits(record, await knownAddresses(report.project.id));
+  const sheet = record?.snapshot
+    ? (record.snapshot as unknown as CallSheetData)
+    : buildCallSheet(report.project, report.schedule, report.overrides, dayNumber, edits);
+
+  return {
+    dayNumber,
+    publishedAt: record?.publishedAt ?? null,
+    updatedAt: record?.updatedAt ?? null,
+    edits,
+    sheet,
+  };
+}
+
+// GET /api/projects/[id]/schedule/call-sheets/[dayNumber] - Build the call sheet for a shoot day
+// Returns the AD's edits and the sheet built with them, or the sheet as it was
+// published. Acts on the active version unless ?scheduleId= names another.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, dayNumber: dayParam } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const report = await loadScheduleReport(projectId, request.nextUrl.searchParams.get("scheduleId"));
+    if (!report) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const dayNumber = Number(dayParam);
+    if (!report.schedule.totals.days.some((day) => day.dayNumber === dayNumber)) {
+      return NextResponse.json(
+        { error: "Shoot day not found" },
+        { status: 404 }
+      );
+    }
+
+    const record = await prisma.callSheet.findUnique({
+      where: { scheduleId_dayNumber: { scheduleId: report.schedule.id, dayNumber } },
+    });
+
+    return NextResponse.json(await callSheetResponse(report, dayNumber, record));
+  } catch (error) {
+    console.error("Error building call sheet:", error);
+    return NextResponse.json(
+      { error: "Failed to build call sheet" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/projects/[id]/schedule/call-sheets/[dayNumber] - Edit or publish a call sheet
+// Takes crewCall, castCalls, locationAddresses, departmentNotes and notes,
+// each replacing what was stored. { published: true } keeps the sheet as
+// built; { published: false } reopens it. A published sheet can't be edited.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, dayNumber: dayParam } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit call sheets" },
+        { status: 403 }
+      );
+    }
+
+    const report = await loadScheduleReport(projectId, request.nextUrl.searchParams.get("scheduleId"));
+    if (!report) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const dayNumber = Number(dayParam);
+    if (!report.schedule.totals.days.some((day) => day.dayNumber === dayNumber)) {
+      return NextResponse.json(
+        { error: "Shoot day not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseCallSheetEdits(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (body.published !== undefined && typeof body.published !== "boolean") {
+      return NextResponse.json(
+        { error: "published must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    const key = { scheduleId_dayNumber: { scheduleId: report.schedule.id, dayNumber } };
+    const existing = await prisma.callSheet.findUnique({ where: key });
+    const hasEdits = Object.keys(parsed.edits).length > 0;
+
+    if (existing?.publishedAt && hasEdits && body.published !== false) {
+      return NextResponse.json(
+        { error: "This call sheet is published. Reopen it to make changes." },
+        { status: 409 }
+      );
+    }
+
+    const data = { ...parsed.edits } as Prisma.CallSheetUncheckedUpdateInput;
+    if (body.published === true) {
+      const edits = { ...callSheetEdits(existing, await knownAddresses(projectId)), ...parsed.edits };
+      const sheet = buildCallSheet(report.project, report.schedule, report.overrides, dayNumber, edits);
+      data.snapshot = sheet as unknown as Prisma.InputJsonValue;
+      data.publishedAt = new Date();
+    } else if (body.published === false) {
+      data.snapshot = Prisma.DbNull;
+      data.publishedAt = null;
+    }
+
+    const record = await prisma.callSheet.upsert({
+      where: key,
+      create: { ...(data as Prisma.CallSheetUncheckedCreateInput), scheduleId: report.schedule.id, dayNumber },
+      update: data,
+    });
+
+    return NextResponse.json(await callSheetResponse(report, dayNumber, record));
+  } catch (error) {
+    console.error("Error updating call sheet:", error);
+    return NextResponse.json(
+      { error: "Failed to update call sheet" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { recordBoardChange } from "@/lib/schedule-history";
+import { ANCHOR_POSITION, placeOnBoard, renumberDayBreaks } from "@/lib/strip-board";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -33,9 +36,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     // Get the schedule
-    const schedule = await prisma.schedule.findUnique({
-      where: { projectId },
-    });
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
 
     if (!schedule) {
       return NextResponse.json(
@@ -44,29 +45,22 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Fetch all day breaks ordered by afterPosition
-    const dayBreaks = await prisma.dayBreak.findMany({
-      where: { scheduleId: schedule.id },
-      orderBy: { afterPosition: "asc" },
-    });
-
-    // Renumber sequentially in a transaction
-    await prisma.$transaction(
-      dayBreaks.map((db, index) =>
-        prisma.dayBreak.update({
-          where: { id: db.id },
-          data: { dayNumber: index + 1 },
-        })
+    await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        "Renumbered the day breaks",
+        () => renumberDayBreaks(tx, schedule.id)
       )
     );
 
     // Return the renumbered day breaks
     const renumbered = await prisma.dayBreak.findMany({
       where: { scheduleId: schedule.id },
-      orderBy: { afterPosition: "asc" },
+      include: ANCHOR_POSITION,
     });
 
-    return NextResponse.json(renumbered);
+    return NextResponse.json(placeOnBoard(renumbered));
   } catch (error) {
     console.error("Error renumbering day breaks:", error);
     return NextResponse.json(
@@ -2,12 +2,15 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { describeScenes, recordBoardChange } from "@/lib/schedule-history";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
 // POST /api/projects/[id]/schedule/daybreaks - Toggle a day break
+// Body: { afterStripId } - the strip that ends the day
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await auth();
@@ -33,19 +36,17 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { afterPosition } = body;
+    const { afterStripId } = body;
 
-    if (typeof afterPosition !== "number" || afterPosition < 0) {
+    if (!afterStripId || typeof afterStripId !== "string") {
       return NextResponse.json(
-        { error: "afterPosition must be a non-negative number" },
+        { error: "afterStripId is required" },
         { status: 400 }
       );
     }
 
     // Get the schedule
-    const schedule = await prisma.schedule.findUnique({
-      where: { projectId },
-    });
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
 
     if (!schedule) {
       return NextResponse.json(
@@ -54,46 +55,65 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Check if a day break already exists at this position
-    const existingDayBreak = await prisma.dayBreak.findUnique({
-      where: {
-        scheduleId_afterPosition: {
-          scheduleId: schedule.id,
-          afterPosition,
-        },
-      },
+    const strip = await prisma.stripSlot.findFirst({
+      where: { id: afterStripId, scheduleId: schedule.id },
+      include: { dayBreak: true, breakdown: { select: { sceneNumbers: true } } },
     });
 
+    if (!strip) {
+      return NextResponse.json(
+        { error: "Strip not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if the strip already ends a day
+    const existingDayBreak = strip.dayBreak;
+
     if (existingDayBreak) {
       // Delete the existing day break (toggle off)
-      await prisma.dayBreak.delete({
-        where: { id: existingDayBreak.id },
-      });
+      await prisma.$transaction((tx) =>
+        recordBoardChange(
+          tx,
+          { scheduleId: schedule.id, userId: session.user.id },
+          `Removed the Day ${existingDayBreak.dayNumber} break`,
+          () => tx.dayBreak.delete({ where: { id: existingDayBreak.id } })
+        )
+      );
 
       return NextResponse.json({
         action: "deleted",
-        dayBreak: existingDayBreak,
+        dayBreak: { ...existingDayBreak, afterPosition: strip.position },
       });
     } else {
-      // Create a new day break with the next available day number
-      const maxDayNumber = await prisma.dayBreak.aggregate({
-        where: { scheduleId: schedule.id },
-        _max: { dayNumber: true },
-      });
+      const newDayBreak = await prisma.$transaction((tx) =>
+        recordBoardChange(
+          tx,
+          { scheduleId: schedule.id, userId: session.user.id },
+          `Added a day break after ${describeScenes([strip.breakdown.sceneNumbers])}`,
+          async () => {
+            // Create a new day break with the next available day number
+            const maxDayNumber = await tx.dayBreak.aggregate({
+              where: { scheduleId: schedule.id },
+              _max: { dayNumber: true },
+            });
 
-      const nextDayNumber = (maxDayNumber._max.dayNumber || 0) + 1;
+            const nextDayNumber = (maxDayNumber._max.dayNumber || 0) + 1;
 
-      const newDayBreak = await prisma.dayBreak.create({
-        data: {
-          scheduleId: schedule.id,
-          afterPosition,
-          dayNumber: nextDayNumber,
-        },
-      });
+            return tx.dayBreak.create({
+              data: {
+                scheduleId: schedule.id,
+                afterStripId,
+                dayNumber: nextDayNumber,
+              },
+            });
+          }
+        )
+      );
 
       return NextResponse.json({
         action: "created",
-        dayBreak: newDayBreak,
+        dayBreak: { ...newDayBreak, afterPosition: strip.position },
       }, { status: 201 });
     }
   } catch (error) {
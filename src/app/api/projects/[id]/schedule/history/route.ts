@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/schedule/history - List the board edits that can be undone or redone
+// Newest first. Undone entries are kept for redo until the next edit.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const operations = await prisma.scheduleOperation.findMany({
+      where: { scheduleId: schedule.id },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        description: true,
+        isUndone: true,
+        createdAt: true,
+        user: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    return NextResponse.json(operations);
+  } catch (error) {
+    console.error("Error fetching schedule history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch schedule history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { undoOperation } from "@/lib/schedule-history";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/schedule/history/undo - Revert the latest board edit
+// Returns the description of the edit, e.g. { description: "Moved Sc. 12 to Day 3" }
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const description = await prisma.$transaction((tx) => undoOperation(tx, schedule.id));
+
+    if (!description) {
+      return NextResponse.json(
+        { error: "Nothing to undo" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ description });
+  } catch (error) {
+    console.error("Error undoing schedule edit:", error);
+    return NextResponse.json(
+      { error: "Failed to undo schedule edit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { describeArrangement, recordBoardChange } from "@/lib/schedule-history";
+import { moveStrips } from "@/lib/strip-board";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/schedule/move - Move several strips as one block
+// Body: { stripIds: string[], targetPosition: number }
+// The strips keep their board order and start at targetPosition once moved.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to reorder the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { stripIds, targetPosition } = body;
+
+    if (
+      !Array.isArray(stripIds) ||
+      stripIds.length === 0 ||
+      stripIds.some((id) => typeof id !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "stripIds must be a non-empty array of strip IDs" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(targetPosition) || targetPosition < 1) {
+      return NextResponse.json(
+        { error: "targetPosition must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const uniqueIds = [...new Set(stripIds as string[])];
+    const [found, total] = await Promise.all([
+      prisma.stripSlot.count({ where: { id: { in: uniqueIds }, scheduleId: schedule.id } }),
+      prisma.stripSlot.count({ where: { scheduleId: schedule.id } }),
+    ]);
+
+    if (found !== uniqueIds.length) {
+      return NextResponse.json(
+        { error: "Strip not found" },
+        { status: 404 }
+      );
+    }
+
+    if (targetPosition > total - uniqueIds.length + 1) {
+      return NextResponse.json(
+        { error: "targetPosition is past the end of the board" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        describeArrangement,
+        () => moveStrips(tx, schedule.id, uniqueIds, targetPosition)
+      )
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error moving strips:", error);
+    return NextResponse.json(
+      { error: "Failed to move strips" },
+      { status: 500 }
+    );
+  }
+}
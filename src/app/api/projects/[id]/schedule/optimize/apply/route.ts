@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { createScheduleVersion, findSchedule } from "@/lib/schedule-versions";
+import { recordBoardChange } from "@/lib/schedule-history";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/schedule/optimize/apply - Apply a previewed proposal
+// Body: { order: string[], dayBreaks: number[], target: "current" | "new", name? }
+// "current" overwrites the version's strip order and day breaks; "new" saves
+// the proposal as a new version named `name`. Banners stay after the strip
+// they followed. Shoot dates and notes on the old day breaks are not kept.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { order, dayBreaks, target, name } = body;
+
+    if (!Array.isArray(order) || order.some((id) => typeof id !== "string")) {
+      return NextResponse.json(
+        { error: "order must be an array of breakdown IDs" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(dayBreaks) ||
+      dayBreaks.some(
+        (position, index) =>
+          !Number.isInteger(position) ||
+          position < 1 ||
+          position > order.length ||
+          (index > 0 && position <= dayBreaks[index - 1])
+      )
+    ) {
+      return NextResponse.json(
+        { error: "dayBreaks must be ascending strip positions" },
+        { status: 400 }
+      );
+    }
+
+    if (target !== "current" && target !== "new") {
+      return NextResponse.json(
+        { error: "target must be current or new" },
+        { status: 400 }
+      );
+    }
+
+    if (target === "new" && (typeof name !== "string" || name.trim().length === 0)) {
+      return NextResponse.json(
+        { error: "Name is required for a new version" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const [strips, banners] = await Promise.all([
+      prisma.stripSlot.findMany({ where: { scheduleId: schedule.id } }),
+      prisma.bannerStrip.findMany({
+        where: { scheduleId: schedule.id },
+        include: { afterStrip: { select: { breakdownId: true } } },
+      }),
+    ]);
+
+    // The proposal must cover exactly the strips on the board now
+    const stripByBreakdown = new Map(strips.map((s) => [s.breakdownId, s]));
+    if (
+      order.length !== strips.length ||
+      new Set(order).size !== order.length ||
+      order.some((breakdownId: string) => !stripByBreakdown.has(breakdownId))
+    ) {
+      return NextResponse.json(
+        { error: "The strip board has changed since this proposal. Preview it again." },
+        { status: 409 }
+      );
+    }
+
+    const newPosition = new Map<string, number>(
+      order.map((breakdownId: string, index: number) => [breakdownId, index + 1])
+    );
+    // Each day break follows the strip of the last sheet of its day
+    const newDayBreaks = (dayBreaks as number[]).map((afterPosition, index) => ({
+      afterBreakdownId: order[afterPosition - 1] as string,
+      dayNumber: index + 1,
+    }));
+
+    if (target === "new") {
+      const existing = await prisma.schedule.findUnique({
+        where: { projectId_name: { projectId, name: name.trim() } },
+      });
+      if (existing) {
+        return NextResponse.json(
+          { error: `A schedule version named "${name.trim()}" already exists` },
+          { status: 409 }
+        );
+      }
+
+      const created = await prisma.$transaction((tx) =>
+        createScheduleVersion(
+          tx,
+          {
+            projectId,
+            name: name.trim(),
+            startDate: schedule.startDate,
+            workDays: schedule.workDays,
+          },
+          {
+            order,
+            dayBreaks: newDayBreaks,
+            banners: banners.map(({ afterStrip, sortOrder, label, bannerType }) => ({
+              afterBreakdownId: afterStrip?.breakdownId ?? null,
+              sortOrder,
+              label,
+              bannerType,
+            })),
+          }
+        )
+      );
+
+      return NextResponse.json(created, { status: 201 });
+    }
+
+    const updated = await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        "Applied the auto-schedule",
+        async () => {
+          for (const strip of strips) {
+            const position = newPosition.get(strip.breakdownId)!;
+            if (position !== strip.position) {
+              await tx.stripSlot.update({ where: { id: strip.id }, data: { position } });
+            }
+          }
+
+          await tx.dayBreak.deleteMany({ where: { scheduleId: schedule.id } });
+          await tx.dayBreak.createMany({
+            data: newDayBreaks.map(({ afterBreakdownId, dayNumber }) => ({
+              scheduleId: schedule.id,
+              afterStripId: stripByBreakdown.get(afterBreakdownId)!.id,
+              dayNumber,
+            })),
+          });
+
+          return tx.schedule.update({
+            where: { id: schedule.id },
+            data: { updatedAt: new Date() },
+            include: {
+              _count: { select: { dayBreaks: true } },
+            },
+          });
+        }
+      )
+    );
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error applying schedule proposal:", error);
+    return NextResponse.json(
+      { error: "Failed to apply schedule proposal" },
+      { status: 500 }
+    );
+  }
+}
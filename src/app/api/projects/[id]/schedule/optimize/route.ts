@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { optimizeSchedule, parseOptimizeOptions } from "@/lib/schedule-optimizer";
+import { ANCHOR_POSITION, placeOnBoard } from "@/lib/strip-board";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/schedule/optimize - Propose a strip order and day breaks
+// Nothing is saved; the proposal is applied with POST .../optimize/apply.
+// Body: { budget?: "pages" | "setups", perDay?: number }
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const parsed = parseOptimizeOptions(await request.json());
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const [strips, dayBreaks] = await Promise.all([
+      prisma.stripSlot.findMany({
+        where: { scheduleId: schedule.id },
+        orderBy: { position: "asc" },
+        select: {
+          position: true,
+          breakdown: {
+            select: {
+              id: true,
+              sceneNumbers: true,
+              location: true,
+              intExt: true,
+              dayNight: true,
+              pageCount: true,
+              pageEighths: true,
+              cameraSetups: true,
+              isOmitted: true,
+              sortOrder: true,
+              cast: { select: { characterId: true } },
+            },
+          },
+        },
+      }),
+      prisma.dayBreak.findMany({
+        where: { scheduleId: schedule.id },
+        select: ANCHOR_POSITION,
+      }),
+    ]);
+
+    return NextResponse.json(
+      optimizeSchedule(
+        strips,
+        placeOnBoard(dayBreaks).map((db) => db.afterPosition),
+        parsed.options
+      )
+    );
+  } catch (error) {
+    console.error("Error optimizing schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to optimize schedule" },
+      { status: 500 }
+    );
+  }
+}
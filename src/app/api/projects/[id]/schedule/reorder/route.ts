@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { describeArrangement, recordBoardChange } from "@/lib/schedule-history";
+import { moveStrips } from "@/lib/strip-board";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -50,9 +53,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     // Get the schedule
-    const schedule = await prisma.schedule.findUnique({
-      where: { projectId },
-    });
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
 
     if (!schedule) {
       return NextResponse.json(
@@ -93,48 +94,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Perform the reorder in a transaction
-    await prisma.$transaction(async (tx) => {
-      if (newPosition > oldPosition) {
-        // Moving down: decrement positions between old and new (exclusive of old, inclusive of new)
-        await tx.stripSlot.updateMany({
-          where: {
-            scheduleId: schedule.id,
-            position: {
-              gt: oldPosition,
-              lte: newPosition,
-            },
-          },
-          data: {
-            position: { decrement: 1 },
-          },
-        });
-      } else {
-        // Moving up: increment positions between new and old (inclusive of new, exclusive of old)
-        await tx.stripSlot.updateMany({
-          where: {
-            scheduleId: schedule.id,
-            position: {
-              gte: newPosition,
-              lt: oldPosition,
-            },
-          },
-          data: {
-            position: { increment: 1 },
-          },
-        });
-      }
-
-      // Set the strip to its new position
-      await tx.stripSlot.update({
-        where: { id: stripId },
-        data: { position: newPosition },
-      });
-    });
+    // Day breaks and banners after the strip stay where they were on the board
+    await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        describeArrangement,
+        () => moveStrips(tx, schedule.id, [stripId], newPosition)
+      )
+    );
 
     // Return updated schedule
     const updatedSchedule = await prisma.schedule.findUnique({
-      where: { projectId },
+      where: { id: schedule.id },
       include: {
         stripSlots: {
           orderBy: { position: "asc" },
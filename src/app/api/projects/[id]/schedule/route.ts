@@ -2,12 +2,21 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { getProjectAccess } from "@/lib/project-access";
+import { computeScheduleTotals } from "@/lib/schedule-totals";
+import { findScheduleConflicts } from "@/lib/schedule-conflicts";
+import { estimateShootingTime, TIME_MODEL_SELECT } from "@/lib/shooting-time";
+import { findBoneyard, scheduleWhere } from "@/lib/schedule-versions";
+import { getHistorySummary } from "@/lib/schedule-history";
+import { ANCHOR_POSITION, withBoardPositions } from "@/lib/strip-board";
+import { parseWorkDays, planShootDates, syncShootDates } from "@/lib/working-calendar";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-// PATCH /api/projects/[id]/schedule - Update schedule (e.g., startDate)
+// PATCH /api/projects/[id]/schedule - Update the working calendar: startDate
+// and workDays (weekdays shot, 0 = Sunday). Shoot dates are worked out again.
+// Acts on the active version unless ?scheduleId= names another.
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await auth();
@@ -32,42 +41,80 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    const existing = await prisma.schedule.findFirst({
+      where: scheduleWhere(projectId, request.nextUrl.searchParams.get("scheduleId")),
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
     const body = await request.json();
-    const { startDate } = body;
+    const { startDate, workDays } = body;
 
-    const schedule = await prisma.schedule.update({
-      where: { projectId },
-      data: {
-        startDate: startDate ? new Date(startDate) : null,
-      },
-      include: {
-        stripSlots: {
-          orderBy: { position: "asc" },
-          include: {
-            breakdown: {
-              include: {
-                cast: {
-                  include: { character: true },
-                  orderBy: { character: { number: "asc" } },
-                },
-                elements: {
-                  include: { element: true },
-                  orderBy: { element: { name: "asc" } },
+    const data: { startDate?: Date | null; workDays?: number[] } = {};
+    if (startDate !== undefined) {
+      data.startDate = startDate ? new Date(startDate) : null;
+    }
+    if (workDays !== undefined) {
+      const parsed = parseWorkDays(workDays);
+      if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      data.workDays = parsed.workDays;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.schedule.update({ where: { id: existing.id }, data });
+      await syncShootDates(tx, existing.id);
+      return tx.schedule.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: {
+          stripSlots: {
+            orderBy: { position: "asc" },
+            include: {
+              breakdown: {
+                include: {
+                  cast: {
+                    include: { character: true },
+                    orderBy: { character: { number: "asc" } },
+                  },
+                  elements: {
+                    include: { element: true },
+                    orderBy: { element: { name: "asc" } },
+                  },
                 },
               },
             },
           },
+          dayBreaks: { include: ANCHOR_POSITION },
+          banners: { include: ANCHOR_POSITION },
         },
-        dayBreaks: {
-          orderBy: { afterPosition: "asc" },
-        },
-        banners: {
-          orderBy: { afterPosition: "asc" },
-        },
-      },
+      });
     });
+    const schedule = withBoardPositions(updated);
 
-    return NextResponse.json(schedule);
+    const [constraints, boneyard, history, timeModel, holidays] = await Promise.all([
+      prisma.scheduleConstraint.findMany({ where: { projectId } }),
+      findBoneyard(projectId, schedule.id),
+      getHistorySummary(schedule.id),
+      prisma.project.findUniqueOrThrow({ where: { id: projectId }, select: TIME_MODEL_SELECT }),
+      prisma.projectHoliday.findMany({ where: { projectId }, orderBy: { date: "asc" } }),
+    ]);
+    const totals = computeScheduleTotals(schedule, planShootDates(schedule, { ...schedule, holidays }).days);
+
+    return NextResponse.json({
+      ...schedule,
+      holidays,
+      totals,
+      conflicts: findScheduleConflicts(schedule, totals, constraints),
+      timing: estimateShootingTime(schedule, totals, timeModel),
+      boneyard,
+      history,
+    });
   } catch (error) {
     console.error("Error updating schedule:", error);
     return NextResponse.json(
@@ -78,6 +125,12 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 }
 
 // GET /api/projects/[id]/schedule - Fetch the schedule with all data
+// Returns the active version unless ?scheduleId= names another.
+// Page totals by day, week and overall are computed here so every view agrees,
+// with each day dated from the working calendar, along with the project's
+// holidays, shooting-time estimates and the scheduling constraints the
+// version breaks. Sheets with no strip in the version are listed as its
+// boneyard, and the next undo and redo are described for the board's buttons.
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await auth();
@@ -95,8 +148,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const schedule = await prisma.schedule.findUnique({
-      where: { projectId },
+    const found = await prisma.schedule.findFirst({
+      where: scheduleWhere(projectId, request.nextUrl.searchParams.get("scheduleId")),
       include: {
         stripSlots: {
           orderBy: { position: "asc" },
@@ -115,23 +168,37 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             },
           },
         },
-        dayBreaks: {
-          orderBy: { afterPosition: "asc" },
-        },
-        banners: {
-          orderBy: { afterPosition: "asc" },
-        },
+        dayBreaks: { include: ANCHOR_POSITION },
+        banners: { include: ANCHOR_POSITION },
       },
     });
 
-    if (!schedule) {
+    if (!found) {
       return NextResponse.json(
         { error: "Schedule not found" },
         { status: 404 }
       );
     }
 
-    return NextResponse.json(schedule);
+    const schedule = withBoardPositions(found);
+    const [constraints, boneyard, history, timeModel, holidays] = await Promise.all([
+      prisma.scheduleConstraint.findMany({ where: { projectId } }),
+      findBoneyard(projectId, schedule.id),
+      getHistorySummary(schedule.id),
+      prisma.project.findUniqueOrThrow({ where: { id: projectId }, select: TIME_MODEL_SELECT }),
+      prisma.projectHoliday.findMany({ where: { projectId }, orderBy: { date: "asc" } }),
+    ]);
+    const totals = computeScheduleTotals(schedule, planShootDates(schedule, { ...schedule, holidays }).days);
+
+    return NextResponse.json({
+      ...schedule,
+      holidays,
+      totals,
+      conflicts: findScheduleConflicts(schedule, totals, constraints),
+      timing: estimateShootingTime(schedule, totals, timeModel),
+      boneyard,
+      history,
+    });
   } catch (error) {
     console.error("Error fetching schedule:", error);
     return NextResponse.json(
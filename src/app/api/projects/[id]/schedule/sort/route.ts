@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { findSchedule } from "@/lib/schedule-versions";
+import { recordBoardChange } from "@/lib/schedule-history";
+import { arrangeBoard, listBoardItems, planArrangement } from "@/lib/strip-board";
+import { describeSort, parseSortOptions, sortBoardItems } from "@/lib/strip-sort";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/projects/[id]/schedule/sort - Sort strips by scene details
+// Body: { criteria: { key, direction?, characterId? }[], fromDayBreakId?, toDayBreakId? }
+// Sorts the whole board, or only the strips between two day breaks. Day
+// breaks and banners stay where they are. Returns the board as it was before
+// the sort, which can be posted to .../arrange to undo it.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to reorder the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const parsed = parseSortOptions(await request.json());
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const schedule = await findSchedule(projectId, request.nextUrl.searchParams.get("scheduleId"));
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const [strips, dayBreaks, banners] = await Promise.all([
+      prisma.stripSlot.findMany({
+        where: { scheduleId: schedule.id },
+        select: {
+          id: true,
+          position: true,
+          breakdown: {
+            select: {
+              sceneNumbers: true,
+              location: true,
+              intExt: true,
+              dayNight: true,
+              storyDay: true,
+              pageCount: true,
+              pageEighths: true,
+              cast: { select: { character: { select: { id: true, number: true } } } },
+            },
+          },
+        },
+      }),
+      prisma.dayBreak.findMany({
+        where: { scheduleId: schedule.id },
+        select: { id: true, afterStripId: true, dayNumber: true },
+      }),
+      prisma.bannerStrip.findMany({
+        where: { scheduleId: schedule.id },
+        select: { id: true, afterStripId: true, sortOrder: true },
+      }),
+    ]);
+
+    const snapshot = listBoardItems(strips, dayBreaks, banners);
+    const sorted = sortBoardItems(snapshot, strips, parsed.options);
+    if (!sorted.ok) {
+      return NextResponse.json({ error: sorted.error }, { status: 400 });
+    }
+
+    const planned = planArrangement(
+      {
+        strip: strips.map((s) => s.id),
+        dayBreak: dayBreaks.map((db) => db.id),
+        banner: banners.map((b) => b.id),
+      },
+      sorted.items
+    );
+
+    if (!planned.ok) {
+      return NextResponse.json({ error: planned.error }, { status: 409 });
+    }
+
+    await prisma.$transaction((tx) =>
+      recordBoardChange(
+        tx,
+        { scheduleId: schedule.id, userId: session.user.id },
+        describeSort(parsed.options, dayBreaks),
+        () => arrangeBoard(tx, schedule.id, planned.arrangement)
+      )
+    );
+
+    return NextResponse.json({ success: true, snapshot });
+  } catch (error) {
+    console.error("Error sorting schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to sort schedule" },
+      { status: 500 }
+    );
+  }
+}
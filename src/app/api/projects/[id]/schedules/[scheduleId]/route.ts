@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+
+interface RouteParams {
+  params: Promise<{ id: string; scheduleId: string }>;
+}
+
+// PATCH /api/projects/[id]/schedules/[scheduleId] - Rename a version or make it the active one
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, scheduleId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.schedule.findFirst({
+      where: { id: scheduleId, projectId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, isActive } = body;
+    const updateData: { name?: string; isActive?: boolean } = {};
+
+    if (name !== undefined) {
+      if (typeof name !== "string" || name.trim().length === 0) {
+        return NextResponse.json(
+          { error: "Name cannot be empty" },
+          { status: 400 }
+        );
+      }
+      const duplicate = await prisma.schedule.findFirst({
+        where: { projectId, name: name.trim(), id: { not: scheduleId } },
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `A schedule version named "${name.trim()}" already exists` },
+          { status: 409 }
+        );
+      }
+      updateData.name = name.trim();
+    }
+
+    if (isActive !== undefined) {
+      if (isActive !== true) {
+        return NextResponse.json(
+          { error: "Make another version active instead" },
+          { status: 400 }
+        );
+      }
+      updateData.isActive = true;
+    }
+
+    // Only one version is active at a time
+    const schedule = await prisma.$transaction(async (tx) => {
+      if (updateData.isActive) {
+        await tx.schedule.updateMany({
+          where: { projectId, id: { not: scheduleId } },
+          data: { isActive: false },
+        });
+      }
+      return tx.schedule.update({
+        where: { id: scheduleId },
+        data: updateData,
+        include: {
+          _count: { select: { dayBreaks: true } },
+        },
+      });
+    });
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error("Error updating schedule version:", error);
+    return NextResponse.json(
+      { error: "Failed to update schedule version" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/schedules/[scheduleId] - Delete a version other than the active one
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, scheduleId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.schedule.findFirst({
+      where: { id: scheduleId, projectId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.isActive) {
+      return NextResponse.json(
+        { error: "The active schedule can't be deleted; make another version active first" },
+        { status: 400 }
+      );
+    }
+
+    // Strips, day breaks and banners cascade with the version
+    await prisma.schedule.delete({
+      where: { id: scheduleId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting schedule version:", error);
+    return NextResponse.json(
+      { error: "Failed to delete schedule version" },
+      { status: 500 }
+    );
+  }
+}
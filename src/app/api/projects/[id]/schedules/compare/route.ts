@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { compareSchedules } from "@/lib/schedule-compare";
+import { ANCHOR_POSITION, placeOnBoard } from "@/lib/strip-board";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/schedules/compare?a=...&b=... - Compare two schedule versions
+// Day counts, per-day page totals and cast work days, side by side.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const a = request.nextUrl.searchParams.get("a");
+    const b = request.nextUrl.searchParams.get("b");
+    if (!a || !b) {
+      return NextResponse.json(
+        { error: "Give two schedule versions to compare as a and b" },
+        { status: 400 }
+      );
+    }
+
+    const schedules = await prisma.schedule.findMany({
+      where: { projectId, id: { in: [a, b] } },
+      include: {
+        stripSlots: {
+          orderBy: { position: "asc" },
+          include: {
+            breakdown: {
+              select: {
+                pageCount: true,
+                pageEighths: true,
+                isOmitted: true,
+                cast: {
+                  select: {
+                    character: { select: { id: true, number: true, name: true } },
+                  },
+                },
+              },
+            },
+          },
+        },
+        dayBreaks: { include: ANCHOR_POSITION },
+      },
+    });
+
+    const scheduleA = schedules.find((s) => s.id === a);
+    const scheduleB = schedules.find((s) => s.id === b);
+    if (!scheduleA || !scheduleB) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      compareSchedules(
+        { ...scheduleA, dayBreaks: placeOnBoard(scheduleA.dayBreaks) },
+        { ...scheduleB, dayBreaks: placeOnBoard(scheduleB.dayBreaks) }
+      )
+    );
+  } catch (error) {
+    console.error("Error comparing schedules:", error);
+    return NextResponse.json(
+      { error: "Failed to compare schedules" },
+      { status: 500 }
+    );
+  }
+}
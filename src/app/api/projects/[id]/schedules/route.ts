@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/project-access";
+import { createScheduleVersion, scheduleWhere } from "@/lib/schedule-versions";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/schedules - List the project's schedule versions
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const schedules = await prisma.schedule.findMany({
+      where: { projectId },
+      orderBy: { createdAt: "asc" },
+      include: {
+        _count: { select: { dayBreaks: true } },
+      },
+    });
+
+    return NextResponse.json(schedules);
+  } catch (error) {
+    console.error("Error fetching schedule versions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch schedule versions" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/schedules - Duplicate a schedule version under a new name
+// Copies the strip order, day breaks, banners and start date of `sourceId`
+// (the active version by default). The copy is not made active.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await getProjectAccess(projectId, session.user.id);
+
+    if (!access.hasAccess) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (!access.canEdit && !access.isOwner) {
+      return NextResponse.json(
+        { error: "You don't have permission to edit the schedule" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, sourceId } = body;
+
+    if (!name || typeof name !== "string" || name.trim().length === 0) {
+      return NextResponse.json(
+        { error: "Name is required" },
+        { status: 400 }
+      );
+    }
+
+    const source = await prisma.schedule.findFirst({
+      where: scheduleWhere(projectId, typeof sourceId === "string" ? sourceId : null),
+      include: {
+        stripSlots: { orderBy: { position: "asc" } },
+        dayBreaks: { include: { afterStrip: { select: { breakdownId: true } } } },
+        banners: { include: { afterStrip: { select: { breakdownId: true } } } },
+      },
+    });
+
+    if (!source) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const existing = await prisma.schedule.findUnique({
+      where: { projectId_name: { projectId, name: name.trim() } },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: `A schedule version named "${name.trim()}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const schedule = await prisma.$transaction((tx) =>
+      createScheduleVersion(
+        tx,
+        { projectId, name: name.trim(), startDate: source.startDate, workDays: source.workDays },
+        {
+          order: source.stripSlots.map((s) => s.breakdownId),
+          dayBreaks: source.dayBreaks.map(({ afterStrip, dayNumber, shootDate, notes }) => ({
+            afterBreakdownId: afterStrip.breakdownId,
+            dayNumber,
+            shootDate,
+            notes,
+          })),
+          banners: source.banners.map(({ afterStrip, sortOrder, label, bannerType }) => ({
+            afterBreakdownId: afterStrip?.breakdownId ?? null,
+            sortOrder,
+            label,
+            bannerType,
+          })),
+        }
+      )
+    );
+
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    console.error("Error duplicating schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to duplicate schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -81,15 +81,15 @@ export async function POST(request: NextRequest) {
         ad: ad?.trim() || null,
         scriptDate: scriptDate ? new Date(scriptDate) : null,
         ownerId: session.user.id,
-        schedule: {
-          create: {}, // Auto-create empty schedule
+        schedules: {
+          create: { isActive: true }, // Auto-create empty schedule
         },
       },
       include: {
         owner: {
           select: { id: true, name: true, email: true },
         },
-        schedule: true,
+        schedules: true,
         _count: {
           select: {
             breakdowns: true,
@@ -4,8 +4,10 @@ import { useState, use } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { useProject } from "@/hooks/useProject";
-import { useSchedule } from "@/hooks/useSchedule";
+import { useSchedule, useScheduleVersions } from "@/hooks/useSchedule";
 import { useElements } from "@/hooks/useElements";
+import { useConstraints } from "@/hooks/useConstraints";
+import { useDoodOverrides } from "@/hooks/useDoodOverrides";
 import {
   ArrowLeft,
   Film,
@@ -19,6 +21,8 @@ import { CastListTab } from "@/components/CastListTab";
 import { BreakdownsTab } from "@/components/BreakdownsTab";
 import { StripBoardTab } from "@/components/StripBoardTab";
 import { ReportsTab } from "@/components/ReportsTab";
+import { ScheduleVersionsBar } from "@/components/ScheduleVersionsBar";
+import { getStripStyle } from "@/lib/strip-style";
 
 type Tab = "project" | "cast" | "breakdowns" | "stripboard" | "reports";
 
@@ -31,8 +35,17 @@ export default function ProjectPage({
   const router = useRouter();
   const { status } = useSession();
   const { project, isLoading, ...projectActions } = useProject(id);
-  const scheduleData = useSchedule(id);
-  const { elements, createElement: createElementFn } = useElements(id);
+  const [scheduleId, setScheduleId] = useState<string | null>(null);
+  const scheduleData = useSchedule(id, scheduleId);
+  const scheduleVersions = useScheduleVersions(id);
+  const { constraints, createConstraint, deleteConstraint } = useConstraints(id);
+  const { overrides: doodOverrides, setOverride: setDoodOverride } = useDoodOverrides(id);
+  const {
+    elements,
+    createElement: createElementFn,
+    previewLegacyMigration,
+    migrateLegacyElements,
+  } = useElements(id);
   const [activeTab, setActiveTab] = useState<Tab>("project");
 
   // Redirect if not authenticated
@@ -67,6 +80,8 @@ export default function ProjectPage({
     );
   }
 
+  const stripStyle = getStripStyle(project);
+
   const tabs: { id: Tab; label: string; icon: React.ReactNode }[] = [
     { id: "project", label: "Project", icon: <Film className="w-4 h-4" /> },
     { id: "cast", label: "Cast List", icon: <Users className="w-4 h-4" /> },
@@ -148,31 +163,74 @@ export default function ProjectPage({
         )}
         {activeTab === "breakdowns" && (
           <BreakdownsTab
+            projectId={id}
             breakdowns={project.breakdowns}
             characters={project.characters}
             elements={elements}
+            stripStyle={stripStyle}
             canEdit={project.userAccess.canEdit || project.userAccess.isOwner}
             onCreate={projectActions.createBreakdown}
             onUpdate={projectActions.updateBreakdown}
             onDelete={projectActions.deleteBreakdown}
+            onBatchUpdate={projectActions.batchUpdateBreakdowns}
             onAddCharacter={projectActions.addCharacter}
             onCreateElement={createElementFn}
+            onPreviewImport={projectActions.previewScriptImport}
+            onImport={projectActions.importScript}
+            onOrderByScript={projectActions.orderBreakdownsByScript}
+            onSplit={projectActions.splitBreakdown}
+            onMerge={projectActions.mergeBreakdowns}
+            onPreviewLegacyMigration={previewLegacyMigration}
+            onMigrateLegacy={migrateLegacyElements}
+          />
+        )}
+        {(activeTab === "stripboard" || activeTab === "reports") && (
+          <ScheduleVersionsBar
+            versions={scheduleVersions.versions}
+            selectedId={scheduleId}
+            canEdit={project.userAccess.canEdit || project.userAccess.isOwner}
+            onSelect={setScheduleId}
+            onDuplicate={scheduleVersions.duplicateVersion}
+            onRename={scheduleVersions.renameVersion}
+            onSetActive={scheduleVersions.setActiveVersion}
+            onDelete={scheduleVersions.deleteVersion}
+            onCompare={scheduleVersions.compareVersions}
           />
         )}
         {activeTab === "stripboard" && (
           <StripBoardTab
             schedule={scheduleData.schedule}
+            stripStyle={stripStyle}
             canEdit={project.userAccess.canEdit || project.userAccess.isOwner}
-            onReorder={scheduleData.reorderStrip}
+            onArrange={scheduleData.arrangeBoard}
             onToggleDayBreak={scheduleData.toggleDayBreak}
             onRenumberDayBreaks={scheduleData.renumberDayBreaks}
+            onCreateBanner={scheduleData.createBanner}
+            onDeleteBanner={scheduleData.deleteBanner}
+            onSort={scheduleData.sortBoard}
+            onUndo={scheduleData.undo}
+            onRedo={scheduleData.redo}
+            onMoveToBoneyard={scheduleData.moveToBoneyard}
+            onPlaceFromBoneyard={scheduleData.placeFromBoneyard}
             onUpdateStartDate={scheduleData.updateStartDate}
+            onUpdateWorkDays={scheduleData.updateWorkDays}
+            onAddHoliday={scheduleData.addHoliday}
+            onDeleteHoliday={scheduleData.deleteHoliday}
+            onPreviewOptimization={scheduleData.previewOptimization}
+            onApplyOptimization={scheduleData.applyOptimization}
+            onSelectVersion={setScheduleId}
+            constraints={constraints}
+            onCreateConstraint={createConstraint}
+            onDeleteConstraint={deleteConstraint}
           />
         )}
         {activeTab === "reports" && (
           <ReportsTab
             project={project}
             schedule={scheduleData.schedule}
+            doodOverrides={doodOverrides}
+            canEdit={project.userAccess.canEdit || project.userAccess.isOwner}
+            onSetDoodOverride={setDoodOverride}
           />
         )}
       </main>
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import { X, Loader2, Wand2, Moon } from "lucide-react";
+import type { Schedule, ScheduleVersion } from "@/hooks/useSchedule";
+import {
+  DEFAULT_PAGES_PER_DAY,
+  DEFAULT_SETUPS_PER_DAY,
+  type OptimizeBudget,
+  type OptimizeOptions,
+  type OptimizeProposal,
+} from "@/lib/schedule-optimizer";
+
+interface AutoSchedulePanelProps {
+  schedule: Schedule;
+  onPreview: (options: OptimizeOptions) => Promise<OptimizeProposal | undefined>;
+  onApply: (
+    proposal: OptimizeProposal,
+    target: { type: "current" } | { type: "new"; name: string }
+  ) => Promise<ScheduleVersion | undefined>;
+  onSavedAsVersion?: (version: ScheduleVersion) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold";
+
+function changeClass(before: number, after: number) {
+  if (after < before) return "text-green-400";
+  if (after > before) return "text-amber-400";
+  return "text-stone-300";
+}
+
+export function AutoSchedulePanel({
+  schedule,
+  onPreview,
+  onApply,
+  onSavedAsVersion,
+  onClose,
+}: AutoSchedulePanelProps) {
+  const [budget, setBudget] = useState<OptimizeBudget>("pages");
+  const [perDay, setPerDay] = useState(String(DEFAULT_PAGES_PER_DAY));
+  const [proposal, setProposal] = useState<OptimizeProposal | null>(null);
+  const [versionName, setVersionName] = useState(`${schedule.name} (auto)`);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const characters = new Map(
+    schedule.stripSlots.flatMap((strip) =>
+      strip.breakdown.cast.map(({ character }) => [character.id, character] as const)
+    )
+  );
+  const perDayValue = parseFloat(perDay);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePreview = () =>
+    run(async () => {
+      const result = await onPreview({ budget, perDay: perDayValue });
+      if (result) setProposal(result);
+    }, "Failed to build a proposal");
+
+  const handleApplyCurrent = () => {
+    if (!proposal) return;
+    if (
+      !confirm(
+        `Replace the strip order and day breaks of "${schedule.name}" with this proposal? Shoot dates set on day breaks are cleared.`
+      )
+    ) {
+      return;
+    }
+    run(async () => {
+      await onApply(proposal, { type: "current" });
+      onClose();
+    }, "Failed to apply the proposal");
+  };
+
+  const handleSaveAsVersion = () => {
+    if (!proposal || !versionName.trim()) return;
+    run(async () => {
+      const version = await onApply(proposal, { type: "new", name: versionName.trim() });
+      if (version) onSavedAsVersion?.(version);
+      onClose();
+    }, "Failed to save the proposal");
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-stone-900 border border-stone-800 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-stone-300">
+          Auto-Schedule
+          <span className="ml-2 text-stone-500 font-normal">
+            Groups scenes by location and INT/EXT, keeps night work together and shortens cast holds
+          </span>
+        </h3>
+        <button type="button" onClick={onClose} className="p-1 text-stone-500 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm text-stone-400">Fill each day to</label>
+        <input
+          type="number"
+          min={0.125}
+          step={budget === "pages" ? 0.125 : 1}
+          value={perDay}
+          onChange={(e) => {
+            setPerDay(e.target.value);
+            setProposal(null);
+          }}
+          className={`w-24 ${inputClass}`}
+        />
+        <select
+          value={budget}
+          onChange={(e) => {
+            const next = e.target.value as OptimizeBudget;
+            setBudget(next);
+            setPerDay(String(next === "pages" ? DEFAULT_PAGES_PER_DAY : DEFAULT_SETUPS_PER_DAY));
+            setProposal(null);
+          }}
+          className={inputClass}
+        >
+          <option value="pages">pages</option>
+          <option value="setups">camera setups</option>
+        </select>
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={isWorking || !(perDayValue > 0)}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-stone-300 hover:text-white border border-stone-700 rounded disabled:opacity-50"
+        >
+          {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+          Preview
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {proposal && (
+        <>
+          <div className="flex flex-wrap gap-6 text-sm">
+            <p className="text-stone-400">
+              Shoot days:{" "}
+              <span className="text-stone-300">{proposal.current.dayCount}</span> →{" "}
+              <span className={changeClass(proposal.current.dayCount, proposal.proposed.dayCount)}>
+                {proposal.proposed.dayCount}
+              </span>
+            </p>
+            <p className="text-stone-400">
+              Cast hold days:{" "}
+              <span className="text-stone-300">{proposal.current.holdDays}</span> →{" "}
+              <span className={changeClass(proposal.current.holdDays, proposal.proposed.holdDays)}>
+                {proposal.proposed.holdDays}
+              </span>
+            </p>
+            {proposal.missingSetups > 0 && (
+              <p className="text-amber-400">
+                {proposal.missingSetups} scene{proposal.missingSetups !== 1 ? "s have" : " has"} no
+                camera setups and count{proposal.missingSetups === 1 ? "s" : ""} as one
+              </p>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-auto border border-stone-800 rounded">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-stone-900">
+                <tr className="text-left text-stone-500 border-b border-stone-800">
+                  <th className="px-3 py-1 font-medium">Day</th>
+                  <th className="px-3 py-1 font-medium">Scenes</th>
+                  <th className="px-3 py-1 font-medium">Locations</th>
+                  <th className="px-3 py-1 font-medium text-right">Pages</th>
+                  <th className="px-3 py-1 font-medium text-right">Setups</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposal.days.map((day) => (
+                  <tr key={day.dayNumber} className="border-b border-stone-800/50">
+                    <td className="px-3 py-1 text-stone-400">
+                      <span className="flex items-center gap-1">
+                        {day.dayNumber}
+                        {day.isNight && <Moon className="w-3 h-3 text-stone-500" />}
+                      </span>
+                    </td>
+                    <td className="px-3 py-1 text-stone-300">{day.sceneNumbers.join(", ")}</td>
+                    <td className="px-3 py-1 text-stone-400">{day.locations.join(", ")}</td>
+                    <td className="px-3 py-1 text-right font-mono text-stone-300">{day.pages}</td>
+                    <td className="px-3 py-1 text-right font-mono text-stone-300">{day.setups}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {proposal.proposed.castSpans.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {proposal.proposed.castSpans.map((span) => {
+                const character = characters.get(span.characterId);
+                return (
+                  <span
+                    key={span.characterId}
+                    className="px-2 py-0.5 bg-stone-800 rounded text-stone-300"
+                    title={`Works ${span.workDays} of days ${span.firstDay}–${span.lastDay}`}
+                  >
+                    {character ? `${character.number}. ${character.name}` : "Cast"}: days{" "}
+                    {span.firstDay}–{span.lastDay}
+                    {span.holdDays > 0 && (
+                      <span className="text-amber-400"> ({span.holdDays} hold)</span>
+                    )}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-stone-800">
+            <input
+              type="text"
+              value={versionName}
+              onChange={(e) => setVersionName(e.target.value)}
+              placeholder="Version name"
+              className={`w-56 ${inputClass}`}
+            />
+            <button
+              type="button"
+              onClick={handleSaveAsVersion}
+              disabled={isWorking || !versionName.trim()}
+              className="px-4 py-1.5 text-sm bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded disabled:opacity-50"
+            >
+              Save as New Version
+            </button>
+            <button
+              type="button"
+              onClick={handleApplyCurrent}
+              disabled={isWorking}
+              className="px-4 py-1.5 text-sm text-red-400 hover:text-red-300 border border-stone-700 rounded disabled:opacity-50"
+            >
+              Replace &quot;{schedule.name}&quot;
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
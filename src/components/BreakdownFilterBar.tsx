@@ -0,0 +1,319 @@
+"use client";
+
+import { useState } from "react";
+import { X, Search, Bookmark, Save, Loader2 } from "lucide-react";
+import type { BreakdownSheet, Character, ProductionElement } from "@/hooks/useProject";
+import type { BreakdownView } from "@/hooks/useBreakdownFilters";
+import {
+  breakdownFilterParams,
+  hasBreakdownFilters,
+  type BreakdownFilters,
+} from "@/lib/breakdown-filters";
+import { ELEMENT_CATEGORY_LABELS } from "@/lib/breakdown-fields";
+
+interface BreakdownFilterBarProps {
+  filters: BreakdownFilters;
+  characters: Character[];
+  elements: ProductionElement[];
+  views: BreakdownView[];
+  isSearching: boolean;
+  onChange: (filters: BreakdownFilters) => void;
+  onSaveView: (name: string, filters: BreakdownFilters) => Promise<unknown>;
+  onUpdateView: (viewId: string, updates: { filters: BreakdownFilters }) => Promise<void>;
+  onDeleteView: (viewId: string) => Promise<void>;
+}
+
+const DAY_NIGHT_OPTIONS: NonNullable<BreakdownSheet["dayNight"]>[] = [
+  "DAY",
+  "NIGHT",
+  "DAWN",
+  "DUSK",
+  "DAY_FOR_NIGHT",
+];
+
+const selectClass =
+  "px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold";
+
+// Saved views match the current filters whatever order their values were picked in
+function filterKey(filters: BreakdownFilters): string {
+  return [...breakdownFilterParams(filters).entries()]
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join("&");
+}
+
+export function BreakdownFilterBar({
+  filters,
+  characters,
+  elements,
+  views,
+  isSearching,
+  onChange,
+  onSaveView,
+  onUpdateView,
+  onDeleteView,
+}: BreakdownFilterBarProps) {
+  const [viewName, setViewName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = hasBreakdownFilters(filters);
+  const currentView = views.find((view) => filterKey(view.filters) === filterKey(filters));
+  const categories = [...new Set(elements.map((el) => el.category))];
+
+  const update = (changes: Partial<BreakdownFilters>) => {
+    const next = { ...filters, ...changes };
+    (Object.keys(next) as (keyof BreakdownFilters)[]).forEach((key) => {
+      const value = next[key];
+      if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) {
+        delete next[key];
+      }
+    });
+    onChange(next);
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save view");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveView = () => {
+    if (!viewName.trim()) return;
+    run(async () => {
+      await onSaveView(viewName.trim(), filters);
+      setViewName("");
+    });
+  };
+
+  // Text filters apply on Enter or when the field loses focus
+  const textInput = (key: "q" | "location", placeholder: string, className: string) => (
+    <input
+      key={filters[key] || ""}
+      type="text"
+      defaultValue={filters[key] || ""}
+      placeholder={placeholder}
+      onBlur={(e) => e.target.value.trim() !== (filters[key] || "") && update({ [key]: e.target.value.trim() })}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") update({ [key]: e.currentTarget.value.trim() });
+      }}
+      className={className}
+    />
+  );
+
+  return (
+    <div className="mb-6 space-y-3">
+      {/* Saved views */}
+      {views.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Bookmark className="w-4 h-4 text-stone-500" />
+          {views.map((view) => (
+            <span
+              key={view.id}
+              className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-sm border ${
+                currentView?.id === view.id
+                  ? "border-gold text-gold"
+                  : "border-stone-700 text-stone-300 hover:text-white"
+              }`}
+            >
+              <button type="button" onClick={() => onChange(view.filters)}>
+                {view.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  if (confirm(`Delete the view "${view.name}"?`)) {
+                    run(() => onDeleteView(view.id));
+                  }
+                }}
+                title="Delete view"
+                className="p-0.5 text-stone-600 hover:text-red-400"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative">
+          <Search className="w-4 h-4 text-stone-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          {textInput(
+            "q",
+            "Search description and departments",
+            "w-72 pl-8 pr-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+          )}
+        </div>
+        {textInput("location", "Location", `w-40 ${selectClass}`)}
+        <select
+          value={filters.intExt || ""}
+          onChange={(e) => update({ intExt: (e.target.value || undefined) as BreakdownFilters["intExt"] })}
+          className={selectClass}
+        >
+          <option value="">INT/EXT</option>
+          <option value="INT">INT</option>
+          <option value="EXT">EXT</option>
+        </select>
+        <select
+          value={filters.dayNight || ""}
+          onChange={(e) => update({ dayNight: (e.target.value || undefined) as BreakdownFilters["dayNight"] })}
+          className={selectClass}
+        >
+          <option value="">Day/Night</option>
+          {DAY_NIGHT_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={filters.storyDay ?? ""}
+          onChange={(e) => {
+            const day = parseInt(e.target.value, 10);
+            update({ storyDay: day > 0 ? day : undefined });
+          }}
+          placeholder="Story day"
+          className={`w-28 ${selectClass}`}
+        />
+        <select
+          value={filters.flashback === undefined ? "" : String(filters.flashback)}
+          onChange={(e) =>
+            update({ flashback: e.target.value === "" ? undefined : e.target.value === "true" })
+          }
+          className={selectClass}
+        >
+          <option value="">Flashback</option>
+          <option value="true">Flashbacks only</option>
+          <option value="false">No flashbacks</option>
+        </select>
+        <select
+          value=""
+          onChange={(e) => update({ castIds: [...(filters.castIds || []), e.target.value] })}
+          className={selectClass}
+        >
+          <option value="">+ Cast</option>
+          {characters
+            .filter((c) => !filters.castIds?.includes(c.id))
+            .map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.number}. {c.name}
+              </option>
+            ))}
+        </select>
+        <select
+          value=""
+          onChange={(e) => update({ elementIds: [...(filters.elementIds || []), e.target.value] })}
+          className={selectClass}
+        >
+          <option value="">+ Element</option>
+          {categories.map((category) => (
+            <optgroup key={category} label={ELEMENT_CATEGORY_LABELS[category]}>
+              {elements
+                .filter((el) => el.category === category && !filters.elementIds?.includes(el.id))
+                .map((el) => (
+                  <option key={el.id} value={el.id}>
+                    {el.name}
+                  </option>
+                ))}
+            </optgroup>
+          ))}
+        </select>
+        {isSearching && <Loader2 className="w-4 h-4 animate-spin text-stone-500" />}
+      </div>
+
+      {/* Active cast and element filters */}
+      {active && (
+        <div className="flex flex-wrap items-center gap-2">
+          {filters.castIds?.map((id) => {
+            const character = characters.find((c) => c.id === id);
+            return (
+              <span key={id} className="flex items-center gap-1 px-2 py-0.5 bg-stone-800 rounded text-xs text-stone-300">
+                {character ? `${character.number}. ${character.name}` : "Unknown cast"}
+                <button
+                  type="button"
+                  onClick={() => update({ castIds: filters.castIds?.filter((other) => other !== id) })}
+                  className="text-stone-500 hover:text-white"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            );
+          })}
+          {filters.elementIds?.map((id) => (
+            <span key={id} className="flex items-center gap-1 px-2 py-0.5 bg-stone-800 rounded text-xs text-stone-300">
+              {elements.find((el) => el.id === id)?.name || "Unknown element"}
+              <button
+                type="button"
+                onClick={() => update({ elementIds: filters.elementIds?.filter((other) => other !== id) })}
+                className="text-stone-500 hover:text-white"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            className="text-xs text-stone-500 hover:text-white"
+          >
+            Clear filters
+          </button>
+
+          {/* Save or update a view */}
+          <div className="flex items-center gap-2 ml-auto">
+            {currentView ? (
+              <span className="text-xs text-stone-500">Saved as {currentView.name}</span>
+            ) : (
+              <>
+                <input
+                  type="text"
+                  value={viewName}
+                  onChange={(e) => setViewName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSaveView()}
+                  placeholder="View name"
+                  className={`w-40 ${selectClass}`}
+                />
+                <button
+                  type="button"
+                  onClick={handleSaveView}
+                  disabled={isSaving || !viewName.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm text-stone-300 hover:text-white border border-stone-700 rounded disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  Save View
+                </button>
+                {views.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && run(() => onUpdateView(e.target.value, { filters }))}
+                    className={selectClass}
+                    title="Replace a saved view's filters with these"
+                  >
+                    <option value="">Update view...</option>
+                    {views.map((view) => (
+                      <option key={view.id} value={view.id}>
+                        {view.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </div>
+  );
+}
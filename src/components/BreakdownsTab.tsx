@@ -1,21 +1,60 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import type { BreakdownSheet, Character, ProductionElement, ElementCategory } from "@/hooks/useProject";
-import { Plus, ChevronRight, X, Trash2, Check, Loader2 } from "lucide-react";
+import type {
+  BatchBreakdownChanges,
+  BatchBreakdownResult,
+  BreakdownSheet,
+  Character,
+  ProductionElement,
+  ElementCategory,
+  ScriptFormat,
+  ScriptImportResult,
+} from "@/hooks/useProject";
+import type { ScriptImportPlan } from "@/lib/script-import";
+import type { LegacyMigrationResult } from "@/hooks/useElements";
+import type { LegacyMigrationPlan } from "@/lib/legacy-elements";
+import { LEGACY_ELEMENT_FIELDS } from "@/lib/breakdown-fields";
+import { parsePageCount, PAGE_COUNT_FORMAT_MESSAGE } from "@/lib/page-count";
+import { parseSceneNumbers } from "@/lib/scene-numbers";
+import { getStripColor, type StripStyle } from "@/lib/strip-style";
+import { Plus, ChevronRight, X, Trash2, Check, Loader2, Upload, FileDiff, ArrowDownWideNarrow, Scissors, Merge, Tags, Highlighter, ListChecks } from "lucide-react";
 import { ElementSelector } from "./ElementSelector";
 import { CastSelector } from "./CastSelector";
+import { ScriptImportPanel } from "./ScriptImportPanel";
+import { ScriptRevisionsPanel } from "./ScriptRevisionsPanel";
+import { LegacyElementsPanel } from "./LegacyElementsPanel";
+import { ScriptTaggingPanel } from "./ScriptTaggingPanel";
+import { BulkEditPanel } from "./BulkEditPanel";
+import { BreakdownFilterBar } from "./BreakdownFilterBar";
+import { useBreakdownSearch, useBreakdownViews } from "@/hooks/useBreakdownFilters";
+import type { BreakdownFilters } from "@/lib/breakdown-filters";
 
 interface BreakdownsTabProps {
+  projectId: string;
   breakdowns: BreakdownSheet[];
   characters: Character[];
   elements: ProductionElement[];
+  stripStyle: StripStyle;
   canEdit: boolean;
   onCreate: (data: Partial<BreakdownSheet> & { castIds?: string[]; elementIds?: string[] }) => Promise<void>;
   onUpdate: (bdId: string, data: Partial<BreakdownSheet> & { castIds?: string[]; elementIds?: string[] }) => Promise<void>;
   onDelete: (bdId: string) => Promise<void>;
+  onBatchUpdate?: (breakdownIds: string[], changes: BatchBreakdownChanges) => Promise<BatchBreakdownResult | undefined>;
   onAddCharacter?: (name: string, actor?: string) => Promise<void>;
   onCreateElement?: (category: ElementCategory, name: string) => Promise<ProductionElement | undefined>;
+  onPreviewImport?: (format: ScriptFormat, content: string) => Promise<ScriptImportPlan | undefined>;
+  onImport?: (format: ScriptFormat, content: string) => Promise<ScriptImportResult | undefined>;
+  onOrderByScript?: () => Promise<void>;
+  onSplit?: (bdId: string, parts: SplitPart[]) => Promise<void>;
+  onMerge?: (bdId: string, breakdownIds: string[]) => Promise<void>;
+  onPreviewLegacyMigration?: () => Promise<LegacyMigrationPlan | undefined>;
+  onMigrateLegacy?: (clearText: boolean) => Promise<LegacyMigrationResult | undefined>;
+}
+
+interface SplitPart {
+  sceneNumbers?: string;
+  pageCount?: string;
 }
 
 // Department fields with their category enum values
@@ -47,6 +86,7 @@ function BreakdownForm({
   onDelete,
   onAddCharacter,
   onCreateElement,
+  onTagScript,
 }: {
   breakdown?: BreakdownSheet;
   characters: Character[];
@@ -56,9 +96,11 @@ function BreakdownForm({
   onDelete?: () => Promise<void>;
   onAddCharacter?: (name: string, actor?: string) => Promise<void>;
   onCreateElement?: (category: ElementCategory, name: string) => Promise<ProductionElement | undefined>;
+  onTagScript?: () => void;
 }) {
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [form, setForm] = useState({
     sceneNumbers: breakdown?.sceneNumbers || "",
     intExt: breakdown?.intExt || "",
@@ -69,6 +111,8 @@ function BreakdownForm({
     storyDay: breakdown?.storyDay?.toString() || "",
     cameraSetups: breakdown?.cameraSetups?.toString() || "",
     isFlashback: breakdown?.isFlashback || false,
+    stripTag: breakdown?.stripTag || "",
+    isOmitted: breakdown?.isOmitted || false,
     stunts: breakdown?.stunts || "",
     extras: breakdown?.extras || "",
     wardrobe: breakdown?.wardrobe || "",
@@ -103,12 +147,22 @@ function BreakdownForm({
     }
   }, [saveStatus]);
 
+  const sceneNumbersResult = form.sceneNumbers.trim()
+    ? parseSceneNumbers(form.sceneNumbers)
+    : null;
+  const sceneNumbersError =
+    sceneNumbersResult && !sceneNumbersResult.ok ? sceneNumbersResult.error : null;
+
+  const pageCountInvalid =
+    form.pageCount.trim().length > 0 && parsePageCount(form.pageCount) === null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!form.sceneNumbers.trim()) return;
+    if (!form.sceneNumbers.trim() || sceneNumbersError || pageCountInvalid) return;
 
     setIsSaving(true);
     setSaveStatus("saving");
+    setSaveError(null);
     try {
       await onSave({
         ...form,
@@ -125,6 +179,7 @@ function BreakdownForm({
     } catch (error) {
       console.error("Failed to save breakdown:", error);
       setSaveStatus("error");
+      setSaveError(error instanceof Error ? error.message : "Failed to save breakdown");
     } finally {
       setIsSaving(false);
     }
@@ -183,13 +238,25 @@ function BreakdownForm({
         <h3 className="text-xl font-display text-gold">
           {breakdown ? "Edit Breakdown" : "New Breakdown"}
         </h3>
-        <button
-          type="button"
-          onClick={onCancel}
-          className="p-2 text-stone-500 hover:text-white"
-        >
-          <X className="w-5 h-5" />
-        </button>
+        <div className="flex items-center gap-2">
+          {onTagScript && (
+            <button
+              type="button"
+              onClick={onTagScript}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-stone-400 hover:text-white border border-stone-700 rounded-lg"
+            >
+              <Highlighter className="w-4 h-4" />
+              Tag Script
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onCancel}
+            className="p-2 text-stone-500 hover:text-white"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
       </div>
 
       {/* Scene Info */}
@@ -202,8 +269,13 @@ function BreakdownForm({
             onChange={(e) => setForm({ ...form, sceneNumbers: e.target.value })}
             placeholder="1, 2A, 3-4"
             required
-            className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+            className={`w-full px-3 py-2 bg-stone-800 border rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold ${
+              sceneNumbersError ? "border-red-500" : "border-stone-700"
+            }`}
           />
+          {sceneNumbersError && (
+            <p className="text-red-400 text-xs mt-1">{sceneNumbersError}</p>
+          )}
         </div>
         <div>
           <label className="block text-sm text-stone-400 mb-1">INT/EXT</label>
@@ -239,8 +311,13 @@ function BreakdownForm({
             value={form.pageCount}
             onChange={(e) => setForm({ ...form, pageCount: e.target.value })}
             placeholder="3/8"
-            className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+            className={`w-full px-3 py-2 bg-stone-800 border rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold ${
+              pageCountInvalid ? "border-red-500" : "border-stone-700"
+            }`}
           />
+          {pageCountInvalid && (
+            <p className="text-red-400 text-xs mt-1">{PAGE_COUNT_FORMAT_MESSAGE}</p>
+          )}
         </div>
       </div>
 
@@ -286,9 +363,29 @@ function BreakdownForm({
             />
             <span className="text-sm text-stone-400">Flashback</span>
           </label>
+          <label className="flex items-center gap-2 mt-5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.isOmitted}
+              onChange={(e) => setForm({ ...form, isOmitted: e.target.checked })}
+              className="w-4 h-4 rounded border-stone-700 bg-stone-800 text-gold focus:ring-gold"
+            />
+            <span className="text-sm text-stone-400">Omitted</span>
+          </label>
         </div>
       </div>
 
+      <div>
+        <label className="block text-sm text-stone-400 mb-1">Strip Tag</label>
+        <input
+          type="text"
+          value={form.stripTag}
+          onChange={(e) => setForm({ ...form, stripTag: e.target.value })}
+          placeholder="e.g. 2nd Unit, for strip color rules"
+          className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+        />
+      </div>
+
       <div>
         <label className="block text-sm text-stone-400 mb-1">Description</label>
         <textarea
@@ -369,11 +466,15 @@ function BreakdownForm({
         </div>
       </details>
 
+      {saveError && (
+        <p className="text-red-400 text-sm">{saveError}</p>
+      )}
+
       {/* Actions */}
       <div className="flex gap-4 pt-4 border-t border-stone-800">
         <button
           type="submit"
-          disabled={isSaving || !form.sceneNumbers.trim()}
+          disabled={isSaving || !form.sceneNumbers.trim() || !!sceneNumbersError || pageCountInvalid}
           className={getSaveButtonClass()}
         >
           {getSaveButtonContent()}
@@ -405,34 +506,296 @@ function BreakdownForm({
   );
 }
 
-function getStripColor(intExt: string | null, dayNight: string | null): string {
-  if (dayNight === "DAY" || dayNight === "DAWN" || dayNight === "DUSK") {
-    return intExt === "EXT" ? "bg-yellow-300" : "bg-white";
-  }
-  if (dayNight === "NIGHT" || dayNight === "DAY_FOR_NIGHT") {
-    return intExt === "EXT" ? "bg-green-300" : "bg-blue-300";
-  }
-  return "bg-stone-300";
+const MAX_SPLIT_PARTS = 10;
+
+// Split the sheet being edited into parts, or merge other sheets into it
+function SplitMergePanel({
+  breakdown,
+  breakdowns,
+  onSplit,
+  onMerge,
+  onDone,
+}: {
+  breakdown: BreakdownSheet;
+  breakdowns: BreakdownSheet[];
+  onSplit?: (bdId: string, parts: SplitPart[]) => Promise<void>;
+  onMerge?: (bdId: string, breakdownIds: string[]) => Promise<void>;
+  onDone: () => void;
+}) {
+  const [parts, setParts] = useState<{ sceneNumbers: string; pageCount: string }[]>([
+    { sceneNumbers: "", pageCount: "" },
+    { sceneNumbers: "", pageCount: "" },
+  ]);
+  const [mergeIds, setMergeIds] = useState<Set<string>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = parseSceneNumbers(breakdown.sceneNumbers);
+  const singleScene = parsed.ok && parsed.scenes.length === 1 ? parsed.scenes[0] : null;
+  const otherSheets = breakdowns.filter((b) => b.id !== breakdown.id);
+
+  const setPartCount = (count: number) => {
+    const clamped = Math.min(MAX_SPLIT_PARTS, Math.max(2, count || 2));
+    setParts((current) =>
+      Array.from({ length: clamped }, (_, i) => current[i] || { sceneNumbers: "", pageCount: "" })
+    );
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSplit = () =>
+    run(async () => {
+      await onSplit!(
+        breakdown.id,
+        parts.map((part) => ({
+          sceneNumbers: part.sceneNumbers.trim() || undefined,
+          pageCount: part.pageCount.trim() || undefined,
+        }))
+      );
+    });
+
+  const handleMerge = () => {
+    const scenes = otherSheets
+      .filter((b) => mergeIds.has(b.id))
+      .map((b) => b.sceneNumbers)
+      .join(", ");
+    if (!confirm(`Merge scene ${scenes} into ${breakdown.sceneNumbers}? The merged sheets will be removed.`)) {
+      return;
+    }
+    run(async () => {
+      await onMerge!(breakdown.id, Array.from(mergeIds));
+    });
+  };
+
+  return (
+    <div className="mx-6 mb-6 p-4 bg-stone-900 border border-stone-800 rounded-lg space-y-6">
+      {onSplit && (
+        <div>
+          <div className="flex items-center gap-3 mb-3">
+            <h3 className="text-sm font-medium text-stone-300">Split into</h3>
+            <input
+              type="number"
+              min={2}
+              max={MAX_SPLIT_PARTS}
+              value={parts.length}
+              onChange={(e) => setPartCount(parseInt(e.target.value, 10))}
+              className="w-16 px-2 py-1 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+            />
+            <span className="text-sm text-stone-500">parts</span>
+          </div>
+          <div className="space-y-2">
+            {parts.map((part, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={part.sceneNumbers}
+                  onChange={(e) =>
+                    setParts(parts.map((p, i) => (i === index ? { ...p, sceneNumbers: e.target.value } : p)))
+                  }
+                  placeholder={singleScene ? `${singleScene.prefix}${singleScene.number}${singleScene.suffix}pt${index + 1}` : "Scene #"}
+                  className="w-32 px-3 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+                />
+                <input
+                  type="text"
+                  value={part.pageCount}
+                  onChange={(e) =>
+                    setParts(parts.map((p, i) => (i === index ? { ...p, pageCount: e.target.value } : p)))
+                  }
+                  placeholder="Even share"
+                  className="w-28 px-3 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-stone-500 mt-2">
+            Each part keeps the cast and elements; edit the parts afterwards to share them out.
+          </p>
+          <button
+            type="button"
+            onClick={handleSplit}
+            disabled={isWorking}
+            className="mt-3 flex items-center gap-2 px-4 py-2 text-stone-300 hover:text-white border border-stone-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Scissors className="w-4 h-4" />
+            Split
+          </button>
+        </div>
+      )}
+
+      {onMerge && otherSheets.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-stone-300 mb-3">Merge into this sheet</h3>
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {otherSheets.map((other) => (
+              <label key={other.id} className="flex items-center gap-3 text-sm text-stone-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mergeIds.has(other.id)}
+                  onChange={() => {
+                    const next = new Set(mergeIds);
+                    if (next.has(other.id)) {
+                      next.delete(other.id);
+                    } else {
+                      next.add(other.id);
+                    }
+                    setMergeIds(next);
+                  }}
+                  className="w-4 h-4 rounded border-stone-700 bg-stone-800 text-gold focus:ring-gold"
+                />
+                <span className="w-16 font-mono text-white">{other.sceneNumbers}</span>
+                <span className="truncate text-stone-400">{other.location || "—"}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={isWorking || mergeIds.size === 0}
+            className="mt-3 flex items-center gap-2 px-4 py-2 text-stone-300 hover:text-white border border-stone-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Merge className="w-4 h-4" />
+            Merge
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </div>
+  );
 }
 
 export function BreakdownsTab({
+  projectId,
   breakdowns,
   characters,
   elements,
+  stripStyle,
   canEdit,
   onCreate,
   onUpdate,
   onDelete,
+  onBatchUpdate,
   onAddCharacter,
   onCreateElement,
+  onPreviewImport,
+  onImport,
+  onOrderByScript,
+  onSplit,
+  onMerge,
+  onPreviewLegacyMigration,
+  onMigrateLegacy,
 }: BreakdownsTabProps) {
   const [showForm, setShowForm] = useState(false);
+  const [isOrdering, setIsOrdering] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showLegacy, setShowLegacy] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [filters, setFilters] = useState<BreakdownFilters>({});
+  const search = useBreakdownSearch(projectId, filters);
+  const { views, saveView, updateView, deleteView } = useBreakdownViews(projectId);
+
+  // Edits change which sheets match, so search again whenever the sheets change
+  const refreshSearch = search.refresh;
+  useEffect(() => {
+    refreshSearch();
+  }, [breakdowns, refreshSearch]);
+
+  const hasLegacyText = breakdowns.some((bd) =>
+    LEGACY_ELEMENT_FIELDS.some(({ field }) => !!bd[field]?.trim())
+  );
 
   const editingBreakdown = editingId
     ? breakdowns.find((b) => b.id === editingId)
     : undefined;
 
+  const visibleBreakdowns = search.matchingIds
+    ? breakdowns.filter((b) => search.matchingIds!.has(b.id))
+    : breakdowns;
+
+  const canBulkEdit = canEdit && !!onBatchUpdate;
+  const selectedBreakdowns = breakdowns.filter((b) => selectedIds.has(b.id));
+  const allSelected =
+    visibleBreakdowns.length > 0 && visibleBreakdowns.every((b) => selectedIds.has(b.id));
+
+  const toggleSelected = (bdId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(bdId)) {
+      next.delete(bdId);
+    } else {
+      next.add(bdId);
+    }
+    setSelectedIds(next);
+  };
+
+  if (showImport && onPreviewImport && onImport) {
+    return (
+      <div className="max-w-5xl">
+        <ScriptImportPanel
+          onPreview={onPreviewImport}
+          onImport={onImport}
+          onClose={() => setShowImport(false)}
+        />
+      </div>
+    );
+  }
+
+  if (showLegacy && onPreviewLegacyMigration && onMigrateLegacy) {
+    return (
+      <div className="max-w-5xl">
+        <LegacyElementsPanel
+          onPreview={onPreviewLegacyMigration}
+          onMigrate={onMigrateLegacy}
+          onClose={() => setShowLegacy(false)}
+        />
+      </div>
+    );
+  }
+
+  if (showRevisions) {
+    return (
+      <div className="max-w-5xl">
+        <ScriptRevisionsPanel
+          projectId={projectId}
+          canEdit={canEdit}
+          onClose={() => setShowRevisions(false)}
+        />
+      </div>
+    );
+  }
+
+  // Tagging replaces the form so the form reloads the sheet's elements when it comes back
+  const taggingBreakdown = taggingId
+    ? breakdowns.find((b) => b.id === taggingId)
+    : undefined;
+  if (taggingBreakdown) {
+    return (
+      <div className="max-w-6xl">
+        <ScriptTaggingPanel
+          projectId={projectId}
+          breakdown={taggingBreakdown}
+          elements={elements}
+          canEdit={canEdit}
+          onClose={() => setTaggingId(null)}
+        />
+      </div>
+    );
+  }
+
   if (showForm || editingId) {
     return (
       <div className="max-w-4xl">
@@ -457,7 +820,18 @@ export function BreakdownsTab({
           } : undefined}
           onAddCharacter={onAddCharacter}
           onCreateElement={onCreateElement}
+          onTagScript={editingId ? () => setTaggingId(editingId) : undefined}
         />
+        {editingBreakdown && (onSplit || onMerge) && (
+          <SplitMergePanel
+            key={editingBreakdown.id}
+            breakdown={editingBreakdown}
+            breakdowns={breakdowns}
+            onSplit={onSplit}
+            onMerge={onMerge}
+            onDone={() => setEditingId(null)}
+          />
+        )}
       </div>
     );
   }
@@ -468,20 +842,94 @@ export function BreakdownsTab({
         <div>
           <h2 className="text-2xl font-display text-gold">Breakdown Sheets</h2>
           <p className="text-stone-500 text-sm mt-1">
+            {search.matchingIds && `${visibleBreakdowns.length} of `}
             {breakdowns.length} scene{breakdowns.length !== 1 ? "s" : ""}
           </p>
         </div>
-        {canEdit && (
+        <div className="flex items-center gap-2">
           <button
-            onClick={() => setShowForm(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors"
+            onClick={() => setShowRevisions(true)}
+            className="flex items-center gap-2 px-4 py-2 text-stone-300 hover:text-white border border-stone-700 rounded-lg transition-colors"
           >
-            <Plus className="w-4 h-4" />
-            New Breakdown
+            <FileDiff className="w-4 h-4" />
+            Revisions
           </button>
-        )}
+          {canBulkEdit && selectedBreakdowns.length > 0 && (
+            <button
+              onClick={() => setShowBulkEdit(true)}
+              className="flex items-center gap-2 px-4 py-2 text-stone-300 hover:text-white border border-stone-700 rounded-lg transition-colors"
+            >
+              <ListChecks className="w-4 h-4" />
+              Edit {selectedBreakdowns.length} Selected
+            </button>
+          )}
+          {canEdit && onOrderByScript && breakdowns.length > 1 && (
+            <button
+              onClick={async () => {
+                setIsOrdering(true);
+                try {
+                  await onOrderByScript();
+                } finally {
+                  setIsOrdering(false);
+                }
+              }}
+              disabled={isOrdering}
+              title="Sort the breakdown list by scene number"
+              className="flex items-center gap-2 px-4 py-2 text-stone-300 hover:text-white border border-stone-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isOrdering ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <ArrowDownWideNarrow className="w-4 h-4" />
+              )}
+              Order by Script
+            </button>
+          )}
+          {canEdit && onPreviewLegacyMigration && onMigrateLegacy && hasLegacyText && (
+            <button
+              onClick={() => setShowLegacy(true)}
+              title="Move free-text department fields into the element library"
+              className="flex items-center gap-2 px-4 py-2 text-stone-300 hover:text-white border border-stone-700 rounded-lg transition-colors"
+            >
+              <Tags className="w-4 h-4" />
+              Migrate Text
+            </button>
+          )}
+          {canEdit && onPreviewImport && onImport && (
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center gap-2 px-4 py-2 text-stone-300 hover:text-white border border-stone-700 rounded-lg transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              Import Script
+            </button>
+          )}
+          {canEdit && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New Breakdown
+            </button>
+          )}
+        </div>
       </div>
 
+      {breakdowns.length > 0 && (
+        <BreakdownFilterBar
+          filters={filters}
+          characters={characters}
+          elements={elements}
+          views={views}
+          isSearching={search.isLoading}
+          onChange={setFilters}
+          onSaveView={saveView}
+          onUpdateView={updateView}
+          onDeleteView={deleteView}
+        />
+      )}
+
       {breakdowns.length === 0 ? (
         <div className="text-center py-16">
           <p className="text-stone-500">No breakdown sheets yet.</p>
@@ -496,54 +944,98 @@ export function BreakdownsTab({
         </div>
       ) : (
         <div className="space-y-2">
-          {breakdowns.map((breakdown) => (
-            <button
-              key={breakdown.id}
-              onClick={() => canEdit && setEditingId(breakdown.id)}
-              className="w-full flex items-center gap-4 p-4 bg-stone-900 border border-stone-800 rounded-lg hover:border-stone-700 transition-colors text-left group"
-            >
-              {/* Color indicator */}
-              <div
-                className={`w-2 h-12 rounded ${getStripColor(
-                  breakdown.intExt,
-                  breakdown.dayNight
-                )}`}
+          {showBulkEdit && onBatchUpdate && (
+            <BulkEditPanel
+              selected={selectedBreakdowns}
+              characters={characters}
+              elements={elements}
+              onApply={onBatchUpdate}
+              onDone={(failedIds) => setSelectedIds(new Set(failedIds))}
+              onClose={() => setShowBulkEdit(false)}
+            />
+          )}
+          {canBulkEdit && (
+            <label className="flex items-center gap-3 px-4 text-sm text-stone-500 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => {
+                  const next = new Set(selectedIds);
+                  visibleBreakdowns.forEach((b) => (allSelected ? next.delete(b.id) : next.add(b.id)));
+                  setSelectedIds(next);
+                }}
+                className="w-4 h-4 rounded border-stone-700 bg-stone-800 text-gold focus:ring-gold"
               />
+              {selectedBreakdowns.length > 0
+                ? `${selectedBreakdowns.length} selected`
+                : "Select all"}
+            </label>
+          )}
+          {visibleBreakdowns.length === 0 && (
+            <p className="text-center py-8 text-stone-500">No breakdown sheets match these filters.</p>
+          )}
+          {visibleBreakdowns.map((breakdown) => (
+            <div key={breakdown.id} className="flex items-center gap-3">
+              {canBulkEdit && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(breakdown.id)}
+                  onChange={() => toggleSelected(breakdown.id)}
+                  aria-label={`Select scene ${breakdown.sceneNumbers}`}
+                  className="ml-4 w-4 h-4 rounded border-stone-700 bg-stone-800 text-gold focus:ring-gold"
+                />
+              )}
+              <button
+                onClick={() => canEdit && setEditingId(breakdown.id)}
+                className={`flex-1 min-w-0 flex items-center gap-4 p-4 bg-stone-900 border border-stone-800 rounded-lg hover:border-stone-700 transition-colors text-left group ${
+                  breakdown.isOmitted ? "opacity-50" : ""
+                }`}
+              >
+                {/* Color indicator */}
+                <div
+                  className={`w-2 h-12 rounded ${breakdown.isOmitted ? "bg-stone-700" : ""}`}
+                  style={
+                    breakdown.isOmitted
+                      ? undefined
+                      : { backgroundColor: getStripColor(stripStyle.colorRules, breakdown).background }
+                  }
+                />
 
-              {/* Scene info */}
-              <div className="w-20 font-mono text-lg text-white">
-                {breakdown.sceneNumbers}
-              </div>
+                {/* Scene info */}
+                <div className="w-20 font-mono text-lg text-white">
+                  {breakdown.sceneNumbers}
+                </div>
 
-              {/* INT/EXT & Day/Night */}
-              <div className="w-24 text-sm text-stone-400">
-                {breakdown.intExt || "—"} / {breakdown.dayNight?.replace("_", " ") || "—"}
-              </div>
+                {/* INT/EXT & Day/Night */}
+                <div className="w-24 text-sm text-stone-400">
+                  {breakdown.intExt || "—"} / {breakdown.dayNight?.replace("_", " ") || "—"}
+                </div>
 
-              {/* Location */}
-              <div className="flex-1 text-white truncate">
-                {breakdown.location || "—"}
-              </div>
+                {/* Location */}
+                <div className="flex-1 text-white truncate">
+                  {breakdown.isOmitted ? "OMITTED" : breakdown.location || "—"}
+                </div>
 
-              {/* Page count */}
-              <div className="w-16 font-mono text-sm text-stone-400 text-right">
-                {breakdown.pageCount || "—"}
-              </div>
+                {/* Page count */}
+                <div className="w-16 font-mono text-sm text-stone-400 text-right">
+                  {breakdown.pageCount || "—"}
+                </div>
 
-              {/* Camera setups */}
-              <div className="w-20 text-sm text-stone-500 text-right">
-                {breakdown.cameraSetups != null ? `${breakdown.cameraSetups} setups` : "—"}
-              </div>
+                {/* Camera setups */}
+                <div className="w-20 text-sm text-stone-500 text-right">
+                  {breakdown.cameraSetups != null ? `${breakdown.cameraSetups} setups` : "—"}
+                </div>
 
-              {/* Cast count */}
-              <div className="w-16 text-sm text-stone-500">
-                {breakdown.cast.length} cast
-              </div>
+                {/* Cast count */}
+                <div className="w-16 text-sm text-stone-500">
+                  {breakdown.cast.length} cast
+                </div>
 
-              {canEdit && (
-                <ChevronRight className="w-5 h-5 text-stone-600 group-hover:text-stone-400" />
-              )}
-            </button>
+                {canEdit && (
+                  <ChevronRight className="w-5 h-5 text-stone-600 group-hover:text-stone-400" />
+                )}
+              </button>
+            </div>
           ))}
         </div>
       )}
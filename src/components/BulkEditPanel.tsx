@@ -0,0 +1,279 @@
+"use client";
+
+import { useState } from "react";
+import { X, Loader2, Check, AlertTriangle } from "lucide-react";
+import type {
+  BatchBreakdownChanges,
+  BatchBreakdownResult,
+  BreakdownSheet,
+  Character,
+  ProductionElement,
+} from "@/hooks/useProject";
+import { ELEMENT_CATEGORY_LABELS } from "@/lib/breakdown-fields";
+import { CastSelector } from "./CastSelector";
+
+interface BulkEditPanelProps {
+  selected: BreakdownSheet[];
+  characters: Character[];
+  elements: ProductionElement[];
+  onApply: (breakdownIds: string[], changes: BatchBreakdownChanges) => Promise<BatchBreakdownResult | undefined>;
+  onDone: (failedIds: string[]) => void;
+  onClose: () => void;
+}
+
+const DAY_NIGHT_OPTIONS: NonNullable<BreakdownSheet["dayNight"]>[] = [
+  "DAY",
+  "NIGHT",
+  "DAWN",
+  "DUSK",
+  "DAY_FOR_NIGHT",
+];
+
+function ElementPicker({
+  label,
+  elements,
+  selectedIds,
+  onChange,
+}: {
+  label: string;
+  elements: ProductionElement[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  const categories = [...new Set(elements.map((el) => el.category))];
+
+  return (
+    <div>
+      <label className="block text-sm text-stone-400 mb-1">{label}</label>
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange([...selectedIds, e.target.value])}
+        className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+      >
+        <option value="">Choose an element...</option>
+        {categories.map((category) => (
+          <optgroup key={category} label={ELEMENT_CATEGORY_LABELS[category]}>
+            {elements
+              .filter((el) => el.category === category && !selectedIds.includes(el.id))
+              .map((el) => (
+                <option key={el.id} value={el.id}>
+                  {el.name}
+                </option>
+              ))}
+          </optgroup>
+        ))}
+      </select>
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {selectedIds.map((id) => (
+            <span
+              key={id}
+              className="flex items-center gap-1 px-2 py-0.5 bg-stone-800 rounded text-xs text-stone-300"
+            >
+              {elements.find((el) => el.id === id)?.name}
+              <button
+                type="button"
+                onClick={() => onChange(selectedIds.filter((other) => other !== id))}
+                className="text-stone-500 hover:text-white"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function BulkEditPanel({
+  selected,
+  characters,
+  elements,
+  onApply,
+  onDone,
+  onClose,
+}: BulkEditPanelProps) {
+  const [location, setLocation] = useState("");
+  const [dayNight, setDayNight] = useState("");
+  const [storyDay, setStoryDay] = useState("");
+  const [flashback, setFlashback] = useState("");
+  const [addCast, setAddCast] = useState<Set<string>>(new Set());
+  const [removeCast, setRemoveCast] = useState<Set<string>>(new Set());
+  const [addElements, setAddElements] = useState<string[]>([]);
+  const [removeElements, setRemoveElements] = useState<string[]>([]);
+  const [result, setResult] = useState<BatchBreakdownResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Blank fields are left alone
+  const changes: BatchBreakdownChanges = {};
+  if (location.trim()) changes.location = location.trim();
+  if (dayNight) changes.dayNight = dayNight === "CLEAR" ? null : (dayNight as BreakdownSheet["dayNight"]);
+  if (storyDay.trim()) changes.storyDay = parseInt(storyDay, 10);
+  if (flashback) changes.isFlashback = flashback === "yes";
+  if (addCast.size > 0) changes.addCastIds = Array.from(addCast);
+  if (removeCast.size > 0) changes.removeCastIds = Array.from(removeCast);
+  if (addElements.length > 0) changes.addElementIds = addElements;
+  if (removeElements.length > 0) changes.removeElementIds = removeElements;
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    return next;
+  };
+
+  const handleApply = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const applied = await onApply(selected.map((b) => b.id), changes);
+      if (applied) {
+        setResult(applied);
+        // Keep the failed sheets selected so they can be fixed and retried
+        onDone(applied.results.filter((r) => r.status === "failed").map((r) => r.breakdownId));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update breakdowns");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const failures = result?.results.filter((r) => r.status === "failed") || [];
+
+  return (
+    <div className="mb-6 p-4 bg-stone-900 border border-stone-800 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-stone-300">
+          Edit {selected.length} sheet{selected.length !== 1 ? "s" : ""}
+          <span className="ml-2 text-stone-500 font-normal">Blank fields are left as they are</span>
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-stone-500 hover:text-white"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm text-stone-400 mb-1">Location</label>
+          <input
+            type="text"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="No change"
+            className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-stone-400 mb-1">Day/Night</label>
+          <select
+            value={dayNight}
+            onChange={(e) => setDayNight(e.target.value)}
+            className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+          >
+            <option value="">No change</option>
+            {DAY_NIGHT_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option.replace(/_/g, " ")}
+              </option>
+            ))}
+            <option value="CLEAR">Clear</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-stone-400 mb-1">Story Day</label>
+          <input
+            type="number"
+            min={1}
+            value={storyDay}
+            onChange={(e) => setStoryDay(e.target.value)}
+            placeholder="No change"
+            className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-stone-400 mb-1">Flashback</label>
+          <select
+            value={flashback}
+            onChange={(e) => setFlashback(e.target.value)}
+            className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+          >
+            <option value="">No change</option>
+            <option value="yes">Flashback</option>
+            <option value="no">Not a flashback</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm text-stone-400 mb-1">Add Cast</label>
+          <CastSelector
+            characters={characters.filter((c) => !removeCast.has(c.id))}
+            selectedIds={addCast}
+            onToggle={(id) => setAddCast(toggle(addCast, id))}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-stone-400 mb-1">Remove Cast</label>
+          <CastSelector
+            characters={characters.filter((c) => !addCast.has(c.id))}
+            selectedIds={removeCast}
+            onToggle={(id) => setRemoveCast(toggle(removeCast, id))}
+          />
+        </div>
+        <ElementPicker
+          label="Add Elements"
+          elements={elements.filter((el) => !removeElements.includes(el.id))}
+          selectedIds={addElements}
+          onChange={setAddElements}
+        />
+        <ElementPicker
+          label="Remove Elements"
+          elements={elements.filter((el) => !addElements.includes(el.id))}
+          selectedIds={removeElements}
+          onChange={setRemoveElements}
+        />
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {result && (
+        <div className="space-y-1 text-sm">
+          <p className="flex items-center gap-2 text-green-400">
+            <Check className="w-4 h-4" />
+            {result.updated} updated, {result.unchanged} already up to date
+            {result.failed > 0 && `, ${result.failed} failed`}
+          </p>
+          {failures.map((failure) => (
+            <p key={failure.breakdownId} className="flex items-center gap-2 text-red-400">
+              <AlertTriangle className="w-4 h-4" />
+              {failure.sceneNumbers ? `Scene ${failure.sceneNumbers}: ` : ""}
+              {failure.error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleApply}
+        disabled={isWorking || !hasChanges || selected.length === 0}
+        className="px-6 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+      >
+        {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+        Apply to {selected.length} sheet{selected.length !== 1 ? "s" : ""}
+      </button>
+    </div>
+  );
+}
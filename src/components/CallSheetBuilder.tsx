@@ -0,0 +1,384 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Lock, LockOpen, Save } from "lucide-react";
+import type { ElementCategory } from "@/hooks/useProject";
+import type { Schedule } from "@/hooks/useSchedule";
+import { useCallSheet, type CallSheet } from "@/hooks/useCallSheet";
+import { ELEMENT_CATEGORY_LABELS } from "@/lib/breakdown-fields";
+import {
+  EMPTY_CAST_CALL,
+  formatCallSheetDate,
+  type CallSheetEdits,
+  type CastCall,
+} from "@/lib/call-sheet";
+import { callSheetPDF } from "@/lib/call-sheet-pdf";
+
+interface CallSheetBuilderProps {
+  projectId: string;
+  schedule: Schedule | undefined;
+  canEdit: boolean;
+}
+
+const inputClass =
+  "px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold disabled:opacity-70";
+
+const CAST_CALL_FIELDS: { field: keyof CastCall; label: string; placeholder: string }[] = [
+  { field: "pickup", label: "Pickup", placeholder: "6:00 AM" },
+  { field: "makeup", label: "Makeup", placeholder: "6:30 AM" },
+  { field: "onSet", label: "On Set", placeholder: "7:30 AM" },
+  { field: "remarks", label: "Remarks", placeholder: "" },
+];
+
+function SectionHeading({ children }: { children: React.ReactNode }) {
+  return <h4 className="text-sm font-medium text-stone-400 mb-2">{children}</h4>;
+}
+
+interface CallSheetFormProps {
+  callSheet: CallSheet;
+  canEdit: boolean;
+  onSave: (edits: CallSheetEdits) => Promise<void>;
+  onPublish: (published: boolean) => Promise<void>;
+}
+
+// Keyed by the sheet's last update, so a save or a day change starts a fresh form
+function CallSheetForm({ callSheet, canEdit, onSave, onPublish }: CallSheetFormProps) {
+  const { sheet, publishedAt } = callSheet;
+  const [edits, setEdits] = useState<CallSheetEdits>(callSheet.edits);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isPublished = !!publishedAt;
+  const isEditable = canEdit && !isPublished;
+  const isChanged = JSON.stringify(edits) !== JSON.stringify(callSheet.edits);
+  const unnotedCategories = (Object.keys(ELEMENT_CATEGORY_LABELS) as ElementCategory[]).filter(
+    (category) => !sheet.departments.some((d) => d.category === category) && edits.departmentNotes[category] === undefined
+  );
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateCastCall = (characterId: string, field: keyof CastCall, value: string) => {
+    const call = { ...EMPTY_CAST_CALL, ...edits.castCalls[characterId], [field]: value };
+    setEdits({ ...edits, castCalls: { ...edits.castCalls, [characterId]: call } });
+  };
+
+  const departments = [
+    ...sheet.departments,
+    ...(Object.keys(edits.departmentNotes) as ElementCategory[])
+      .filter((category) => !sheet.departments.some((d) => d.category === category))
+      .map((category) => ({ category, label: ELEMENT_CATEGORY_LABELS[category], elements: [] as string[] })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-display text-white">{sheet.title}</h3>
+          <p className="text-sm text-stone-400">
+            Day {sheet.dayNumber} of {sheet.totalDays}
+            {sheet.shootDate && ` — ${formatCallSheetDate(sheet.shootDate)}`}
+            {" · "}
+            {sheet.pages} pages
+          </p>
+          <p className="text-xs text-stone-500 mt-1">
+            {[
+              sheet.director && `Director: ${sheet.director}`,
+              sheet.producer && `Producer: ${sheet.producer}`,
+              sheet.ad && `1st AD: ${sheet.ad}`,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-stone-400">
+          Crew Call
+          <input
+            type="text"
+            value={edits.crewCall ?? ""}
+            onChange={(e) => setEdits({ ...edits, crewCall: e.target.value })}
+            disabled={!isEditable}
+            placeholder="7:00 AM"
+            className={`${inputClass} w-28`}
+          />
+        </label>
+      </div>
+
+      <div>
+        <SectionHeading>Scenes</SectionHeading>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-stone-500 border-b border-stone-800">
+              <th className="py-1 pr-3">Sc</th>
+              <th className="py-1 pr-3">I/E</th>
+              <th className="py-1 pr-3">Set / Description</th>
+              <th className="py-1 pr-3">D/N</th>
+              <th className="py-1 pr-3">Cast</th>
+              <th className="py-1 text-right">Pages</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.scenes.map((scene, index) => (
+              <tr key={index} className="border-b border-stone-800/50 text-stone-300">
+                <td className="py-1 pr-3 font-mono text-white">{scene.sceneNumbers}</td>
+                <td className="py-1 pr-3">{scene.intExt}</td>
+                <td className="py-1 pr-3">
+                  {scene.location}
+                  {scene.description && <span className="text-stone-500"> — {scene.description}</span>}
+                </td>
+                <td className="py-1 pr-3">{scene.dayNight}</td>
+                <td className="py-1 pr-3">{scene.castNumbers.join(", ")}</td>
+                <td className="py-1 text-right">{scene.pages}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <SectionHeading>Cast</SectionHeading>
+        {sheet.cast.length === 0 ? (
+          <p className="text-sm text-stone-500">No cast works this day.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-stone-500 border-b border-stone-800">
+                <th className="py-1 pr-3">#</th>
+                <th className="py-1 pr-3">Character</th>
+                <th className="py-1 pr-3">Status</th>
+                {CAST_CALL_FIELDS.map(({ field, label }) => (
+                  <th key={field} className="py-1 pr-3">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.cast.map((member) => (
+                <tr key={member.characterId} className="border-b border-stone-800/50 text-stone-300">
+                  <td className="py-1 pr-3">{member.number}</td>
+                  <td className="py-1 pr-3">
+                    <span className="text-white">{member.name}</span>
+                    {member.actor && <span className="text-stone-500"> ({member.actor})</span>}
+                  </td>
+                  <td className="py-1 pr-3 font-mono">{member.status}</td>
+                  {CAST_CALL_FIELDS.map(({ field, placeholder }) => (
+                    <td key={field} className="py-1 pr-3">
+                      <input
+                        type="text"
+                        value={edits.castCalls[member.characterId]?.[field] ?? ""}
+                        onChange={(e) => updateCastCall(member.characterId, field, e.target.value)}
+                        disabled={!isEditable}
+                        placeholder={placeholder}
+                        className={`${inputClass} ${field === "remarks" ? "w-full" : "w-24"}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {sheet.locations.length > 0 && (
+        <div>
+          <SectionHeading>Locations</SectionHeading>
+          <div className="space-y-2">
+            {sheet.locations.map(({ name }) => (
+              <div key={name} className="flex items-center gap-2">
+                <span className="w-48 text-sm text-white truncate">{name}</span>
+                <input
+                  type="text"
+                  value={edits.locationAddresses[name] ?? ""}
+                  onChange={(e) =>
+                    setEdits({ ...edits, locationAddresses: { ...edits.locationAddresses, [name]: e.target.value } })
+                  }
+                  disabled={!isEditable}
+                  placeholder="Address"
+                  className={`${inputClass} flex-1`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <SectionHeading>Departments</SectionHeading>
+        <div className="space-y-2">
+          {departments.map(({ category, label, elements }) => (
+            <div key={category} className="flex items-start gap-2">
+              <div className="w-48">
+                <span className="text-sm text-white">{label}</span>
+                {elements.length > 0 && <p className="text-xs text-stone-500">{elements.join(", ")}</p>}
+              </div>
+              <input
+                type="text"
+                value={edits.departmentNotes[category] ?? ""}
+                onChange={(e) =>
+                  setEdits({ ...edits, departmentNotes: { ...edits.departmentNotes, [category]: e.target.value } })
+                }
+                disabled={!isEditable}
+                placeholder="Note"
+                className={`${inputClass} flex-1`}
+              />
+            </div>
+          ))}
+          {isEditable && unnotedCategories.length > 0 && (
+            <select
+              value=""
+              onChange={(e) =>
+                e.target.value &&
+                setEdits({ ...edits, departmentNotes: { ...edits.departmentNotes, [e.target.value]: "" } })
+              }
+              className={inputClass}
+            >
+              <option value="">Add a department note...</option>
+              {unnotedCategories.map((category) => (
+                <option key={category} value={category}>
+                  {ELEMENT_CATEGORY_LABELS[category]}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <SectionHeading>Notes</SectionHeading>
+        <textarea
+          value={edits.notes ?? ""}
+          onChange={(e) => setEdits({ ...edits, notes: e.target.value })}
+          disabled={!isEditable}
+          rows={3}
+          placeholder="Safety notes, parking, meals..."
+          className={`${inputClass} w-full`}
+        />
+      </div>
+
+      <div>
+        <SectionHeading>Advance Schedule</SectionHeading>
+        {sheet.advance ? (
+          <div className="text-sm text-stone-300 space-y-1">
+            <p className="text-stone-400">
+              Day {sheet.advance.dayNumber}
+              {sheet.advance.shootDate && ` — ${formatCallSheetDate(sheet.advance.shootDate)}`}
+              {" · "}
+              {sheet.advance.pages} pages
+            </p>
+            {sheet.advance.scenes.map((scene, index) => (
+              <p key={index}>
+                <span className="font-mono text-white">{scene.sceneNumbers}</span> {scene.intExt} {scene.location}{" "}
+                {scene.dayNight} <span className="text-stone-500">({scene.pages})</span>
+              </p>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-stone-500">Last day of the schedule.</p>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {isEditable && (
+          <button
+            type="button"
+            onClick={() => run(() => onSave(edits), "Failed to save call sheet")}
+            disabled={isSaving || !isChanged}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? "Saving..." : "Save Call Sheet"}
+          </button>
+        )}
+        {canEdit && (
+          <button
+            type="button"
+            onClick={() => run(() => onPublish(!isPublished), "Failed to update call sheet")}
+            disabled={isSaving || isChanged}
+            title={isChanged ? "Save your changes first" : undefined}
+            className="flex items-center gap-2 px-4 py-2 text-sm border border-stone-700 text-stone-300 hover:text-white rounded-lg disabled:opacity-50"
+          >
+            {isPublished ? <LockOpen className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+            {isPublished ? "Reopen" : "Publish"}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => callSheetPDF(sheet).save(`${sheet.title}-call-sheet-day-${sheet.dayNumber}.pdf`)}
+          disabled={isChanged}
+          title={isChanged ? "Save your changes first" : undefined}
+          className="flex items-center gap-2 px-4 py-2 text-sm text-stone-400 hover:text-white disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Download PDF
+        </button>
+        {isPublished && (
+          <span className="text-xs text-stone-500">
+            Published {new Date(publishedAt).toLocaleString()} — reopen to edit
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function CallSheetBuilder({ projectId, schedule, canEdit }: CallSheetBuilderProps) {
+  const days = schedule?.totals.days ?? [];
+  const [selectedDay, setSelectedDay] = useState(1);
+  const dayNumber = days.some((day) => day.dayNumber === selectedDay) ? selectedDay : (days[0]?.dayNumber ?? null);
+  const { callSheet, isLoading, isError, updateCallSheet, setPublished } = useCallSheet(
+    projectId,
+    schedule?.id ?? null,
+    dayNumber
+  );
+
+  if (!schedule || days.length === 0) {
+    return <div className="text-center py-8 text-stone-500">No scenes scheduled yet.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <label className="flex items-center gap-2 text-sm text-stone-400">
+        Shoot Day
+        <select
+          value={dayNumber ?? ""}
+          onChange={(e) => setSelectedDay(Number(e.target.value))}
+          className={inputClass}
+        >
+          {days.map((day) => (
+            <option key={day.dayNumber} value={day.dayNumber}>
+              Day {day.dayNumber}
+              {day.shootDate && ` — ${formatCallSheetDate(day.shootDate)}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {isError ? (
+        <p className="text-red-400 text-sm">Failed to load the call sheet.</p>
+      ) : isLoading || !callSheet ? (
+        <p className="text-sm text-stone-500">Loading...</p>
+      ) : (
+        <CallSheetForm
+          key={`${callSheet.dayNumber}:${callSheet.updatedAt}:${callSheet.publishedAt}`}
+          callSheet={callSheet}
+          canEdit={canEdit}
+          onSave={(edits) => updateCallSheet(edits)}
+          onPublish={setPublished}
+        />
+      )}
+    </div>
+  );
+}
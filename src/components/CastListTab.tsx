@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import type { Character } from "@/hooks/useProject";
+import type { Character, CharacterUpdate } from "@/hooks/useProject";
 import {
   DndContext,
   closestCenter,
@@ -25,7 +25,7 @@ interface CastListTabProps {
   characters: Character[];
   canEdit: boolean;
   onAdd: (name: string, actor?: string) => Promise<void>;
-  onUpdate: (charId: string, updates: { name?: string; actor?: string }) => Promise<void>;
+  onUpdate: (charId: string, updates: CharacterUpdate) => Promise<void>;
   onDelete: (charId: string) => Promise<void>;
   onReorder: (characterIds: string[]) => Promise<void>;
 }
@@ -38,12 +38,13 @@ function SortableCharacter({
 }: {
   character: Character;
   canEdit: boolean;
-  onUpdate: (charId: string, updates: { name?: string; actor?: string }) => Promise<void>;
+  onUpdate: (charId: string, updates: CharacterUpdate) => Promise<void>;
   onDelete: (charId: string) => Promise<void>;
 }) {
   const [isEditing, setIsEditing] = useState(false);
   const [name, setName] = useState(character.name);
   const [actor, setActor] = useState(character.actor || "");
+  const [dropPickupDays, setDropPickupDays] = useState(character.dropPickupDays?.toString() ?? "");
 
   const {
     attributes,
@@ -61,13 +62,18 @@ function SortableCharacter({
   };
 
   const handleSave = async () => {
-    await onUpdate(character.id, { name, actor: actor || undefined });
+    await onUpdate(character.id, {
+      name,
+      actor: actor || undefined,
+      dropPickupDays: dropPickupDays.trim() ? Number(dropPickupDays) : null,
+    });
     setIsEditing(false);
   };
 
   const handleCancel = () => {
     setName(character.name);
     setActor(character.actor || "");
+    setDropPickupDays(character.dropPickupDays?.toString() ?? "");
     setIsEditing(false);
   };
 
@@ -108,6 +114,16 @@ function SortableCharacter({
             placeholder="Actor name"
             className="flex-1 px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
           />
+          <input
+            type="number"
+            min={0}
+            max={365}
+            value={dropPickupDays}
+            onChange={(e) => setDropPickupDays(e.target.value)}
+            placeholder="Drop/pickup"
+            title="Days off before a drop/pickup on the Day Out of Days. Blank for the project's."
+            className="w-28 px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+          />
           <button
             onClick={handleSave}
             className="p-2 text-green-500 hover:text-green-400"
@@ -128,6 +144,13 @@ function SortableCharacter({
             {character.actor && (
               <p className="text-stone-500 text-sm">{character.actor}</p>
             )}
+            {character.dropPickupDays !== null && (
+              <p className="text-stone-600 text-xs">
+                {character.dropPickupDays === 0
+                  ? "Always held"
+                  : `Drop/pickup after ${character.dropPickupDays} days off`}
+              </p>
+            )}
           </div>
           {canEdit && (
             <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
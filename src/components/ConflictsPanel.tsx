@@ -0,0 +1,321 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Check, Plus, Trash2, X, Loader2 } from "lucide-react";
+import type { Schedule } from "@/hooks/useSchedule";
+import type { ConstraintType, NewConstraint, ScheduleConstraint } from "@/hooks/useConstraints";
+import { CONSTRAINT_TYPE_LABELS, WEEKDAY_LABELS } from "@/lib/schedule-conflicts";
+import { formatPageCount } from "@/lib/page-count";
+
+interface ConflictsPanelProps {
+  schedule: Schedule;
+  constraints: ScheduleConstraint[];
+  canEdit: boolean;
+  onCreate: (constraint: NewConstraint) => Promise<unknown>;
+  onDelete: (constraintId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass =
+  "px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold";
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export function ConflictsPanel({
+  schedule,
+  constraints,
+  canEdit,
+  onCreate,
+  onDelete,
+  onClose,
+}: ConflictsPanelProps) {
+  const [type, setType] = useState<ConstraintType>("CAST_AVAILABILITY");
+  const [characterId, setCharacterId] = useState("");
+  const [location, setLocation] = useState("");
+  const [breakdownId, setBreakdownId] = useState("");
+  const [laterBreakdownId, setLaterBreakdownId] = useState("");
+  const [dates, setDates] = useState<string[]>([]);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [maxPages, setMaxPages] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { conflicts, uncheckedDays } = schedule.conflicts;
+  // Boneyard scenes can be constrained before they go back on the board
+  const allSheets = [...schedule.stripSlots.map((s) => s.breakdown), ...schedule.boneyard];
+  const sheets = allSheets.filter((b) => !b.isOmitted);
+  const characters = [
+    ...new Map(sheets.flatMap((b) => b.cast.map(({ character }) => [character.id, character] as const))).values(),
+  ].sort((a, b) => a.number - b.number);
+  const locations = [...new Set(sheets.map((b) => b.location?.trim()).filter((l): l is string => !!l))].sort();
+
+  const sceneLabel = (id: string | null) => {
+    const sheet = allSheets.find((b) => b.id === id);
+    return sheet ? `scene ${sheet.sceneNumbers}` : "a deleted scene";
+  };
+
+  const describe = (constraint: ScheduleConstraint) => {
+    const availability = [
+      ...constraint.dates.map(formatDate),
+      ...constraint.weekdays.map((d) => `${WEEKDAY_LABELS[d]}s`),
+    ].join(", ");
+    switch (constraint.type) {
+      case "CAST_AVAILABILITY": {
+        const character = characters.find((c) => c.id === constraint.characterId);
+        return `${character ? `${character.number}. ${character.name}` : "Cast member"} only on ${availability}`;
+      }
+      case "LOCATION_AVAILABILITY":
+        return `${constraint.location} only on ${availability}`;
+      case "SCENE_ORDER":
+        return `${sceneLabel(constraint.breakdownId)} before ${sceneLabel(constraint.laterBreakdownId)}`;
+      case "NIGHT_REQUIRED":
+        return `${sceneLabel(constraint.breakdownId)} needs a night`;
+      case "MAX_PAGES_PER_DAY":
+        return `At most ${formatPageCount(constraint.maxEighths ?? 0)} pages a day`;
+    }
+  };
+
+  const reset = () => {
+    setCharacterId("");
+    setLocation("");
+    setBreakdownId("");
+    setLaterBreakdownId("");
+    setDates([]);
+    setWeekdays([]);
+    setMaxPages("");
+    setNotes("");
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onCreate({
+        type,
+        characterId: characterId || undefined,
+        location: location.trim() || undefined,
+        breakdownId: breakdownId || undefined,
+        laterBreakdownId: laterBreakdownId || undefined,
+        dates,
+        weekdays,
+        maxPages: maxPages.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add constraint");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const sceneSelect = (value: string, onChange: (id: string) => void, placeholder: string) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      <option value="">{placeholder}</option>
+      {sheets.map((sheet) => (
+        <option key={sheet.id} value={sheet.id}>
+          {sheet.sceneNumbers} {sheet.location ? `— ${sheet.location}` : ""}
+        </option>
+      ))}
+    </select>
+  );
+
+  const isAvailability = type === "CAST_AVAILABILITY" || type === "LOCATION_AVAILABILITY";
+
+  return (
+    <div className="mb-6 p-4 bg-stone-900 border border-stone-800 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-stone-300">
+          Conflicts
+          <span className="ml-2 text-stone-500 font-normal">
+            {constraints.length} constraint{constraints.length !== 1 ? "s" : ""} checked against {schedule.name}
+          </span>
+        </h3>
+        <button type="button" onClick={onClose} className="p-1 text-stone-500 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Broken constraints */}
+      <div className="space-y-1 text-sm">
+        {conflicts.length === 0 ? (
+          <p className="flex items-center gap-2 text-green-400">
+            <Check className="w-4 h-4" />
+            No conflicts
+          </p>
+        ) : (
+          conflicts.map((conflict, index) => (
+            <p key={`${conflict.constraintId}-${index}`} className="flex items-start gap-2 text-red-400">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              {conflict.message}
+            </p>
+          ))
+        )}
+        {uncheckedDays > 0 && (
+          <p className="text-stone-500">
+            Availability can&apos;t be checked on {uncheckedDays} day{uncheckedDays !== 1 ? "s" : ""} without a
+            shoot date. Set a start date in the calendar view.
+          </p>
+        )}
+      </div>
+
+      {/* Constraint list */}
+      {constraints.length > 0 && (
+        <div className="space-y-1 pt-3 border-t border-stone-800">
+          {constraints.map((constraint) => (
+            <div key={constraint.id} className="flex items-center gap-3 text-sm">
+              <span className="w-40 text-stone-500">{CONSTRAINT_TYPE_LABELS[constraint.type]}</span>
+              <span className="flex-1 text-stone-300">
+                {describe(constraint)}
+                {constraint.notes && <span className="ml-2 text-stone-500">{constraint.notes}</span>}
+              </span>
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={() => onDelete(constraint.id)}
+                  className="p-1 text-stone-600 hover:text-red-400"
+                  title="Remove constraint"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add a constraint */}
+      {canEdit && (
+        <div className="space-y-2 pt-3 border-t border-stone-800">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={type}
+              onChange={(e) => {
+                setType(e.target.value as ConstraintType);
+                setError(null);
+              }}
+              className={inputClass}
+            >
+              {(Object.keys(CONSTRAINT_TYPE_LABELS) as ConstraintType[]).map((option) => (
+                <option key={option} value={option}>
+                  {CONSTRAINT_TYPE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+
+            {type === "CAST_AVAILABILITY" && (
+              <select value={characterId} onChange={(e) => setCharacterId(e.target.value)} className={inputClass}>
+                <option value="">Cast member...</option>
+                {characters.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.number}. {c.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {type === "LOCATION_AVAILABILITY" && (
+              <select value={location} onChange={(e) => setLocation(e.target.value)} className={inputClass}>
+                <option value="">Location...</option>
+                {locations.map((l) => (
+                  <option key={l} value={l}>
+                    {l}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {(type === "SCENE_ORDER" || type === "NIGHT_REQUIRED") &&
+              sceneSelect(breakdownId, setBreakdownId, "Scene...")}
+            {type === "SCENE_ORDER" && (
+              <>
+                <span className="text-sm text-stone-400">shoots before</span>
+                {sceneSelect(laterBreakdownId, setLaterBreakdownId, "Scene...")}
+              </>
+            )}
+
+            {type === "MAX_PAGES_PER_DAY" && (
+              <input
+                type="text"
+                value={maxPages}
+                onChange={(e) => setMaxPages(e.target.value)}
+                placeholder="Pages, e.g. 5 or 4 4/8"
+                className={`w-44 ${inputClass}`}
+              />
+            )}
+
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes"
+              className={`flex-1 min-w-40 ${inputClass}`}
+            />
+          </div>
+
+          {isAvailability && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-stone-400">Available on</span>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() =>
+                    setWeekdays(weekdays.includes(day) ? weekdays.filter((d) => d !== day) : [...weekdays, day])
+                  }
+                  className={`px-2 py-1 rounded text-xs border ${
+                    weekdays.includes(day)
+                      ? "border-gold text-gold"
+                      : "border-stone-700 text-stone-400 hover:text-white"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              <span className="text-sm text-stone-500">and</span>
+              <input
+                type="date"
+                value=""
+                onChange={(e) =>
+                  e.target.value && !dates.includes(e.target.value) && setDates([...dates, e.target.value].sort())
+                }
+                className={inputClass}
+              />
+              {dates.map((date) => (
+                <span key={date} className="flex items-center gap-1 px-2 py-0.5 bg-stone-800 rounded text-xs text-stone-300">
+                  {formatDate(date)}
+                  <button
+                    type="button"
+                    onClick={() => setDates(dates.filter((d) => d !== date))}
+                    className="text-stone-500 hover:text-white"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-stone-300 hover:text-white border border-stone-700 rounded disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add Constraint
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { X, Loader2, Check } from "lucide-react";
+import type { LegacyMigrationResult } from "@/hooks/useElements";
+import type { LegacyMigrationPlan } from "@/lib/legacy-elements";
+import { ELEMENT_CATEGORY_LABELS } from "@/lib/breakdown-fields";
+
+interface LegacyElementsPanelProps {
+  onPreview: () => Promise<LegacyMigrationPlan | undefined>;
+  onMigrate: (clearText: boolean) => Promise<LegacyMigrationResult | undefined>;
+  onClose: () => void;
+}
+
+const KEPT_FIELD_LABELS: Record<string, string> = {
+  stunts: "Stunts",
+  extras: "Extras",
+};
+
+export function LegacyElementsPanel({ onPreview, onMigrate, onClose }: LegacyElementsPanelProps) {
+  const [plan, setPlan] = useState<LegacyMigrationPlan | null>(null);
+  const [result, setResult] = useState<LegacyMigrationResult | null>(null);
+  const [clearText, setClearText] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(true);
+
+  // The dry run is the first thing shown; run it once when the panel opens
+  const previewOnOpen = useRef(onPreview);
+  useEffect(() => {
+    let cancelled = false;
+    previewOnOpen.current()
+      .then((preview) => {
+        if (!cancelled) setPlan(preview || null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to plan migration");
+      })
+      .finally(() => {
+        if (!cancelled) setIsWorking(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleMigrate = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const migrated = await onMigrate(clearText);
+      setResult(migrated || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to migrate elements");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const hasWork = !!plan && (plan.newElements > 0 || plan.newLinks > 0 || plan.sheetsWithText > 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-display text-gold">Migrate Department Text</h3>
+          <p className="text-stone-500 text-sm mt-1">
+            Turns the free-text department fields into element library entries linked to each sheet.
+            Nothing is saved until you confirm.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 text-stone-500 hover:text-white"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {isWorking && !plan && (
+        <div className="flex items-center gap-2 text-stone-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Reading breakdown sheets...
+        </div>
+      )}
+
+      {/* Dry run */}
+      {plan && !result && (
+        <div className="space-y-4">
+          <div className="flex gap-6 text-sm text-stone-400">
+            <span>{plan.sheetsWithText} sheet{plan.sheetsWithText !== 1 ? "s" : ""} with department text</span>
+            <span className="text-green-400">{plan.newElements} new elements</span>
+            <span className="text-yellow-400">{plan.matchedElements} matched</span>
+            <span>{plan.newLinks} new links</span>
+          </div>
+
+          {plan.keptFields.length > 0 && (
+            <p className="text-sm text-stone-500">
+              {plan.keptFields
+                .map((kept) => `${KEPT_FIELD_LABELS[kept.field] || kept.field} (${kept.sheets} sheets)`)
+                .join(", ")}{" "}
+              {plan.keptFields.length === 1 ? "has" : "have"} no element category and will stay as text.
+            </p>
+          )}
+
+          {plan.elements.length === 0 ? (
+            <p className="text-stone-500 text-sm">No department text left to migrate.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto border border-stone-800 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-stone-900 text-stone-400 text-left sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 w-40">Category</th>
+                    <th className="px-3 py-2">Element</th>
+                    <th className="px-3 py-2">Scenes</th>
+                    <th className="px-3 py-2 w-24">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.elements.map((element) => (
+                    <tr
+                      key={`${element.category}-${element.name}`}
+                      className="border-t border-stone-800/50 text-stone-300"
+                    >
+                      <td className="px-3 py-2 text-xs text-stone-400">
+                        {ELEMENT_CATEGORY_LABELS[element.category]}
+                      </td>
+                      <td className="px-3 py-2">{element.name}</td>
+                      <td className="px-3 py-2 font-mono text-xs">
+                        {element.links.map((link) => link.sceneNumbers).join(", ")}
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {element.elementId ? (
+                          <span className="text-yellow-400">Matched</span>
+                        ) : (
+                          <span className="text-green-400">New</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={clearText}
+              onChange={(e) => setClearText(e.target.checked)}
+              className="w-4 h-4 rounded border-stone-700 bg-stone-800 text-gold focus:ring-gold"
+            />
+            <span className="text-sm text-stone-400">
+              Clear the migrated text from the sheets afterwards
+            </span>
+          </label>
+
+          <div className="flex gap-4 pt-4 border-t border-stone-800">
+            <button
+              type="button"
+              onClick={handleMigrate}
+              disabled={isWorking || !hasWork}
+              className="px-6 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Migrate
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 text-stone-400 hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Result */}
+      {result && (
+        <div className="space-y-4">
+          <p className="flex items-center gap-2 text-green-400">
+            <Check className="w-4 h-4" />
+            Created {result.elementsCreated} element{result.elementsCreated !== 1 ? "s" : ""} and{" "}
+            {result.linksCreated} link{result.linksCreated !== 1 ? "s" : ""}
+            {result.sheetsCleared > 0 &&
+              `, cleared text on ${result.sheetsCleared} sheet${result.sheetsCleared !== 1 ? "s" : ""}`}
+            .
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
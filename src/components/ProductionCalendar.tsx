@@ -1,18 +1,24 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import type { Schedule, DayBreak, BannerStrip } from "@/hooks/useSchedule";
+import type { Schedule } from "@/hooks/useSchedule";
+import { WORK_WEEK_PRESETS } from "@/lib/working-calendar";
 import {
   ChevronLeft,
   ChevronRight,
   Calendar,
   Loader2,
+  Plus,
+  X,
 } from "lucide-react";
 
 interface ProductionCalendarProps {
   schedule: Schedule;
   canEdit: boolean;
   onUpdateStartDate: (date: string | null) => Promise<void>;
+  onUpdateWorkDays?: (workDays: number[]) => Promise<void>;
+  onAddHoliday?: (date: string, name: string) => Promise<void>;
+  onDeleteHoliday?: (holidayId: string) => Promise<void>;
 }
 
 type DayType = "shoot" | "travel" | "holiday" | "prep" | "off" | "move" | "info";
@@ -21,6 +27,7 @@ interface CalendarDayInfo {
   date: Date;
   type: DayType | null;
   shootDayNumber?: number;
+  pages?: string;
   label?: string;
   isCurrentMonth: boolean;
 }
@@ -47,12 +54,6 @@ function isSameDay(d1: Date, d2: Date): boolean {
   );
 }
 
-function addDays(date: Date, days: number): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() + days);
-  return result;
-}
-
 function formatDateForInput(date: Date): string {
   // Use local date components to avoid timezone issues
   const year = date.getFullYear();
@@ -74,6 +75,9 @@ export function ProductionCalendar({
   schedule,
   canEdit,
   onUpdateStartDate,
+  onUpdateWorkDays,
+  onAddHoliday,
+  onDeleteHoliday,
 }: ProductionCalendarProps) {
   const startDate = schedule.startDate ? parseLocalDate(schedule.startDate) : null;
   const [viewDate, setViewDate] = useState(() => startDate || new Date());
@@ -82,50 +86,78 @@ export function ProductionCalendar({
   const [tempStartDate, setTempStartDate] = useState(
     startDate ? formatDateForInput(startDate) : ""
   );
+  const [holidayDate, setHolidayDate] = useState("");
+  const [holidayName, setHolidayName] = useState("");
+  const [calendarError, setCalendarError] = useState<string | null>(null);
 
-  // Build the calendar mapping
+  // Build the calendar mapping from the dates the server worked out
   const calendarMap = useMemo(() => {
     const map = new Map<string, CalendarDayInfo>();
 
     if (!startDate) return map;
 
-    const totalDays = schedule.dayBreaks.length + 1; // +1 for the last day after final break
-    let currentDate = new Date(startDate.getTime()); // Clone the date
-    let shootDayNumber = 1;
-
     // Map banner types to day types
     const bannerTypeToDay: Record<string, DayType> = {
       TRAVEL: "travel",
       HOLIDAY: "holiday",
       PRERIG: "prep",
-      MOVE: "move",
-      INFO: "info",
     };
 
-    // First, mark all shoot days
-    for (let day = 1; day <= totalDays; day++) {
-      const dateKey = formatDateForInput(currentDate);
-
-      // Check if there's a day break after this day
-      const dayBreak = schedule.dayBreaks.find(db => db.dayNumber === day);
+    const dated = [
+      ...schedule.totals.days.map((day) => day.shootDate),
+      ...schedule.banners.map((banner) => banner.date?.split("T")[0] ?? null),
+    ].filter((date): date is string => date !== null);
+    const lastDate = dated.sort().pop();
+
+    // Days between the start and the last scheduled day that aren't worked
+    if (lastDate) {
+      for (
+        let date = new Date(startDate.getTime());
+        formatDateForInput(date) <= lastDate;
+        date.setDate(date.getDate() + 1)
+      ) {
+        if (!schedule.workDays.includes(date.getDay())) {
+          map.set(formatDateForInput(date), {
+            date: new Date(date),
+            type: "off",
+            isCurrentMonth: true,
+          });
+        }
+      }
+    }
 
-      map.set(dateKey, {
-        date: new Date(currentDate),
-        type: "shoot",
-        shootDayNumber: shootDayNumber,
+    for (const holiday of schedule.holidays) {
+      const date = parseLocalDate(holiday.date);
+      map.set(formatDateForInput(date), {
+        date,
+        type: "holiday",
+        label: holiday.name,
         isCurrentMonth: true,
       });
+    }
 
-      shootDayNumber++;
-      currentDate = addDays(currentDate, 1);
-
-      // Skip non-shoot days (weekends if we want, or just advance)
-      // For now, we'll just advance to the next day
+    for (const banner of schedule.banners) {
+      if (!banner.date) continue;
+      const date = parseLocalDate(banner.date);
+      map.set(formatDateForInput(date), {
+        date,
+        type: bannerTypeToDay[banner.bannerType],
+        label: banner.label,
+        isCurrentMonth: true,
+      });
     }
 
-    // Now overlay banners (holidays, travel days, etc.) based on their afterPosition
-    // Banners don't have dates stored directly, so we need to calculate based on the schedule
-    // For a more complete implementation, we'd need to track banner dates separately
+    for (const day of schedule.totals.days) {
+      if (!day.shootDate) continue;
+      const date = parseLocalDate(day.shootDate);
+      map.set(day.shootDate, {
+        date,
+        type: "shoot",
+        shootDayNumber: day.dayNumber,
+        pages: day.pages,
+        isCurrentMonth: true,
+      });
+    }
 
     return map;
   }, [schedule, startDate]);
@@ -150,6 +182,7 @@ export function ProductionCalendar({
         date,
         type: existingInfo?.type || null,
         shootDayNumber: existingInfo?.shootDayNumber,
+        pages: existingInfo?.pages,
         label: existingInfo?.label,
         isCurrentMonth: false,
       });
@@ -165,6 +198,7 @@ export function ProductionCalendar({
         date,
         type: existingInfo?.type || null,
         shootDayNumber: existingInfo?.shootDayNumber,
+        pages: existingInfo?.pages,
         label: existingInfo?.label,
         isCurrentMonth: true,
       });
@@ -181,6 +215,7 @@ export function ProductionCalendar({
         date,
         type: existingInfo?.type || null,
         shootDayNumber: existingInfo?.shootDayNumber,
+        pages: existingInfo?.pages,
         label: existingInfo?.label,
         isCurrentMonth: false,
       });
@@ -209,6 +244,40 @@ export function ProductionCalendar({
     }
   };
 
+  const runCalendarUpdate = async (update: () => Promise<void>) => {
+    setIsUpdating(true);
+    setCalendarError(null);
+    try {
+      await update();
+    } catch (error) {
+      setCalendarError(error instanceof Error ? error.message : "Failed to update calendar");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleToggleWorkDay = (weekday: number) => {
+    if (!onUpdateWorkDays) return;
+    const workDays = schedule.workDays.includes(weekday)
+      ? schedule.workDays.filter((d) => d !== weekday)
+      : [...schedule.workDays, weekday].sort();
+    if (workDays.length === 0) return;
+    runCalendarUpdate(() => onUpdateWorkDays(workDays));
+  };
+
+  const handleAddHoliday = () => {
+    if (!onAddHoliday || !holidayDate || !holidayName.trim()) return;
+    runCalendarUpdate(async () => {
+      await onAddHoliday(holidayDate, holidayName.trim());
+      setHolidayDate("");
+      setHolidayName("");
+    });
+  };
+
+  const workWeekPreset = WORK_WEEK_PRESETS.find(
+    (preset) => preset.workDays.join() === schedule.workDays.join()
+  );
+
   const getDayClass = (day: CalendarDayInfo): string => {
     const baseClass = "h-24 p-1 border border-stone-800 text-left align-top transition-colors";
 
@@ -234,7 +303,7 @@ export function ProductionCalendar({
     }
   };
 
-  const totalShootDays = schedule.dayBreaks.length + (schedule.stripSlots.length > 0 ? 1 : 0);
+  const totalShootDays = schedule.totals.days.length;
 
   return (
     <div className="space-y-6">
@@ -246,7 +315,8 @@ export function ProductionCalendar({
             Production Calendar
           </h3>
           <p className="text-stone-500 text-sm mt-1">
-            {totalShootDays} shoot day{totalShootDays !== 1 ? "s" : ""} scheduled
+            {totalShootDays} shoot day{totalShootDays !== 1 ? "s" : ""} scheduled •{" "}
+            {schedule.totals.pages} pages
           </p>
         </div>
       </div>
@@ -308,6 +378,108 @@ export function ProductionCalendar({
         </div>
       </div>
 
+      {/* Work Week and Holidays */}
+      <div className="bg-stone-900 border border-stone-800 rounded-lg p-4 grid gap-6 md:grid-cols-2">
+        <div>
+          <p className="text-sm font-medium text-stone-300">Work Week</p>
+          <p className="text-stone-500 text-xs mb-3">
+            Shoot days, travel, holiday and pre-rig banners take the next working day.
+          </p>
+          <select
+            value={workWeekPreset ? workWeekPreset.workDays.join() : ""}
+            onChange={(e) => {
+              const preset = WORK_WEEK_PRESETS.find((p) => p.workDays.join() === e.target.value);
+              if (preset && onUpdateWorkDays) runCalendarUpdate(() => onUpdateWorkDays(preset.workDays));
+            }}
+            disabled={!canEdit || isUpdating}
+            className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold mb-3"
+          >
+            {!workWeekPreset && <option value="">Custom week</option>}
+            {WORK_WEEK_PRESETS.map((preset) => (
+              <option key={preset.label} value={preset.workDays.join()}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-1">
+            {WEEKDAYS.map((label, weekday) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => handleToggleWorkDay(weekday)}
+                disabled={!canEdit || isUpdating}
+                className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors disabled:cursor-default ${
+                  schedule.workDays.includes(weekday)
+                    ? "bg-gold/20 text-gold border border-gold/50"
+                    : "bg-stone-800 text-stone-500 border border-stone-700"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-stone-300">Holidays</p>
+          <p className="text-stone-500 text-xs mb-3">
+            No shooting on project holidays, in every schedule version.
+          </p>
+          <div className="space-y-1 mb-3">
+            {schedule.holidays.length === 0 && (
+              <p className="text-stone-600 text-sm">No holidays</p>
+            )}
+            {schedule.holidays.map((holiday) => (
+              <div key={holiday.id} className="flex items-center justify-between text-sm">
+                <span className="text-stone-300">
+                  <span className="font-mono text-stone-500 mr-2">{holiday.date.split("T")[0]}</span>
+                  {holiday.name}
+                </span>
+                {canEdit && onDeleteHoliday && (
+                  <button
+                    type="button"
+                    onClick={() => runCalendarUpdate(() => onDeleteHoliday(holiday.id))}
+                    disabled={isUpdating}
+                    className="p-1 text-stone-600 hover:text-red-400"
+                    title="Remove holiday"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {canEdit && onAddHoliday && (
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={holidayDate}
+                onChange={(e) => setHolidayDate(e.target.value)}
+                className="px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+              />
+              <input
+                type="text"
+                value={holidayName}
+                onChange={(e) => setHolidayName(e.target.value)}
+                placeholder="Holiday name"
+                className="flex-1 min-w-0 px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+              />
+              <button
+                type="button"
+                onClick={handleAddHoliday}
+                disabled={isUpdating || !holidayDate || !holidayName.trim()}
+                className="p-2 bg-stone-800 hover:bg-stone-700 text-white rounded disabled:opacity-50"
+                title="Add holiday"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {calendarError && <p className="text-red-400 text-sm md:col-span-2">{calendarError}</p>}
+      </div>
+
       {/* Legend */}
       <div className="flex items-center gap-4 text-xs">
         <div className="flex items-center gap-2">
@@ -326,6 +498,10 @@ export function ProductionCalendar({
           <div className="w-4 h-4 rounded bg-purple-900/30 border border-purple-800" />
           <span className="text-stone-400">Prep</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 rounded bg-stone-800 border border-stone-700" />
+          <span className="text-stone-400">Off</span>
+        </div>
       </div>
 
       {/* Calendar Navigation */}
@@ -379,6 +555,9 @@ export function ProductionCalendar({
                   </span>
                 )}
               </div>
+              {day.pages && (
+                <p className="text-xs mt-1 font-mono">{day.pages} pgs</p>
+              )}
               {day.label && (
                 <p className="text-xs mt-1 truncate">{day.label}</p>
               )}
@@ -1,18 +1,22 @@
 "use client";
 
 import { useState } from "react";
-import type { Project } from "@/hooks/useProject";
+import type { Project, ProjectUpdate } from "@/hooks/useProject";
 import { Save } from "lucide-react";
+import { TIME_MODEL_LABELS, formatDuration, type TimeModel } from "@/lib/shooting-time";
+import { StripStyleEditor } from "./StripStyleEditor";
 
 interface ProjectTabProps {
   project: Project;
-  onUpdate: (updates: {
-    title?: string;
-    director?: string;
-    producer?: string;
-    ad?: string;
-    scriptDate?: string;
-  }) => Promise<void>;
+  onUpdate: (updates: ProjectUpdate) => Promise<void>;
+}
+
+const TIME_MODEL_FIELDS = Object.keys(TIME_MODEL_LABELS) as (keyof TimeModel)[];
+
+function timeModelForm(project: Project) {
+  return Object.fromEntries(
+    TIME_MODEL_FIELDS.map((field) => [field, String(project[field])])
+  ) as Record<keyof TimeModel, string>;
 }
 
 export function ProjectTab({ project, onUpdate }: ProjectTabProps) {
@@ -26,6 +30,8 @@ export function ProjectTab({ project, onUpdate }: ProjectTabProps) {
     scriptDate: project.scriptDate
       ? new Date(project.scriptDate).toISOString().split("T")[0]
       : "",
+    ...timeModelForm(project),
+    dropPickupDays: String(project.dropPickupDays),
   });
 
   const canEdit = project.userAccess.canEdit || project.userAccess.isOwner;
@@ -39,6 +45,13 @@ export function ProjectTab({ project, onUpdate }: ProjectTabProps) {
         producer: form.producer || undefined,
         ad: form.ad || undefined,
         scriptDate: form.scriptDate || undefined,
+        ...Object.fromEntries(
+          TIME_MODEL_FIELDS.filter((field) => form[field].trim()).map((field) => [
+            field,
+            Number(form[field]),
+          ])
+        ),
+        ...(form.dropPickupDays.trim() ? { dropPickupDays: Number(form.dropPickupDays) } : {}),
       });
       setIsEditing(false);
     } catch (error) {
@@ -57,6 +70,8 @@ export function ProjectTab({ project, onUpdate }: ProjectTabProps) {
       scriptDate: project.scriptDate
         ? new Date(project.scriptDate).toISOString().split("T")[0]
         : "",
+      ...timeModelForm(project),
+      dropPickupDays: String(project.dropPickupDays),
     });
     setIsEditing(false);
   };
@@ -168,6 +183,64 @@ export function ProjectTab({ project, onUpdate }: ProjectTabProps) {
           )}
         </div>
 
+        {/* Shooting-time model, used for the schedule's time estimates */}
+        <div className="pt-6 border-t border-stone-800">
+          <h3 className="text-lg font-medium text-stone-300 mb-1">Shooting Time</h3>
+          <p className="text-sm text-stone-500 mb-4">
+            Scenes are estimated from their camera setups and page count. Each day adds a meal
+            break and its company moves.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            {TIME_MODEL_FIELDS.map((field) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-stone-400 mb-2">
+                  {TIME_MODEL_LABELS[field]}
+                </label>
+                {isEditing ? (
+                  <input
+                    type="number"
+                    min={field === "maxDayMinutes" ? 1 : 0}
+                    max={1440}
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    className="w-full px-4 py-3 bg-stone-800 border border-stone-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-gold focus:border-transparent"
+                  />
+                ) : (
+                  <p className="text-white">
+                    {field === "maxDayMinutes" ? formatDuration(project[field]) : project[field]}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Drop/pickup threshold for the Day Out of Days */}
+        <div className="pt-6 border-t border-stone-800">
+          <h3 className="text-lg font-medium text-stone-300 mb-1">Day Out of Days</h3>
+          <p className="text-sm text-stone-500 mb-4">
+            A performer with this many days off between work days is dropped and picked up
+            again instead of held. 0 always holds. Characters can set their own on the Cast List.
+          </p>
+          <label className="block text-sm font-medium text-stone-400 mb-2">
+            Drop/pickup after (days off)
+          </label>
+          {isEditing ? (
+            <input
+              type="number"
+              min={0}
+              max={365}
+              value={form.dropPickupDays}
+              onChange={(e) => setForm({ ...form, dropPickupDays: e.target.value })}
+              className="w-full px-4 py-3 bg-stone-800 border border-stone-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-gold focus:border-transparent"
+            />
+          ) : (
+            <p className="text-white">
+              {project.dropPickupDays === 0 ? "Never (always hold)" : project.dropPickupDays}
+            </p>
+          )}
+        </div>
+
         {/* Save/Cancel Buttons */}
         {isEditing && (
           <div className="flex gap-4 pt-4">
@@ -190,6 +263,12 @@ export function ProjectTab({ project, onUpdate }: ProjectTabProps) {
         )}
       </div>
 
+      {/* Strip colors and fields, shared by the board and the Strip Board report */}
+      <div className="mt-12 pt-8 border-t border-stone-800">
+        <h3 className="text-lg font-medium text-stone-300 mb-4">Strip Board</h3>
+        <StripStyleEditor project={project} canEdit={canEdit} onUpdate={onUpdate} />
+      </div>
+
       {/* Project Info */}
       <div className="mt-12 pt-8 border-t border-stone-800">
         <h3 className="text-lg font-medium text-stone-300 mb-4">
@@ -0,0 +1,324 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Pencil, Star, Trash2, GitCompare, X, Loader2 } from "lucide-react";
+import type { ScheduleVersion } from "@/hooks/useSchedule";
+import { formatEighthsDelta, type ScheduleComparison } from "@/lib/schedule-compare";
+
+interface ScheduleVersionsBarProps {
+  versions: ScheduleVersion[];
+  selectedId: string | null; // null follows the active version
+  canEdit: boolean;
+  onSelect: (scheduleId: string | null) => void;
+  onDuplicate: (name: string, sourceId?: string) => Promise<ScheduleVersion | undefined>;
+  onRename: (scheduleId: string, name: string) => Promise<void>;
+  onSetActive: (scheduleId: string) => Promise<void>;
+  onDelete: (scheduleId: string) => Promise<void>;
+  onCompare: (a: string, b: string) => Promise<ScheduleComparison | undefined>;
+}
+
+const inputClass =
+  "px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold";
+
+const buttonClass =
+  "flex items-center gap-1 px-3 py-1.5 text-sm text-stone-300 hover:text-white border border-stone-700 rounded disabled:opacity-50";
+
+function deltaClass(delta: number) {
+  if (delta > 0) return "text-amber-400";
+  if (delta < 0) return "text-green-400";
+  return "text-stone-500";
+}
+
+function ComparisonTable({ comparison }: { comparison: ScheduleComparison }) {
+  const { a, b } = comparison;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+      <div>
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-stone-500 border-b border-stone-800">
+              <th className="py-1 font-medium">Day</th>
+              <th className="py-1 font-medium text-right">{a.name}</th>
+              <th className="py-1 font-medium text-right">{b.name}</th>
+              <th className="py-1 font-medium text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.days.map((day) => (
+              <tr key={day.dayNumber} className="border-b border-stone-800/50">
+                <td className="py-1 text-stone-400">Day {day.dayNumber}</td>
+                <td className="py-1 text-right font-mono text-stone-300">{day.a?.pages ?? "—"}</td>
+                <td className="py-1 text-right font-mono text-stone-300">{day.b?.pages ?? "—"}</td>
+                <td className={`py-1 text-right font-mono ${deltaClass(day.eighthsDelta)}`}>
+                  {formatEighthsDelta(day.eighthsDelta)}
+                </td>
+              </tr>
+            ))}
+            <tr className="font-medium">
+              <td className="py-1 text-stone-300">
+                {a.dayCount} / {b.dayCount} days
+              </td>
+              <td className="py-1 text-right font-mono text-white">{a.pages}</td>
+              <td className="py-1 text-right font-mono text-white">{b.pages}</td>
+              <td className={`py-1 text-right font-mono ${deltaClass(b.eighths - a.eighths)}`}>
+                {formatEighthsDelta(b.eighths - a.eighths)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-stone-500 border-b border-stone-800">
+              <th className="py-1 font-medium">Cast work days</th>
+              <th className="py-1 font-medium text-right">{a.name}</th>
+              <th className="py-1 font-medium text-right">{b.name}</th>
+              <th className="py-1 font-medium text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.cast.map((member) => {
+              const delta = member.bDays - member.aDays;
+              return (
+                <tr key={member.characterId} className="border-b border-stone-800/50">
+                  <td className="py-1 text-stone-400">
+                    {member.number}. {member.name}
+                  </td>
+                  <td className="py-1 text-right font-mono text-stone-300">{member.aDays}</td>
+                  <td className="py-1 text-right font-mono text-stone-300">{member.bDays}</td>
+                  <td className={`py-1 text-right font-mono ${deltaClass(delta)}`}>
+                    {delta === 0 ? "—" : `${delta > 0 ? "+" : ""}${delta}`}
+                  </td>
+                </tr>
+              );
+            })}
+            {comparison.cast.length === 0 && (
+              <tr>
+                <td colSpan={4} className="py-2 text-stone-500">
+                  No cast scheduled on shoot days
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function ScheduleVersionsBar({
+  versions,
+  selectedId,
+  canEdit,
+  onSelect,
+  onDuplicate,
+  onRename,
+  onSetActive,
+  onDelete,
+  onCompare,
+}: ScheduleVersionsBarProps) {
+  const [mode, setMode] = useState<"duplicate" | "rename" | null>(null);
+  const [name, setName] = useState("");
+  const [compareId, setCompareId] = useState("");
+  const [comparison, setComparison] = useState<ScheduleComparison | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = versions.find((v) => v.id === selectedId) ?? versions.find((v) => v.isActive);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update schedule versions");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSubmitName = () => {
+    if (!current || !name.trim()) return;
+    run(async () => {
+      if (mode === "duplicate") {
+        const version = await onDuplicate(name.trim(), current.id);
+        if (version) onSelect(version.id);
+      } else {
+        await onRename(current.id, name.trim());
+      }
+      setMode(null);
+      setName("");
+    });
+  };
+
+  const handleCompare = (otherId: string) => {
+    setCompareId(otherId);
+    setComparison(null);
+    if (!current || !otherId) return;
+    run(async () => {
+      const result = await onCompare(current.id, otherId);
+      if (result) setComparison(result);
+    });
+  };
+
+  if (!current) return null;
+
+  return (
+    <div className="px-8 pt-6 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm text-stone-400">Schedule</label>
+        <select
+          value={current.id}
+          onChange={(e) => {
+            const version = versions.find((v) => v.id === e.target.value);
+            onSelect(version?.isActive ? null : e.target.value);
+            setComparison(null);
+            setCompareId("");
+          }}
+          className={inputClass}
+        >
+          {versions.map((version) => (
+            <option key={version.id} value={version.id}>
+              {version.name}
+              {version.isActive ? " (active)" : ""}
+            </option>
+          ))}
+        </select>
+
+        {canEdit && mode === null && (
+          <>
+            <button
+              type="button"
+              onClick={() => {
+                setMode("duplicate");
+                setName(`${current.name} copy`);
+              }}
+              className={buttonClass}
+            >
+              <Copy className="w-4 h-4" />
+              Duplicate
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setMode("rename");
+                setName(current.name);
+              }}
+              className={buttonClass}
+            >
+              <Pencil className="w-4 h-4" />
+              Rename
+            </button>
+            {!current.isActive && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => run(() => onSetActive(current.id))}
+                  disabled={isWorking}
+                  className={buttonClass}
+                  title="Make this the project's schedule"
+                >
+                  <Star className="w-4 h-4" />
+                  Set Active
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (confirm(`Delete the schedule version "${current.name}"?`)) {
+                      run(async () => {
+                        await onDelete(current.id);
+                        onSelect(null);
+                      });
+                    }
+                  }}
+                  disabled={isWorking}
+                  className="p-1.5 text-stone-500 hover:text-red-400"
+                  title="Delete version"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </>
+        )}
+
+        {mode !== null && (
+          <>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSubmitName()}
+              placeholder="Version name"
+              className={`w-48 ${inputClass}`}
+              autoFocus
+            />
+            <button
+              type="button"
+              onClick={handleSubmitName}
+              disabled={isWorking || !name.trim()}
+              className="px-3 py-1.5 text-sm bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded disabled:opacity-50"
+            >
+              {mode === "duplicate" ? "Create" : "Save"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode(null)}
+              className="p-1.5 text-stone-500 hover:text-white"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </>
+        )}
+
+        {versions.length > 1 && (
+          <div className="flex items-center gap-2 ml-auto">
+            <GitCompare className="w-4 h-4 text-stone-500" />
+            <select
+              value={compareId}
+              onChange={(e) => handleCompare(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Compare with...</option>
+              {versions
+                .filter((v) => v.id !== current.id)
+                .map((version) => (
+                  <option key={version.id} value={version.id}>
+                    {version.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+        )}
+        {isWorking && <Loader2 className="w-4 h-4 animate-spin text-stone-500" />}
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {comparison && (
+        <div className="p-4 bg-stone-900 border border-stone-800 rounded-lg">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-stone-300">
+              {comparison.a.name} vs {comparison.b.name}
+            </h3>
+            <button
+              type="button"
+              onClick={() => {
+                setComparison(null);
+                setCompareId("");
+              }}
+              className="p-1 text-stone-500 hover:text-white"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ComparisonTable comparison={comparison} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from "react";
+import { Upload, X, Loader2, Check } from "lucide-react";
+import type { ScriptFormat, ScriptImportResult } from "@/hooks/useProject";
+import { IMPORTED_FIELD_LABELS, type ScriptImportPlan } from "@/lib/script-import";
+
+interface ScriptImportPanelProps {
+  onPreview: (format: ScriptFormat, content: string) => Promise<ScriptImportPlan | undefined>;
+  onImport: (format: ScriptFormat, content: string) => Promise<ScriptImportResult | undefined>;
+  onClose: () => void;
+}
+
+// File extensions we know how to parse
+const FORMAT_BY_EXTENSION: Record<string, ScriptFormat> = {
+  fountain: "fountain",
+  spmd: "fountain",
+  txt: "fountain",
+  fdx: "fdx",
+};
+
+function detectFormat(fileName: string): ScriptFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() || "";
+  return FORMAT_BY_EXTENSION[extension] || null;
+}
+
+export function ScriptImportPanel({ onPreview, onImport, onClose }: ScriptImportPanelProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [script, setScript] = useState<{ format: ScriptFormat; content: string } | null>(null);
+  const [plan, setPlan] = useState<ScriptImportPlan | null>(null);
+  const [result, setResult] = useState<ScriptImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setPlan(null);
+    setResult(null);
+    setFileName(file.name);
+
+    const format = detectFormat(file.name);
+    if (!format) {
+      setError("Unsupported file type. Choose a .fountain or .fdx file.");
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const content = await file.text();
+      setScript({ format, content });
+      const preview = await onPreview(format, content);
+      setPlan(preview || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read script");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!script) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const imported = await onImport(script.format, script.content);
+      setResult(imported || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import script");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const newSceneCount = plan?.scenes.filter((s) => s.status === "new").length || 0;
+  const changedSceneCount = plan?.scenes.filter((s) => s.status === "changed").length || 0;
+  const skippedSceneCount = plan?.scenes.filter((s) => s.status === "skipped").length || 0;
+  const writeCount = newSceneCount + changedSceneCount;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-display text-gold">Import Script</h3>
+          <p className="text-stone-500 text-sm mt-1">
+            Creates one breakdown sheet per scene and updates scenes already broken down.
+            Nothing is saved until you confirm.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 text-stone-500 hover:text-white"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* File picker */}
+      <label className="flex items-center justify-center gap-3 p-6 border-2 border-dashed border-stone-700 rounded-lg cursor-pointer hover:border-stone-500 transition-colors">
+        <Upload className="w-5 h-5 text-stone-400" />
+        <span className="text-stone-300">{fileName || "Choose a .fountain or .fdx file"}</span>
+        <input
+          type="file"
+          accept=".fountain,.spmd,.txt,.fdx"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+      </label>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {isWorking && !plan && (
+        <div className="flex items-center gap-2 text-stone-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Reading script...
+        </div>
+      )}
+
+      {/* Preview */}
+      {plan && !result && (
+        <div className="space-y-4">
+          <div className="flex gap-6 text-sm text-stone-400">
+            <span>{plan.scenes.length} scenes found</span>
+            <span className="text-green-400">{newSceneCount} new</span>
+            <span className="text-yellow-400">{changedSceneCount} changed</span>
+            <span>{plan.scenes.length - writeCount - skippedSceneCount} unchanged</span>
+            {skippedSceneCount > 0 && <span className="text-red-400">{skippedSceneCount} skipped</span>}
+          </div>
+
+          {plan.newCharacters.length > 0 && (
+            <div className="text-sm">
+              <span className="text-stone-500">New characters: </span>
+              <span className="text-stone-300">{plan.newCharacters.join(", ")}</span>
+            </div>
+          )}
+
+          <div className="max-h-96 overflow-y-auto border border-stone-800 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-stone-900 text-stone-400 text-left sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 w-16">Scene</th>
+                  <th className="px-3 py-2 w-24">I/E · D/N</th>
+                  <th className="px-3 py-2">Location</th>
+                  <th className="px-3 py-2 w-16 text-right">Pages</th>
+                  <th className="px-3 py-2">Cast</th>
+                  <th className="px-3 py-2 w-24">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.scenes.map((scene, index) => (
+                  <tr
+                    key={`${scene.sceneNumbers}-${index}`}
+                    className={`border-t border-stone-800/50 ${
+                      scene.status === "unchanged" || scene.status === "skipped"
+                        ? "text-stone-600"
+                        : "text-stone-300"
+                    }`}
+                  >
+                    <td className="px-3 py-2 font-mono">{scene.sceneNumbers}</td>
+                    <td className="px-3 py-2 text-xs">
+                      {scene.intExt || "—"} / {scene.dayNight?.replace("_", " ") || "—"}
+                    </td>
+                    <td className="px-3 py-2 truncate">
+                      {scene.omitted ? "OMITTED" : scene.location || "—"}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-right">{scene.pageCount || "—"}</td>
+                    <td className="px-3 py-2 text-xs truncate">{scene.characters.join(", ")}</td>
+                    <td className="px-3 py-2 text-xs">
+                      {scene.status === "new" && <span className="text-green-400">New</span>}
+                      {scene.status === "changed" && (
+                        <span
+                          className="text-yellow-400"
+                          title={scene.changedFields.map((f) => IMPORTED_FIELD_LABELS[f]).join(", ")}
+                        >
+                          Update
+                        </span>
+                      )}
+                      {scene.status === "unchanged" && <span>Unchanged</span>}
+                      {scene.status === "skipped" && (
+                        <span className="text-red-400" title={scene.skipReason ?? undefined}>
+                          Skipped
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-4 pt-4 border-t border-stone-800">
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isWorking || writeCount === 0}
+              className="px-6 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Import {writeCount} scene{writeCount !== 1 ? "s" : ""}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 text-stone-400 hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Result */}
+      {result && (
+        <div className="space-y-4">
+          <p className="flex items-center gap-2 text-green-400">
+            <Check className="w-4 h-4" />
+            Imported {result.created} new scene{result.created !== 1 ? "s" : ""}
+            {result.updated > 0 && `, updated ${result.updated}`}
+            {result.skipped > 0 && `, skipped ${result.skipped} already on other sheets`}
+            {result.charactersCreated > 0 &&
+              ` and ${result.charactersCreated} character${result.charactersCreated !== 1 ? "s" : ""}`}
+            .
+          </p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+"use client";
+
+import { useState } from "react";
+import { Upload, X, Loader2, Check, ArrowLeft, Trash2 } from "lucide-react";
+import type { ScriptFormat } from "@/hooks/useProject";
+import {
+  useScriptRevisions,
+  type ScriptRevision,
+  type ScriptRevisionChange,
+} from "@/hooks/useScriptRevisions";
+import {
+  REVISION_COLOR_HEX,
+  REVISION_COLOR_LABELS,
+  nextRevisionColor,
+  type RevisionChangeType,
+} from "@/lib/script-revisions";
+import { IMPORTED_FIELD_LABELS } from "@/lib/script-import";
+
+interface ScriptRevisionsPanelProps {
+  projectId: string;
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+const FORMAT_BY_EXTENSION: Record<string, ScriptFormat> = {
+  fountain: "fountain",
+  spmd: "fountain",
+  txt: "fountain",
+  fdx: "fdx",
+};
+
+const CHANGE_TYPE_STYLES: Record<RevisionChangeType, { label: string; className: string }> = {
+  ADDED: { label: "Added", className: "text-green-400" },
+  CHANGED: { label: "Changed", className: "text-yellow-400" },
+  OMITTED: { label: "Omitted", className: "text-red-400" },
+};
+
+function formatRevisionDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function ColorSwatch({ color }: { color: ScriptRevision["color"] }) {
+  return (
+    <span
+      className="inline-block w-4 h-4 rounded border border-stone-600"
+      style={{ backgroundColor: REVISION_COLOR_HEX[color] }}
+    />
+  );
+}
+
+function describeSheet(change: ScriptRevisionChange): string {
+  const sheet = change.breakdown;
+  if (!sheet) return "—";
+  if (sheet.isOmitted) return "OMITTED";
+  return [sheet.intExt, sheet.location, sheet.dayNight?.replace("_", " ")]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function describeRevised(change: ScriptRevisionChange): string {
+  if (change.type === "OMITTED") return "OMITTED";
+  return [change.intExt, change.location, change.dayNight?.replace("_", " ")]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function ScriptRevisionsPanel({ projectId, canEdit, onClose }: ScriptRevisionsPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { revisions, revision, isLoading, createRevision, reviewChange, deleteRevision } =
+    useScriptRevisions(projectId, selectedId);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [revisionDate, setRevisionDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const handleUpload = async () => {
+    if (!file) return;
+    const extension = file.name.split(".").pop()?.toLowerCase() || "";
+    const format = FORMAT_BY_EXTENSION[extension];
+    if (!format) {
+      setError("Unsupported file type. Choose a .fountain or .fdx file.");
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const content = await file.text();
+      const created = await createRevision({
+        format,
+        content,
+        revisionDate: revisionDate || undefined,
+        notes: notes || undefined,
+      });
+      setFile(null);
+      setNotes("");
+      setRevisionDate("");
+      if (created) setSelectedId(created.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload revision");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReview = async (changeId: string, status: "ACCEPTED" | "REJECTED") => {
+    setReviewingId(changeId);
+    setError(null);
+    try {
+      await reviewChange(changeId, status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to review change");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleAcceptAll = async (changes: ScriptRevisionChange[]) => {
+    for (const change of changes) {
+      await handleReview(change.id, "ACCEPTED");
+    }
+  };
+
+  // Review screen for one revision
+  if (selectedId) {
+    const changes = [...(revision?.changes || [])].sort((a, b) =>
+      a.sceneNumbers.localeCompare(b.sceneNumbers, undefined, { numeric: true })
+    );
+    const pending = changes.filter((c) => c.status === "PENDING");
+
+    return (
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <button
+              type="button"
+              onClick={() => setSelectedId(null)}
+              className="flex items-center gap-2 text-stone-400 hover:text-white text-sm mb-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              All revisions
+            </button>
+            {revision && (
+              <h3 className="flex items-center gap-3 text-xl font-display text-gold">
+                <ColorSwatch color={revision.color} />
+                {REVISION_COLOR_LABELS[revision.color]} Revision
+                <span className="text-sm text-stone-500 font-sans">
+                  {formatRevisionDate(revision.revisionDate)}
+                </span>
+              </h3>
+            )}
+            {revision?.notes && (
+              <p className="text-stone-500 text-sm mt-1">{revision.notes}</p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-stone-500 hover:text-white"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        {!revision ? (
+          <div className="flex items-center gap-2 text-stone-400 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading revision...
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-stone-500">This revision matches the breakdown sheets.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-stone-400">
+                {changes.length} scene change{changes.length !== 1 ? "s" : ""} • {pending.length} pending
+              </p>
+              {canEdit && pending.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => handleAcceptAll(pending)}
+                  disabled={reviewingId !== null}
+                  className="px-4 py-1.5 bg-gold hover:bg-gold-dark text-stone-950 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Accept all pending
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-[32rem] overflow-y-auto border border-stone-800 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-stone-900 text-stone-400 text-left sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 w-16">Scene</th>
+                    <th className="px-3 py-2 w-20">Change</th>
+                    <th className="px-3 py-2">Current</th>
+                    <th className="px-3 py-2">Revised</th>
+                    <th className="px-3 py-2 w-40 text-right">Review</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((change) => {
+                    const style = CHANGE_TYPE_STYLES[change.type];
+                    return (
+                      <tr key={change.id} className="border-t border-stone-800/50 text-stone-300 align-top">
+                        <td className="px-3 py-2 font-mono">{change.sceneNumbers}</td>
+                        <td className={`px-3 py-2 text-xs ${style.className}`}>
+                          {style.label}
+                          {change.type === "CHANGED" && (
+                            <div className="text-stone-500 mt-1">
+                              {change.changedFields.map((f) => IMPORTED_FIELD_LABELS[f]).join(", ")}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-xs">
+                          <div>{describeSheet(change)}</div>
+                          {change.breakdown && !change.breakdown.isOmitted && (
+                            <div className="text-stone-500 mt-1">
+                              {change.breakdown.pageCount || "—"} pgs •{" "}
+                              {change.breakdown.cast.map((c) => c.character.name).join(", ") || "no cast"}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-xs">
+                          <div>{describeRevised(change) || "—"}</div>
+                          {change.type !== "OMITTED" && (
+                            <div className="text-stone-500 mt-1">
+                              {change.pageCount || "—"} pgs •{" "}
+                              {change.characters.join(", ") || "no speaking cast"}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {change.status === "PENDING" ? (
+                            canEdit ? (
+                              <div className="flex justify-end gap-2">
+                                {reviewingId === change.id && (
+                                  <Loader2 className="w-4 h-4 animate-spin text-stone-400" />
+                                )}
+                                <button
+                                  type="button"
+                                  onClick={() => handleReview(change.id, "ACCEPTED")}
+                                  disabled={reviewingId !== null}
+                                  className="px-2 py-1 text-xs text-green-400 border border-green-400/30 rounded hover:bg-green-400/10 disabled:opacity-50"
+                                >
+                                  Accept
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => handleReview(change.id, "REJECTED")}
+                                  disabled={reviewingId !== null}
+                                  className="px-2 py-1 text-xs text-stone-400 border border-stone-700 rounded hover:text-white disabled:opacity-50"
+                                >
+                                  Reject
+                                </button>
+                              </div>
+                            ) : (
+                              <span className="text-xs text-stone-500">Pending</span>
+                            )
+                          ) : change.status === "ACCEPTED" ? (
+                            <span className="inline-flex items-center gap-1 text-xs text-green-400">
+                              <Check className="w-3 h-3" />
+                              Accepted
+                            </span>
+                          ) : (
+                            <span className="text-xs text-stone-500">Rejected</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  // Revision list and upload
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-display text-gold">Script Revisions</h3>
+          <p className="text-stone-500 text-sm mt-1">
+            Upload a new draft to see which scenes were added, omitted or changed, then
+            accept or reject each change.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 text-stone-500 hover:text-white"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {canEdit && (
+        <div className="p-4 bg-stone-900 border border-stone-800 rounded-lg space-y-4">
+          <div className="flex items-center gap-2 text-sm text-stone-400">
+            Next revision:
+            <ColorSwatch color={nextRevisionColor(revisions.length)} />
+            <span className="text-stone-300">
+              {REVISION_COLOR_LABELS[nextRevisionColor(revisions.length)]}
+            </span>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <label className="flex items-center gap-2 px-3 py-2 border border-dashed border-stone-700 rounded cursor-pointer hover:border-stone-500 text-sm">
+              <Upload className="w-4 h-4 text-stone-400" />
+              <span className="text-stone-300 truncate">
+                {file?.name || "Choose a .fountain or .fdx file"}
+              </span>
+              <input
+                type="file"
+                accept=".fountain,.spmd,.txt,.fdx"
+                className="hidden"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setError(null);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <input
+              type="date"
+              value={revisionDate}
+              onChange={(e) => setRevisionDate(e.target.value)}
+              className="px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+            />
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes (optional)"
+              className="px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleUpload}
+            disabled={!file || isWorking}
+            className="px-6 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+          >
+            {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+            Upload Revision
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-stone-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading revisions...
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-stone-500 text-sm">No revisions yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {revisions.map((rev) => {
+            const pending = rev.changes.filter((c) => c.status === "PENDING").length;
+            return (
+              <div
+                key={rev.id}
+                className="flex items-center gap-4 p-4 bg-stone-900 border border-stone-800 rounded-lg hover:border-stone-700 transition-colors"
+              >
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(rev.id)}
+                  className="flex-1 flex items-center gap-4 text-left"
+                >
+                  <ColorSwatch color={rev.color} />
+                  <span className="w-24 text-white">{REVISION_COLOR_LABELS[rev.color]}</span>
+                  <span className="w-32 text-sm text-stone-400">
+                    {formatRevisionDate(rev.revisionDate)}
+                  </span>
+                  <span className="flex-1 text-sm text-stone-500 truncate">{rev.notes || ""}</span>
+                  <span className="text-sm text-stone-400">
+                    {rev.changes.length} change{rev.changes.length !== 1 ? "s" : ""}
+                  </span>
+                  <span className={`w-24 text-sm ${pending > 0 ? "text-yellow-400" : "text-stone-600"}`}>
+                    {pending > 0 ? `${pending} pending` : "Reviewed"}
+                  </span>
+                </button>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (confirm(`Delete the ${REVISION_COLOR_LABELS[rev.color]} revision? Accepted changes stay applied.`)) {
+                        deleteRevision(rev.id);
+                      }
+                    }}
+                    className="p-2 text-stone-600 hover:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
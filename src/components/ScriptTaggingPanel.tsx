@@ -0,0 +1,341 @@
+"use client";
+
+import { useState, useRef, useMemo } from "react";
+import { X, Loader2, Trash2, Pencil } from "lucide-react";
+import type { BreakdownSheet, ElementCategory, ProductionElement } from "@/hooks/useProject";
+import { useElementTags, type ElementTag } from "@/hooks/useElementTags";
+import { ELEMENT_CATEGORY_COLORS, ELEMENT_CATEGORY_LABELS } from "@/lib/breakdown-fields";
+
+interface ScriptTaggingPanelProps {
+  projectId: string;
+  breakdown: BreakdownSheet;
+  elements: ProductionElement[];
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  tags: ElementTag[];
+}
+
+const CATEGORIES = Object.keys(ELEMENT_CATEGORY_LABELS) as ElementCategory[];
+
+// Cut the text at every tag boundary so overlapping tags render as plain spans
+function buildSegments(text: string, tags: ElementTag[]): Segment[] {
+  const cuts = new Set([0, text.length]);
+  tags.forEach((tag) => {
+    cuts.add(Math.min(tag.start, text.length));
+    cuts.add(Math.min(tag.end, text.length));
+  });
+  const points = [...cuts].sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    segments.push({
+      start,
+      end,
+      tags: tags.filter((tag) => tag.start <= start && tag.end >= end),
+    });
+  }
+  return segments;
+}
+
+// Character offset of a DOM position within the container's text
+function textOffset(container: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(container);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+export function ScriptTaggingPanel({
+  projectId,
+  breakdown,
+  elements,
+  canEdit,
+  onClose,
+}: ScriptTaggingPanelProps) {
+  const { scriptText, tags, isLoading, saveScriptText, tagElement, removeTag } =
+    useElementTags(projectId, breakdown.id);
+  const textRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [category, setCategory] = useState<ElementCategory>("PROPS");
+  const [name, setName] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const text = scriptText || "";
+  const segments = useMemo(() => buildSegments(text, tags), [text, tags]);
+  const isEditingText = draft !== null || (!isLoading && !scriptText && canEdit);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMouseUp = () => {
+    const container = textRef.current;
+    const selected = window.getSelection();
+    if (!canEdit || !container || !selected || selected.rangeCount === 0 || selected.isCollapsed) {
+      return;
+    }
+    const range = selected.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) {
+      return;
+    }
+
+    let start = textOffset(container, range.startContainer, range.startOffset);
+    let end = textOffset(container, range.endContainer, range.endOffset);
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end <= start) return;
+
+    setSelection({ start, end });
+    setName(text.slice(start, end).replace(/\s+/g, " "));
+  };
+
+  // Reuse a library element with the same name rather than creating a near-duplicate
+  const matchingElement = elements.find(
+    (el) => el.category === category && el.name.toLowerCase() === name.trim().toLowerCase()
+  );
+
+  const handleTag = () => {
+    if (!selection || !name.trim()) return;
+    run(async () => {
+      await tagElement(
+        selection,
+        matchingElement
+          ? { elementId: matchingElement.id }
+          : { category, name: name.trim() }
+      );
+      setSelection(null);
+      window.getSelection()?.removeAllRanges();
+    });
+  };
+
+  const handleSaveText = () => {
+    const value = draft ?? "";
+    run(async () => {
+      await saveScriptText(value);
+      setDraft(null);
+    });
+  };
+
+  const tagsByCategory = CATEGORIES.map((cat) => ({
+    category: cat,
+    tags: tags.filter((tag) => tag.element.category === cat),
+  })).filter((group) => group.tags.length > 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-display text-gold">Scene {breakdown.sceneNumbers} Script</h3>
+          <p className="text-stone-500 text-sm mt-1">
+            Select words in the scene to tag them as elements. Tagged elements are added to the
+            breakdown sheet.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 text-stone-500 hover:text-white"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-stone-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading script...
+        </div>
+      ) : isEditingText ? (
+        <div className="space-y-3">
+          <textarea
+            value={draft ?? text}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={16}
+            placeholder="Paste the scene's text from the script"
+            className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-gold"
+          />
+          {tags.length > 0 && (
+            <p className="text-xs text-stone-500">
+              Tags follow their words when the text changes; tags whose words are removed are dropped.
+            </p>
+          )}
+          <div className="flex gap-4">
+            <button
+              type="button"
+              onClick={handleSaveText}
+              disabled={isWorking || draft === null}
+              className="px-6 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save Text
+            </button>
+            {scriptText && (
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-6 py-2 text-stone-400 hover:text-white"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      ) : !scriptText ? (
+        <p className="text-stone-500 text-sm">No script text for this scene.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-3">
+            <div
+              ref={textRef}
+              onMouseUp={handleMouseUp}
+              className="p-4 bg-stone-100 text-stone-900 rounded-lg font-mono text-sm whitespace-pre-wrap leading-relaxed"
+            >
+              {segments.map((segment) => {
+                const content = text.slice(segment.start, segment.end);
+                if (segment.tags.length === 0) {
+                  return <span key={segment.start}>{content}</span>;
+                }
+                const color = ELEMENT_CATEGORY_COLORS[segment.tags[0].element.category];
+                return (
+                  <span
+                    key={segment.start}
+                    title={segment.tags
+                      .map((tag) => `${ELEMENT_CATEGORY_LABELS[tag.element.category]}: ${tag.element.name}`)
+                      .join("\n")}
+                    style={{ backgroundColor: `${color}66`, borderBottom: `2px solid ${color}` }}
+                  >
+                    {content}
+                  </span>
+                );
+              })}
+            </div>
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => setDraft(text)}
+                className="flex items-center gap-2 text-sm text-stone-400 hover:text-white"
+              >
+                <Pencil className="w-4 h-4" />
+                Edit text
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Tag the current selection */}
+            {canEdit && selection && (
+              <div className="p-4 bg-stone-900 border border-stone-800 rounded-lg space-y-3">
+                <p className="text-sm text-stone-300">
+                  Tag &ldquo;{text.slice(selection.start, selection.end)}&rdquo; as
+                </p>
+                <div className="grid grid-cols-2 gap-1">
+                  {CATEGORIES.map((cat) => (
+                    <button
+                      key={cat}
+                      type="button"
+                      onClick={() => setCategory(cat)}
+                      className={`flex items-center gap-2 px-2 py-1 rounded text-xs text-left ${
+                        category === cat ? "bg-stone-700 text-white" : "text-stone-400 hover:bg-stone-800"
+                      }`}
+                    >
+                      <span
+                        className="w-3 h-3 rounded-sm shrink-0"
+                        style={{ backgroundColor: ELEMENT_CATEGORY_COLORS[cat] }}
+                      />
+                      {ELEMENT_CATEGORY_LABELS[cat]}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Element name"
+                  className="w-full px-3 py-2 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+                />
+                {matchingElement && (
+                  <p className="text-xs text-stone-500">Links the existing {matchingElement.name} element.</p>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleTag}
+                    disabled={isWorking || !name.trim()}
+                    className="px-4 py-2 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2 text-sm"
+                  >
+                    {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Tag
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelection(null)}
+                    className="px-4 py-2 text-stone-400 hover:text-white text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Tags so far */}
+            {tagsByCategory.length === 0 ? (
+              <p className="text-sm text-stone-500">No tags yet.</p>
+            ) : (
+              tagsByCategory.map((group) => (
+                <div key={group.category}>
+                  <div className="flex items-center gap-2 text-xs uppercase tracking-wide text-stone-400 mb-1">
+                    <span
+                      className="w-3 h-3 rounded-sm"
+                      style={{ backgroundColor: ELEMENT_CATEGORY_COLORS[group.category] }}
+                    />
+                    {ELEMENT_CATEGORY_LABELS[group.category]}
+                  </div>
+                  {group.tags.map((tag) => (
+                    <div key={tag.id} className="flex items-center gap-2 text-sm text-stone-300 py-0.5">
+                      <span className="flex-1 truncate">
+                        {tag.element.name}
+                        {tag.element.name.toLowerCase() !== tag.text.toLowerCase() && (
+                          <span className="text-stone-500"> &ldquo;{tag.text}&rdquo;</span>
+                        )}
+                      </span>
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => run(() => removeTag(tag.id))}
+                          disabled={isWorking}
+                          title="Remove tag"
+                          className="p-1 text-stone-600 hover:text-red-400"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState } from "react";
+import { X, Loader2, ArrowDownWideNarrow, Plus, Undo2 } from "lucide-react";
+import type { Schedule } from "@/hooks/useSchedule";
+import type { BoardItem } from "@/lib/strip-board";
+import {
+  SORT_KEY_LABELS,
+  type SortCriterion,
+  type SortKey,
+  type SortOptions,
+} from "@/lib/strip-sort";
+
+interface SortPanelProps {
+  schedule: Schedule;
+  onSort: (options: SortOptions) => Promise<BoardItem[] | undefined>;
+  onUndo: (snapshot: BoardItem[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass =
+  "px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold";
+
+// Common starting points for a board
+const PRESETS: { label: string; criteria: SortCriterion[] }[] = [
+  { label: "Location", criteria: [{ key: "location", direction: "asc" }] },
+  {
+    label: "INT/EXT + Day/Night",
+    criteria: [
+      { key: "intExt", direction: "asc" },
+      { key: "dayNight", direction: "asc" },
+      { key: "location", direction: "asc" },
+    ],
+  },
+  { label: "Cast", criteria: [{ key: "cast", direction: "asc" }] },
+  {
+    label: "Story day",
+    criteria: [
+      { key: "storyDay", direction: "asc" },
+      { key: "scene", direction: "asc" },
+    ],
+  },
+];
+
+const MAX_CRITERIA = 4;
+
+export function SortPanel({ schedule, onSort, onUndo, onClose }: SortPanelProps) {
+  const [criteria, setCriteria] = useState<SortCriterion[]>(PRESETS[0].criteria);
+  const [fromDayBreakId, setFromDayBreakId] = useState("");
+  const [toDayBreakId, setToDayBreakId] = useState("");
+  const [snapshot, setSnapshot] = useState<BoardItem[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dayBreaks = [...schedule.dayBreaks].sort((a, b) => a.dayNumber - b.dayNumber);
+  const characters = [
+    ...new Map(
+      schedule.stripSlots.flatMap((strip) =>
+        strip.breakdown.cast.map(({ character }) => [character.id, character] as const)
+      )
+    ).values(),
+  ].sort((a, b) => a.number - b.number);
+
+  const updateCriterion = (index: number, change: Partial<SortCriterion>) => {
+    setCriteria(criteria.map((c, i) => (i === index ? { ...c, ...change } : c)));
+  };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSort = () =>
+    run(async () => {
+      const before = await onSort({
+        criteria,
+        fromDayBreakId: fromDayBreakId || null,
+        toDayBreakId: toDayBreakId || null,
+      });
+      if (before) setSnapshot(before);
+    }, "Failed to sort the board");
+
+  const handleUndo = () =>
+    run(async () => {
+      if (!snapshot) return;
+      await onUndo(snapshot);
+      setSnapshot(null);
+    }, "Failed to undo the sort");
+
+  return (
+    <div className="mb-6 p-4 bg-stone-900 border border-stone-800 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-stone-300">
+          Sort Strips
+          <span className="ml-2 text-stone-500 font-normal">
+            Day breaks and banners stay put; the strips between them are reordered
+          </span>
+        </h3>
+        <button type="button" onClick={onClose} className="p-1 text-stone-500 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-stone-400">Presets</span>
+        {PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => setCriteria(preset.criteria)}
+            className="px-2 py-1 rounded text-xs border border-stone-700 text-stone-400 hover:text-white"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {criteria.map((criterion, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <span className="w-16 text-sm text-stone-400">{index === 0 ? "Sort by" : "then by"}</span>
+            <select
+              value={criterion.key}
+              onChange={(e) =>
+                updateCriterion(index, { key: e.target.value as SortKey, characterId: undefined })
+              }
+              className={inputClass}
+            >
+              {(Object.keys(SORT_KEY_LABELS) as SortKey[]).map((key) => (
+                <option key={key} value={key}>
+                  {SORT_KEY_LABELS[key]}
+                </option>
+              ))}
+            </select>
+            {criterion.key === "cast" && (
+              <select
+                value={criterion.characterId ?? ""}
+                onChange={(e) => updateCriterion(index, { characterId: e.target.value || undefined })}
+                className={inputClass}
+              >
+                <option value="">By cast numbers</option>
+                {characters.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    Scenes with {c.number}. {c.name} first
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={criterion.direction}
+              onChange={(e) => updateCriterion(index, { direction: e.target.value as "asc" | "desc" })}
+              className={inputClass}
+            >
+              <option value="asc">Ascending</option>
+              <option value="desc">Descending</option>
+            </select>
+            {criteria.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setCriteria(criteria.filter((_, i) => i !== index))}
+                className="p-1 text-stone-600 hover:text-red-400"
+                title="Remove sort key"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        {criteria.length < MAX_CRITERIA && (
+          <button
+            type="button"
+            onClick={() => setCriteria([...criteria, { key: "scene", direction: "asc" }])}
+            className="flex items-center gap-1 text-sm text-stone-500 hover:text-white"
+          >
+            <Plus className="w-4 h-4" />
+            Add sort key
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-stone-400">Strips from</span>
+        <select value={fromDayBreakId} onChange={(e) => setFromDayBreakId(e.target.value)} className={inputClass}>
+          <option value="">Day 1</option>
+          {dayBreaks.map((db) => (
+            <option key={db.id} value={db.id}>
+              Day {db.dayNumber + 1}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-stone-400">through</span>
+        <select value={toDayBreakId} onChange={(e) => setToDayBreakId(e.target.value)} className={inputClass}>
+          <option value="">End of board</option>
+          {dayBreaks.map((db) => (
+            <option key={db.id} value={db.id}>
+              Day {db.dayNumber}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSort}
+          disabled={isWorking}
+          className="flex items-center gap-1 px-4 py-1.5 text-sm bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded disabled:opacity-50"
+        >
+          {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowDownWideNarrow className="w-4 h-4" />}
+          Sort
+        </button>
+        {snapshot && (
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={isWorking}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-stone-300 hover:text-white border border-stone-700 rounded disabled:opacity-50"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo Sort
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,21 @@
 "use client";
 
-import { useState, useMemo } from "react";
-import type { Schedule, StripSlot, DayBreak } from "@/hooks/useSchedule";
+import { useState, useMemo, useEffect, useCallback } from "react";
+import type { Schedule, StripSlot, DayBreak, BannerStrip, ScheduleVersion } from "@/hooks/useSchedule";
+import type { BreakdownSheet } from "@/hooks/useProject";
+import { listBoardItems, type BoardItem } from "@/lib/strip-board";
+import type { OptimizeOptions, OptimizeProposal } from "@/lib/schedule-optimizer";
+import type { SortOptions } from "@/lib/strip-sort";
+import { formatDuration, type DayEstimate } from "@/lib/shooting-time";
+import {
+  STRIP_FIELDS,
+  describeColorRule,
+  getStripColor,
+  stripFieldText,
+  type StripField,
+  type StripStyle,
+} from "@/lib/strip-style";
+import type { NewConstraint, ScheduleConstraint } from "@/hooks/useConstraints";
 import {
   DndContext,
   closestCenter,
@@ -10,44 +24,131 @@ import {
   useSensor,
   useSensors,
   DragEndEvent,
+  DragStartEvent,
+  useDraggable,
+  useDroppable,
 } from "@dnd-kit/core";
 import {
+  arrayMove,
   SortableContext,
   sortableKeyboardCoordinates,
   useSortable,
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { GripVertical, Plus, List, Calendar } from "lucide-react";
+import {
+  GripVertical,
+  Plus,
+  List,
+  Calendar,
+  Wand2,
+  AlertTriangle,
+  ArrowDownWideNarrow,
+  Undo2,
+  Redo2,
+  X,
+} from "lucide-react";
 import { ProductionCalendar } from "./ProductionCalendar";
+import { AutoSchedulePanel } from "./AutoSchedulePanel";
+import { ConflictsPanel } from "./ConflictsPanel";
+import { SortPanel } from "./SortPanel";
 
 interface StripBoardTabProps {
   schedule: Schedule | undefined;
+  stripStyle: StripStyle;
   canEdit: boolean;
-  onReorder: (stripId: string, newPosition: number) => Promise<void>;
-  onToggleDayBreak: (afterPosition: number) => Promise<{ action: "created" | "deleted"; dayBreak: DayBreak } | undefined>;
+  onArrange: (items: BoardItem[]) => Promise<void>;
+  onSort?: (options: SortOptions) => Promise<BoardItem[] | undefined>;
+  onUndo?: () => Promise<string | undefined>;
+  onRedo?: () => Promise<string | undefined>;
+  onToggleDayBreak: (afterStripId: string) => Promise<{ action: "created" | "deleted"; dayBreak: DayBreak } | undefined>;
   onRenumberDayBreaks: () => Promise<void>;
+  onCreateBanner?: (
+    afterStripId: string | null,
+    label: string,
+    bannerType: BannerStrip["bannerType"]
+  ) => Promise<void>;
+  onDeleteBanner?: (bannerId: string) => Promise<void>;
+  onMoveToBoneyard?: (stripIds: string[]) => Promise<void>;
+  onPlaceFromBoneyard?: (
+    breakdownIds: string[],
+    afterStripId: string | null,
+    sameDay: boolean
+  ) => Promise<void>;
   onUpdateStartDate?: (date: string | null) => Promise<void>;
+  onUpdateWorkDays?: (workDays: number[]) => Promise<void>;
+  onAddHoliday?: (date: string, name: string) => Promise<void>;
+  onDeleteHoliday?: (holidayId: string) => Promise<void>;
+  onPreviewOptimization?: (options: OptimizeOptions) => Promise<OptimizeProposal | undefined>;
+  onApplyOptimization?: (
+    proposal: OptimizeProposal,
+    target: { type: "current" } | { type: "new"; name: string }
+  ) => Promise<ScheduleVersion | undefined>;
+  onSelectVersion?: (scheduleId: string) => void;
+  constraints?: ScheduleConstraint[];
+  onCreateConstraint?: (constraint: NewConstraint) => Promise<unknown>;
+  onDeleteConstraint?: (constraintId: string) => Promise<void>;
 }
 
 type ViewMode = "strips" | "calendar";
 
-function getStripColorClass(intExt: string | null, dayNight: string | null): string {
-  if (dayNight === "DAY" || dayNight === "DAWN" || dayNight === "DUSK") {
-    return intExt === "EXT" ? "strip-day-ext" : "strip-day-int";
-  }
-  if (dayNight === "NIGHT" || dayNight === "DAY_FOR_NIGHT") {
-    return intExt === "EXT" ? "strip-night-ext" : "strip-night-int";
-  }
-  return "bg-stone-300 text-stone-900";
+const BANNER_TYPE_LABELS: Record<BannerStrip["bannerType"], string> = {
+  TRAVEL: "Travel",
+  MOVE: "Company move",
+  HOLIDAY: "Holiday",
+  PRERIG: "Pre-rig",
+  INFO: "Info",
+};
+
+// Drop targets besides the board items
+const BONEYARD_ID = "boneyard";
+const EMPTY_BOARD_ID = "empty-board";
+
+// Sortable IDs: strips use their own ID, day breaks and banners are prefixed
+function itemKey(item: BoardItem): string {
+  return item.type === "strip" ? item.id : `${item.type}:${item.id}`;
+}
+
+// Board styling for each strip field; widths come from the shared layout
+const FIELD_CLASSES: Record<StripField, string> = {
+  scene: "font-mono font-bold",
+  intExt: "text-xs font-medium",
+  dayNight: "text-xs",
+  location: "truncate font-medium",
+  description: "truncate text-xs opacity-75",
+  pages: "font-mono text-right",
+  time: "font-mono text-xs text-right",
+  cast: "text-xs",
+  storyDay: "text-xs text-right",
+  setups: "text-xs text-right",
+  tag: "truncate text-xs",
+};
+
+const RIGHT_ALIGNED_FIELDS = new Set<StripField>(["pages", "time", "storyDay", "setups"]);
+
+function fieldWidth(field: StripField): { className?: string; style?: React.CSSProperties } {
+  const { width, grow } = STRIP_FIELDS[field];
+  return grow ? { className: "flex-1 min-w-0" } : { style: { width: `${width}rem` } };
 }
 
 function SortableStrip({
   strip,
+  stripStyle,
   canEdit,
+  minutes,
+  conflicts,
+  isSelected,
+  isDimmed,
+  onSelect,
 }: {
   strip: StripSlot;
+  stripStyle: StripStyle;
   canEdit: boolean;
+  minutes: number; // Estimated shooting time
+  conflicts: string[];
+  isSelected: boolean;
+  isDimmed: boolean; // Selected, while another strip of the block is dragged
+  onSelect: (event: React.MouseEvent) => void;
 }) {
   const {
     attributes,
@@ -61,19 +162,19 @@ function SortableStrip({
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
-    opacity: isDragging ? 0.5 : 1,
+    opacity: isDragging || isDimmed ? 0.5 : 1,
   };
 
-  const colorClass = getStripColorClass(
-    strip.breakdown.intExt,
-    strip.breakdown.dayNight
-  );
+  const { isOmitted } = strip.breakdown;
+  const color = getStripColor(stripStyle.colorRules, strip.breakdown);
 
   return (
     <div
       ref={setNodeRef}
-      style={style}
-      className={`flex items-stretch rounded overflow-hidden ${colorClass}`}
+      style={isOmitted ? style : { ...style, backgroundColor: color.background, color: color.text }}
+      className={`flex items-stretch rounded overflow-hidden ${isOmitted ? "bg-stone-800 text-stone-500" : ""} ${
+        isSelected ? "ring-2 ring-gold" : conflicts.length > 0 ? "ring-2 ring-red-500" : ""
+      }`}
     >
       {canEdit && (
         <button
@@ -85,95 +186,240 @@ function SortableStrip({
         </button>
       )}
 
-      <div className="flex-1 flex items-center gap-4 px-3 py-2 text-sm">
-        {/* Scene Number */}
-        <div className="w-12 font-mono font-bold">
-          {strip.breakdown.sceneNumbers}
-        </div>
-
-        {/* INT/EXT */}
-        <div className="w-8 text-xs font-medium">
-          {strip.breakdown.intExt || "—"}
-        </div>
-
-        {/* Day/Night */}
-        <div className="w-8 text-xs">
-          {strip.breakdown.dayNight?.charAt(0) || "—"}
-        </div>
+      <div
+        onClick={canEdit ? onSelect : undefined}
+        className={`flex-1 flex items-center gap-4 px-3 py-2 text-sm ${
+          canEdit ? "cursor-pointer select-none" : ""
+        }`}
+      >
+        {stripStyle.layout.map((field) => {
+          const text = stripFieldText(field, strip.breakdown, minutes);
+          const { className, style: widthStyle } = fieldWidth(field);
+          return (
+            <div key={field} className={`${className ?? ""} ${FIELD_CLASSES[field]}`} style={widthStyle}>
+              {text || (field === "description" ? "" : "—")}
+            </div>
+          );
+        })}
 
-        {/* Location */}
-        <div className="flex-1 truncate font-medium">
-          {strip.breakdown.location || "—"}
+        {/* Broken constraints */}
+        <div className="w-4" title={conflicts.join("\n")}>
+          {conflicts.length > 0 && <AlertTriangle className="w-4 h-4 text-red-600" />}
         </div>
+      </div>
+    </div>
+  );
+}
 
-        {/* Description */}
-        <div className="flex-1 truncate text-xs opacity-75">
-          {strip.breakdown.description || ""}
-        </div>
+// A day break or banner row, dragged by its handle like a strip
+function SortableBoardRow({
+  id,
+  canEdit,
+  className,
+  children,
+}: {
+  id: string;
+  canEdit: boolean;
+  className: string;
+  children: React.ReactNode;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id });
 
-        {/* Page Count */}
-        <div className="w-12 font-mono text-right">
-          {strip.breakdown.pageCount || "—"}
-        </div>
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
 
-        {/* Cast Numbers */}
-        <div className="w-24 text-xs">
-          {strip.breakdown.cast
-            .map((c) => c.character.number)
-            .sort((a, b) => a - b)
-            .join(", ") || "—"}
-        </div>
-      </div>
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`flex items-stretch rounded overflow-hidden ${className}`}
+    >
+      {canEdit && (
+        <button
+          {...attributes}
+          {...listeners}
+          className="px-2 cursor-grab active:cursor-grabbing opacity-50 hover:opacity-100"
+        >
+          <GripVertical className="w-4 h-4" />
+        </button>
+      )}
+      <div className="flex-1 flex items-center justify-between gap-3 px-4 py-2">{children}</div>
     </div>
   );
 }
 
 function DayBreakStrip({
   dayBreak,
+  canEdit,
   totalPages,
+  estimate,
+  maxDayMinutes,
   shootDate,
 }: {
   dayBreak: DayBreak;
+  canEdit: boolean;
   totalPages: string;
+  estimate?: DayEstimate;
+  maxDayMinutes: number;
   shootDate?: string;
 }) {
+  const moves = estimate?.companyMoves ?? 0;
+  const estimateTitle = estimate?.isOverLength
+    ? `Over the ${formatDuration(maxDayMinutes)} day`
+    : `Estimated shooting time${moves > 0 ? `, with ${moves} company move${moves !== 1 ? "s" : ""}` : ""}`;
+
   return (
-    <div className="strip-day-break rounded px-4 py-2 flex items-center justify-between">
+    <SortableBoardRow id={`dayBreak:${dayBreak.id}`} canEdit={canEdit} className="strip-day-break">
       <div className="flex items-center gap-3">
         <span className="font-bold">END OF DAY {dayBreak.dayNumber}</span>
         {shootDate && (
           <span className="text-sm opacity-75">— {shootDate}</span>
         )}
       </div>
-      <span className="font-mono">{totalPages} pages</span>
+      <div className="flex items-center gap-4 font-mono">
+        {estimate && (
+          <span
+            className={`flex items-center gap-1 ${estimate.isOverLength ? "text-red-700 font-bold" : ""}`}
+            title={estimateTitle}
+          >
+            {estimate.isOverLength && <AlertTriangle className="w-4 h-4" />}
+            ~{formatDuration(estimate.minutes)}
+          </span>
+        )}
+        <span>{totalPages} pages</span>
+      </div>
+    </SortableBoardRow>
+  );
+}
+
+function BannerRow({
+  banner,
+  canEdit,
+  onDelete,
+}: {
+  banner: BannerStrip;
+  canEdit: boolean;
+  onDelete?: () => void;
+}) {
+  return (
+    <SortableBoardRow id={`banner:${banner.id}`} canEdit={canEdit} className="strip-banner">
+      <div className="flex items-center gap-3 text-sm">
+        <span className="font-bold uppercase">{BANNER_TYPE_LABELS[banner.bannerType]}</span>
+        <span>{banner.label}</span>
+        {banner.date && <span className="opacity-75">{formatShootDate(parseLocalDate(banner.date))}</span>}
+      </div>
+      {canEdit && onDelete && (
+        <button onClick={onDelete} className="opacity-50 hover:opacity-100" title="Remove banner">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </SortableBoardRow>
+  );
+}
+
+// A sheet waiting in the boneyard, dragged onto the board to schedule it
+function BoneyardSheet({
+  sheet,
+  stripStyle,
+  canEdit,
+}: {
+  sheet: BreakdownSheet;
+  stripStyle: StripStyle;
+  canEdit: boolean;
+}) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: `sheet:${sheet.id}`,
+    disabled: !canEdit,
+  });
+
+  const color = getStripColor(stripStyle.colorRules, sheet);
+  const style = { transform: CSS.Translate.toString(transform), opacity: isDragging ? 0.5 : 1 };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={sheet.isOmitted ? style : { ...style, backgroundColor: color.background, color: color.text }}
+      {...attributes}
+      {...listeners}
+      className={`flex items-center gap-3 px-3 py-2 rounded text-sm ${
+        sheet.isOmitted ? "bg-stone-800 text-stone-500" : ""
+      } ${
+        canEdit ? "cursor-grab active:cursor-grabbing" : ""
+      }`}
+    >
+      <span className="w-12 font-mono font-bold">{sheet.sceneNumbers}</span>
+      <span className="flex-1 truncate">{sheet.isOmitted ? "OMITTED" : sheet.location || "—"}</span>
+      <span className="font-mono">{sheet.isOmitted ? "—" : sheet.pageCount || "—"}</span>
     </div>
   );
 }
 
-function parsePageCount(pageCount: string | null): number {
-  if (!pageCount) return 0;
-  // Handle formats like "3/8", "1 2/8", "1", etc.
-  const parts = pageCount.trim().split(" ");
-  let total = 0;
-  for (const part of parts) {
-    if (part.includes("/")) {
-      const [num, denom] = part.split("/").map(Number);
-      total += num / denom;
-    } else {
-      total += Number(part) || 0;
-    }
-  }
-  return total;
+function BoneyardTray({
+  sheets,
+  stripStyle,
+  canEdit,
+}: {
+  sheets: BreakdownSheet[];
+  stripStyle: StripStyle;
+  canEdit: boolean;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: BONEYARD_ID, disabled: !canEdit });
+
+  return (
+    <aside
+      ref={setNodeRef}
+      className={`w-72 shrink-0 sticky top-4 p-3 bg-stone-900 border rounded-lg space-y-1 ${
+        isOver ? "border-gold" : "border-stone-800"
+      }`}
+    >
+      <h3 className="text-sm font-medium text-stone-300 mb-2">
+        Boneyard
+        <span className="ml-2 text-stone-500 font-normal">
+          {sheets.length} scene{sheets.length !== 1 ? "s" : ""}
+        </span>
+      </h3>
+      {sheets.length === 0 ? (
+        <p className="text-xs text-stone-600">
+          {canEdit
+            ? "Drag strips here to take them off the board. Scenes in the boneyard are left out of every report."
+            : "Every scene is on the board."}
+        </p>
+      ) : (
+        sheets.map((sheet) => (
+          <BoneyardSheet key={sheet.id} sheet={sheet} stripStyle={stripStyle} canEdit={canEdit} />
+        ))
+      )}
+    </aside>
+  );
 }
 
-function formatPageCount(pages: number): string {
-  const whole = Math.floor(pages);
-  const fraction = pages - whole;
-  const eighths = Math.round(fraction * 8);
+// With no strips on the board, sheets are dropped here instead
+function EmptyBoard() {
+  const { setNodeRef, isOver } = useDroppable({ id: EMPTY_BOARD_ID });
 
-  if (eighths === 0) return whole.toString();
-  if (whole === 0) return `${eighths}/8`;
-  return `${whole} ${eighths}/8`;
+  return (
+    <div
+      ref={setNodeRef}
+      className={`text-center py-16 rounded border border-dashed ${
+        isOver ? "border-gold" : "border-transparent"
+      }`}
+    >
+      <p className="text-stone-500">
+        No scenes scheduled yet. Add breakdown sheets or drag scenes from the boneyard to
+        populate the strip board.
+      </p>
+    </div>
+  );
 }
 
 function formatShootDate(date: Date): string {
@@ -184,12 +430,6 @@ function formatShootDate(date: Date): string {
   });
 }
 
-function addDays(date: Date, days: number): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() + days);
-  return result;
-}
-
 // Parse date string as local date (not UTC) to avoid timezone offset issues
 function parseLocalDate(dateStr: string): Date {
   // If the date is ISO format like "2026-02-03T00:00:00.000Z", extract just the date part
@@ -201,13 +441,89 @@ function parseLocalDate(dateStr: string): Date {
 
 export function StripBoardTab({
   schedule,
+  stripStyle,
   canEdit,
-  onReorder,
+  onArrange,
   onToggleDayBreak,
   onRenumberDayBreaks,
+  onCreateBanner,
+  onDeleteBanner,
+  onMoveToBoneyard,
+  onPlaceFromBoneyard,
+  onSort,
+  onUndo,
+  onRedo,
   onUpdateStartDate,
+  onUpdateWorkDays,
+  onAddHoliday,
+  onDeleteHoliday,
+  onPreviewOptimization,
+  onApplyOptimization,
+  onSelectVersion,
+  constraints,
+  onCreateConstraint,
+  onDeleteConstraint,
 }: StripBoardTabProps) {
   const [isReordering, setIsReordering] = useState(false);
+  const [showAutoSchedule, setShowAutoSchedule] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showSort, setShowSort] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [lastSelectedId, setLastSelectedId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [boardError, setBoardError] = useState<string | null>(null);
+  const [boardNotice, setBoardNotice] = useState<string | null>(null);
+  const [showBannerForm, setShowBannerForm] = useState(false);
+  const [bannerType, setBannerType] = useState<BannerStrip["bannerType"]>("INFO");
+  const [bannerLabel, setBannerLabel] = useState("");
+
+  // Escape clears the strip selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setSelectedIds(new Set());
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Undo or redo a board edit, saying which one on the board
+  const stepHistory = useCallback(async (step: () => Promise<string | undefined>, verb: string) => {
+    setIsReordering(true);
+    setBoardError(null);
+    try {
+      const description = await step();
+      setBoardNotice(description ? `${verb}: ${description}` : null);
+    } catch (err) {
+      setBoardNotice(null);
+      setBoardError(err instanceof Error ? err.message : `Failed to ${verb.toLowerCase()}`);
+    } finally {
+      setIsReordering(false);
+    }
+  }, []);
+
+  // Ctrl+Z undoes the last board edit; Ctrl+Shift+Z or Ctrl+Y redoes it.
+  // Typing in a field keeps the field's own undo.
+  const history = schedule?.history;
+  useEffect(() => {
+    if (!canEdit || !onUndo || !onRedo || !history) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof Element && e.target.closest("input, textarea, select, [contenteditable]")) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        if (history.undo) stepHistory(onUndo, "Undid");
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        if (history.redo) stepHistory(onRedo, "Redid");
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [canEdit, onUndo, onRedo, history, stepHistory]);
+
   const [viewMode, setViewMode] = useState<ViewMode>("strips");
 
   const sensors = useSensors(
@@ -217,22 +533,15 @@ export function StripBoardTab({
     })
   );
 
-  // Calculate shoot dates for each day break based on startDate
+  // Shoot dates for each day from the schedule's working calendar, keyed by
+  // the position of the day's last strip
   const shootDateMap = useMemo(() => {
     const map = new Map<number, string>();
-    if (!schedule?.startDate) return map;
-
-    const startDate = parseLocalDate(schedule.startDate);
-    const sortedDayBreaks = [...(schedule.dayBreaks || [])].sort((a, b) => a.dayNumber - b.dayNumber);
-
-    sortedDayBreaks.forEach((db) => {
-      // Day 1 ends on startDate, Day 2 ends on startDate + 1, etc.
-      const shootDate = addDays(startDate, db.dayNumber - 1);
-      map.set(db.dayNumber, formatShootDate(shootDate));
-    });
-
+    for (const day of schedule?.totals.days ?? []) {
+      if (day.shootDate) map.set(day.endPosition, formatShootDate(parseLocalDate(day.shootDate)));
+    }
     return map;
-  }, [schedule?.startDate, schedule?.dayBreaks]);
+  }, [schedule?.totals.days]);
 
   if (!schedule) {
     return (
@@ -247,98 +556,226 @@ export function StripBoardTab({
   const strips = schedule.stripSlots;
   const dayBreaks = schedule.dayBreaks;
 
-  // Create a map of day breaks by afterPosition
-  const dayBreakMap = new Map<number, DayBreak>();
-  dayBreaks.forEach((db) => dayBreakMap.set(db.afterPosition, db));
+  // Day breaks and banners follow a strip; banners with none sit at the top
+  const dayBreakMap = new Map<string, DayBreak>();
+  dayBreaks.forEach((db) => dayBreakMap.set(db.afterStripId, db));
+  const bannerMap = new Map<string | null, BannerStrip[]>();
+  schedule.banners.forEach((banner) => {
+    bannerMap.set(banner.afterStripId, [...(bannerMap.get(banner.afterStripId) || []), banner]);
+  });
+
+  // The whole board in order: each strip, then its day break, then its banners
+  const boardItems = listBoardItems(strips, dayBreaks, schedule.banners);
+
+  // Page totals per day come from the server, keyed by each day's last strip
+  const dayTotalMap = new Map(schedule.totals.days.map((day) => [day.endPosition, day]));
+  const dayEstimateMap = new Map(schedule.timing.days.map((day) => [day.endPosition, day]));
+  const longDays = schedule.timing.days.filter((day) => day.isOverLength).length;
 
-  // Calculate pages per day - includes all strips from startPos+1 to endPos
-  const calculatePagesForDay = (startPos: number, endPos: number): number => {
-    return strips
-      .filter((s) => s.position > startPos && s.position <= endPos)
-      .reduce((sum, s) => sum + parsePageCount(s.breakdown.pageCount), 0);
+  // Constraint conflicts are checked by the server each time the board changes
+  const conflictsByBreakdown = new Map<string, string[]>();
+  schedule.conflicts.conflicts.forEach((conflict) => {
+    conflict.breakdownIds.forEach((breakdownId) => {
+      conflictsByBreakdown.set(breakdownId, [
+        ...(conflictsByBreakdown.get(breakdownId) || []),
+        conflict.message,
+      ]);
+    });
+  });
+  const conflictCount = schedule.conflicts.conflicts.length;
+
+  // Click selects one strip, ctrl/cmd-click toggles, shift-click selects a range
+  const handleSelect = (strip: StripSlot, event: React.MouseEvent) => {
+    const anchor = strips.find((s) => s.id === lastSelectedId);
+    if (event.shiftKey && anchor) {
+      const [from, to] = [anchor.position, strip.position].sort((a, b) => a - b);
+      const range = strips.filter((s) => s.position >= from && s.position <= to).map((s) => s.id);
+      setSelectedIds(new Set([...(event.ctrlKey || event.metaKey ? selectedIds : []), ...range]));
+      return;
+    }
+
+    const next = new Set(event.ctrlKey || event.metaKey ? selectedIds : []);
+    if (selectedIds.has(strip.id) && (event.ctrlKey || event.metaKey || selectedIds.size === 1)) {
+      next.delete(strip.id);
+    } else {
+      next.add(strip.id);
+    }
+    setSelectedIds(next);
+    setLastSelectedId(strip.id);
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const id = String(event.active.id);
+    setDraggingId(id);
+    // Dragging an unselected strip moves just that strip
+    if (!selectedIds.has(id)) setSelectedIds(new Set());
+  };
+
+  // Run a board change, showing its error above the board
+  const changeBoard = async (action: () => Promise<unknown>, fallback: string) => {
+    setIsReordering(true);
+    setBoardError(null);
+    setBoardNotice(null);
+    try {
+      await action();
+      setSelectedIds(new Set());
+    } catch (err) {
+      setBoardError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  // A sheet dropped on a strip joins that strip's day; dropped on a day break
+  // or banner it starts the day after
+  const placeTarget = (overId: string) => {
+    if (overId === EMPTY_BOARD_ID) return { afterStripId: null, sameDay: false };
+    if (strips.some((s) => s.id === overId)) return { afterStripId: overId, sameDay: true };
+    const dayBreak = dayBreaks.find((db) => `dayBreak:${db.id}` === overId);
+    if (dayBreak) return { afterStripId: dayBreak.afterStripId, sameDay: false };
+    const banner = schedule.banners.find((b) => `banner:${b.id}` === overId);
+    if (banner) return { afterStripId: banner.afterStripId, sameDay: false };
+    return null;
   };
 
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
+    setDraggingId(null);
+    if (!over || active.id === over.id) return;
+    const activeId = String(active.id);
+    const overId = String(over.id);
 
-    if (over && active.id !== over.id) {
-      setIsReordering(true);
-      try {
-        const activeStrip = strips.find((s) => s.id === active.id);
-        const overStrip = strips.find((s) => s.id === over.id);
-        if (activeStrip && overStrip) {
-          await onReorder(activeStrip.id, overStrip.position);
-        }
-      } finally {
-        setIsReordering(false);
-      }
+    // From the boneyard onto the board
+    if (activeId.startsWith("sheet:")) {
+      const target = placeTarget(overId);
+      if (!target || !onPlaceFromBoneyard) return;
+      await changeBoard(
+        () => onPlaceFromBoneyard([activeId.slice("sheet:".length)], target.afterStripId, target.sameDay),
+        "Failed to schedule the scene"
+      );
+      return;
+    }
+
+    // From the board into the boneyard, with the rest of the selection
+    if (overId === BONEYARD_ID) {
+      if (!onMoveToBoneyard || !strips.some((s) => s.id === activeId)) return;
+      const stripIds = selectedIds.has(activeId) ? [...selectedIds] : [activeId];
+      await changeBoard(() => onMoveToBoneyard(stripIds), "Failed to move strips to the boneyard");
+      return;
+    }
+
+    const keys = boardItems.map(itemKey);
+    const from = keys.indexOf(activeId);
+    const to = keys.indexOf(overId);
+    if (from === -1 || to === -1) return;
+
+    let items: BoardItem[];
+    if (selectedIds.size > 1 && selectedIds.has(activeId)) {
+      // Drop the block after the item it was dragged down onto, or before
+      // the item it was dragged up onto
+      if (selectedIds.has(overId)) return;
+      const inBlock = (item: BoardItem) => item.type === "strip" && selectedIds.has(item.id);
+      const rest = boardItems.filter((item) => !inBlock(item));
+      const overIndex = rest.findIndex((item) => itemKey(item) === overId);
+      const insertAt = to > from ? overIndex + 1 : overIndex;
+      items = [...rest.slice(0, insertAt), ...boardItems.filter(inBlock), ...rest.slice(insertAt)];
+    } else {
+      items = arrayMove(boardItems, from, to);
     }
+
+    await changeBoard(() => onArrange(items), "Failed to reorder the board");
   };
 
-  const handleToggleDayBreak = async (afterPosition: number) => {
-    await onToggleDayBreak(afterPosition);
+  const handleToggleDayBreak = async (afterStripId: string) => {
+    await onToggleDayBreak(afterStripId);
     // Auto-renumber after toggling
     await onRenumberDayBreaks();
   };
 
-  // Build the interleaved list of strips and day breaks
+  // New banners go after the strip last clicked, or at the top of the board
+  const handleCreateBanner = async () => {
+    if (!onCreateBanner || !bannerLabel.trim()) return;
+    setBoardError(null);
+    try {
+      const afterStripId = lastSelectedId && selectedIds.has(lastSelectedId) ? lastSelectedId : null;
+      await onCreateBanner(afterStripId, bannerLabel.trim(), bannerType);
+      setBannerLabel("");
+      setShowBannerForm(false);
+    } catch (err) {
+      setBoardError(err instanceof Error ? err.message : "Failed to add banner");
+    }
+  };
+
+  // Build the interleaved list of strips, day breaks and banners
   const renderSchedule = () => {
-    const elements: React.ReactNode[] = [];
-    let lastDayBreakPos = 0;
+    const renderBanner = (banner: BannerStrip) => (
+      <BannerRow
+        key={`banner-${banner.id}`}
+        banner={banner}
+        canEdit={canEdit && !isReordering}
+        onDelete={onDeleteBanner ? () => onDeleteBanner(banner.id) : undefined}
+      />
+    );
 
-    strips.forEach((strip, index) => {
+    const elements: React.ReactNode[] = (bannerMap.get(null) || []).map(renderBanner);
+
+    strips.forEach((strip) => {
       // Add the strip first
       elements.push(
         <SortableStrip
           key={strip.id}
           strip={strip}
+          stripStyle={stripStyle}
           canEdit={canEdit && !isReordering}
+          minutes={schedule.timing.strips[strip.id] ?? 0}
+          conflicts={conflictsByBreakdown.get(strip.breakdownId) || []}
+          isSelected={selectedIds.has(strip.id)}
+          isDimmed={
+            !!draggingId && draggingId !== strip.id && selectedIds.has(draggingId) && selectedIds.has(strip.id)
+          }
+          onSelect={(event) => handleSelect(strip, event)}
         />
       );
 
       // Check for day break after this strip
-      const dayBreak = dayBreakMap.get(strip.position);
+      const dayBreak = dayBreakMap.get(strip.id);
       if (dayBreak) {
-        const pages = calculatePagesForDay(lastDayBreakPos, strip.position);
         elements.push(
           <DayBreakStrip
             key={`db-${dayBreak.id}`}
             dayBreak={dayBreak}
-            totalPages={formatPageCount(pages)}
-            shootDate={shootDateMap.get(dayBreak.dayNumber)}
+            canEdit={canEdit && !isReordering}
+            totalPages={dayTotalMap.get(strip.position)?.pages || "0"}
+            estimate={dayEstimateMap.get(strip.position)}
+            maxDayMinutes={schedule.timing.model.maxDayMinutes}
+            shootDate={shootDateMap.get(strip.position)}
           />
         );
-        lastDayBreakPos = strip.position;
       }
 
       // Day break toggle button (after every strip, including the last one)
       if (canEdit) {
-        const hasBreak = dayBreakMap.has(strip.position);
         elements.push(
           <button
-            key={`toggle-${strip.position}`}
-            onClick={() => handleToggleDayBreak(strip.position)}
+            key={`toggle-${strip.id}`}
+            onClick={() => handleToggleDayBreak(strip.id)}
             className={`w-full py-1 text-xs transition-colors ${
-              hasBreak
+              dayBreak
                 ? "text-red-400 hover:text-red-300"
                 : "text-stone-700 hover:text-stone-500"
             }`}
           >
-            {hasBreak ? "Remove day break" : <Plus className="w-3 h-3 mx-auto" />}
+            {dayBreak ? "Remove day break" : <Plus className="w-3 h-3 mx-auto" />}
           </button>
         );
       }
+
+      (bannerMap.get(strip.id) || []).forEach((banner) => elements.push(renderBanner(banner)));
     });
 
     return elements;
   };
 
-  // Calculate total pages
-  const totalPages = strips.reduce(
-    (sum, s) => sum + parsePageCount(s.breakdown.pageCount),
-    0
-  );
-
   // Calculate days
   const totalDays = dayBreaks.length + (strips.length > 0 ? 1 : 0);
 
@@ -349,34 +786,106 @@ export function StripBoardTab({
           <h2 className="text-2xl font-display text-gold">Strip Board</h2>
           <p className="text-stone-500 text-sm mt-1">
             {strips.length} scene{strips.length !== 1 ? "s" : ""} •{" "}
-            {formatPageCount(totalPages)} pages • {totalDays} day{totalDays !== 1 ? "s" : ""}
+            {schedule.totals.pages} pages • {totalDays} day{totalDays !== 1 ? "s" : ""} • ~
+            {formatDuration(schedule.timing.minutes)}
+            {longDays > 0 && (
+              <span className="text-red-400">
+                {" "}
+                • {longDays} day{longDays !== 1 ? "s" : ""} over {formatDuration(schedule.timing.model.maxDayMinutes)}
+              </span>
+            )}
           </p>
         </div>
 
-        {/* View Toggle */}
-        <div className="flex items-center bg-stone-900 rounded-lg p-1">
-          <button
-            onClick={() => setViewMode("strips")}
-            className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-              viewMode === "strips"
-                ? "bg-gold text-stone-950"
-                : "text-stone-400 hover:text-white"
-            }`}
-          >
-            <List className="w-4 h-4" />
-            Strips
-          </button>
-          <button
-            onClick={() => setViewMode("calendar")}
-            className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-              viewMode === "calendar"
-                ? "bg-gold text-stone-950"
-                : "text-stone-400 hover:text-white"
-            }`}
-          >
-            <Calendar className="w-4 h-4" />
-            Calendar
-          </button>
+        <div className="flex items-center gap-3">
+          {canEdit && onUndo && onRedo && (
+            <div className="flex items-center">
+              <button
+                onClick={() => stepHistory(onUndo, "Undid")}
+                disabled={!schedule.history.undo || isReordering}
+                title={schedule.history.undo ? `Undo: ${schedule.history.undo} (Ctrl+Z)` : "Nothing to undo"}
+                className="p-2 text-stone-300 hover:text-white disabled:text-stone-700"
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => stepHistory(onRedo, "Redid")}
+                disabled={!schedule.history.redo || isReordering}
+                title={schedule.history.redo ? `Redo: ${schedule.history.redo} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                className="p-2 text-stone-300 hover:text-white disabled:text-stone-700"
+              >
+                <Redo2 className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+          {constraints && onCreateConstraint && onDeleteConstraint && (
+            <button
+              onClick={() => {
+                setShowConflicts(!showConflicts);
+                setViewMode("strips");
+              }}
+              className={`flex items-center gap-2 px-4 py-2 text-sm border rounded-lg ${
+                conflictCount > 0
+                  ? "text-red-400 hover:text-red-300 border-red-900"
+                  : "text-stone-300 hover:text-white border-stone-700"
+              }`}
+            >
+              <AlertTriangle className="w-4 h-4" />
+              {conflictCount > 0
+                ? `${conflictCount} Conflict${conflictCount !== 1 ? "s" : ""}`
+                : "Constraints"}
+            </button>
+          )}
+          {canEdit && strips.length > 0 && onSort && (
+            <button
+              onClick={() => {
+                setShowSort(!showSort);
+                setViewMode("strips");
+              }}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-stone-300 hover:text-white border border-stone-700 rounded-lg"
+            >
+              <ArrowDownWideNarrow className="w-4 h-4" />
+              Sort
+            </button>
+          )}
+          {canEdit && strips.length > 0 && onPreviewOptimization && onApplyOptimization && (
+            <button
+              onClick={() => {
+                setShowAutoSchedule(!showAutoSchedule);
+                setViewMode("strips");
+              }}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-stone-300 hover:text-white border border-stone-700 rounded-lg"
+            >
+              <Wand2 className="w-4 h-4" />
+              Auto-Schedule
+            </button>
+          )}
+
+          {/* View Toggle */}
+          <div className="flex items-center bg-stone-900 rounded-lg p-1">
+            <button
+              onClick={() => setViewMode("strips")}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                viewMode === "strips"
+                  ? "bg-gold text-stone-950"
+                  : "text-stone-400 hover:text-white"
+              }`}
+            >
+              <List className="w-4 h-4" />
+              Strips
+            </button>
+            <button
+              onClick={() => setViewMode("calendar")}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                viewMode === "calendar"
+                  ? "bg-gold text-stone-950"
+                  : "text-stone-400 hover:text-white"
+              }`}
+            >
+              <Calendar className="w-4 h-4" />
+              Calendar
+            </button>
+          </div>
         </div>
       </div>
 
@@ -386,6 +895,9 @@ export function StripBoardTab({
             schedule={schedule}
             canEdit={canEdit}
             onUpdateStartDate={onUpdateStartDate}
+            onUpdateWorkDays={onUpdateWorkDays}
+            onAddHoliday={onAddHoliday}
+            onDeleteHoliday={onDeleteHoliday}
           />
         ) : (
           <div className="text-center py-16">
@@ -394,62 +906,186 @@ export function StripBoardTab({
         )
       ) : (
         <>
+          {showAutoSchedule && onPreviewOptimization && onApplyOptimization && (
+            <AutoSchedulePanel
+              key={schedule.id}
+              schedule={schedule}
+              onPreview={onPreviewOptimization}
+              onApply={onApplyOptimization}
+              onSavedAsVersion={(version) => onSelectVersion?.(version.id)}
+              onClose={() => setShowAutoSchedule(false)}
+            />
+          )}
+
+          {showSort && onSort && (
+            <SortPanel
+              key={schedule.id}
+              schedule={schedule}
+              onSort={onSort}
+              onUndo={onArrange}
+              onClose={() => setShowSort(false)}
+            />
+          )}
+
+          {showConflicts && constraints && onCreateConstraint && onDeleteConstraint && (
+            <ConflictsPanel
+              schedule={schedule}
+              constraints={constraints}
+              canEdit={canEdit}
+              onCreate={onCreateConstraint}
+              onDelete={onDeleteConstraint}
+              onClose={() => setShowConflicts(false)}
+            />
+          )}
+
           {/* Legend */}
-          <div className="flex items-center gap-4 mb-6 text-xs">
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded strip-day-ext" />
-              <span className="text-stone-400">Day/EXT</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded strip-day-int" />
-              <span className="text-stone-400">Day/INT</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded strip-night-ext" />
-              <span className="text-stone-400">Night/EXT</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded strip-night-int" />
-              <span className="text-stone-400">Night/INT</span>
-            </div>
+          <div className="flex flex-wrap items-center gap-4 mb-6 text-xs">
+            {stripStyle.colorRules.map((rule, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded" style={{ backgroundColor: rule.background }} />
+                <span className="text-stone-400">{describeColorRule(rule)}</span>
+              </div>
+            ))}
           </div>
 
-          {/* Header Row */}
-          <div className="flex items-center gap-4 px-3 py-2 text-xs text-stone-500 font-medium border-b border-stone-800 mb-2">
-            {canEdit && <div className="w-6" />}
-            <div className="w-12">Scene</div>
-            <div className="w-8">I/E</div>
-            <div className="w-8">D/N</div>
-            <div className="flex-1">Location</div>
-            <div className="flex-1">Description</div>
-            <div className="w-12 text-right">Pages</div>
-            <div className="w-24">Cast</div>
-          </div>
+          {selectedIds.size > 0 && (
+            <div className="flex items-center gap-3 mb-4 text-sm">
+              <span className="text-gold">
+                {selectedIds.size} strip{selectedIds.size !== 1 ? "s" : ""} selected
+              </span>
+              <button
+                onClick={() => setSelectedIds(new Set())}
+                className="text-stone-500 hover:text-white"
+              >
+                Clear selection
+              </button>
+              {canEdit && onMoveToBoneyard && (
+                <button
+                  onClick={() =>
+                    changeBoard(
+                      () => onMoveToBoneyard([...selectedIds]),
+                      "Failed to move strips to the boneyard"
+                    )
+                  }
+                  disabled={isReordering}
+                  className="text-stone-500 hover:text-white disabled:opacity-50"
+                >
+                  Move to boneyard
+                </button>
+              )}
+            </div>
+          )}
 
-          {strips.length === 0 ? (
-            <div className="text-center py-16">
-              <p className="text-stone-500">
-                No scenes scheduled yet. Add breakdown sheets to populate the strip board.
-              </p>
+          {canEdit && onCreateBanner && (
+            <div className="flex items-center gap-2 mb-4 text-sm">
+              {showBannerForm ? (
+                <>
+                  <select
+                    value={bannerType}
+                    onChange={(e) => setBannerType(e.target.value as BannerStrip["bannerType"])}
+                    className="px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+                  >
+                    {(Object.keys(BANNER_TYPE_LABELS) as BannerStrip["bannerType"][]).map((type) => (
+                      <option key={type} value={type}>
+                        {BANNER_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={bannerLabel}
+                    onChange={(e) => setBannerLabel(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleCreateBanner()}
+                    placeholder="Banner text"
+                    className="w-64 px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold"
+                    autoFocus
+                  />
+                  <button
+                    onClick={handleCreateBanner}
+                    disabled={!bannerLabel.trim()}
+                    className="px-3 py-1.5 bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                  <button
+                    onClick={() => setShowBannerForm(false)}
+                    className="p-1.5 text-stone-500 hover:text-white"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                  <span className="text-stone-600">
+                    {selectedIds.size > 0 ? "After the last strip clicked" : "At the top of the board"}
+                  </span>
+                </>
+              ) : (
+                <button
+                  onClick={() => setShowBannerForm(true)}
+                  className="flex items-center gap-1 text-stone-500 hover:text-white"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add banner
+                </button>
+              )}
             </div>
-          ) : (
-            <DndContext
-              sensors={sensors}
-              collisionDetection={closestCenter}
-              onDragEnd={handleDragEnd}
-            >
-              <SortableContext
-                items={strips.map((s) => s.id)}
-                strategy={verticalListSortingStrategy}
-              >
-                <div className="space-y-1">{renderSchedule()}</div>
-              </SortableContext>
-            </DndContext>
           )}
 
+          {boardError && <p className="mb-4 text-red-400 text-sm">{boardError}</p>}
+          {boardNotice && !boardError && <p className="mb-4 text-stone-400 text-sm">{boardNotice}</p>}
+
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+          >
+            <div className="flex items-start gap-6">
+              <div className="flex-1 min-w-0">
+                {/* Header Row */}
+                <div className="flex items-center gap-4 px-3 py-2 text-xs text-stone-500 font-medium border-b border-stone-800 mb-2">
+                  {canEdit && <div className="w-6" />}
+                  {stripStyle.layout.map((field) => {
+                    const { className, style } = fieldWidth(field);
+                    return (
+                      <div
+                        key={field}
+                        className={`${className ?? ""} ${RIGHT_ALIGNED_FIELDS.has(field) ? "text-right" : ""}`}
+                        style={style}
+                      >
+                        {STRIP_FIELDS[field].label}
+                      </div>
+                    );
+                  })}
+                  <div className="w-4" />
+                </div>
+
+                {strips.length === 0 ? (
+                  <EmptyBoard />
+                ) : (
+                  <SortableContext
+                    items={boardItems.map(itemKey)}
+                    strategy={verticalListSortingStrategy}
+                  >
+                    <div className="space-y-1">{renderSchedule()}</div>
+                  </SortableContext>
+                )}
+              </div>
+
+              {(canEdit || schedule.boneyard.length > 0) && (
+                <BoneyardTray
+                  sheets={schedule.boneyard}
+                  stripStyle={stripStyle}
+                  canEdit={canEdit && !isReordering}
+                />
+              )}
+            </div>
+          </DndContext>
+
           {canEdit && strips.length > 0 && (
             <p className="mt-4 text-stone-600 text-sm">
-              Drag strips to reorder. Click + between strips to add day breaks.
+              Drag strips, day breaks and banners to reorder. Click + between strips to add day
+              breaks. Shift- or Ctrl-click strips to select several, then drag any of them to move
+              the block. Drag strips to the boneyard to take them off the board, and back to
+              schedule them.
             </p>
           )}
         </>
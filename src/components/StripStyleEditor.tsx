@@ -0,0 +1,313 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronUp, ChevronDown, X, Plus, Save, RotateCcw } from "lucide-react";
+import type { Project, ProjectUpdate } from "@/hooks/useProject";
+import {
+  COLOR_RULE_TYPE_LABELS,
+  DEFAULT_COLOR_RULES,
+  DEFAULT_STRIP_LAYOUT,
+  STRIP_FIELDS,
+  describeColorRule,
+  getStripStyle,
+  type ColorRule,
+  type ColorRuleMatch,
+  type ColorRuleType,
+  type StripField,
+} from "@/lib/strip-style";
+
+interface StripStyleEditorProps {
+  project: Project;
+  canEdit: boolean;
+  onUpdate: (updates: ProjectUpdate) => Promise<void>;
+}
+
+const inputClass =
+  "px-2 py-1.5 bg-stone-800 border border-stone-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-gold";
+
+// A new rule of each type starts from these values
+const NEW_MATCHES: Record<ColorRuleType, ColorRuleMatch> = {
+  intExtDayNight: { type: "intExtDayNight", intExt: "INT", light: "DAY" },
+  flashback: { type: "flashback" },
+  location: { type: "location", location: "" },
+  tag: { type: "tag", tag: "" },
+};
+
+function moveItem<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+function MoveButtons({ onMove, index, count }: { onMove: (offset: number) => void; index: number; count: number }) {
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => onMove(-1)}
+        disabled={index === 0}
+        className="p-1 text-stone-500 hover:text-white disabled:opacity-30"
+        title="Move up"
+      >
+        <ChevronUp className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => onMove(1)}
+        disabled={index === count - 1}
+        className="p-1 text-stone-500 hover:text-white disabled:opacity-30"
+        title="Move down"
+      >
+        <ChevronDown className="w-4 h-4" />
+      </button>
+    </>
+  );
+}
+
+export function StripStyleEditor({ project, canEdit, onUpdate }: StripStyleEditorProps) {
+  const stored = getStripStyle(project);
+  const [rules, setRules] = useState<ColorRule[]>(stored.colorRules);
+  const [layout, setLayout] = useState<StripField[]>(stored.layout);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unusedFields = (Object.keys(STRIP_FIELDS) as StripField[]).filter((field) => !layout.includes(field));
+  const isChanged =
+    JSON.stringify(rules) !== JSON.stringify(stored.colorRules) ||
+    JSON.stringify(layout) !== JSON.stringify(stored.layout);
+
+  const updateRule = (index: number, change: Partial<ColorRule>) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...change } : rule)));
+  };
+
+  const save = async (updates: ProjectUpdate) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onUpdate(updates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save strip settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setRules(DEFAULT_COLOR_RULES);
+    setLayout(DEFAULT_STRIP_LAYOUT);
+    await save({ stripColorRules: null, stripLayout: null });
+  };
+
+  const renderMatch = (rule: ColorRule, index: number) => {
+    const { match } = rule;
+    switch (match.type) {
+      case "intExtDayNight":
+        return (
+          <>
+            <select
+              value={match.intExt}
+              onChange={(e) => updateRule(index, { match: { ...match, intExt: e.target.value as "INT" | "EXT" } })}
+              disabled={!canEdit}
+              className={inputClass}
+            >
+              <option value="INT">INT</option>
+              <option value="EXT">EXT</option>
+            </select>
+            <select
+              value={match.light}
+              onChange={(e) => updateRule(index, { match: { ...match, light: e.target.value as "DAY" | "NIGHT" } })}
+              disabled={!canEdit}
+              className={inputClass}
+              title="Dawn and dusk count as day; day for night counts as night"
+            >
+              <option value="DAY">Day</option>
+              <option value="NIGHT">Night</option>
+            </select>
+          </>
+        );
+      case "flashback":
+        return <span className="text-sm text-stone-500">Scenes marked as flashbacks</span>;
+      case "location":
+        return (
+          <input
+            type="text"
+            value={match.location}
+            onChange={(e) => updateRule(index, { match: { ...match, location: e.target.value } })}
+            disabled={!canEdit}
+            placeholder="Location name"
+            className={inputClass}
+          />
+        );
+      case "tag":
+        return (
+          <input
+            type="text"
+            value={match.tag}
+            onChange={(e) => updateRule(index, { match: { ...match, tag: e.target.value } })}
+            disabled={!canEdit}
+            placeholder="Strip tag"
+            className={inputClass}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-medium text-stone-400 mb-1">Color Rules</h4>
+        <p className="text-xs text-stone-500 mb-3">
+          The first rule a scene matches colors its strip. Scenes no rule matches are gray.
+        </p>
+        <div className="space-y-2">
+          {rules.map((rule, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <span
+                className="w-28 px-2 py-1 rounded text-xs truncate border border-stone-700"
+                style={{ backgroundColor: rule.background, color: rule.text }}
+              >
+                {describeColorRule(rule)}
+              </span>
+              <select
+                value={rule.match.type}
+                onChange={(e) => updateRule(index, { match: NEW_MATCHES[e.target.value as ColorRuleType] })}
+                disabled={!canEdit}
+                className={inputClass}
+              >
+                {(Object.keys(COLOR_RULE_TYPE_LABELS) as ColorRuleType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {COLOR_RULE_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              {renderMatch(rule, index)}
+              <label className="flex items-center gap-1 text-xs text-stone-500">
+                Strip
+                <input
+                  type="color"
+                  value={rule.background}
+                  onChange={(e) => updateRule(index, { background: e.target.value })}
+                  disabled={!canEdit}
+                  className="w-8 h-7 bg-transparent"
+                />
+              </label>
+              <label className="flex items-center gap-1 text-xs text-stone-500">
+                Text
+                <input
+                  type="color"
+                  value={rule.text}
+                  onChange={(e) => updateRule(index, { text: e.target.value })}
+                  disabled={!canEdit}
+                  className="w-8 h-7 bg-transparent"
+                />
+              </label>
+              {canEdit && (
+                <>
+                  <MoveButtons
+                    index={index}
+                    count={rules.length}
+                    onMove={(offset) => setRules(moveItem(rules, index, offset))}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                    className="p-1 text-stone-600 hover:text-red-400"
+                    title="Remove rule"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() =>
+                setRules([...rules, { match: NEW_MATCHES.flashback, background: "#fca5a5", text: "#1c1917" }])
+              }
+              className="flex items-center gap-1 text-sm text-stone-500 hover:text-white"
+            >
+              <Plus className="w-4 h-4" />
+              Add rule
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-stone-400 mb-1">Strip Fields</h4>
+        <p className="text-xs text-stone-500 mb-3">
+          What each strip shows, left to right, on the board and in the Strip Board report.
+        </p>
+        <div className="space-y-1">
+          {layout.map((field, index) => (
+            <div key={field} className="flex items-center gap-2">
+              <span className="w-40 text-sm text-white">{STRIP_FIELDS[field].label}</span>
+              {canEdit && (
+                <>
+                  <MoveButtons
+                    index={index}
+                    count={layout.length}
+                    onMove={(offset) => setLayout(moveItem(layout, index, offset))}
+                  />
+                  {layout.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setLayout(layout.filter((f) => f !== field))}
+                      className="p-1 text-stone-600 hover:text-red-400"
+                      title="Remove field"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+          {canEdit && unusedFields.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && setLayout([...layout, e.target.value as StripField])}
+              className={`${inputClass} mt-2`}
+            >
+              <option value="">Add a field...</option>
+              {unusedFields.map((field) => (
+                <option key={field} value={field}>
+                  {STRIP_FIELDS[field].label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {canEdit && (
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => save({ stripColorRules: rules, stripLayout: layout })}
+            disabled={isSaving || !isChanged}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-gold hover:bg-gold-dark text-stone-950 font-medium rounded-lg disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? "Saving..." : "Save Strip Settings"}
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-stone-400 hover:text-white disabled:opacity-50"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import useSWR from "swr";
+import { apiGet, apiPost, apiPatch, apiDelete } from "@/lib/api";
+import {
+  breakdownFilterParams,
+  hasBreakdownFilters,
+  type BreakdownFilters,
+} from "@/lib/breakdown-filters";
+import type { BreakdownSheet } from "./useProject";
+
+export interface BreakdownView {
+  id: string;
+  projectId: string;
+  userId: string;
+  name: string;
+  filters: BreakdownFilters;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Server-side breakdown filtering; null while no filters are set
+export function useBreakdownSearch(projectId: string | null, filters: BreakdownFilters) {
+  const active = hasBreakdownFilters(filters);
+  const { data, error, isLoading, mutate } = useSWR<BreakdownSheet[]>(
+    projectId && active
+      ? `/api/projects/${projectId}/breakdowns?${breakdownFilterParams(filters)}`
+      : null,
+    apiGet,
+    { keepPreviousData: true }
+  );
+
+  return {
+    matchingIds: active && data ? new Set(data.map((b) => b.id)) : null,
+    isLoading: active && isLoading,
+    isError: !!error,
+    refresh: mutate,
+  };
+}
+
+export function useBreakdownViews(projectId: string | null) {
+  const { data, error, isLoading, mutate } = useSWR<BreakdownView[]>(
+    projectId ? `/api/projects/${projectId}/breakdowns/views` : null,
+    apiGet
+  );
+
+  const saveView = async (name: string, filters: BreakdownFilters) => {
+    if (!projectId) return;
+    const view = await apiPost<BreakdownView>(`/api/projects/${projectId}/breakdowns/views`, {
+      name,
+      filters,
+    });
+    await mutate();
+    return view;
+  };
+
+  const updateView = async (viewId: string, updates: { name?: string; filters?: BreakdownFilters }) => {
+    if (!projectId) return;
+    await apiPatch(`/api/projects/${projectId}/breakdowns/views/${viewId}`, updates);
+    await mutate();
+  };
+
+  const deleteView = async (viewId: string) => {
+    if (!projectId) return;
+    await apiDelete(`/api/projects/${projectId}/breakdowns/views/${viewId}`);
+    await mutate();
+  };
+
+  return {
+    views: data || [],
+    isLoading,
+    isError: !!error,
+    saveView,
+    updateView,
+    deleteView,
+  };
+}
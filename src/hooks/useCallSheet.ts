@@ -0,0 +1,37 @@
+import useSWR from "swr";
+import { apiGet, apiPatch } from "@/lib/api";
+import type { CallSheetData, CallSheetEdits } from "@/lib/call-sheet";
+
+export interface CallSheet {
+  dayNumber: number;
+  publishedAt: string | null;
+  updatedAt: string | null;
+  edits: CallSheetEdits;
+  sheet: CallSheetData; // As published, once it is
+}
+
+export function useCallSheet(projectId: string | null, scheduleId: string | null, dayNumber: number | null) {
+  const query = scheduleId ? `?scheduleId=${scheduleId}` : "";
+  const url =
+    projectId && dayNumber ? `/api/projects/${projectId}/schedule/call-sheets/${dayNumber}${query}` : null;
+  const { data, error, isLoading, mutate } = useSWR<CallSheet>(url, apiGet);
+
+  const updateCallSheet = async (edits: Partial<CallSheetEdits>) => {
+    if (!url) return;
+    await mutate(await apiPatch<CallSheet>(url, edits), { revalidate: false });
+  };
+
+  // Publishing keeps the sheet as built; reopening lets it be edited again
+  const setPublished = async (published: boolean) => {
+    if (!url) return;
+    await mutate(await apiPatch<CallSheet>(url, { published }), { revalidate: false });
+  };
+
+  return {
+    callSheet: data,
+    isLoading,
+    isError: !!error,
+    updateCallSheet,
+    setPublished,
+  };
+}
@@ -0,0 +1,78 @@
+import useSWR, { useSWRConfig } from "swr";
+import { apiGet, apiPost, apiDelete } from "@/lib/api";
+import { isScheduleKey } from "./useSchedule";
+
+export type ConstraintType =
+  | "CAST_AVAILABILITY"
+  | "LOCATION_AVAILABILITY"
+  | "SCENE_ORDER"
+  | "NIGHT_REQUIRED"
+  | "MAX_PAGES_PER_DAY";
+
+export interface ScheduleConstraint {
+  id: string;
+  projectId: string;
+  type: ConstraintType;
+  characterId: string | null;
+  location: string | null;
+  breakdownId: string | null;
+  laterBreakdownId: string | null;
+  dates: string[];
+  weekdays: number[];
+  maxEighths: number | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewConstraint {
+  type: ConstraintType;
+  characterId?: string;
+  location?: string;
+  breakdownId?: string;
+  laterBreakdownId?: string;
+  dates?: string[]; // YYYY-MM-DD
+  weekdays?: number[];
+  maxPages?: string;
+  notes?: string;
+}
+
+export function useConstraints(projectId: string | null) {
+  const { mutate: globalMutate } = useSWRConfig();
+  const { data, error, isLoading, mutate } = useSWR<ScheduleConstraint[]>(
+    projectId ? `/api/projects/${projectId}/constraints` : null,
+    apiGet
+  );
+
+  // Conflicts come back with the schedule, so every version is re-checked
+  const refresh = async () => {
+    await mutate();
+    if (projectId) {
+      await globalMutate(isScheduleKey(projectId));
+    }
+  };
+
+  const createConstraint = async (constraint: NewConstraint) => {
+    if (!projectId) return;
+    const created = await apiPost<ScheduleConstraint>(
+      `/api/projects/${projectId}/constraints`,
+      constraint
+    );
+    await refresh();
+    return created;
+  };
+
+  const deleteConstraint = async (constraintId: string) => {
+    if (!projectId) return;
+    await apiDelete(`/api/projects/${projectId}/constraints/${constraintId}`);
+    await refresh();
+  };
+
+  return {
+    constraints: data || [],
+    isLoading,
+    isError: !!error,
+    createConstraint,
+    deleteConstraint,
+  };
+}
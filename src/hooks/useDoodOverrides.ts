@@ -0,0 +1,33 @@
+import useSWR from "swr";
+import { apiGet, apiPost } from "@/lib/api";
+import type { DoodOverrideCode } from "@/lib/day-out-of-days";
+
+export interface DoodOverride {
+  id: string;
+  projectId: string;
+  characterId: string;
+  date: string;
+  code: DoodOverrideCode;
+  createdAt: string;
+}
+
+export function useDoodOverrides(projectId: string | null) {
+  const { data, error, isLoading, mutate } = useSWR<DoodOverride[]>(
+    projectId ? `/api/projects/${projectId}/dood-overrides` : null,
+    apiGet
+  );
+
+  // Null clears the day back to what the schedule gives
+  const setOverride = async (characterId: string, date: string, code: DoodOverrideCode | null) => {
+    if (!projectId) return;
+    await apiPost(`/api/projects/${projectId}/dood-overrides`, { characterId, date, code });
+    await mutate();
+  };
+
+  return {
+    overrides: data || [],
+    isLoading,
+    isError: !!error,
+    setOverride,
+  };
+}
@@ -0,0 +1,71 @@
+import useSWR, { useSWRConfig } from "swr";
+import { apiGet, apiPost, apiPatch, apiDelete } from "@/lib/api";
+import type { ElementCategory, ProductionElement } from "./useProject";
+
+export interface ElementTag {
+  id: string;
+  breakdownId: string;
+  elementId: string;
+  start: number;
+  end: number;
+  text: string;
+  element: ProductionElement;
+}
+
+export interface SheetTags {
+  scriptText: string | null;
+  tags: ElementTag[];
+}
+
+export function useElementTags(projectId: string | null, breakdownId: string | null) {
+  const { mutate: globalMutate } = useSWRConfig();
+  const { data, error, isLoading, mutate } = useSWR<SheetTags>(
+    projectId && breakdownId
+      ? `/api/projects/${projectId}/breakdowns/${breakdownId}/tags`
+      : null,
+    apiGet
+  );
+
+  // Tags link elements to the sheet, so the project and element library change too
+  const refresh = async () => {
+    await mutate();
+    if (projectId) {
+      await globalMutate(`/api/projects/${projectId}`);
+      await globalMutate(`/api/projects/${projectId}/elements`);
+    }
+  };
+
+  const saveScriptText = async (scriptText: string) => {
+    if (!projectId || !breakdownId) return;
+    await apiPatch(`/api/projects/${projectId}/breakdowns/${breakdownId}`, { scriptText });
+    await refresh();
+  };
+
+  const tagElement = async (
+    range: { start: number; end: number },
+    element: { elementId: string } | { category: ElementCategory; name: string }
+  ) => {
+    if (!projectId || !breakdownId) return;
+    await apiPost(`/api/projects/${projectId}/breakdowns/${breakdownId}/tags`, {
+      ...range,
+      ...element,
+    });
+    await refresh();
+  };
+
+  const removeTag = async (tagId: string) => {
+    if (!projectId || !breakdownId) return;
+    await apiDelete(`/api/projects/${projectId}/breakdowns/${breakdownId}/tags/${tagId}`);
+    await refresh();
+  };
+
+  return {
+    scriptText: data?.scriptText ?? null,
+    tags: data?.tags || [],
+    isLoading,
+    isError: !!error,
+    saveScriptText,
+    tagElement,
+    removeTag,
+  };
+}
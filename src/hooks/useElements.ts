@@ -1,8 +1,16 @@
-import useSWR from "swr";
+import useSWR, { useSWRConfig } from "swr";
 import { apiGet, apiPost, apiDelete } from "@/lib/api";
+import type { LegacyMigrationPlan } from "@/lib/legacy-elements";
 import type { ProductionElement, ElementCategory } from "./useProject";
 
+export interface LegacyMigrationResult {
+  elementsCreated: number;
+  linksCreated: number;
+  sheetsCleared: number;
+}
+
 export function useElements(projectId: string | null) {
+  const { mutate: globalMutate } = useSWRConfig();
   const { data, error, isLoading, mutate } = useSWR<ProductionElement[]>(
     projectId ? `/api/projects/${projectId}/elements` : null,
     apiGet
@@ -25,6 +33,24 @@ export function useElements(projectId: string | null) {
     await mutate();
   };
 
+  // Legacy department text - the preview writes nothing
+  const previewLegacyMigration = async () => {
+    if (!projectId) return undefined;
+    return apiPost<LegacyMigrationPlan>(`/api/projects/${projectId}/elements/migrate-legacy`, {});
+  };
+
+  const migrateLegacyElements = async (clearText: boolean) => {
+    if (!projectId) return undefined;
+    const result = await apiPost<LegacyMigrationResult>(
+      `/api/projects/${projectId}/elements/migrate-legacy`,
+      { commit: true, clearText }
+    );
+    await mutate();
+    // Breakdown sheets carry their element links and text
+    await globalMutate(`/api/projects/${projectId}`);
+    return result;
+  };
+
   // Group elements by category for easy access
   const elementsByCategory = (data || []).reduce((acc, element) => {
     if (!acc[element.category]) {
@@ -43,5 +69,7 @@ export function useElements(projectId: string | null) {
     mutate,
     createElement,
     deleteElement,
+    previewLegacyMigration,
+    migrateLegacyElements,
   };
 }
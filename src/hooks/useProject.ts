@@ -1,5 +1,9 @@
 import useSWR, { useSWRConfig } from "swr";
 import { apiGet, apiPatch, apiPost, apiDelete } from "@/lib/api";
+import type { ScriptImportPlan } from "@/lib/script-import";
+import type { TimeModel } from "@/lib/shooting-time";
+import type { ColorRule, StripField } from "@/lib/strip-style";
+import { isScheduleKey } from "./useSchedule";
 
 export interface Character {
   id: string;
@@ -7,10 +11,17 @@ export interface Character {
   number: number;
   name: string;
   actor: string | null;
+  dropPickupDays: number | null; // Null for the project's
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CharacterUpdate {
+  name?: string;
+  actor?: string;
+  dropPickupDays?: number | null;
+}
+
 export interface BreakdownCast {
   id: string;
   breakdownId: string;
@@ -58,10 +69,13 @@ export interface BreakdownSheet {
   location: string | null;
   dayNight: "DAY" | "NIGHT" | "DUSK" | "DAWN" | "DAY_FOR_NIGHT" | null;
   pageCount: string | null;
+  pageEighths: number | null;
   description: string | null;
   storyDay: number | null;
   cameraSetups: number | null;
   isFlashback: boolean;
+  stripTag: string | null;
+  isOmitted: boolean;
   sortOrder: number;
   stunts: string | null;
   extras: string | null;
@@ -85,6 +99,39 @@ export interface BreakdownSheet {
   elements: BreakdownElement[];
 }
 
+export type ScriptFormat = "fountain" | "fdx";
+
+export interface ScriptImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number; // Scenes already on another sheet
+  charactersCreated: number;
+}
+
+export interface BatchBreakdownChanges {
+  location?: string | null;
+  dayNight?: BreakdownSheet["dayNight"];
+  storyDay?: number | null;
+  isFlashback?: boolean;
+  addCastIds?: string[];
+  removeCastIds?: string[];
+  addElementIds?: string[];
+  removeElementIds?: string[];
+}
+
+export interface BatchBreakdownResult {
+  updated: number;
+  unchanged: number;
+  failed: number;
+  results: {
+    breakdownId: string;
+    sceneNumbers: string | null;
+    status: "updated" | "unchanged" | "failed";
+    error?: string;
+  }[];
+}
+
 export interface ProjectMember {
   id: string;
   projectId: string;
@@ -106,6 +153,17 @@ export interface AccessLevel {
   isOwner: boolean;
 }
 
+export interface ProjectUpdate extends Partial<TimeModel> {
+  title?: string;
+  director?: string;
+  producer?: string;
+  ad?: string;
+  scriptDate?: string;
+  dropPickupDays?: number;
+  stripColorRules?: ColorRule[] | null; // Null for the defaults
+  stripLayout?: StripField[] | null;
+}
+
 export interface Project {
   id: string;
   title: string;
@@ -114,6 +172,14 @@ export interface Project {
   ad: string | null;
   scriptDate: string | null;
   ownerId: string;
+  minutesPerSetup: number;
+  minutesPerEighth: number;
+  companyMoveMinutes: number;
+  mealBreakMinutes: number;
+  maxDayMinutes: number;
+  dropPickupDays: number;
+  stripColorRules: ColorRule[] | null;
+  stripLayout: StripField[] | null;
   createdAt: string;
   updatedAt: string;
   owner: {
@@ -144,20 +210,16 @@ export function useProject(projectId: string | null) {
     await mutate();
     // Also refresh the schedule cache since breakdowns affect strip slots
     if (projectId) {
-      await globalMutate(`/api/projects/${projectId}/schedule`);
+      await globalMutate(isScheduleKey(projectId));
     }
   };
 
-  const updateProject = async (updates: {
-    title?: string;
-    director?: string;
-    producer?: string;
-    ad?: string;
-    scriptDate?: string;
-  }) => {
+  const updateProject = async (updates: ProjectUpdate) => {
     if (!projectId) return;
     await apiPatch(`/api/projects/${projectId}`, updates);
     await mutate();
+    // The schedule's shooting-time estimates follow the project's time model
+    await globalMutate(isScheduleKey(projectId));
   };
 
   // Character operations
@@ -167,7 +229,7 @@ export function useProject(projectId: string | null) {
     await mutate();
   };
 
-  const updateCharacter = async (charId: string, updates: { name?: string; actor?: string }) => {
+  const updateCharacter = async (charId: string, updates: CharacterUpdate) => {
     if (!projectId) return;
     await apiPatch(`/api/projects/${projectId}/characters/${charId}`, updates);
     await mutate();
@@ -204,6 +266,60 @@ export function useProject(projectId: string | null) {
     await mutateWithSchedule();
   };
 
+  // One change set applied to many sheets; failures are reported per sheet
+  const batchUpdateBreakdowns = async (breakdownIds: string[], changes: BatchBreakdownChanges) => {
+    if (!projectId) return;
+    const result = await apiPost<BatchBreakdownResult>(`/api/projects/${projectId}/breakdowns/batch`, {
+      breakdownIds,
+      changes,
+    });
+    await mutate();
+    return result;
+  };
+
+  // Split keeps the original as the first part; merge folds the other sheets into bdId
+  const splitBreakdown = async (
+    bdId: string,
+    parts: { sceneNumbers?: string; pageCount?: string; castIds?: string[]; elementIds?: string[] }[]
+  ) => {
+    if (!projectId) return;
+    await apiPost(`/api/projects/${projectId}/breakdowns/${bdId}/split`, { parts });
+    await mutateWithSchedule();
+  };
+
+  const mergeBreakdowns = async (bdId: string, breakdownIds: string[]) => {
+    if (!projectId) return;
+    await apiPost(`/api/projects/${projectId}/breakdowns/${bdId}/merge`, { breakdownIds });
+    await mutateWithSchedule();
+  };
+
+  // Breakdown list order only; strips keep their board positions
+  const orderBreakdownsByScript = async () => {
+    if (!projectId) return;
+    await apiPost(`/api/projects/${projectId}/breakdowns/script-order`, {});
+    await mutate();
+  };
+
+  // Script import - preview writes nothing; import creates sheets, cast and strips
+  const previewScriptImport = async (format: ScriptFormat, content: string) => {
+    if (!projectId) return;
+    return apiPost<ScriptImportPlan>(`/api/projects/${projectId}/breakdowns/import`, {
+      format,
+      content,
+    });
+  };
+
+  const importScript = async (format: ScriptFormat, content: string) => {
+    if (!projectId) return;
+    const result = await apiPost<ScriptImportResult>(`/api/projects/${projectId}/breakdowns/import`, {
+      format,
+      content,
+      commit: true,
+    });
+    await mutateWithSchedule();
+    return result;
+  };
+
   // Member operations
   const addMember = async (email: string, role: "VIEWER" | "EDITOR" | "ADMIN") => {
     if (!projectId) return;
@@ -231,6 +347,12 @@ export function useProject(projectId: string | null) {
     createBreakdown,
     updateBreakdown,
     deleteBreakdown,
+    batchUpdateBreakdowns,
+    splitBreakdown,
+    mergeBreakdowns,
+    orderBreakdownsByScript,
+    previewScriptImport,
+    importScript,
     addMember,
     removeMember,
   };
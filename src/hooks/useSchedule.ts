@@ -1,6 +1,14 @@
-import useSWR from "swr";
+import useSWR, { useSWRConfig } from "swr";
 import { apiGet, apiPost, apiPatch, apiDelete } from "@/lib/api";
 import type { BreakdownSheet, BreakdownCast } from "./useProject";
+import type { ScheduleTotals } from "@/lib/schedule-totals";
+import type { ScheduleComparison } from "@/lib/schedule-compare";
+import type { ConflictReport } from "@/lib/schedule-conflicts";
+import type { OptimizeOptions, OptimizeProposal } from "@/lib/schedule-optimizer";
+import type { BoardItem } from "@/lib/strip-board";
+import type { SortOptions } from "@/lib/strip-sort";
+import type { HistorySummary } from "@/lib/schedule-history";
+import type { ShootingTime } from "@/lib/shooting-time";
 
 export interface StripSlot {
   id: string;
@@ -12,9 +20,12 @@ export interface StripSlot {
   };
 }
 
+// afterPosition is the board position of the strip a day break or banner
+// follows, filled in by the server from its afterStripId
 export interface DayBreak {
   id: string;
   scheduleId: string;
+  afterStripId: string;
   afterPosition: number;
   dayNumber: number;
   shootDate: string | null;
@@ -24,20 +35,56 @@ export interface DayBreak {
 export interface BannerStrip {
   id: string;
   scheduleId: string;
+  afterStripId: string | null; // Null at the top of the board
   afterPosition: number;
+  sortOrder: number;
   label: string;
   bannerType: "TRAVEL" | "MOVE" | "HOLIDAY" | "PRERIG" | "INFO";
+  date: string | null; // The day a TRAVEL, HOLIDAY or PRERIG banner takes
+}
+
+export interface ProjectHoliday {
+  id: string;
+  projectId: string;
+  date: string;
+  name: string;
 }
 
 export interface Schedule {
   id: string;
   projectId: string;
+  name: string;
+  isActive: boolean;
   startDate: string | null;
+  workDays: number[]; // Weekdays shot, 0 = Sunday
   createdAt: string;
   updatedAt: string;
   stripSlots: StripSlot[];
   dayBreaks: DayBreak[];
   banners: BannerStrip[];
+  holidays: ProjectHoliday[];
+  totals: ScheduleTotals; // Each day carries its shoot date
+  conflicts: ConflictReport;
+  boneyard: BreakdownSheet[]; // Sheets with no strip in this version
+  history: HistorySummary;
+  timing: ShootingTime;
+}
+
+export interface ScheduleVersion {
+  id: string;
+  projectId: string;
+  name: string;
+  isActive: boolean;
+  startDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  _count: { dayBreaks: number };
+}
+
+// Matches the cached schedule of every version, for refreshing after sheet changes
+export function isScheduleKey(projectId: string) {
+  return (key: unknown) =>
+    typeof key === "string" && key.startsWith(`/api/projects/${projectId}/schedule`);
 }
 
 export type CalendarDayType = "shoot" | "travel" | "holiday" | "prep" | "off";
@@ -49,32 +96,124 @@ export interface CalendarDay {
   label?: string;
 }
 
-export function useSchedule(projectId: string | null) {
+// Without a scheduleId this is the project's active schedule version
+export function useSchedule(projectId: string | null, scheduleId?: string | null) {
+  const { mutate: globalMutate } = useSWRConfig();
+  const query = scheduleId ? `?scheduleId=${scheduleId}` : "";
   const { data, error, isLoading, mutate } = useSWR<Schedule>(
-    projectId ? `/api/projects/${projectId}/schedule` : null,
+    projectId ? `/api/projects/${projectId}/schedule${query}` : null,
     apiGet
   );
 
   const updateStartDate = async (startDate: string | null) => {
     if (!projectId) return;
-    await apiPatch(`/api/projects/${projectId}/schedule`, { startDate });
+    await apiPatch(`/api/projects/${projectId}/schedule${query}`, { startDate });
+    await mutate();
+  };
+
+  const updateWorkDays = async (workDays: number[]) => {
+    if (!projectId) return;
+    await apiPatch(`/api/projects/${projectId}/schedule${query}`, { workDays });
     await mutate();
   };
 
+  // Holidays belong to the project, so every version's dates move with them
+  const addHoliday = async (date: string, name: string) => {
+    if (!projectId) return;
+    await apiPost(`/api/projects/${projectId}/holidays`, { date, name });
+    await globalMutate(isScheduleKey(projectId));
+  };
+
+  const deleteHoliday = async (holidayId: string) => {
+    if (!projectId) return;
+    await apiDelete(`/api/projects/${projectId}/holidays/${holidayId}`);
+    await globalMutate(isScheduleKey(projectId));
+  };
+
   const reorderStrip = async (stripId: string, newPosition: number) => {
     if (!projectId) return;
-    await apiPost(`/api/projects/${projectId}/schedule/reorder`, {
+    await apiPost(`/api/projects/${projectId}/schedule/reorder${query}`, {
       stripId,
       newPosition,
     });
     await mutate();
   };
 
-  const toggleDayBreak = async (afterPosition: number) => {
+  // Move strips as one block; they keep their board order
+  const moveStrips = async (stripIds: string[], targetPosition: number) => {
+    if (!projectId) return;
+    await apiPost(`/api/projects/${projectId}/schedule/move${query}`, {
+      stripIds,
+      targetPosition,
+    });
+    await mutate();
+  };
+
+  // Lay out the whole board: every strip, day break and banner in order
+  const arrangeBoard = async (items: BoardItem[]) => {
+    if (!projectId) return;
+    await apiPost(`/api/projects/${projectId}/schedule/arrange${query}`, { items });
+    await mutate();
+  };
+
+  // Sort strips by scene details. Returns the board as it was before, which
+  // arrangeBoard puts back.
+  const sortBoard = async (options: SortOptions) => {
+    if (!projectId) return;
+    const result = await apiPost<{ snapshot: BoardItem[] }>(
+      `/api/projects/${projectId}/schedule/sort${query}`,
+      options
+    );
+    await mutate();
+    return result.snapshot;
+  };
+
+  // Revert or reapply a board edit. Returns its description.
+  const undo = async () => {
+    if (!projectId) return;
+    const result = await apiPost<{ description: string }>(
+      `/api/projects/${projectId}/schedule/history/undo${query}`
+    );
+    await mutate();
+    return result.description;
+  };
+
+  const redo = async () => {
+    if (!projectId) return;
+    const result = await apiPost<{ description: string }>(
+      `/api/projects/${projectId}/schedule/history/redo${query}`
+    );
+    await mutate();
+    return result.description;
+  };
+
+  // Take strips off the board; their sheets wait in the boneyard
+  const moveToBoneyard = async (stripIds: string[]) => {
+    if (!projectId) return;
+    await apiPost(`/api/projects/${projectId}/schedule/boneyard${query}`, { stripIds });
+    await mutate();
+  };
+
+  // Put boneyard sheets back after a strip (null for the top of the board)
+  const placeFromBoneyard = async (
+    breakdownIds: string[],
+    afterStripId: string | null,
+    sameDay: boolean
+  ) => {
+    if (!projectId) return;
+    await apiPost(`/api/projects/${projectId}/schedule/boneyard/place${query}`, {
+      breakdownIds,
+      afterStripId,
+      sameDay,
+    });
+    await mutate();
+  };
+
+  const toggleDayBreak = async (afterStripId: string) => {
     if (!projectId) return;
     const result = await apiPost<{ action: "created" | "deleted"; dayBreak: DayBreak }>(
-      `/api/projects/${projectId}/schedule/daybreaks`,
-      { afterPosition }
+      `/api/projects/${projectId}/schedule/daybreaks${query}`,
+      { afterStripId }
     );
     await mutate();
     return result;
@@ -82,24 +221,24 @@ export function useSchedule(projectId: string | null) {
 
   const deleteDayBreak = async (dbId: string) => {
     if (!projectId) return;
-    await apiDelete(`/api/projects/${projectId}/schedule/daybreaks/${dbId}`);
+    await apiDelete(`/api/projects/${projectId}/schedule/daybreaks/${dbId}${query}`);
     await mutate();
   };
 
   const renumberDayBreaks = async () => {
     if (!projectId) return;
-    await apiPost(`/api/projects/${projectId}/schedule/daybreaks/renumber`);
+    await apiPost(`/api/projects/${projectId}/schedule/daybreaks/renumber${query}`);
     await mutate();
   };
 
   const createBanner = async (
-    afterPosition: number,
+    afterStripId: string | null,
     label: string,
     bannerType: "TRAVEL" | "MOVE" | "HOLIDAY" | "PRERIG" | "INFO"
   ) => {
     if (!projectId) return;
-    await apiPost(`/api/projects/${projectId}/schedule/banners`, {
-      afterPosition,
+    await apiPost(`/api/projects/${projectId}/schedule/banners${query}`, {
+      afterStripId,
       label,
       bannerType,
     });
@@ -108,10 +247,37 @@ export function useSchedule(projectId: string | null) {
 
   const deleteBanner = async (bId: string) => {
     if (!projectId) return;
-    await apiDelete(`/api/projects/${projectId}/schedule/banners/${bId}`);
+    await apiDelete(`/api/projects/${projectId}/schedule/banners/${bId}${query}`);
     await mutate();
   };
 
+  const previewOptimization = async (options: OptimizeOptions) => {
+    if (!projectId) return;
+    return apiPost<OptimizeProposal>(
+      `/api/projects/${projectId}/schedule/optimize${query}`,
+      options
+    );
+  };
+
+  // Overwrite this version with the proposal, or save it as a new version
+  const applyOptimization = async (
+    proposal: OptimizeProposal,
+    target: { type: "current" } | { type: "new"; name: string }
+  ) => {
+    if (!projectId) return;
+    const version = await apiPost<ScheduleVersion>(
+      `/api/projects/${projectId}/schedule/optimize/apply${query}`,
+      {
+        order: proposal.order,
+        dayBreaks: proposal.dayBreaks,
+        target: target.type,
+        name: target.type === "new" ? target.name : undefined,
+      }
+    );
+    await globalMutate(isScheduleKey(projectId));
+    return version;
+  };
+
   return {
     schedule: data,
     isLoading,
@@ -119,11 +285,81 @@ export function useSchedule(projectId: string | null) {
     error,
     mutate,
     updateStartDate,
+    updateWorkDays,
+    addHoliday,
+    deleteHoliday,
     reorderStrip,
+    moveStrips,
+    arrangeBoard,
+    sortBoard,
+    undo,
+    redo,
+    moveToBoneyard,
+    placeFromBoneyard,
     toggleDayBreak,
     deleteDayBreak,
     renumberDayBreaks,
     createBanner,
     deleteBanner,
+    previewOptimization,
+    applyOptimization,
+  };
+}
+
+export function useScheduleVersions(projectId: string | null) {
+  const { mutate: globalMutate } = useSWRConfig();
+  const { data, error, isLoading, mutate } = useSWR<ScheduleVersion[]>(
+    projectId ? `/api/projects/${projectId}/schedules` : null,
+    apiGet
+  );
+
+  const duplicateVersion = async (name: string, sourceId?: string) => {
+    if (!projectId) return;
+    const version = await apiPost<ScheduleVersion>(`/api/projects/${projectId}/schedules`, {
+      name,
+      sourceId,
+    });
+    await mutate();
+    return version;
+  };
+
+  const renameVersion = async (scheduleId: string, name: string) => {
+    if (!projectId) return;
+    await apiPatch(`/api/projects/${projectId}/schedules/${scheduleId}`, { name });
+    await mutate();
+    await globalMutate(isScheduleKey(projectId));
+  };
+
+  // The active version is the project's default schedule
+  const setActiveVersion = async (scheduleId: string) => {
+    if (!projectId) return;
+    await apiPatch(`/api/projects/${projectId}/schedules/${scheduleId}`, { isActive: true });
+    await mutate();
+    await globalMutate(isScheduleKey(projectId));
+    await globalMutate(`/api/projects/${projectId}`);
+  };
+
+  const deleteVersion = async (scheduleId: string) => {
+    if (!projectId) return;
+    await apiDelete(`/api/projects/${projectId}/schedules/${scheduleId}`);
+    await mutate();
+  };
+
+  const compareVersions = async (a: string, b: string) => {
+    if (!projectId) return;
+    return apiGet<ScheduleComparison>(
+      `/api/projects/${projectId}/schedules/compare?a=${a}&b=${b}`
+    );
+  };
+
+  return {
+    versions: data || [],
+    isLoading,
+    isError: !!error,
+    duplicateVersion,
+    renameVersion,
+    setActiveVersion,
+    deleteVersion,
+    compareVersions,
   };
 }
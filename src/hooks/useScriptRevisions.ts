@@ -0,0 +1,104 @@
+import useSWR, { useSWRConfig } from "swr";
+import { apiGet, apiPost, apiPatch, apiDelete } from "@/lib/api";
+import type { BreakdownSheet, ScriptFormat } from "./useProject";
+import type { RevisionColor, RevisionChangeType } from "@/lib/script-revisions";
+import type { ImportedField } from "@/lib/script-import";
+import { isScheduleKey } from "./useSchedule";
+
+export type RevisionChangeStatus = "PENDING" | "ACCEPTED" | "REJECTED";
+
+export interface ScriptRevision {
+  id: string;
+  projectId: string;
+  color: RevisionColor;
+  revisionDate: string;
+  notes: string | null;
+  createdAt: string;
+  changes: { type: RevisionChangeType; status: RevisionChangeStatus }[];
+}
+
+export interface ScriptRevisionChange {
+  id: string;
+  revisionId: string;
+  breakdownId: string | null;
+  type: RevisionChangeType;
+  status: RevisionChangeStatus;
+  sceneNumbers: string;
+  changedFields: ImportedField[];
+  intExt: BreakdownSheet["intExt"];
+  location: string | null;
+  dayNight: BreakdownSheet["dayNight"];
+  pageCount: string | null;
+  description: string | null;
+  characters: string[];
+  reviewedAt: string | null;
+  // The sheet as it currently stands
+  breakdown: (Pick<
+    BreakdownSheet,
+    "id" | "sceneNumbers" | "intExt" | "location" | "dayNight" | "pageCount" | "isOmitted"
+  > & {
+    cast: { character: { name: string } }[];
+  }) | null;
+}
+
+export interface ScriptRevisionDetail extends Omit<ScriptRevision, "changes"> {
+  changes: ScriptRevisionChange[];
+}
+
+export function useScriptRevisions(projectId: string | null, revisionId: string | null) {
+  const { mutate: globalMutate } = useSWRConfig();
+  const { data, error, isLoading, mutate } = useSWR<ScriptRevision[]>(
+    projectId ? `/api/projects/${projectId}/revisions` : null,
+    apiGet
+  );
+  const { data: revision, mutate: mutateRevision } = useSWR<ScriptRevisionDetail>(
+    projectId && revisionId ? `/api/projects/${projectId}/revisions/${revisionId}` : null,
+    apiGet
+  );
+
+  const createRevision = async (data: {
+    format: ScriptFormat;
+    content: string;
+    revisionDate?: string;
+    notes?: string;
+  }) => {
+    if (!projectId) return;
+    const result = await apiPost<ScriptRevision>(`/api/projects/${projectId}/revisions`, data);
+    await mutate();
+    // The project's script date follows the latest revision
+    await globalMutate(`/api/projects/${projectId}`);
+    return result;
+  };
+
+  // Accepting a change edits breakdown sheets, so refresh the project and schedule too
+  const reviewChange = async (changeId: string, status: "ACCEPTED" | "REJECTED") => {
+    if (!projectId || !revisionId) return;
+    await apiPatch(
+      `/api/projects/${projectId}/revisions/${revisionId}/changes/${changeId}`,
+      { status }
+    );
+    await Promise.all([mutateRevision(), mutate()]);
+    if (status === "ACCEPTED") {
+      await globalMutate(`/api/projects/${projectId}`);
+      await globalMutate(isScheduleKey(projectId));
+    }
+  };
+
+  const deleteRevision = async (revId: string) => {
+    if (!projectId) return;
+    await apiDelete(`/api/projects/${projectId}/revisions/${revId}`);
+    await mutate();
+  };
+
+  return {
+    revisions: data || [],
+    revision,
+    isLoading,
+    isError: !!error,
+    error,
+    mutate,
+    createRevision,
+    reviewChange,
+    deleteRevision,
+  };
+}
@@ -0,0 +1,88 @@
+import type { ElementCategory } from "@prisma/client";
+
+/**
+ * Free-text department fields on a breakdown sheet.
+ */
+export const DEPARTMENT_TEXT_FIELDS = [
+  "stunts",
+  "extras",
+  "wardrobe",
+  "props",
+  "setDressing",
+  "artDept",
+  "specialPersonnel",
+  "vehicles",
+  "camera",
+  "mechanicalFx",
+  "visualFx",
+  "specialEquip",
+  "animals",
+  "soundMusic",
+  "other",
+  "dqs",
+] as const;
+
+export type DepartmentTextField = (typeof DEPARTMENT_TEXT_FIELDS)[number];
+
+/**
+ * Legacy department fields that map onto an element library category.
+ * Stunts, extras and DQs have no category and stay as free text.
+ */
+export const LEGACY_ELEMENT_FIELDS: { field: DepartmentTextField; category: ElementCategory }[] = [
+  { field: "props", category: "PROPS" },
+  { field: "wardrobe", category: "WARDROBE" },
+  { field: "vehicles", category: "VEHICLES" },
+  { field: "animals", category: "ANIMALS" },
+  { field: "specialEquip", category: "SPECIAL_EQUIP" },
+  { field: "mechanicalFx", category: "MECHANICAL_FX" },
+  { field: "visualFx", category: "VISUAL_FX" },
+  { field: "setDressing", category: "SET_DRESSING" },
+  { field: "artDept", category: "ART_DEPT" },
+  { field: "specialPersonnel", category: "SPECIAL_PERSONNEL" },
+  { field: "camera", category: "CAMERA" },
+  { field: "soundMusic", category: "SOUND_MUSIC" },
+  { field: "other", category: "OTHER" },
+];
+
+/**
+ * Split a legacy department field into item names (one per comma or line).
+ */
+export function tokenizeLegacyText(text: string | null): string[] {
+  if (!text) return [];
+  return text.split(/[,\n]/).map((s) => s.trim()).filter(Boolean);
+}
+
+// Display label for each element category
+export const ELEMENT_CATEGORY_LABELS: Record<ElementCategory, string> = {
+  WARDROBE: "Wardrobe",
+  PROPS: "Props",
+  SET_DRESSING: "Set Dressing",
+  ART_DEPT: "Art Department",
+  SPECIAL_PERSONNEL: "Special Personnel",
+  VEHICLES: "Vehicles",
+  CAMERA: "Camera",
+  MECHANICAL_FX: "Mechanical FX",
+  VISUAL_FX: "Visual FX",
+  SPECIAL_EQUIP: "Special Equipment",
+  ANIMALS: "Animals",
+  SOUND_MUSIC: "Sound/Music",
+  OTHER: "Other",
+};
+
+// Highlighter color per department, following the usual script-breakdown
+// markup (props violet, vehicles pink, effects blue, sound brown...)
+export const ELEMENT_CATEGORY_COLORS: Record<ElementCategory, string> = {
+  WARDROBE: "#22d3ee",
+  PROPS: "#a855f7",
+  SET_DRESSING: "#84cc16",
+  ART_DEPT: "#14b8a6",
+  SPECIAL_PERSONNEL: "#facc15",
+  VEHICLES: "#ec4899",
+  CAMERA: "#94a3b8",
+  MECHANICAL_FX: "#3b82f6",
+  VISUAL_FX: "#6366f1",
+  SPECIAL_EQUIP: "#f97316",
+  ANIMALS: "#f9a8d4",
+  SOUND_MUSIC: "#a16207",
+  OTHER: "#a8a29e",
+};
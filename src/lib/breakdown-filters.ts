@@ -0,0 +1,173 @@
+/**
+ * Breakdown list filters, shared by the list endpoint, saved views and the
+ * filter bar. Filters travel as URL query parameters; several cast members or
+ * elements mean a sheet must have all of them.
+ */
+
+import type { DayNight, IntExt, Prisma } from "@prisma/client";
+import { DEPARTMENT_TEXT_FIELDS } from "./breakdown-fields";
+
+export interface BreakdownFilters {
+  castIds?: string[];
+  elementIds?: string[];
+  location?: string;
+  intExt?: IntExt;
+  dayNight?: DayNight;
+  storyDay?: number;
+  flashback?: boolean;
+  q?: string;
+}
+
+export type ParsedFilters =
+  | { ok: true; filters: BreakdownFilters }
+  | { ok: false; error: string };
+
+const INT_EXT_VALUES: IntExt[] = ["INT", "EXT"];
+const DAY_NIGHT_VALUES: DayNight[] = ["DAY", "NIGHT", "DUSK", "DAWN", "DAY_FOR_NIGHT"];
+
+/**
+ * Read filters from query parameters (cast, element, location, intExt,
+ * dayNight, storyDay, flashback, q). Blank parameters are ignored.
+ */
+export function parseBreakdownFilters(params: URLSearchParams): ParsedFilters {
+  const filters: BreakdownFilters = {};
+
+  const castIds = params.getAll("cast").filter(Boolean);
+  if (castIds.length > 0) filters.castIds = [...new Set(castIds)];
+
+  const elementIds = params.getAll("element").filter(Boolean);
+  if (elementIds.length > 0) filters.elementIds = [...new Set(elementIds)];
+
+  const location = params.get("location")?.trim();
+  if (location) filters.location = location;
+
+  const intExt = params.get("intExt");
+  if (intExt) {
+    if (!INT_EXT_VALUES.includes(intExt as IntExt)) {
+      return { ok: false, error: "intExt must be INT or EXT" };
+    }
+    filters.intExt = intExt as IntExt;
+  }
+
+  const dayNight = params.get("dayNight");
+  if (dayNight) {
+    if (!DAY_NIGHT_VALUES.includes(dayNight as DayNight)) {
+      return { ok: false, error: `dayNight must be one of ${DAY_NIGHT_VALUES.join(", ")}` };
+    }
+    filters.dayNight = dayNight as DayNight;
+  }
+
+  const storyDay = params.get("storyDay");
+  if (storyDay) {
+    const day = Number(storyDay);
+    if (!Number.isInteger(day) || day < 1) {
+      return { ok: false, error: "storyDay must be a whole number of 1 or more" };
+    }
+    filters.storyDay = day;
+  }
+
+  const flashback = params.get("flashback");
+  if (flashback) {
+    if (flashback !== "true" && flashback !== "false") {
+      return { ok: false, error: "flashback must be true or false" };
+    }
+    filters.flashback = flashback === "true";
+  }
+
+  const q = params.get("q")?.trim();
+  if (q) filters.q = q;
+
+  return { ok: true, filters };
+}
+
+/**
+ * Query parameters for a set of filters; the inverse of parseBreakdownFilters.
+ */
+export function breakdownFilterParams(filters: BreakdownFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  filters.castIds?.forEach((id) => params.append("cast", id));
+  filters.elementIds?.forEach((id) => params.append("element", id));
+  if (filters.location) params.set("location", filters.location);
+  if (filters.intExt) params.set("intExt", filters.intExt);
+  if (filters.dayNight) params.set("dayNight", filters.dayNight);
+  if (filters.storyDay !== undefined) params.set("storyDay", String(filters.storyDay));
+  if (filters.flashback !== undefined) params.set("flashback", String(filters.flashback));
+  if (filters.q) params.set("q", filters.q);
+  return params;
+}
+
+export function hasBreakdownFilters(filters: BreakdownFilters): boolean {
+  return breakdownFilterParams(filters).toString() !== "";
+}
+
+/**
+ * Prisma conditions for the filters. Free text matches the scene number,
+ * description, department text and the names of linked elements.
+ */
+export function breakdownFilterWhere(
+  projectId: string,
+  filters: BreakdownFilters
+): Prisma.BreakdownSheetWhereInput {
+  const and: Prisma.BreakdownSheetWhereInput[] = [];
+
+  filters.castIds?.forEach((characterId) => {
+    and.push({ cast: { some: { characterId } } });
+  });
+  filters.elementIds?.forEach((elementId) => {
+    and.push({ elements: { some: { elementId } } });
+  });
+
+  if (filters.q) {
+    const contains = { contains: filters.q, mode: "insensitive" as const };
+    and.push({
+      OR: [
+        { sceneNumbers: contains },
+        { description: contains },
+        ...DEPARTMENT_TEXT_FIELDS.map((field) => ({ [field]: contains })),
+        { elements: { some: { element: { name: contains } } } },
+      ],
+    });
+  }
+
+  return {
+    projectId,
+    ...(filters.location && {
+      location: { contains: filters.location, mode: "insensitive" as const },
+    }),
+    ...(filters.intExt && { intExt: filters.intExt }),
+    ...(filters.dayNight && { dayNight: filters.dayNight }),
+    ...(filters.storyDay !== undefined && { storyDay: filters.storyDay }),
+    ...(filters.flashback !== undefined && { isFlashback: filters.flashback }),
+    ...(and.length > 0 && { AND: and }),
+  };
+}
+
+/**
+ * Saved views store filters as JSON; keep only the known keys.
+ */
+export function normalizeStoredFilters(value: unknown): ParsedFilters {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, error: "filters must be an object" };
+  }
+  const stored = value as Record<string, unknown>;
+  const params = new URLSearchParams();
+
+  for (const [key, param] of [["castIds", "cast"], ["elementIds", "element"]] as const) {
+    const ids = stored[key];
+    if (ids === undefined) continue;
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string")) {
+      return { ok: false, error: `${key} must be an array of IDs` };
+    }
+    ids.forEach((id) => params.append(param, id));
+  }
+  for (const key of ["location", "intExt", "dayNight", "storyDay", "flashback", "q"]) {
+    const field = stored[key];
+    if (field === undefined || field === null) continue;
+    if (!["string", "number", "boolean"].includes(typeof field)) {
+      return { ok: false, error: `${key} must be a single value` };
+    }
+    params.set(key, String(field));
+  }
+
+  return parseBreakdownFilters(params);
+}
@@ -0,0 +1,138 @@
+/**
+ * The call sheet as a PDF, laid out like a printed call sheet: the header
+ * with the day and crew call, then the scenes, cast calls, locations,
+ * department notes and the advance schedule.
+ */
+
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { formatCallSheetDate, type CallSheetData, type CallSheetScene } from "./call-sheet";
+
+type TableDoc = jsPDF & { lastAutoTable: { finalY: number } };
+
+const HEAD_STYLES = { fillColor: [80, 80, 80] as [number, number, number], fontSize: 8 };
+
+function sceneRows(scenes: CallSheetScene[]) {
+  return scenes.map((scene) => [
+    scene.sceneNumbers,
+    scene.intExt || "",
+    [scene.location, scene.description].filter(Boolean).join(" — "),
+    scene.dayNight || "",
+    scene.castNumbers.join(", "),
+    scene.pages,
+  ]);
+}
+
+const SCENE_HEAD = [["Sc", "I/E", "Set / Description", "D/N", "Cast", "Pages"]];
+
+export function callSheetPDF(sheet: CallSheetData): jsPDF {
+  const doc = new jsPDF() as TableDoc;
+  const nextY = (gap = 8) => doc.lastAutoTable.finalY + gap;
+  const section = (title: string, y: number) => {
+    doc.setFontSize(11);
+    doc.setFont("helvetica", "bold");
+    doc.text(title, 14, y);
+    doc.setFont("helvetica", "normal");
+    return y + 2;
+  };
+
+  // Header
+  doc.setFontSize(18);
+  doc.text(sheet.title, 105, 18, { align: "center" });
+  doc.setFontSize(12);
+  doc.text("CALL SHEET", 105, 26, { align: "center" });
+
+  doc.setFontSize(9);
+  doc.text(`Director: ${sheet.director || "—"}`, 14, 36);
+  doc.text(`Producer: ${sheet.producer || "—"}`, 14, 41);
+  doc.text(`1st AD: ${sheet.ad || "—"}`, 14, 46);
+
+  doc.text(`Day ${sheet.dayNumber} of ${sheet.totalDays}`, 196, 36, { align: "right" });
+  doc.text(sheet.shootDate ? formatCallSheetDate(sheet.shootDate) : "Date not set", 196, 41, { align: "right" });
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "bold");
+  doc.text(`Crew Call: ${sheet.crewCall || "TBA"}`, 196, 48, { align: "right" });
+  doc.setFont("helvetica", "normal");
+
+  // Scenes
+  autoTable(doc, {
+    startY: section("Scenes", 58),
+    head: SCENE_HEAD,
+    body: [...sceneRows(sheet.scenes), ["", "", "", "", "Total", sheet.pages]],
+    theme: "grid",
+    headStyles: HEAD_STYLES,
+    bodyStyles: { fontSize: 8 },
+    columnStyles: { 0: { cellWidth: 14 }, 1: { cellWidth: 12 }, 3: { cellWidth: 14 }, 4: { cellWidth: 24 }, 5: { cellWidth: 14 } },
+  });
+
+  // Cast
+  autoTable(doc, {
+    startY: section("Cast", nextY()),
+    head: [["#", "Character", "Actor", "Status", "Pickup", "Makeup", "On Set", "Remarks"]],
+    body: sheet.cast.map((c) => [
+      String(c.number),
+      c.name,
+      c.actor || "",
+      c.status,
+      c.pickup || "",
+      c.makeup || "",
+      c.onSet || "",
+      c.remarks || "",
+    ]),
+    theme: "grid",
+    headStyles: HEAD_STYLES,
+    bodyStyles: { fontSize: 8 },
+    columnStyles: { 0: { cellWidth: 8 }, 3: { cellWidth: 12 } },
+  });
+
+  // Locations
+  if (sheet.locations.length > 0) {
+    autoTable(doc, {
+      startY: section("Locations", nextY()),
+      head: [["Location", "Address"]],
+      body: sheet.locations.map((l) => [l.name, l.address || ""]),
+      theme: "grid",
+      headStyles: HEAD_STYLES,
+      bodyStyles: { fontSize: 8 },
+      columnStyles: { 0: { cellWidth: 60 } },
+    });
+  }
+
+  // Department notes
+  if (sheet.departments.length > 0) {
+    autoTable(doc, {
+      startY: section("Department Notes", nextY()),
+      head: [["Department", "Needs", "Notes"]],
+      body: sheet.departments.map((d) => [d.label, d.elements.join(", "), d.note || ""]),
+      theme: "grid",
+      headStyles: HEAD_STYLES,
+      bodyStyles: { fontSize: 8 },
+      columnStyles: { 0: { cellWidth: 32 } },
+    });
+  }
+
+  let y = nextY();
+  if (sheet.notes) {
+    y = section("Notes", y + 2);
+    doc.setFontSize(9);
+    const lines = doc.splitTextToSize(sheet.notes, 182);
+    doc.text(lines, 14, y + 4);
+    y += 8 + lines.length * 4;
+  }
+
+  // Advance schedule
+  if (sheet.advance) {
+    const date = sheet.advance.shootDate ? ` — ${formatCallSheetDate(sheet.advance.shootDate)}` : "";
+    autoTable(doc, {
+      startY: section(`Advance Schedule: Day ${sheet.advance.dayNumber}${date}`, y),
+      head: SCENE_HEAD,
+      body: [...sceneRows(sheet.advance.scenes), ["", "", "", "", "Total", sheet.advance.pages]],
+      theme: "grid",
+      headStyles: HEAD_STYLES,
+      bodyStyles: { fontSize: 8 },
+      columnStyles: { 0: { cellWidth: 14 }, 1: { cellWidth: 12 }, 3: { cellWidth: 14 }, 4: { cellWidth: 24 }, 5: { cellWidth: 14 } },
+    });
+  }
+
+  return doc;
+}
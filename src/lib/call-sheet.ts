@@ -0,0 +1,321 @@
+/**
+ * Call sheets for shoot days. The sheet is built from the board: the day's
+ * scenes and pages, the cast in them with their Day Out of Days status, their
+ * locations, and the elements each department needs, with the next day as
+ * the advance schedule. The AD adds call times, addresses and notes, which
+ * are stored per day; publishing keeps the built sheet as it was.
+ */
+
+import type { ElementCategory } from "@prisma/client";
+import { ELEMENT_CATEGORY_LABELS } from "./breakdown-fields";
+import { buildCastDood, type DoodOverrideCode } from "./day-out-of-days";
+import { formatPageCount, sheetEighths } from "./page-count";
+
+export interface CastCall {
+  pickup: string | null;
+  makeup: string | null;
+  onSet: string | null;
+  remarks: string | null;
+}
+
+export interface CallSheetEdits {
+  crewCall: string | null;
+  castCalls: Record<string, CastCall>; // By character ID
+  locationAddresses: Record<string, string>; // By location name
+  departmentNotes: Partial<Record<ElementCategory, string>>;
+  notes: string | null;
+}
+
+export interface CallSheetScene {
+  sceneNumbers: string;
+  intExt: string | null;
+  dayNight: string | null;
+  location: string | null;
+  description: string | null;
+  pages: string;
+  castNumbers: number[];
+}
+
+export interface CallSheetCast extends CastCall {
+  characterId: string;
+  number: number;
+  name: string;
+  actor: string | null;
+  status: string; // SW, W, WF, SWF, PW or WD from the Day Out of Days
+}
+
+export interface CallSheetDepartment {
+  category: ElementCategory;
+  label: string;
+  elements: string[];
+  note: string | null;
+}
+
+export interface CallSheetDay {
+  dayNumber: number;
+  shootDate: string | null; // YYYY-MM-DD
+  scenes: CallSheetScene[];
+  pages: string;
+}
+
+export interface CallSheetData extends CallSheetDay {
+  title: string;
+  director: string | null;
+  producer: string | null;
+  ad: string | null;
+  totalDays: number;
+  crewCall: string | null;
+  cast: CallSheetCast[];
+  locations: { name: string; address: string | null }[];
+  departments: CallSheetDepartment[];
+  notes: string | null;
+  advance: CallSheetDay | null; // The next shoot day
+}
+
+export const EMPTY_CAST_CALL: CastCall = { pickup: null, makeup: null, onSet: null, remarks: null };
+
+interface CallSheetStrip {
+  position: number;
+  breakdown: {
+    sceneNumbers: string;
+    intExt: string | null;
+    dayNight: string | null;
+    location: string | null;
+    description: string | null;
+    pageCount: string | null;
+    pageEighths?: number | null;
+    isOmitted?: boolean;
+    cast: { characterId: string }[];
+    elements: { element: { id: string; name: string; category: ElementCategory } }[];
+  };
+}
+
+interface CallSheetSchedule {
+  stripSlots: CallSheetStrip[];
+  totals: { days: { dayNumber: number; endPosition: number; pages: string; shootDate: string | null }[] };
+  banners: { label: string; bannerType: string; date: Date | string | null }[];
+  holidays: { date: Date | string; name: string }[];
+  workDays: number[];
+}
+
+interface CallSheetProject {
+  title: string;
+  director: string | null;
+  producer: string | null;
+  ad: string | null;
+  dropPickupDays: number;
+  characters: { id: string; number: number; name: string; actor: string | null; dropPickupDays: number | null }[];
+}
+
+function dayStrips(schedule: CallSheetSchedule, dayNumber: number): CallSheetStrip[] {
+  const index = schedule.totals.days.findIndex((day) => day.dayNumber === dayNumber);
+  if (index === -1) return [];
+  const after = index > 0 ? schedule.totals.days[index - 1].endPosition : 0;
+  const end = schedule.totals.days[index].endPosition;
+  return schedule.stripSlots
+    .filter((strip) => strip.position > after && strip.position <= end && !strip.breakdown.isOmitted)
+    .sort((a, b) => a.position - b.position);
+}
+
+function buildDay(
+  schedule: CallSheetSchedule,
+  project: CallSheetProject,
+  dayNumber: number
+): CallSheetDay | null {
+  const day = schedule.totals.days.find((d) => d.dayNumber === dayNumber);
+  if (!day) return null;
+  const numberOf = new Map(project.characters.map((c) => [c.id, c.number]));
+
+  return {
+    dayNumber,
+    shootDate: day.shootDate,
+    pages: day.pages,
+    scenes: dayStrips(schedule, dayNumber).map(({ breakdown }) => ({
+      sceneNumbers: breakdown.sceneNumbers,
+      intExt: breakdown.intExt,
+      dayNight: breakdown.dayNight,
+      location: breakdown.location,
+      description: breakdown.description,
+      pages: formatPageCount(sheetEighths(breakdown)),
+      castNumbers: breakdown.cast
+        .map((c) => numberOf.get(c.characterId))
+        .filter((n): n is number => n !== undefined)
+        .sort((a, b) => a - b),
+    })),
+  };
+}
+
+/**
+ * Build the call sheet for a shoot day, or null if the schedule has no such
+ * day.
+ */
+export function buildCallSheet(
+  project: CallSheetProject,
+  schedule: CallSheetSchedule,
+  overrides: { characterId: string; date: Date | string; code: DoodOverrideCode }[],
+  dayNumber: number,
+  edits: CallSheetEdits
+): CallSheetData | null {
+  const day = buildDay(schedule, project, dayNumber);
+  if (!day) return null;
+  const strips = dayStrips(schedule, dayNumber);
+
+  // Each performer's status that day comes from the Day Out of Days
+  const dood = buildCastDood(project, schedule, overrides);
+  const column = dood.columns.findIndex((c) => c.dayNumber === dayNumber);
+  const working = new Set(strips.flatMap((strip) => strip.breakdown.cast.map((c) => c.characterId)));
+  const cast = project.characters
+    .map((character, index) => ({ character, row: dood.rows[index] }))
+    .filter(({ character }) => working.has(character.id))
+    .map(({ character, row }) => ({
+      characterId: character.id,
+      number: character.number,
+      name: character.name,
+      actor: character.actor,
+      status: row.cells[column]?.code ?? "W",
+      ...EMPTY_CAST_CALL,
+      ...edits.castCalls[character.id],
+    }));
+
+  const locationNames = [
+    ...new Set(strips.map((strip) => strip.breakdown.location?.trim()).filter((l): l is string => !!l)),
+  ];
+
+  const elementsBy = new Map<ElementCategory, Set<string>>();
+  for (const strip of strips) {
+    for (const { element } of strip.breakdown.elements) {
+      elementsBy.set(element.category, (elementsBy.get(element.category) ?? new Set()).add(element.name));
+    }
+  }
+  const departments = (Object.keys(ELEMENT_CATEGORY_LABELS) as ElementCategory[])
+    .filter((category) => elementsBy.has(category) || edits.departmentNotes[category])
+    .map((category) => ({
+      category,
+      label: ELEMENT_CATEGORY_LABELS[category],
+      elements: [...(elementsBy.get(category) ?? [])].sort((a, b) => a.localeCompare(b)),
+      note: edits.departmentNotes[category] || null,
+    }));
+
+  return {
+    ...day,
+    title: project.title,
+    director: project.director,
+    producer: project.producer,
+    ad: project.ad,
+    totalDays: schedule.totals.days.length,
+    crewCall: edits.crewCall,
+    cast,
+    locations: locationNames.map((name) => ({ name, address: edits.locationAddresses[name] || null })),
+    departments,
+    notes: edits.notes,
+    advance: buildDay(schedule, project, dayNumber + 1),
+  };
+}
+
+/**
+ * "Monday, November 2, 2026" for a YYYY-MM-DD shoot date.
+ */
+export function formatCallSheetDate(date: string): string {
+  return new Date(`${date}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * The stored edits of a call sheet record, with the defaults for fields it
+ * hasn't set. Addresses the project has given a location on other days fill
+ * in ones this sheet hasn't.
+ */
+export function callSheetEdits(
+  record: {
+    crewCall: string | null;
+    castCalls: unknown;
+    locationAddresses: unknown;
+    departmentNotes: unknown;
+    notes: string | null;
+  } | null,
+  knownAddresses: Record<string, string> = {}
+): CallSheetEdits {
+  return {
+    crewCall: record?.crewCall ?? null,
+    castCalls: (record?.castCalls as Record<string, CastCall> | null) ?? {},
+    locationAddresses: {
+      ...knownAddresses,
+      ...((record?.locationAddresses as Record<string, string> | null) ?? {}),
+    },
+    departmentNotes: (record?.departmentNotes as CallSheetEdits["departmentNotes"] | null) ?? {},
+    notes: record?.notes ?? null,
+  };
+}
+
+function optionalText(value: unknown): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  return typeof value === "string" ? value.trim() || null : undefined;
+}
+
+function isTextRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Check call sheet edits from a request body. Only the fields given are
+ * returned; each replaces the stored value.
+ */
+export function parseCallSheetEdits(
+  value: unknown
+): { ok: true; edits: Partial<CallSheetEdits> } | { ok: false; error: string } {
+  const body = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const edits: Partial<CallSheetEdits> = {};
+
+  for (const field of ["crewCall", "notes"] as const) {
+    const text = optionalText(body[field]);
+    if (body[field] !== undefined && text === undefined) {
+      return { ok: false, error: `${field} must be text or null` };
+    }
+    if (text !== undefined) edits[field] = text;
+  }
+
+  if (body.castCalls !== undefined) {
+    if (!isTextRecord(body.castCalls)) {
+      return { ok: false, error: "castCalls must map character IDs to call times" };
+    }
+    const castCalls: Record<string, CastCall> = {};
+    for (const [characterId, entry] of Object.entries(body.castCalls)) {
+      const call = (isTextRecord(entry) ? entry : {}) as Record<string, unknown>;
+      const parsed = {
+        pickup: optionalText(call.pickup) ?? null,
+        makeup: optionalText(call.makeup) ?? null,
+        onSet: optionalText(call.onSet) ?? null,
+        remarks: optionalText(call.remarks) ?? null,
+      };
+      if (Object.values(parsed).some((text) => text !== null)) castCalls[characterId] = parsed;
+    }
+    edits.castCalls = castCalls;
+  }
+
+  for (const field of ["locationAddresses", "departmentNotes"] as const) {
+    if (body[field] === undefined) continue;
+    const entries = body[field];
+    if (!isTextRecord(entries) || Object.values(entries).some((text) => typeof text !== "string")) {
+      return { ok: false, error: `${field} must map names to text` };
+    }
+    if (
+      field === "departmentNotes" &&
+      Object.keys(entries).some((category) => !Object.hasOwn(ELEMENT_CATEGORY_LABELS, category))
+    ) {
+      return { ok: false, error: "departmentNotes must be keyed by element category" };
+    }
+    edits[field] = Object.fromEntries(
+      Object.entries(entries as Record<string, string>)
+        .map(([name, text]) => [name, text.trim()])
+        .filter(([, text]) => text)
+    );
+  }
+
+  return { ok: true, edits };
+}
@@ -0,0 +1,351 @@
+/**
+ * Day Out of Days: what each performer does on each day of the schedule.
+ * Columns follow the working calendar, so weekends, holidays and dated
+ * banners appear on their own dates. Between two work days a performer is
+ * held, unless the gap reaches the drop/pickup threshold; then they are
+ * dropped after the first and picked up on the second, and the days between
+ * are idle. Travel, rehearsal and fitting days are marked by hand. The same
+ * coding gives rental periods for elements such as vehicles and animals.
+ */
+
+export type DoodOverrideCode = "TRAVEL" | "REHEARSAL" | "FITTING";
+
+export const DOOD_OVERRIDE_CODES: Record<DoodOverrideCode, { code: string; label: string }> = {
+  TRAVEL: { code: "T", label: "Travel" },
+  REHEARSAL: { code: "R", label: "Rehearsal" },
+  FITTING: { code: "F", label: "Fitting" },
+};
+
+export const DOOD_LEGEND =
+  "SW = Start/Work   W = Work   WF = Work/Finish   WD = Work/Drop   PW = Pickup/Work   " +
+  "H = Hold   Hol = Holiday   T = Travel   R = Rehearsal   F = Fitting";
+
+export const DEFAULT_DROP_PICKUP_DAYS = 10;
+
+// Travel and fittings are often days ahead of the first shoot day
+const OVERRIDE_REACH_DAYS = 14;
+
+export type DoodColumnKind = "shoot" | "travel" | "prerig" | "holiday" | "off" | "open";
+
+export interface DoodColumn {
+  date: string | null; // YYYY-MM-DD, null when the schedule has no start date
+  dayNumber: number | null; // For shoot days
+  kind: DoodColumnKind;
+  label: string | null; // Holiday or banner name
+}
+
+export type DoodCellKind = "work" | "hold" | "holiday" | "travel" | "rehearsal" | "fitting" | "idle";
+
+export interface DoodCell {
+  code: string; // SW, W, WD, PW, WF, SWF, H, Hol, T, R, F, or "" for none
+  kind: DoodCellKind | null;
+}
+
+export interface DoodTotals {
+  work: number;
+  hold: number;
+  holiday: number;
+  travel: number;
+  rehearsal: number;
+  fitting: number;
+  idle: number;
+  total: number; // Days on the payroll: work, hold, holiday, travel and rehearsal
+  start: number | null; // Column index of the first work day
+  finish: number | null; // ...and of the last
+}
+
+export interface DoodRow {
+  id: string;
+  cells: DoodCell[];
+  totals: DoodTotals;
+}
+
+export interface DoodElement {
+  id: string;
+  dayNumbers: number[]; // Shoot days worked
+  dropPickupDays: number; // 0 to always hold
+  overrides?: Record<string, DoodOverrideCode>; // By date
+}
+
+interface DoodSchedule {
+  stripSlots: { position: number }[];
+  totals: { days: { dayNumber: number; endPosition: number; shootDate: string | null }[] };
+  banners: { label: string; bannerType: string; date: Date | string | null }[];
+  holidays: { date: Date | string; name: string }[];
+  workDays: number[];
+}
+
+const BANNER_COLUMN_KINDS: Record<string, DoodColumnKind> = {
+  TRAVEL: "travel",
+  PRERIG: "prerig",
+  HOLIDAY: "holiday",
+};
+
+function toDateKey(date: Date | string): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+function addUtcDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * One column per calendar day from the first dated day to the last, or one
+ * per shoot day when the schedule has no start date. Override dates a little
+ * before or after the schedule widen the range to include them.
+ */
+export function doodColumns(schedule: DoodSchedule, overrideDates: string[] = []): DoodColumn[] {
+  const dayByDate = new Map<string, number>();
+  for (const day of schedule.totals.days) {
+    if (day.shootDate) dayByDate.set(day.shootDate, day.dayNumber);
+  }
+  const bannerByDate = new Map<string, DoodSchedule["banners"][number]>();
+  for (const banner of schedule.banners) {
+    if (banner.date) bannerByDate.set(toDateKey(banner.date), banner);
+  }
+
+  const scheduled = [...dayByDate.keys(), ...bannerByDate.keys()].sort();
+  if (scheduled.length === 0) {
+    return schedule.totals.days.map((day) => ({
+      date: null,
+      dayNumber: day.dayNumber,
+      kind: "shoot",
+      label: null,
+    }));
+  }
+
+  let first = scheduled[0];
+  let last = scheduled[scheduled.length - 1];
+  for (const date of overrideDates) {
+    if (date < first && date >= addUtcDays(first, -OVERRIDE_REACH_DAYS)) first = date;
+    if (date > last && date <= addUtcDays(last, OVERRIDE_REACH_DAYS)) last = date;
+  }
+
+  const holidayByDate = new Map(schedule.holidays.map((h) => [toDateKey(h.date), h.name]));
+  const columns: DoodColumn[] = [];
+  for (let date = first; date <= last; date = addUtcDays(date, 1)) {
+    const dayNumber = dayByDate.get(date);
+    const banner = bannerByDate.get(date);
+    const holiday = holidayByDate.get(date);
+    const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+
+    if (dayNumber !== undefined) {
+      columns.push({ date, dayNumber, kind: "shoot", label: null });
+    } else if (banner) {
+      columns.push({ date, dayNumber: null, kind: BANNER_COLUMN_KINDS[banner.bannerType], label: banner.label });
+    } else if (holiday !== undefined) {
+      columns.push({ date, dayNumber: null, kind: "holiday", label: holiday });
+    } else {
+      columns.push({ date, dayNumber: null, kind: schedule.workDays.includes(weekday) ? "open" : "off", label: null });
+    }
+  }
+  return columns;
+}
+
+/**
+ * The shoot days each key works, from the keys of each strip on the board
+ * (character IDs for cast, element IDs for elements). Omitted scenes aren't
+ * shot, so their strips don't count.
+ */
+export function workedDays<T extends { position: number; breakdown: { isOmitted?: boolean } }>(
+  schedule: { stripSlots: T[]; totals: DoodSchedule["totals"] },
+  keysOf: (strip: T) => string[]
+): Map<string, number[]> {
+  const worked = new Map<string, number[]>();
+  for (const strip of schedule.stripSlots) {
+    if (strip.breakdown.isOmitted) continue;
+    const day = schedule.totals.days.find((d) => d.endPosition >= strip.position);
+    if (!day) continue;
+    for (const key of keysOf(strip)) {
+      const days = worked.get(key) ?? [];
+      if (!days.includes(day.dayNumber)) days.push(day.dayNumber);
+      worked.set(key, days);
+    }
+  }
+  return worked;
+}
+
+/**
+ * Code every column for one performer or element.
+ */
+export function buildDoodRow(columns: DoodColumn[], element: DoodElement): DoodRow {
+  const cells: DoodCell[] = columns.map(() => ({ code: "", kind: null }));
+  const work = columns
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) => column.kind === "shoot" && element.dayNumbers.includes(column.dayNumber!))
+    .map(({ index }) => index);
+
+  // Gaps long enough to drop and pick up, by the index in work they follow
+  const dropped = work.map(
+    (index, i) => i < work.length - 1 && element.dropPickupDays > 0 && work[i + 1] - index - 1 >= element.dropPickupDays
+  );
+
+  work.forEach((index, i) => {
+    const start = i === 0 ? "S" : dropped[i - 1] ? "P" : "";
+    const end = i === work.length - 1 ? "F" : dropped[i] ? "D" : "";
+    cells[index] = { code: `${start}W${end}`, kind: "work" };
+
+    if (i === work.length - 1) return;
+    for (let between = index + 1; between < work[i + 1]; between++) {
+      const kind = columns[between].kind;
+      if (dropped[i]) {
+        cells[between] = { code: "", kind: "idle" };
+      } else if (kind === "holiday") {
+        cells[between] = { code: "Hol", kind: "holiday" };
+      } else if (kind !== "off") {
+        cells[between] = { code: "H", kind: "hold" };
+      }
+    }
+  });
+
+  columns.forEach((column, index) => {
+    const override = column.date ? element.overrides?.[column.date] : undefined;
+    if (override && cells[index].kind !== "work") {
+      cells[index] = {
+        code: DOOD_OVERRIDE_CODES[override].code,
+        kind: override === "TRAVEL" ? "travel" : override === "REHEARSAL" ? "rehearsal" : "fitting",
+      };
+    }
+  });
+
+  const count = (kind: DoodCellKind) => cells.filter((cell) => cell.kind === kind).length;
+  return {
+    id: element.id,
+    cells,
+    totals: {
+      work: count("work"),
+      hold: count("hold"),
+      holiday: count("holiday"),
+      travel: count("travel"),
+      rehearsal: count("rehearsal"),
+      fitting: count("fitting"),
+      idle: count("idle"),
+      total: count("work") + count("hold") + count("holiday") + count("travel") + count("rehearsal"),
+      start: work.length > 0 ? work[0] : null,
+      finish: work.length > 0 ? work[work.length - 1] : null,
+    },
+  };
+}
+
+/**
+ * The cast's Day Out of Days, one row per character in cast order.
+ */
+export function buildCastDood(
+  project: {
+    dropPickupDays: number;
+    characters: { id: string; dropPickupDays: number | null }[];
+  },
+  schedule: DoodSchedule & { stripSlots: { position: number; breakdown: { isOmitted?: boolean; cast: { characterId: string }[] } }[] },
+  overrides: { characterId: string; date: Date | string; code: DoodOverrideCode }[]
+): { columns: DoodColumn[]; rows: DoodRow[] } {
+  const columns = doodColumns(
+    schedule,
+    overrides.map((o) => toDateKey(o.date))
+  );
+  const worked = workedDays(schedule, (strip) => strip.breakdown.cast.map((c) => c.characterId));
+
+  const rows = project.characters.map((character) =>
+    buildDoodRow(columns, {
+      id: character.id,
+      dayNumbers: worked.get(character.id) ?? [],
+      dropPickupDays: character.dropPickupDays ?? project.dropPickupDays,
+      overrides: Object.fromEntries(
+        overrides.filter((o) => o.characterId === character.id).map((o) => [toDateKey(o.date), o.code])
+      ),
+    })
+  );
+  return { columns, rows };
+}
+
+export interface DoodProductionElement {
+  id: string;
+  name: string;
+  category: string;
+}
+
+interface ElementStrip {
+  position: number;
+  breakdown: { isOmitted?: boolean; elements: { element: DoodProductionElement }[] };
+}
+
+/**
+ * The Day Out of Days for one category of production elements, one row per
+ * element the board uses, by name. Elements are dropped and picked up on the
+ * project's threshold, like cast.
+ */
+export function buildElementDood(
+  project: { dropPickupDays: number },
+  schedule: DoodSchedule & { stripSlots: ElementStrip[] },
+  category: string
+): { columns: DoodColumn[]; elements: DoodProductionElement[]; rows: DoodRow[] } {
+  const columns = doodColumns(schedule);
+  const inCategory = (strip: ElementStrip) =>
+    strip.breakdown.elements.map((e) => e.element).filter((element) => element.category === category);
+
+  const byId = new Map<string, DoodProductionElement>();
+  for (const strip of schedule.stripSlots) {
+    if (strip.breakdown.isOmitted) continue;
+    for (const element of inCategory(strip)) byId.set(element.id, element);
+  }
+  const elements = [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+  const worked = workedDays(schedule, (strip) => inCategory(strip).map((element) => element.id));
+
+  const rows = elements.map((element) =>
+    buildDoodRow(columns, {
+      id: element.id,
+      dayNumbers: worked.get(element.id) ?? [],
+      dropPickupDays: project.dropPickupDays,
+    })
+  );
+  return { columns, elements, rows };
+}
+
+const COLUMN_TITLES: Record<DoodColumnKind, string> = {
+  shoot: "",
+  travel: "Trvl",
+  prerig: "Prep",
+  holiday: "Hol",
+  off: "Off",
+  open: "",
+};
+
+/**
+ * A column's heading: the shoot day number or what the day is, then the
+ * weekday and date when the schedule is dated.
+ */
+export function doodColumnHeading(column: DoodColumn): { title: string; weekday: string; date: string } {
+  const title = column.dayNumber !== null ? String(column.dayNumber) : COLUMN_TITLES[column.kind];
+  if (!column.date) return { title, weekday: "", date: "" };
+  const date = new Date(`${column.date}T00:00:00.000Z`);
+  return {
+    title,
+    weekday: date.toLocaleDateString("en-US", { weekday: "short", timeZone: "UTC" }),
+    date: `${date.getUTCMonth() + 1}/${date.getUTCDate()}`,
+  };
+}
+
+/**
+ * "Day 3", or "Mon 3/14" when dated, for a start or finish total.
+ */
+export function describeDoodColumn(column: DoodColumn): string {
+  if (!column.date) return `Day ${column.dayNumber}`;
+  const { weekday, date } = doodColumnHeading(column);
+  return `${weekday} ${date}`;
+}
+
+/**
+ * Check a drop/pickup threshold from a request body: a whole number of days
+ * from 0 (never drop) to 365, or null where the project's applies.
+ */
+export function parseDropPickupDays(
+  value: unknown,
+  { nullable }: { nullable: boolean }
+): { ok: true; days: number | null } | { ok: false; error: string } {
+  if (value === null && nullable) return { ok: true, days: null };
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 365) {
+    return { ok: false, error: "dropPickupDays must be a whole number of days from 0 to 365" };
+  }
+  return { ok: true, days: value };
+}
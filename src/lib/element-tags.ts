@@ -0,0 +1,52 @@
+/**
+ * Element tags are character ranges in a sheet's script text. When the text
+ * is edited, each tag is found again by its words so the highlighting survives.
+ */
+
+export interface TagRange {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Check a selection against the script text and return the tagged words.
+ * Returns null for empty or out-of-range selections.
+ */
+export function tagText(scriptText: string, start: number, end: number): string | null {
+  if (!Number.isInteger(start) || !Number.isInteger(end)) return null;
+  if (start < 0 || end > scriptText.length || end <= start) return null;
+  const text = scriptText.slice(start, end);
+  return text.trim().length > 0 ? text : null;
+}
+
+/**
+ * Move tags onto new script text. A tag whose words are still at its offsets
+ * stays; otherwise it moves to the nearest occurrence of its words, and if
+ * they're gone it's removed.
+ */
+export function relocateTags(
+  scriptText: string,
+  tags: TagRange[]
+): { moved: { id: string; start: number; end: number }[]; removed: string[] } {
+  const moved: { id: string; start: number; end: number }[] = [];
+  const removed: string[] = [];
+
+  for (const tag of tags) {
+    if (scriptText.slice(tag.start, tag.end) === tag.text) continue;
+
+    let best = -1;
+    for (let at = scriptText.indexOf(tag.text); at >= 0; at = scriptText.indexOf(tag.text, at + 1)) {
+      if (best < 0 || Math.abs(at - tag.start) < Math.abs(best - tag.start)) best = at;
+    }
+
+    if (best < 0) {
+      removed.push(tag.id);
+    } else {
+      moved.push({ id: tag.id, start: best, end: best + tag.text.length });
+    }
+  }
+
+  return { moved, removed };
+}
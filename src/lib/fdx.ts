@@ -0,0 +1,185 @@
+/**
+ * Parser for Final Draft (.fdx) screenplays.
+ * FDX is XML: the script body is a flat list of <Paragraph Type="..."> elements
+ * under <Content>. Scene headings carry the locked scene number in their
+ * Number attribute and, when Final Draft has paginated the script, the scene
+ * length in <SceneProperties Length="1 3/8">.
+ */
+
+import {
+  type ParsedScene,
+  isOmittedHeading,
+  omittedScene,
+  parseSlugline,
+  estimateEighths,
+  countPrintedLines,
+  summarizeAction,
+  normalizeCharacterName,
+} from "./script-import";
+import { formatPageCount, parsePageCount } from "./page-count";
+
+// Approximate printed widths (characters per line) of screenplay elements
+const ACTION_WIDTH = 60;
+const DIALOGUE_WIDTH = 35;
+
+interface FdxParagraph {
+  type: string;
+  number: string | null;
+  length: string | null;
+  text: string;
+}
+
+interface SceneBuilder {
+  heading: string;
+  sceneNumber: string | null;
+  length: string | null;
+  action: string[];
+  characters: string[];
+  printedLines: number;
+  text: string[]; // Printed blocks, for the scene's script text
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : null;
+}
+
+// Extract paragraphs in document order, joining the styled <Text> runs of each
+function readParagraphs(xml: string): FdxParagraph[] {
+  const content = xml.match(/<Content\b[^>]*>([\s\S]*?)<\/Content>/);
+  const body = content ? content[1] : xml;
+  const paragraphs: FdxParagraph[] = [];
+
+  const paragraphPattern = /<Paragraph\b([^>]*)>([\s\S]*?)<\/Paragraph>/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphPattern.exec(body)) !== null) {
+    const [, attributes, inner] = match;
+    const sceneProperties = inner.match(/<SceneProperties\b[^>]*>/);
+
+    const runs: string[] = [];
+    const textPattern = /<Text\b[^>]*>([\s\S]*?)<\/Text>/g;
+    let textMatch: RegExpExecArray | null;
+    while ((textMatch = textPattern.exec(inner)) !== null) {
+      runs.push(decodeEntities(textMatch[1].replace(/<[^>]+>/g, "")));
+    }
+
+    paragraphs.push({
+      type: readAttribute(attributes, "Type") || "Action",
+      number: readAttribute(attributes, "Number"),
+      length: sceneProperties ? readAttribute(sceneProperties[0], "Length") : null,
+      text: runs.join(""),
+    });
+  }
+
+  return paragraphs;
+}
+
+function buildScene(builder: SceneBuilder, index: number): ParsedScene {
+  if (isOmittedHeading(builder.heading)) {
+    return omittedScene(builder.sceneNumber || (index + 1).toString());
+  }
+
+  const slugline = parseSlugline(builder.heading);
+  const firstAction = builder.action.find((paragraph) => paragraph.trim().length > 0);
+
+  // Trust Final Draft's own pagination when it's there and readable
+  const eighths =
+    (builder.length && parsePageCount(builder.length)) ||
+    estimateEighths(builder.printedLines);
+
+  return {
+    sceneNumbers: builder.sceneNumber || (index + 1).toString(),
+    intExt: slugline.intExt,
+    location: slugline.location,
+    dayNight: slugline.dayNight,
+    description: firstAction ? summarizeAction(firstAction) : null,
+    pageCount: formatPageCount(eighths),
+    characters: builder.characters,
+    omitted: false,
+    scriptText: builder.text.join("\n\n"),
+  };
+}
+
+/**
+ * Parse a Final Draft screenplay into scenes.
+ * Paragraphs before the first scene heading are ignored.
+ */
+export function parseFdx(xml: string): ParsedScene[] {
+  const scenes: ParsedScene[] = [];
+  let scene: SceneBuilder | null = null;
+
+  for (const paragraph of readParagraphs(xml)) {
+    const text = paragraph.text.trim();
+
+    if (paragraph.type === "Scene Heading") {
+      if (scene) scenes.push(buildScene(scene, scenes.length));
+      scene = {
+        heading: text,
+        sceneNumber: paragraph.number?.trim() || null,
+        length: paragraph.length,
+        action: [],
+        characters: [],
+        printedLines: 2, // Heading plus the blank line after it
+        text: [text],
+      };
+      continue;
+    }
+
+    if (!scene || !text) continue;
+
+    // A speech (cue, parentheticals, dialogue) prints as one block
+    if (paragraph.type === "Dialogue" || paragraph.type === "Parenthetical") {
+      scene.text[scene.text.length - 1] += `\n${text}`;
+    } else {
+      scene.text.push(text);
+    }
+
+    switch (paragraph.type) {
+      case "Action":
+      case "General":
+      case "Shot":
+        scene.action.push(text);
+        scene.printedLines += countPrintedLines(text, ACTION_WIDTH) + 1;
+        break;
+      case "Character": {
+        const name = normalizeCharacterName(text);
+        if (name && !scene.characters.includes(name)) {
+          scene.characters.push(name);
+        }
+        scene.printedLines += 1;
+        break;
+      }
+      case "Dialogue":
+      case "Parenthetical":
+        scene.printedLines += countPrintedLines(text, DIALOGUE_WIDTH);
+        break;
+      default:
+        // Transitions, cast lists and anything else Final Draft emits
+        scene.printedLines += countPrintedLines(text, ACTION_WIDTH) + 1;
+    }
+  }
+
+  if (scene) scenes.push(buildScene(scene, scenes.length));
+
+  return scenes;
+}
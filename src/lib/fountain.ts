@@ -0,0 +1,182 @@
+/**
+ * Parser for Fountain (.fountain) screenplays.
+ * Produces one ParsedScene per scene heading with the slugline fields,
+ * a summary of the first action paragraph, an estimated page count, the
+ * list of speaking characters and the scene's printed text.
+ * See https://fountain.io/syntax for the format.
+ */
+
+import {
+  type ParsedScene,
+  isSlugline,
+  isOmittedHeading,
+  parseSlugline,
+  estimateEighths,
+  countPrintedLines,
+  summarizeAction,
+  normalizeCharacterName,
+  omittedScene,
+} from "./script-import";
+import { formatPageCount } from "./page-count";
+
+// Approximate printed widths (characters per line) of screenplay elements
+const ACTION_WIDTH = 60;
+const DIALOGUE_WIDTH = 35;
+
+interface SceneBuilder {
+  heading: string;
+  sceneNumber: string | null;
+  action: string[];
+  characters: string[];
+  printedLines: number;
+  text: string[]; // Printed blocks, for the scene's script text
+}
+
+// Strip boneyard (/* */) and note ([[ ]]) blocks, which never print
+function stripNonPrinting(text: string): string {
+  return text.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\[\[[\s\S]*?\]\]/g, "");
+}
+
+// Strip the title page ("Title: ...", "Credit: ...") up to the first blank line
+function stripTitlePage(lines: string[]): string[] {
+  const firstContent = lines.findIndex((line) => line.trim().length > 0);
+  if (firstContent < 0 || !/^[A-Za-z][A-Za-z ]*:/.test(lines[firstContent])) {
+    return lines;
+  }
+  const end = lines.findIndex((line, i) => i > firstContent && line.trim().length === 0);
+  return end < 0 ? [] : lines.slice(end + 1);
+}
+
+// Remove emphasis markup (*italic*, **bold**, _underline_) from text
+function stripEmphasis(text: string): string {
+  return text.replace(/\*{1,3}|_/g, "").replace(/\\/g, "");
+}
+
+function isCharacterCue(line: string): boolean {
+  const trimmed = line.trim();
+  if (trimmed.startsWith("@")) return trimmed.length > 1;
+  const name = trimmed.replace(/\(.*?\)/g, "").replace(/\^$/, "").trim();
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/^[!>=#~]/.test(name);
+}
+
+function isTransition(line: string): boolean {
+  const trimmed = line.trim();
+  if (trimmed.startsWith(">") && !trimmed.endsWith("<")) return true;
+  return trimmed === trimmed.toUpperCase() && /TO:$/.test(trimmed);
+}
+
+function buildScene(builder: SceneBuilder, index: number): ParsedScene {
+  const slugline = parseSlugline(builder.heading);
+  const firstAction = builder.action.find((paragraph) => paragraph.trim().length > 0);
+  const eighths = estimateEighths(builder.printedLines);
+
+  if (isOmittedHeading(builder.heading)) {
+    return omittedScene(builder.sceneNumber || (index + 1).toString());
+  }
+
+  return {
+    sceneNumbers: builder.sceneNumber || (index + 1).toString(),
+    intExt: slugline.intExt,
+    location: slugline.location,
+    dayNight: slugline.dayNight,
+    description: firstAction ? summarizeAction(stripEmphasis(firstAction)) : null,
+    pageCount: formatPageCount(eighths),
+    characters: builder.characters,
+    omitted: false,
+    scriptText: builder.text.join("\n\n"),
+  };
+}
+
+/**
+ * Parse a Fountain screenplay into scenes.
+ * Anything before the first scene heading (cold opens without a slug,
+ * title pages) is ignored.
+ */
+export function parseFountain(source: string): ParsedScene[] {
+  const text = stripNonPrinting(source.replace(/\r\n?/g, "\n"));
+  const lines = stripTitlePage(text.split("\n"));
+
+  // Group lines into blocks separated by blank lines
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  lines.forEach((line) => {
+    if (line.trim().length === 0) {
+      if (current.length > 0) blocks.push(current);
+      current = [];
+    } else {
+      current.push(line);
+    }
+  });
+  if (current.length > 0) blocks.push(current);
+
+  const scenes: ParsedScene[] = [];
+  let scene: SceneBuilder | null = null;
+
+  for (const block of blocks) {
+    const first = block[0].trim();
+
+    // Scene heading: a slugline, an OMITTED marker or a line forced with a leading "."
+    const isForcedHeading = first.startsWith(".") && !first.startsWith("..");
+    if (isForcedHeading || isSlugline(first) || isOmittedHeading(first)) {
+      if (scene) scenes.push(buildScene(scene, scenes.length));
+
+      let heading = isForcedHeading ? first.slice(1) : first;
+      let sceneNumber: string | null = null;
+      const numberMatch = heading.match(/\s*#([^#]+)#\s*$/);
+      if (numberMatch) {
+        sceneNumber = numberMatch[1].trim();
+        heading = heading.slice(0, numberMatch.index);
+      }
+
+      scene = {
+        heading,
+        sceneNumber,
+        action: [],
+        characters: [],
+        printedLines: 2, // Heading plus the blank line after it
+        text: [heading.trim()],
+      };
+
+      // Lines directly under a heading without a blank line are action
+      if (block.length > 1) {
+        const action = block.slice(1).join("\n");
+        scene.action.push(action);
+        scene.printedLines += countPrintedLines(action, ACTION_WIDTH) + 1;
+        scene.text.push(stripEmphasis(action));
+      }
+      continue;
+    }
+
+    if (!scene) continue;
+
+    // Sections, synopses and page breaks don't print
+    if (first.startsWith("#") || first.startsWith("=")) continue;
+
+    if (block.length === 1 && isTransition(first)) {
+      scene.printedLines += 2;
+      scene.text.push(first.replace(/^>/, "").trim());
+      continue;
+    }
+
+    if (block.length > 1 && isCharacterCue(first)) {
+      const name = normalizeCharacterName(first.replace(/^@/, ""));
+      if (name && !scene.characters.includes(name)) {
+        scene.characters.push(name);
+      }
+      const dialogue = block.slice(1).join("\n");
+      scene.printedLines += 1 + countPrintedLines(dialogue, DIALOGUE_WIDTH) + 1;
+      scene.text.push(stripEmphasis(`${first.replace(/^@/, "")}\n${dialogue}`));
+      continue;
+    }
+
+    // Everything else is action ("!" forces action)
+    const action = block.map((line) => line.replace(/^!/, "")).join("\n");
+    scene.action.push(action);
+    scene.printedLines += countPrintedLines(action, ACTION_WIDTH) + 1;
+    scene.text.push(stripEmphasis(action));
+  }
+
+  if (scene) scenes.push(buildScene(scene, scenes.length));
+
+  return scenes;
+}
@@ -0,0 +1,117 @@
+/**
+ * Moving the legacy free-text department fields into the element library.
+ * Planning is pure so the same plan backs the dry run and the migration.
+ */
+
+import type { ElementCategory } from "@prisma/client";
+import {
+  LEGACY_ELEMENT_FIELDS,
+  tokenizeLegacyText,
+  type DepartmentTextField,
+} from "./breakdown-fields";
+import { compareSceneNumbers } from "./scene-numbers";
+
+export type LegacySheet = {
+  id: string;
+  sceneNumbers: string;
+  elements: { elementId: string }[];
+} & Record<DepartmentTextField, string | null>;
+
+export interface LegacyLibraryElement {
+  id: string;
+  category: ElementCategory;
+  name: string;
+}
+
+export interface LegacyElementPlan {
+  category: ElementCategory;
+  name: string;
+  elementId: string | null; // Existing library element, or null when one will be created
+  links: { breakdownId: string; sceneNumbers: string; alreadyLinked: boolean }[];
+}
+
+export interface LegacyMigrationPlan {
+  elements: LegacyElementPlan[];
+  newElements: number;
+  matchedElements: number;
+  newLinks: number;
+  sheetsWithText: number;
+  // Fields with text but no element category; these are never cleared
+  keptFields: { field: DepartmentTextField; sheets: number }[];
+}
+
+// Department fields with no element category (DQs/Notes is meant to stay free text)
+const UNCATEGORIZED_FIELDS: DepartmentTextField[] = ["stunts", "extras"];
+
+// Items match library elements regardless of case and spacing
+function elementKey(category: ElementCategory, name: string): string {
+  return `${category}:${name.replace(/\s+/g, " ").toLowerCase()}`;
+}
+
+/**
+ * Work out which elements to create or reuse and which sheets to link them to.
+ */
+export function planLegacyMigration(
+  sheets: LegacySheet[],
+  library: LegacyLibraryElement[]
+): LegacyMigrationPlan {
+  const libraryByKey = new Map(library.map((el) => [elementKey(el.category, el.name), el]));
+  const planned = new Map<string, LegacyElementPlan>();
+  let sheetsWithText = 0;
+
+  for (const sheet of sheets) {
+    const linkedIds = new Set(sheet.elements.map((e) => e.elementId));
+    let hasText = false;
+
+    for (const { field, category } of LEGACY_ELEMENT_FIELDS) {
+      for (const item of tokenizeLegacyText(sheet[field])) {
+        hasText = true;
+        const key = elementKey(category, item);
+        let element = planned.get(key);
+        if (!element) {
+          const existing = libraryByKey.get(key);
+          element = {
+            category,
+            name: existing?.name ?? item,
+            elementId: existing?.id ?? null,
+            links: [],
+          };
+          planned.set(key, element);
+        }
+        if (!element.links.some((link) => link.breakdownId === sheet.id)) {
+          element.links.push({
+            breakdownId: sheet.id,
+            sceneNumbers: sheet.sceneNumbers,
+            alreadyLinked: !!element.elementId && linkedIds.has(element.elementId),
+          });
+        }
+      }
+    }
+
+    if (hasText) sheetsWithText++;
+  }
+
+  const elements = [...planned.values()]
+    .map((element) => ({
+      ...element,
+      links: element.links.sort((a, b) => compareSceneNumbers(a.sceneNumbers, b.sceneNumbers)),
+    }))
+    .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+
+  const keptFields = UNCATEGORIZED_FIELDS.map((field) => ({
+    field,
+    sheets: sheets.filter((sheet) => !!sheet[field]?.trim()).length,
+  })).filter((kept) => kept.sheets > 0);
+
+  return {
+    elements,
+    newElements: elements.filter((el) => !el.elementId).length,
+    matchedElements: elements.filter((el) => el.elementId).length,
+    newLinks: elements.reduce(
+      (sum, el) => sum + el.links.filter((link) => !link.alreadyLinked).length,
+      0
+    ),
+    sheetsWithText,
+    keptFields,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Page counts in eighths of a page.
+ * Breakdown sheets store the display string ("1 2/8") alongside the count in
+ * eighths, and every total in the app is summed from eighths so the strip
+ * board, calendar and reports can't disagree.
+ */
+
+export const EIGHTHS_PER_PAGE = 8;
+
+export const PAGE_COUNT_FORMAT_MESSAGE =
+  'Page count must be in eighths of a page, e.g. "3/8", "1 2/8" or "2"';
+
+// "2", "3/8", "1 2/8", "1/2", "1 1/4"
+const PAGE_COUNT_PATTERN = /^(?:(\d+)(?:\s+(\d+)\/(\d+))?|(\d+)\/(\d+))$/;
+
+/**
+ * Parse a page count into eighths. Halves and quarters are accepted and
+ * converted ("1/2" is 4/8). Returns null when the value is malformed, not a
+ * whole number of eighths, or zero.
+ */
+export function parsePageCount(value: string): number | null {
+  const match = value.trim().replace(/\s+/g, " ").match(PAGE_COUNT_PATTERN);
+  if (!match) return null;
+
+  const [, whole, mixedNumerator, mixedDenominator, numerator, denominator] = match;
+
+  let eighths: number;
+  if (numerator !== undefined) {
+    const fraction = fractionToEighths(Number(numerator), Number(denominator));
+    if (fraction === null) return null;
+    eighths = fraction;
+  } else {
+    eighths = Number(whole) * EIGHTHS_PER_PAGE;
+    if (mixedNumerator !== undefined) {
+      const num = Number(mixedNumerator);
+      const denom = Number(mixedDenominator);
+      // The fraction part of a mixed number must be a proper fraction
+      if (num >= denom) return null;
+      const fraction = fractionToEighths(num, denom);
+      if (fraction === null) return null;
+      eighths += fraction;
+    }
+  }
+
+  return eighths > 0 ? eighths : null;
+}
+
+function fractionToEighths(numerator: number, denominator: number): number | null {
+  if (denominator === 0 || EIGHTHS_PER_PAGE % denominator !== 0) return null;
+  return numerator * (EIGHTHS_PER_PAGE / denominator);
+}
+
+/**
+ * Format a count of eighths for display ("3/8", "1 2/8", "2").
+ */
+export function formatPageCount(eighths: number): string {
+  const whole = Math.floor(eighths / EIGHTHS_PER_PAGE);
+  const remainder = eighths % EIGHTHS_PER_PAGE;
+  if (remainder === 0) return whole.toString();
+  if (whole === 0) return `${remainder}/8`;
+  return `${whole} ${remainder}/8`;
+}
+
+/**
+ * Validate a page count from a request body and return both stored forms.
+ * Empty values clear the page count; malformed values return null.
+ */
+export function normalizePageCount(
+  value: unknown
+): { pageCount: string | null; pageEighths: number | null } | null {
+  if (value === null || value === undefined) {
+    return { pageCount: null, pageEighths: null };
+  }
+  if (typeof value !== "string") return null;
+  if (value.trim().length === 0) {
+    return { pageCount: null, pageEighths: null };
+  }
+
+  const eighths = parsePageCount(value);
+  if (eighths === null) return null;
+  return { pageCount: formatPageCount(eighths), pageEighths: eighths };
+}
+
+/**
+ * Eighths for a sheet, falling back to the display string for sheets saved
+ * before the numeric column existed.
+ */
+export function sheetEighths(sheet: {
+  pageEighths?: number | null;
+  pageCount: string | null;
+}): number {
+  if (sheet.pageEighths != null) return sheet.pageEighths;
+  return sheet.pageCount ? parsePageCount(sheet.pageCount) || 0 : 0;
+}
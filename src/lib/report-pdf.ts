@@ -0,0 +1,440 @@
+/**
+ * The reports as PDFs. Each builder lays out the rows from lib/reports and
+ * returns the document, which the browser saves and the reports API sends.
+ */
+
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { DOOD_LEGEND, doodColumnHeading, type DoodCellKind } from "./day-out-of-days";
+import { formatDuration } from "./shooting-time";
+import {
+  STRIP_FIELDS,
+  UNMATCHED_STRIP_COLOR,
+  describeColorRule,
+  getStripColor,
+  getStripStyle,
+  hexToRgb,
+  layoutColumns,
+  stripFieldText,
+} from "./strip-style";
+import {
+  DEPARTMENT_REPORT_FIELDS,
+  DOOD_TOTAL_HEADERS,
+  REPORT_TITLES,
+  doodSheet,
+  doodTotalCells,
+  elementBreakdown,
+  oneLineRows,
+  scheduleDays,
+  stripBoardRows,
+  type DoodSubject,
+  type ReportOverride,
+  type ReportProject,
+  type ReportSchedule,
+  type ReportType,
+} from "./reports";
+
+type TableDoc = jsPDF & { lastAutoTable: { finalY: number } };
+
+// Text and fill colors for DOOD cells by what the day is
+const DOOD_PDF_COLORS: Record<DoodCellKind, [number, number, number]> = {
+  work: [22, 163, 74],
+  hold: [202, 138, 4],
+  holiday: [220, 38, 38],
+  travel: [37, 99, 235],
+  rehearsal: [37, 99, 235],
+  fitting: [37, 99, 235],
+  idle: [120, 113, 108],
+};
+
+export function shootingSchedulePDF(project: ReportProject, schedule: ReportSchedule): jsPDF {
+  const doc = new jsPDF();
+
+  // Title
+  doc.setFontSize(18);
+  doc.text(project.title, 105, 20, { align: "center" });
+  doc.setFontSize(12);
+  doc.text(REPORT_TITLES.shooting, 105, 28, { align: "center" });
+  if (project.director) {
+    doc.setFontSize(10);
+    doc.text(`Director: ${project.director}`, 105, 35, { align: "center" });
+  }
+
+  let yPos = project.director ? 45 : 40;
+
+  scheduleDays(schedule).forEach((day) => {
+    // Check if we need a new page for day header
+    if (yPos > 250) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    // Day header with gold-ish background
+    doc.setFillColor(180, 150, 80);
+    doc.rect(14, yPos - 5, 182, 10, "F");
+    doc.setTextColor(30, 30, 30);
+    doc.setFontSize(12);
+    const dayLabel = day.shootDate ? `Day ${day.dayNumber} — ${day.shootDate}` : `Day ${day.dayNumber}`;
+    doc.text(dayLabel, 16, yPos + 1);
+    doc.text(`${day.pages} pages`, 190, yPos + 1, { align: "right" });
+    if (day.estimate) {
+      if (day.estimate.isOverLength) doc.setTextColor(160, 20, 20);
+      const overLength = day.estimate.isOverLength ? " (over length)" : "";
+      doc.text(`~${formatDuration(day.estimate.minutes)}${overLength}`, 160, yPos + 1, { align: "right" });
+    }
+    doc.setTextColor(0, 0, 0);
+
+    yPos += 12;
+
+    // Each scene as a detailed block
+    day.strips.forEach((strip) => {
+      const bd = strip.breakdown;
+
+      // Check if we need a new page
+      if (yPos > 240) {
+        doc.addPage();
+        yPos = 20;
+      }
+
+      // Scene header bar
+      doc.setFillColor(70, 70, 70);
+      doc.rect(14, yPos - 4, 182, 8, "F");
+      doc.setTextColor(255, 255, 255);
+      doc.setFontSize(10);
+      doc.text(`${bd.sceneNumbers}`, 16, yPos + 1);
+      doc.setFontSize(8);
+      doc.text(`${bd.intExt || "—"} / ${bd.dayNight || "—"}`, 40, yPos + 1);
+      doc.text(bd.location || "—", 70, yPos + 1);
+      doc.text(`~${formatDuration(schedule.timing.strips[strip.id] ?? 0)}`, 152, yPos + 1);
+      doc.text(`${bd.pageCount || "—"} pgs`, 170, yPos + 1);
+      if (bd.storyDay) {
+        doc.text(`SD ${bd.storyDay}`, 190, yPos + 1, { align: "right" });
+      }
+      doc.setTextColor(0, 0, 0);
+
+      yPos += 8;
+
+      // Description
+      if (bd.description) {
+        doc.setFontSize(9);
+        doc.setFont("helvetica", "italic");
+        const descLines = doc.splitTextToSize(bd.description, 176);
+        doc.text(descLines, 18, yPos);
+        yPos += descLines.length * 4 + 2;
+        doc.setFont("helvetica", "normal");
+      }
+
+      // Cast with numbers and names
+      if (bd.cast.length > 0) {
+        doc.setFontSize(8);
+        doc.setTextColor(100, 100, 100);
+        doc.text("Cast:", 18, yPos);
+        doc.setTextColor(0, 0, 0);
+        const castText = bd.cast.map((c) => `#${c.character.number} ${c.character.name}`).join(", ");
+        const castLines = doc.splitTextToSize(castText, 150);
+        doc.text(castLines, 38, yPos);
+        yPos += castLines.length * 3.5 + 2;
+      }
+
+      // Department fields
+      DEPARTMENT_REPORT_FIELDS.forEach(({ field, label }) => {
+        const value = bd[field];
+        if (!value) return;
+        if (yPos > 270) {
+          doc.addPage();
+          yPos = 20;
+        }
+        doc.setFontSize(8);
+        doc.setTextColor(100, 100, 100);
+        doc.text(`${label}:`, 18, yPos);
+        doc.setTextColor(0, 0, 0);
+        const lines = doc.splitTextToSize(value, 140);
+        doc.text(lines, 50, yPos);
+        yPos += lines.length * 3.5 + 1;
+      });
+
+      yPos += 6; // Space between scenes
+    });
+
+    yPos += 4; // Space between days
+  });
+
+  return doc;
+}
+
+export function oneLinePDF(project: ReportProject, schedule: ReportSchedule): jsPDF {
+  const doc = new jsPDF();
+
+  // Title
+  doc.setFontSize(18);
+  doc.text(project.title, 105, 20, { align: "center" });
+  doc.setFontSize(12);
+  doc.text(REPORT_TITLES.oneline, 105, 28, { align: "center" });
+
+  const tableData = oneLineRows(schedule).map(({ dayNumber, strip }) => [
+    dayNumber.toString(),
+    strip.breakdown.sceneNumbers,
+    strip.breakdown.intExt || "—",
+    strip.breakdown.dayNight?.charAt(0) || "—",
+    `${strip.breakdown.location || ""}${strip.breakdown.description ? ` - ${strip.breakdown.description}` : ""}`,
+    strip.breakdown.pageCount || "—",
+    formatDuration(schedule.timing.strips[strip.id] ?? 0),
+  ]);
+
+  autoTable(doc, {
+    startY: 40,
+    head: [["Day", "Scene", "I/E", "D/N", "Location - Description", "Pages", "Time"]],
+    body: tableData,
+    theme: "striped",
+    headStyles: { fillColor: [80, 80, 80], fontSize: 9 },
+    bodyStyles: { fontSize: 8 },
+    columnStyles: {
+      0: { cellWidth: 15 },
+      1: { cellWidth: 18 },
+      2: { cellWidth: 12 },
+      3: { cellWidth: 12 },
+      4: { cellWidth: 95 },
+      5: { cellWidth: 15, halign: "right" },
+      6: { cellWidth: 15, halign: "right" },
+    },
+    margin: { left: 14, right: 14 },
+  });
+
+  return doc;
+}
+
+export function doodPDF(
+  project: ReportProject,
+  schedule: ReportSchedule,
+  overrides: ReportOverride[],
+  subject: DoodSubject
+): jsPDF {
+  const doc = new jsPDF({ orientation: "landscape" }) as TableDoc;
+  const { title, labels, columns, rows } = doodSheet(project, schedule, overrides, subject);
+
+  // Title
+  doc.setFontSize(18);
+  doc.text(project.title, 148, 15, { align: "center" });
+  doc.setFontSize(12);
+  doc.text(title, 148, 23, { align: "center" });
+
+  const headers = [
+    "#",
+    subject === "CAST" ? "Character" : "Element",
+    ...columns.map((column) => {
+      const heading = doodColumnHeading(column);
+      return [heading.title, heading.weekday, heading.date].filter(Boolean).join("\n");
+    }),
+    ...DOOD_TOTAL_HEADERS,
+  ];
+  const tableData = labels.map(([number, name], i) => [
+    number,
+    name,
+    ...rows[i].cells.map((cell) => cell.code),
+    ...doodTotalCells(columns, rows[i].totals),
+  ]);
+
+  // Day columns share what the name and totals columns leave of the page
+  const dayWidth = Math.min(8, 125 / Math.max(columns.length, 1));
+  const firstTotal = columns.length + 2;
+
+  autoTable(doc, {
+    startY: 30,
+    head: [headers],
+    body: tableData,
+    theme: "grid",
+    headStyles: { fillColor: [80, 80, 80], fontSize: 5, halign: "center", cellPadding: 0.5 },
+    bodyStyles: { fontSize: 6, cellPadding: 0.5 },
+    columnStyles: {
+      0: { cellWidth: 8, halign: "center" },
+      1: { cellWidth: 28 },
+      ...Object.fromEntries(columns.map((_, i) => [i + 2, { cellWidth: dayWidth, halign: "center" }])),
+      ...Object.fromEntries(
+        DOOD_TOTAL_HEADERS.map((header, i) => [
+          firstTotal + i,
+          { cellWidth: header === "Start" || header === "Finish" ? 16 : 8, halign: "center" },
+        ])
+      ),
+    },
+    margin: { left: 10, right: 10 },
+    didParseCell: (data) => {
+      const columnIndex = data.column.index - 2;
+      const column = columns[columnIndex];
+      if (!column || data.section !== "body") return;
+      if (column.kind === "off" || column.kind === "holiday") {
+        data.cell.styles.fillColor = [231, 229, 228];
+      }
+      const kind = rows[data.row.index].cells[columnIndex].kind;
+      if (kind) data.cell.styles.textColor = DOOD_PDF_COLORS[kind];
+    },
+  });
+
+  // Legend
+  doc.setFontSize(8);
+  doc.text(DOOD_LEGEND, 10, doc.lastAutoTable.finalY + 10);
+
+  return doc;
+}
+
+export function elementsPDF(project: ReportProject): jsPDF {
+  const doc = new jsPDF() as TableDoc;
+
+  // Title
+  doc.setFontSize(18);
+  doc.text(project.title, 105, 20, { align: "center" });
+  doc.setFontSize(12);
+  doc.text(REPORT_TITLES.elements, 105, 28, { align: "center" });
+
+  let yPos = 40;
+
+  elementBreakdown(project.breakdowns).forEach(({ label, items }) => {
+    if (yPos > 250) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    // Category header
+    doc.setFillColor(60, 60, 60);
+    doc.rect(14, yPos - 5, 182, 8, "F");
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(10);
+    doc.text(label, 16, yPos);
+    doc.setTextColor(0, 0, 0);
+    yPos += 5;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [["Item", "Scenes"]],
+      body: items.map(({ name, scenes }) => [name, scenes.join(", ")]),
+      theme: "grid",
+      headStyles: { fillColor: [80, 80, 80], fontSize: 9 },
+      bodyStyles: { fontSize: 8 },
+      columnStyles: {
+        0: { cellWidth: 80 },
+        1: { cellWidth: 100 },
+      },
+      margin: { left: 14, right: 14 },
+    });
+
+    yPos = doc.lastAutoTable.finalY + 15;
+  });
+
+  return doc;
+}
+
+export function stripBoardPDF(project: ReportProject, schedule: ReportSchedule): jsPDF {
+  const doc = new jsPDF({ orientation: "landscape" });
+  const { colorRules, layout } = getStripStyle(project);
+  const columns = layoutColumns(layout, 12, 273);
+
+  // Title
+  doc.setFontSize(18);
+  doc.text(project.title, 148, 15, { align: "center" });
+  doc.setFontSize(12);
+  doc.text(REPORT_TITLES.stripboard, 148, 23, { align: "center" });
+
+  let yPos = 35;
+
+  const addHeader = () => {
+    doc.setFillColor(60, 60, 60);
+    doc.rect(10, yPos, 277, 8, "F");
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(8);
+    columns.forEach(({ field, x }) => doc.text(STRIP_FIELDS[field].label, x, yPos + 5));
+    doc.setTextColor(0, 0, 0);
+    yPos += 10;
+  };
+
+  addHeader();
+
+  stripBoardRows(schedule).forEach((row) => {
+    if (yPos > 180) {
+      doc.addPage();
+      yPos = 20;
+      addHeader();
+    }
+
+    if (row.type === "strip") {
+      const { strip } = row;
+      const color = strip.breakdown.isOmitted
+        ? UNMATCHED_STRIP_COLOR
+        : getStripColor(colorRules, strip.breakdown);
+
+      doc.setFillColor(...hexToRgb(color.background));
+      doc.rect(10, yPos, 277, 7, "F");
+      doc.setTextColor(...hexToRgb(color.text));
+      doc.setFontSize(7);
+
+      columns.forEach(({ field, x, width }) => {
+        const text = stripFieldText(field, strip.breakdown, schedule.timing.strips[strip.id]);
+        // One line per strip, cut to the column
+        const [line = ""] = text ? doc.splitTextToSize(text, width - 2) : [];
+        doc.text(line, x, yPos + 5);
+      });
+
+      yPos += 8;
+    } else {
+      doc.setFillColor(168, 85, 247); // Purple for day break
+      doc.rect(10, yPos, 277, 7, "F");
+      doc.setTextColor(255, 255, 255);
+      doc.setFontSize(8);
+      doc.text(`END OF DAY ${row.dayNumber}`, 12, yPos + 5);
+      doc.text(`${row.pages} pages`, 245, yPos + 5);
+      yPos += 10;
+    }
+
+    doc.setTextColor(0, 0, 0);
+  });
+
+  // Legend
+  yPos += 5;
+  if (yPos > 170) {
+    doc.addPage();
+    yPos = 20;
+  }
+  doc.setFontSize(8);
+  doc.text("Legend:", 10, yPos);
+  yPos += 6;
+
+  let xPos = 10;
+  colorRules.forEach((rule) => {
+    if (xPos > 250) {
+      xPos = 10;
+      yPos += 7;
+    }
+    doc.setFillColor(...hexToRgb(rule.background));
+    doc.setDrawColor(180, 180, 180);
+    doc.rect(xPos, yPos - 3, 10, 5, "FD");
+    doc.setTextColor(100, 100, 100);
+    const [label] = doc.splitTextToSize(describeColorRule(rule), 26);
+    doc.text(label, xPos + 12, yPos);
+    xPos += 40;
+  });
+
+  return doc;
+}
+
+/**
+ * Build a report's PDF. The project and schedule should already have their
+ * unscheduled scenes and omitted strips handled (see lib/reports).
+ */
+export function reportPDF(
+  type: ReportType,
+  project: ReportProject,
+  schedule: ReportSchedule,
+  overrides: ReportOverride[],
+  subject: DoodSubject = "CAST"
+): jsPDF {
+  switch (type) {
+    case "shooting":
+      return shootingSchedulePDF(project, schedule);
+    case "oneline":
+      return oneLinePDF(project, schedule);
+    case "stripboard":
+      return stripBoardPDF(project, schedule);
+    case "dood":
+      return doodPDF(project, schedule, overrides, subject);
+    case "elements":
+      return elementsPDF(project);
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * The reports built from a schedule version: the shooting schedule, the
+ * one-line schedule, the strip board, the Day Out of Days and the element
+ * breakdowns. The report views and their PDFs (see lib/report-pdf) both read
+ * their rows from here, so a report comes out the same in the browser and
+ * from the server.
+ */
+
+import type { ElementCategory } from "@prisma/client";
+import {
+  ELEMENT_CATEGORY_LABELS,
+  LEGACY_ELEMENT_FIELDS,
+  tokenizeLegacyText,
+  type DepartmentTextField,
+} from "./breakdown-fields";
+import {
+  buildCastDood,
+  buildElementDood,
+  describeDoodColumn,
+  type DoodColumn,
+  type DoodOverrideCode,
+  type DoodRow,
+  type DoodTotals,
+} from "./day-out-of-days";
+import { sortByScriptOrder } from "./scene-numbers";
+import type { DayEstimate } from "./shooting-time";
+
+export type ReportType = "shooting" | "oneline" | "stripboard" | "dood" | "elements";
+
+export const REPORT_TITLES: Record<ReportType, string> = {
+  shooting: "Shooting Schedule",
+  oneline: "One-Line Schedule",
+  stripboard: "Strip Board",
+  dood: "Day Out of Days",
+  elements: "Element Breakdowns",
+};
+
+// The cast, or one category of elements for rental periods
+export type DoodSubject = "CAST" | ElementCategory;
+
+// Free-text department fields in the order the shooting schedule lists them
+export const DEPARTMENT_REPORT_FIELDS: { field: DepartmentTextField; label: string }[] = [
+  { field: "extras", label: "Extras" },
+  { field: "stunts", label: "Stunts" },
+  { field: "wardrobe", label: "Wardrobe" },
+  { field: "props", label: "Props" },
+  { field: "setDressing", label: "Set Dressing" },
+  { field: "artDept", label: "Art Dept" },
+  { field: "specialPersonnel", label: "Special Personnel" },
+  { field: "vehicles", label: "Vehicles" },
+  { field: "camera", label: "Camera" },
+  { field: "mechanicalFx", label: "Mechanical FX" },
+  { field: "visualFx", label: "Visual FX" },
+  { field: "specialEquip", label: "Special Equip" },
+  { field: "animals", label: "Animals" },
+  { field: "soundMusic", label: "Sound/Music" },
+  { field: "other", label: "Other" },
+  { field: "dqs", label: "DQs" },
+];
+
+// Element breakdown categories, most asked-for first
+const ELEMENT_REPORT_CATEGORIES: ElementCategory[] = [
+  "PROPS",
+  "WARDROBE",
+  "VEHICLES",
+  "ANIMALS",
+  "SPECIAL_EQUIP",
+  "MECHANICAL_FX",
+  "VISUAL_FX",
+  "SET_DRESSING",
+  "ART_DEPT",
+  "SPECIAL_PERSONNEL",
+  "CAMERA",
+  "SOUND_MUSIC",
+  "OTHER",
+];
+
+export const DOOD_TOTAL_HEADERS = ["Trvl", "Work", "Hold", "Hol", "Idle", "Start", "Finish", "Total"];
+
+interface ElementSheet extends Record<DepartmentTextField, string | null> {
+  id: string;
+  sceneNumbers: string;
+  isOmitted: boolean;
+  elements: { element: { id: string; name: string; category: ElementCategory } }[];
+}
+
+export interface ReportSheet extends ElementSheet {
+  intExt: string | null;
+  dayNight: string | null;
+  location: string | null;
+  description: string | null;
+  pageCount: string | null;
+  storyDay: number | null;
+  cameraSetups: number | null;
+  isFlashback: boolean;
+  stripTag: string | null;
+  cast: { characterId: string; character: { number: number; name: string } }[];
+}
+
+export interface ReportStrip {
+  id: string;
+  position: number;
+  breakdown: ReportSheet;
+}
+
+export interface ReportSchedule {
+  stripSlots: ReportStrip[];
+  dayBreaks: { afterPosition: number; dayNumber: number }[];
+  banners: { label: string; bannerType: string; date: Date | string | null }[];
+  holidays: { date: Date | string; name: string }[];
+  workDays: number[];
+  totals: {
+    pages: string;
+    days: { dayNumber: number; endPosition: number; pages: string; shootDate: string | null }[];
+    weeks: { weekNumber: number; firstDay: number; pages: string }[];
+  };
+  timing: { strips: Record<string, number>; days: DayEstimate[] };
+  boneyard: { id: string }[];
+}
+
+export interface ReportProject {
+  title: string;
+  director: string | null;
+  dropPickupDays: number;
+  stripColorRules: unknown;
+  stripLayout: unknown;
+  characters: { id: string; number: number; name: string; dropPickupDays: number | null }[];
+  breakdowns: ElementSheet[];
+}
+
+export interface ReportOverride {
+  characterId: string;
+  date: Date | string;
+  code: DoodOverrideCode;
+}
+
+// Omitted scenes keep their strip so scene numbering and day breaks stay put,
+// but they contribute no pages, cast or elements to any report
+export function withOmittedPlaceholders<S extends ReportSchedule>(schedule: S): S {
+  return {
+    ...schedule,
+    stripSlots: schedule.stripSlots.map((strip) =>
+      strip.breakdown.isOmitted
+        ? {
+            ...strip,
+            breakdown: {
+              ...strip.breakdown,
+              intExt: null,
+              dayNight: null,
+              location: "OMITTED",
+              description: null,
+              pageCount: null,
+              cast: [],
+              elements: [],
+            },
+          }
+        : strip
+    ),
+  };
+}
+
+// Scenes waiting in the boneyard aren't scheduled, so no report includes them
+export function withoutUnscheduledScenes<P extends ReportProject>(
+  project: P,
+  schedule: { boneyard: { id: string }[] } | undefined
+): P {
+  const boneyard = new Set(schedule?.boneyard.map((bd) => bd.id));
+  return {
+    ...project,
+    breakdowns: project.breakdowns.filter((bd) => !bd.isOmitted && !boneyard.has(bd.id)),
+  };
+}
+
+// Day totals are computed by the server; look one up by the day's last strip
+export function dayTotalPages(schedule: ReportSchedule, endPosition: number): string {
+  return schedule.totals.days.find((day) => day.endPosition === endPosition)?.pages || "0";
+}
+
+// "Mon, Nov 2" for the date the working calendar gives a shoot day
+function formatShootDate(dateStr: string): string {
+  const [year, month, day] = dateStr.split("T")[0].split("-").map(Number);
+  return new Date(year, month - 1, day, 12, 0, 0).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export interface ReportDay<T> {
+  dayNumber: number;
+  strips: T[];
+  shootDate?: string;
+  pages: string;
+  estimate?: DayEstimate;
+}
+
+/**
+ * The board's strips grouped into shoot days, with each day's date, pages
+ * and estimated shooting time. Strips after the last day break make up the
+ * final day.
+ */
+export function scheduleDays<T extends ReportStrip>(schedule: ReportSchedule & { stripSlots: T[] }): ReportDay<T>[] {
+  const breaks = new Set(schedule.dayBreaks.map((db) => db.afterPosition));
+  const groups: T[][] = [];
+  let current: T[] = [];
+  for (const strip of schedule.stripSlots) {
+    current.push(strip);
+    if (breaks.has(strip.position)) {
+      groups.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((strips, index) => {
+    const dayNumber = index + 1;
+    const endPosition = strips[strips.length - 1].position;
+    const shootDate = schedule.totals.days.find((day) => day.dayNumber === dayNumber)?.shootDate;
+    return {
+      dayNumber,
+      strips,
+      shootDate: shootDate ? formatShootDate(shootDate) : undefined,
+      pages: dayTotalPages(schedule, endPosition),
+      estimate: schedule.timing.days.find((day) => day.endPosition === endPosition),
+    };
+  });
+}
+
+/**
+ * Each strip with the shoot day it falls on, for the one-line schedule.
+ */
+export function oneLineRows<T extends ReportStrip>(
+  schedule: ReportSchedule & { stripSlots: T[] }
+): { dayNumber: number; strip: T }[] {
+  return scheduleDays(schedule).flatMap((day) => day.strips.map((strip) => ({ dayNumber: day.dayNumber, strip })));
+}
+
+export type StripBoardRow<T> =
+  | { type: "strip"; strip: T }
+  | { type: "dayEnd"; dayNumber: number; pages: string };
+
+/**
+ * The strips in board order with an end-of-day row after each day break.
+ */
+export function stripBoardRows<T extends ReportStrip>(
+  schedule: ReportSchedule & { stripSlots: T[] }
+): StripBoardRow<T>[] {
+  const dayBreakMap = new Map(schedule.dayBreaks.map((db) => [db.afterPosition, db]));
+  const strips: T[] = schedule.stripSlots;
+  return strips.flatMap((strip): StripBoardRow<T>[] => {
+    const dayBreak = dayBreakMap.get(strip.position);
+    return dayBreak
+      ? [
+          { type: "strip", strip },
+          { type: "dayEnd", dayNumber: dayBreak.dayNumber, pages: dayTotalPages(schedule, strip.position) },
+        ]
+      : [{ type: "strip", strip }];
+  });
+}
+
+export interface ElementReportCategory {
+  category: ElementCategory;
+  label: string;
+  items: { name: string; scenes: string[] }[];
+}
+
+/**
+ * Every element the breakdowns use, by category, with the scenes it's in.
+ * Legacy department text counts for sheets not yet moved to the element
+ * library. Categories with nothing in them are left out.
+ */
+export function elementBreakdown(breakdowns: ElementSheet[]): ElementReportCategory[] {
+  const collected = new Map<ElementCategory, Map<string, string[]>>();
+  const add = (category: ElementCategory, name: string, sceneNumbers: string) => {
+    const items = collected.get(category) ?? new Map<string, string[]>();
+    const scenes = items.get(name) ?? [];
+    if (!scenes.includes(sceneNumbers)) scenes.push(sceneNumbers);
+    collected.set(category, items.set(name, scenes));
+  };
+
+  // Scene lists follow the script, not the breakdown list order
+  for (const bd of sortByScriptOrder(breakdowns)) {
+    for (const { element } of bd.elements) add(element.category, element.name, bd.sceneNumbers);
+    for (const { field, category } of LEGACY_ELEMENT_FIELDS) {
+      for (const item of tokenizeLegacyText(bd[field])) add(category, item, bd.sceneNumbers);
+    }
+  }
+
+  return ELEMENT_REPORT_CATEGORIES.filter((category) => collected.has(category)).map((category) => ({
+    category,
+    label: ELEMENT_CATEGORY_LABELS[category],
+    items: [...collected.get(category)!.entries()]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([name, scenes]) => ({ name, scenes })),
+  }));
+}
+
+export interface DoodSheet {
+  title: string;
+  labels: [string, string][]; // Number and name of each row
+  columns: DoodColumn[];
+  rows: DoodRow[];
+}
+
+/**
+ * The Day Out of Days for the cast or a category of elements, with the
+ * number and name each row is labeled with.
+ */
+export function doodSheet(
+  project: ReportProject,
+  schedule: ReportSchedule,
+  overrides: ReportOverride[],
+  subject: DoodSubject
+): DoodSheet {
+  if (subject === "CAST") {
+    const { columns, rows } = buildCastDood(project, schedule, overrides);
+    return {
+      title: REPORT_TITLES.dood,
+      labels: project.characters.map((char) => [String(char.number), char.name]),
+      columns,
+      rows,
+    };
+  }
+  const { columns, elements, rows } = buildElementDood(project, schedule, subject);
+  return {
+    title: `${REPORT_TITLES.dood} — ${ELEMENT_CATEGORY_LABELS[subject]}`,
+    labels: elements.map((element, i) => [String(i + 1), element.name]),
+    columns,
+    rows,
+  };
+}
+
+export function doodTotalCells(columns: DoodColumn[], totals: DoodTotals): string[] {
+  const describe = (index: number | null) => (index === null ? "" : describeDoodColumn(columns[index]));
+  return [
+    totals.travel,
+    totals.work,
+    totals.hold,
+    totals.holiday,
+    totals.idle,
+    describe(totals.start),
+    describe(totals.finish),
+    totals.total,
+  ].map(String);
+}
+
+/**
+ * Check a Day Out of Days subject from a request: CAST or an element
+ * category. Defaults to the cast.
+ */
+export function parseDoodSubject(value: string | null): DoodSubject | null {
+  if (!value) return "CAST";
+  if (value === "CAST" || Object.hasOwn(ELEMENT_CATEGORY_LABELS, value)) return value as DoodSubject;
+  return null;
+}
+
+/**
+ * "My_Film_Shooting_Schedule.pdf"
+ */
+export function reportFileName(projectTitle: string, type: ReportType, subject: DoodSubject = "CAST"): string {
+  const name =
+    type === "dood" && subject !== "CAST"
+      ? `${REPORT_TITLES.dood} ${ELEMENT_CATEGORY_LABELS[subject]}`
+      : REPORT_TITLES[type];
+  return `${projectTitle.replace(/[^a-z0-9]/gi, "_")}_${name.replace(/[^a-z0-9]/gi, "_")}.pdf`;
+}
@@ -0,0 +1,238 @@
+/**
+ * Scene numbers as they appear on breakdown sheets.
+ * A sheet can cover a single scene ("12"), an inserted scene ("12A" after 12,
+ * "A12" before it), a range ("3-4"), a list ("5, 7, 9pt") or any mix.
+ * "pt" marks part of a scene that is split across several sheets, optionally
+ * numbered ("14pt1", "14pt2").
+ */
+
+export interface SceneNumber {
+  prefix: string; // Letters before the number ("A" in "A12")
+  number: number;
+  suffix: string; // Letters after the number ("A" in "12A")
+  part: boolean; // "9pt" - only part of the scene is on this sheet
+  partNumber: number | null; // 2 in "14pt2"
+}
+
+export type SceneNumbersResult =
+  | { ok: true; display: string; scenes: SceneNumber[] }
+  | { ok: false; error: string };
+
+const SCENE_PATTERN = /^([A-Z]{0,2})(\d{1,4})([A-Z]{0,2}?)(\s*PT\.?\s*(\d{1,2})?)?$/i;
+const RANGE_SEPARATOR = /\s*[-–]\s*/;
+
+// Longest range we expand ("1-500" is almost certainly a typo)
+const MAX_RANGE = 50;
+
+function parseSingle(text: string): SceneNumber | null {
+  const match = text.trim().match(SCENE_PATTERN);
+  if (!match) return null;
+  const [, prefix, number, suffix, part, partNumber] = match;
+  return {
+    prefix: prefix.toUpperCase(),
+    number: parseInt(number, 10),
+    suffix: suffix.toUpperCase(),
+    part: !!part,
+    partNumber: partNumber ? parseInt(partNumber, 10) : null,
+  };
+}
+
+/**
+ * Format a scene number canonically ("12A", "A12", "9pt", "14pt2").
+ */
+export function formatSceneNumber(scene: SceneNumber): string {
+  const part = scene.part ? `pt${scene.partNumber ?? ""}` : "";
+  return `${scene.prefix}${scene.number}${scene.suffix}${part}`;
+}
+
+/**
+ * Key used to detect the same scene on two sheets; ignores the part marker.
+ */
+export function sceneNumberKey(scene: SceneNumber): string {
+  return `${scene.prefix}${scene.number}${scene.suffix}`;
+}
+
+// Expand "3-5" to 3, 4, 5 and "12A-12C" to 12A, 12B, 12C
+function expandRange(start: SceneNumber, end: SceneNumber): SceneNumber[] | null {
+  if (start.part || end.part || start.prefix || end.prefix) return null;
+
+  if (!start.suffix && !end.suffix) {
+    if (end.number <= start.number || end.number - start.number >= MAX_RANGE) return null;
+    const scenes: SceneNumber[] = [];
+    for (let n = start.number; n <= end.number; n++) {
+      scenes.push({ prefix: "", number: n, suffix: "", part: false, partNumber: null });
+    }
+    return scenes;
+  }
+
+  if (
+    start.number === end.number &&
+    start.suffix.length === 1 &&
+    end.suffix.length === 1 &&
+    end.suffix > start.suffix
+  ) {
+    const scenes: SceneNumber[] = [];
+    for (let c = start.suffix.charCodeAt(0); c <= end.suffix.charCodeAt(0); c++) {
+      scenes.push({
+        prefix: "",
+        number: start.number,
+        suffix: String.fromCharCode(c),
+        part: false,
+        partNumber: null,
+      });
+    }
+    return scenes;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a sheet's scene numbers into individual scenes and a normalized
+ * display string. Lists may be separated by commas or "&".
+ */
+export function parseSceneNumbers(input: string): SceneNumbersResult {
+  const items = input
+    .split(/[,&]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  if (items.length === 0) {
+    return { ok: false, error: "Scene numbers cannot be empty" };
+  }
+
+  const scenes: SceneNumber[] = [];
+  const display: string[] = [];
+
+  for (const item of items) {
+    const bounds = item.split(RANGE_SEPARATOR);
+
+    if (bounds.length === 2) {
+      const start = parseSingle(bounds[0]);
+      const end = parseSingle(bounds[1]);
+      const expanded = start && end ? expandRange(start, end) : null;
+      if (!start || !end || !expanded) {
+        return { ok: false, error: `"${item}" is not a valid scene range` };
+      }
+      scenes.push(...expanded);
+      display.push(`${formatSceneNumber(start)}-${formatSceneNumber(end)}`);
+      continue;
+    }
+
+    const scene = bounds.length === 1 ? parseSingle(item) : null;
+    if (!scene) {
+      return {
+        ok: false,
+        error: `"${item}" is not a valid scene number (use e.g. 12, 12A, A12, 3-4 or 9pt)`,
+      };
+    }
+    scenes.push(scene);
+    display.push(formatSceneNumber(scene));
+  }
+
+  const keys = scenes.map(sceneNumberKey);
+  const repeated = keys.find((key, i) => keys.indexOf(key) !== i);
+  if (repeated) {
+    return { ok: false, error: `Scene ${repeated} is listed more than once` };
+  }
+
+  return { ok: true, display: display.join(", "), scenes };
+}
+
+/**
+ * Find scenes that another sheet already covers. A scene may appear on
+ * several sheets only when every one of them marks it as a part ("9pt").
+ */
+export function findDuplicateScenes(
+  scenes: SceneNumber[],
+  otherSheets: { sceneNumbers: string }[]
+): string[] {
+  const taken = new Map<string, boolean>(); // key -> every occurrence is a part
+  otherSheets.forEach((sheet) => {
+    const parsed = parseSceneNumbers(sheet.sceneNumbers);
+    if (!parsed.ok) return;
+    parsed.scenes.forEach((scene) => {
+      const key = sceneNumberKey(scene);
+      taken.set(key, (taken.get(key) ?? true) && scene.part);
+    });
+  });
+
+  return scenes
+    .filter((scene) => {
+      const key = sceneNumberKey(scene);
+      return taken.has(key) && !(scene.part && taken.get(key));
+    })
+    .map(sceneNumberKey);
+}
+
+// Script order within the same number: A12, B12, 12, 12A, 12B
+function compareScenes(a: SceneNumber, b: SceneNumber): number {
+  if (a.number !== b.number) return a.number - b.number;
+  if (a.prefix !== b.prefix) {
+    if (!a.prefix) return 1;
+    if (!b.prefix) return -1;
+    return a.prefix.localeCompare(b.prefix);
+  }
+  if (a.suffix !== b.suffix) {
+    if (a.suffix.length !== b.suffix.length) return a.suffix.length - b.suffix.length;
+    return a.suffix.localeCompare(b.suffix);
+  }
+  if (a.part !== b.part) return Number(a.part) - Number(b.part);
+  return (a.partNumber ?? 0) - (b.partNumber ?? 0);
+}
+
+/**
+ * Format a set of scenes as a sheet's scene numbers, in script order with
+ * runs of consecutive plain scenes collapsed into ranges ("3-5, 7, 9pt").
+ */
+export function formatSceneList(scenes: SceneNumber[]): string {
+  const sorted = [...scenes].sort(compareScenes);
+  const isPlain = (scene: SceneNumber) => !scene.prefix && !scene.suffix && !scene.part;
+  const items: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    let end = i;
+    while (
+      end + 1 < sorted.length &&
+      isPlain(sorted[i]) &&
+      isPlain(sorted[end + 1]) &&
+      sorted[end + 1].number === sorted[end].number + 1
+    ) {
+      end++;
+    }
+    items.push(
+      end > i
+        ? `${formatSceneNumber(sorted[i])}-${formatSceneNumber(sorted[end])}`
+        : formatSceneNumber(sorted[i])
+    );
+    i = end;
+  }
+
+  return items.join(", ");
+}
+
+/**
+ * Compare two sheets' scene numbers in script order, by their first scene.
+ * Values that don't parse sort after everything else.
+ */
+export function compareSceneNumbers(a: string, b: string): number {
+  const parsedA = parseSceneNumbers(a);
+  const parsedB = parseSceneNumbers(b);
+
+  if (parsedA.ok && parsedB.ok) {
+    const firstA = [...parsedA.scenes].sort(compareScenes)[0];
+    const firstB = [...parsedB.scenes].sort(compareScenes)[0];
+    return compareScenes(firstA, firstB) || a.localeCompare(b);
+  }
+  if (parsedA.ok) return -1;
+  if (parsedB.ok) return 1;
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Sheets sorted into script order. The sort is stable, so sheets that compare
+ * equal keep their current order.
+ */
+export function sortByScriptOrder<T extends { sceneNumbers: string }>(sheets: T[]): T[] {
+  return [...sheets].sort((a, b) => compareSceneNumbers(a.sceneNumbers, b.sceneNumbers));
+}
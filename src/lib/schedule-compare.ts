@@ -0,0 +1,129 @@
+/**
+ * Side-by-side comparison of two schedule versions: how many days each takes,
+ * the page total of every day, and how many days each cast member works.
+ */
+
+import { computeScheduleTotals, type DayTotal } from "./schedule-totals";
+import { formatPageCount } from "./page-count";
+
+interface CompareStrip {
+  position: number;
+  breakdown: {
+    pageCount: string | null;
+    pageEighths?: number | null;
+    isOmitted?: boolean;
+    cast: { character: { id: string; number: number; name: string } }[];
+  };
+}
+
+export interface CompareSchedule {
+  id: string;
+  name: string;
+  startDate: Date | string | null;
+  stripSlots: CompareStrip[];
+  dayBreaks: { afterPosition: number; shootDate: Date | string | null }[];
+}
+
+export interface VersionSummary {
+  id: string;
+  name: string;
+  dayCount: number;
+  eighths: number;
+  pages: string;
+}
+
+export interface DayComparison {
+  dayNumber: number;
+  a: DayTotal | null;
+  b: DayTotal | null;
+  eighthsDelta: number; // b minus a
+}
+
+export interface CastComparison {
+  characterId: string;
+  number: number;
+  name: string;
+  aDays: number;
+  bDays: number;
+}
+
+export interface ScheduleComparison {
+  a: VersionSummary;
+  b: VersionSummary;
+  days: DayComparison[];
+  cast: CastComparison[];
+}
+
+// Shoot days each character works, from the day their strips fall in
+function castWorkDays(schedule: CompareSchedule, days: DayTotal[]) {
+  const workDays = new Map<string, { number: number; name: string; days: Set<number> }>();
+
+  for (const strip of schedule.stripSlots) {
+    if (strip.breakdown.isOmitted) continue;
+    const day = days.find((d) => d.endPosition >= strip.position);
+    if (!day) continue;
+    for (const { character } of strip.breakdown.cast) {
+      const entry = workDays.get(character.id) ?? {
+        number: character.number,
+        name: character.name,
+        days: new Set<number>(),
+      };
+      entry.days.add(day.dayNumber);
+      workDays.set(character.id, entry);
+    }
+  }
+  return workDays;
+}
+
+export function compareSchedules(a: CompareSchedule, b: CompareSchedule): ScheduleComparison {
+  const totalsA = computeScheduleTotals(a);
+  const totalsB = computeScheduleTotals(b);
+
+  const summary = (schedule: CompareSchedule, totals: typeof totalsA): VersionSummary => ({
+    id: schedule.id,
+    name: schedule.name,
+    dayCount: totals.days.length,
+    eighths: totals.eighths,
+    pages: totals.pages,
+  });
+
+  const dayCount = Math.max(totalsA.days.length, totalsB.days.length);
+  const days: DayComparison[] = Array.from({ length: dayCount }, (_, index) => {
+    const dayA = totalsA.days[index] ?? null;
+    const dayB = totalsB.days[index] ?? null;
+    return {
+      dayNumber: index + 1,
+      a: dayA,
+      b: dayB,
+      eighthsDelta: (dayB?.eighths ?? 0) - (dayA?.eighths ?? 0),
+    };
+  });
+
+  const workA = castWorkDays(a, totalsA.days);
+  const workB = castWorkDays(b, totalsB.days);
+  const cast = [...new Set([...workA.keys(), ...workB.keys()])]
+    .map((characterId) => {
+      const info = (workA.get(characterId) ?? workB.get(characterId))!;
+      return {
+        characterId,
+        number: info.number,
+        name: info.name,
+        aDays: workA.get(characterId)?.days.size ?? 0,
+        bDays: workB.get(characterId)?.days.size ?? 0,
+      };
+    })
+    .sort((x, y) => x.number - y.number);
+
+  return {
+    a: summary(a, totalsA),
+    b: summary(b, totalsB),
+    days,
+    cast,
+  };
+}
+
+// Signed page difference for display, e.g. "+1 2/8" or "-3/8"
+export function formatEighthsDelta(eighths: number): string {
+  if (eighths === 0) return "—";
+  return `${eighths > 0 ? "+" : "-"}${formatPageCount(Math.abs(eighths))}`;
+}
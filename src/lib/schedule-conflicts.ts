@@ -0,0 +1,306 @@
+/**
+ * Scheduling constraints and the checker that reports which ones a schedule
+ * version breaks. Conflicts are computed on the server with the schedule's
+ * totals, so they are re-checked whenever the board changes.
+ */
+
+import type { ConstraintType } from "@prisma/client";
+import { formatPageCount, parsePageCount } from "./page-count";
+import type { ScheduleTotals } from "./schedule-totals";
+
+export const CONSTRAINT_TYPE_LABELS: Record<ConstraintType, string> = {
+  CAST_AVAILABILITY: "Cast availability",
+  LOCATION_AVAILABILITY: "Location availability",
+  SCENE_ORDER: "Scene order",
+  NIGHT_REQUIRED: "Needs a night",
+  MAX_PAGES_PER_DAY: "Max pages per day",
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface ConflictConstraint {
+  id: string;
+  type: ConstraintType;
+  characterId: string | null;
+  location: string | null;
+  breakdownId: string | null;
+  laterBreakdownId: string | null;
+  dates: (Date | string)[];
+  weekdays: number[];
+  maxEighths: number | null;
+}
+
+interface ConflictStrip {
+  position: number;
+  breakdown: {
+    id: string;
+    sceneNumbers: string;
+    location: string | null;
+    dayNight: string | null;
+    isOmitted?: boolean;
+    cast: { character: { id: string; number: number; name: string } }[];
+  };
+}
+
+export interface ScheduleConflict {
+  constraintId: string;
+  type: ConstraintType;
+  dayNumber: number | null;
+  breakdownIds: string[]; // The strips to flag on the board
+  message: string;
+}
+
+export interface ConflictReport {
+  conflicts: ScheduleConflict[];
+  // Availability constraints on days with no shoot date can't be checked
+  uncheckedDays: number;
+}
+
+function toDateKey(date: Date | string): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+function formatDateKey(dateKey: string): string {
+  return new Date(`${dateKey}T00:00:00.000Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function sameLocation(a: string | null, b: string | null) {
+  return !!a && !!b && a.trim().toUpperCase() === b.trim().toUpperCase();
+}
+
+function availableOn(constraint: ConflictConstraint, dateKey: string) {
+  const weekday = new Date(`${dateKey}T00:00:00.000Z`).getUTCDay();
+  return (
+    constraint.dates.some((date) => toDateKey(date) === dateKey) ||
+    constraint.weekdays.includes(weekday)
+  );
+}
+
+function sceneList(strips: ConflictStrip[]) {
+  return strips.map((s) => s.breakdown.sceneNumbers).join(", ");
+}
+
+/**
+ * Check every constraint against the schedule. Each broken constraint gives
+ * one conflict per shoot day it is broken on.
+ */
+export function findScheduleConflicts(
+  schedule: { stripSlots: ConflictStrip[] },
+  totals: ScheduleTotals,
+  constraints: ConflictConstraint[]
+): ConflictReport {
+  const strips = [...schedule.stripSlots]
+    .filter((s) => !s.breakdown.isOmitted)
+    .sort((a, b) => a.position - b.position);
+
+  // Group the strips by the shoot day they fall on
+  const days = totals.days.map((day) => ({ ...day, strips: [] as ConflictStrip[] }));
+  const stripDay = new Map<string, (typeof days)[number]>();
+  for (const strip of strips) {
+    const day = days.find((d) => d.endPosition >= strip.position);
+    if (!day) continue;
+    day.strips.push(strip);
+    stripDay.set(strip.breakdown.id, day);
+  }
+
+  const conflicts: ScheduleConflict[] = [];
+  const uncheckedDays = new Set<number>();
+
+  // Availability: the matching strips may only fall on allowed dates
+  const checkAvailability = (
+    constraint: ConflictConstraint,
+    matches: (strip: ConflictStrip) => boolean,
+    subject: string
+  ) => {
+    for (const day of days) {
+      const matching = day.strips.filter(matches);
+      if (matching.length === 0) continue;
+      if (!day.shootDate) {
+        uncheckedDays.add(day.dayNumber);
+        continue;
+      }
+      if (availableOn(constraint, day.shootDate)) continue;
+      conflicts.push({
+        constraintId: constraint.id,
+        type: constraint.type,
+        dayNumber: day.dayNumber,
+        breakdownIds: matching.map((s) => s.breakdown.id),
+        message: `${subject} is not available on ${formatDateKey(day.shootDate)} (Day ${day.dayNumber}, scene ${sceneList(matching)})`,
+      });
+    }
+  };
+
+  for (const constraint of constraints) {
+    switch (constraint.type) {
+      case "CAST_AVAILABILITY": {
+        const character = strips
+          .flatMap((s) => s.breakdown.cast.map((c) => c.character))
+          .find((c) => c.id === constraint.characterId);
+        if (!character) break;
+        checkAvailability(
+          constraint,
+          (s) => s.breakdown.cast.some((c) => c.character.id === character.id),
+          `${character.number}. ${character.name}`
+        );
+        break;
+      }
+
+      case "LOCATION_AVAILABILITY":
+        checkAvailability(
+          constraint,
+          (s) => sameLocation(s.breakdown.location, constraint.location),
+          constraint.location || "The location"
+        );
+        break;
+
+      case "SCENE_ORDER": {
+        const first = strips.find((s) => s.breakdown.id === constraint.breakdownId);
+        const later = strips.find((s) => s.breakdown.id === constraint.laterBreakdownId);
+        if (!first || !later || first.position < later.position) break;
+        conflicts.push({
+          constraintId: constraint.id,
+          type: constraint.type,
+          dayNumber: stripDay.get(first.breakdown.id)?.dayNumber ?? null,
+          breakdownIds: [first.breakdown.id, later.breakdown.id],
+          message: `Scene ${first.breakdown.sceneNumbers} must shoot before scene ${later.breakdown.sceneNumbers}`,
+        });
+        break;
+      }
+
+      case "NIGHT_REQUIRED": {
+        const day = constraint.breakdownId ? stripDay.get(constraint.breakdownId) : undefined;
+        if (!day) break;
+        const dayWork = day.strips.filter((s) => s.breakdown.dayNight === "DAY");
+        if (dayWork.length === 0) break;
+        const scene = day.strips.find((s) => s.breakdown.id === constraint.breakdownId)!;
+        conflicts.push({
+          constraintId: constraint.id,
+          type: constraint.type,
+          dayNumber: day.dayNumber,
+          breakdownIds: [scene.breakdown.id],
+          message: `Scene ${scene.breakdown.sceneNumbers} needs a night, but Day ${day.dayNumber} has day work (scene ${sceneList(dayWork)})`,
+        });
+        break;
+      }
+
+      case "MAX_PAGES_PER_DAY":
+        if (constraint.maxEighths === null) break;
+        for (const day of days) {
+          if (day.eighths <= constraint.maxEighths) continue;
+          conflicts.push({
+            constraintId: constraint.id,
+            type: constraint.type,
+            dayNumber: day.dayNumber,
+            breakdownIds: day.strips.map((s) => s.breakdown.id),
+            message: `Day ${day.dayNumber} has ${day.pages} pages, over the ${formatPageCount(constraint.maxEighths)} page limit`,
+          });
+        }
+        break;
+    }
+  }
+
+  conflicts.sort((a, b) => (a.dayNumber ?? Infinity) - (b.dayNumber ?? Infinity));
+  return { conflicts, uncheckedDays: uncheckedDays.size };
+}
+
+export interface ConstraintInput {
+  type: ConstraintType;
+  characterId: string | null;
+  location: string | null;
+  breakdownId: string | null;
+  laterBreakdownId: string | null;
+  dates: Date[];
+  weekdays: number[];
+  maxEighths: number | null;
+  notes: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a constraint from a request body and keep only the fields its type
+ * uses. `maxPages` is a page count such as "5" or "4 4/8".
+ */
+export function parseConstraintInput(
+  value: unknown
+): { ok: true; constraint: ConstraintInput } | { ok: false; error: string } {
+  const body = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const type = body.type as ConstraintType;
+  if (!Object.keys(CONSTRAINT_TYPE_LABELS).includes(type)) {
+    return { ok: false, error: `type must be one of ${Object.keys(CONSTRAINT_TYPE_LABELS).join(", ")}` };
+  }
+
+  const constraint: ConstraintInput = {
+    type,
+    characterId: null,
+    location: null,
+    breakdownId: null,
+    laterBreakdownId: null,
+    dates: [],
+    weekdays: [],
+    maxEighths: null,
+    notes: typeof body.notes === "string" && body.notes.trim() ? body.notes.trim() : null,
+  };
+
+  if (type === "CAST_AVAILABILITY" || type === "LOCATION_AVAILABILITY") {
+    const dates = body.dates ?? [];
+    if (!Array.isArray(dates) || dates.some((d) => typeof d !== "string" || !DATE_PATTERN.test(d))) {
+      return { ok: false, error: "dates must be a list of YYYY-MM-DD dates" };
+    }
+    const weekdays = body.weekdays ?? [];
+    if (!Array.isArray(weekdays) || weekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return { ok: false, error: "weekdays must be numbers from 0 (Sunday) to 6 (Saturday)" };
+    }
+    if (dates.length === 0 && weekdays.length === 0) {
+      return { ok: false, error: "Give at least one available date or weekday" };
+    }
+    constraint.dates = [...new Set(dates as string[])].sort().map((d) => new Date(`${d}T00:00:00.000Z`));
+    constraint.weekdays = [...new Set(weekdays as number[])].sort();
+  }
+
+  if (type === "CAST_AVAILABILITY") {
+    if (typeof body.characterId !== "string" || !body.characterId) {
+      return { ok: false, error: "characterId is required" };
+    }
+    constraint.characterId = body.characterId;
+  }
+
+  if (type === "LOCATION_AVAILABILITY") {
+    if (typeof body.location !== "string" || !body.location.trim()) {
+      return { ok: false, error: "location is required" };
+    }
+    constraint.location = body.location.trim();
+  }
+
+  if (type === "SCENE_ORDER" || type === "NIGHT_REQUIRED") {
+    if (typeof body.breakdownId !== "string" || !body.breakdownId) {
+      return { ok: false, error: "breakdownId is required" };
+    }
+    constraint.breakdownId = body.breakdownId;
+  }
+
+  if (type === "SCENE_ORDER") {
+    if (typeof body.laterBreakdownId !== "string" || !body.laterBreakdownId) {
+      return { ok: false, error: "laterBreakdownId is required" };
+    }
+    if (body.laterBreakdownId === body.breakdownId) {
+      return { ok: false, error: "A scene can't be ordered against itself" };
+    }
+    constraint.laterBreakdownId = body.laterBreakdownId;
+  }
+
+  if (type === "MAX_PAGES_PER_DAY") {
+    const eighths = typeof body.maxPages === "string" ? parsePageCount(body.maxPages) : null;
+    if (!eighths) {
+      return { ok: false, error: "maxPages must be a page count such as 5 or 4 4/8" };
+    }
+    constraint.maxEighths = eighths;
+  }
+
+  return { ok: true, constraint };
+}
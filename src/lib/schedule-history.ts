@@ -0,0 +1,356 @@
+/**
+ * Undo and redo for a schedule version's board. Each edit stores a snapshot
+ * of the board before and after it, with a description such as "Moved Sc. 12
+ * to Day 3". Undo puts the before snapshot back and redo the after one.
+ * Breakdown sheets aren't part of the board, so edits to the sheets
+ * themselves are not undone: a deleted sheet stays deleted, and a strip added
+ * since the edit stays on the board.
+ */
+
+import type { BannerType, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { renumberDayBreaks } from "./strip-board";
+import { syncShootDates } from "./working-calendar";
+
+// Older entries are dropped once a schedule has this many
+const MAX_OPERATIONS = 100;
+
+export type BoardSnapshot = {
+  strips: { id: string; breakdownId: string; sceneNumbers: string }[]; // Board order
+  dayBreaks: {
+    id: string;
+    afterStripId: string;
+    dayNumber: number;
+    shootDate: string | null;
+    notes: string | null;
+  }[];
+  banners: {
+    id: string;
+    afterStripId: string | null;
+    sortOrder: number;
+    label: string;
+    bannerType: BannerType;
+  }[];
+};
+
+export interface HistorySummary {
+  undo: string | null; // Description of the edit undo would revert
+  redo: string | null;
+}
+
+async function takeSnapshot(tx: Prisma.TransactionClient, scheduleId: string): Promise<BoardSnapshot> {
+  const [strips, dayBreaks, banners] = await Promise.all([
+    tx.stripSlot.findMany({
+      where: { scheduleId },
+      orderBy: { position: "asc" },
+      select: { id: true, breakdownId: true, breakdown: { select: { sceneNumbers: true } } },
+    }),
+    tx.dayBreak.findMany({ where: { scheduleId }, orderBy: { id: "asc" } }),
+    tx.bannerStrip.findMany({ where: { scheduleId }, orderBy: { id: "asc" } }),
+  ]);
+
+  return {
+    strips: strips.map((s) => ({
+      id: s.id,
+      breakdownId: s.breakdownId,
+      sceneNumbers: s.breakdown.sceneNumbers,
+    })),
+    dayBreaks: dayBreaks.map((db) => ({
+      id: db.id,
+      afterStripId: db.afterStripId,
+      dayNumber: db.dayNumber,
+      shootDate: db.shootDate?.toISOString() ?? null,
+      notes: db.notes,
+    })),
+    banners: banners.map((b) => ({
+      id: b.id,
+      afterStripId: b.afterStripId,
+      sortOrder: b.sortOrder,
+      label: b.label,
+      bannerType: b.bannerType,
+    })),
+  };
+}
+
+/**
+ * "Sc. 12" for one scene, "Sc. 12, 14" for a few, "5 scenes" for more.
+ */
+export function describeScenes(sceneNumbers: string[]): string {
+  if (sceneNumbers.length > 3) return `${sceneNumbers.length} scenes`;
+  return `Sc. ${sceneNumbers.join(", ")}`;
+}
+
+/**
+ * "Day 3" for the day a strip shoots on, or the end of the board after the
+ * last day break.
+ */
+export function describeDay(board: BoardSnapshot, stripId: string): string {
+  const index = board.strips.findIndex((s) => s.id === stripId);
+  const endsDay = board.dayBreaks.filter(
+    (db) => board.strips.findIndex((s) => s.id === db.afterStripId) >= index
+  );
+  if (endsDay.length === 0) return "the end of the board";
+  return `Day ${Math.min(...endsDay.map((db) => db.dayNumber))}`;
+}
+
+/**
+ * Strips that moved relative to the rest: everything outside the longest run
+ * that kept its order.
+ */
+function movedStrips(before: BoardSnapshot, after: BoardSnapshot) {
+  const oldIndex = new Map(before.strips.map((s, index) => [s.id, index]));
+  const kept = after.strips.filter((s) => oldIndex.has(s.id));
+
+  // Longest increasing subsequence of old indexes, by patience sorting
+  const tails: number[] = [];
+  const previous: number[] = [];
+  kept.forEach((strip, i) => {
+    const value = oldIndex.get(strip.id)!;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (oldIndex.get(kept[tails[mid]].id)! < value) low = mid + 1;
+      else high = mid;
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+  const inOrder = new Set<string>();
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = previous[i]) {
+    inOrder.add(kept[i].id);
+  }
+
+  return kept.filter((s) => !inOrder.has(s.id));
+}
+
+/**
+ * Describe a rearranged board by what moved: strips first, then day breaks,
+ * then banners.
+ */
+export function describeArrangement(before: BoardSnapshot, after: BoardSnapshot): string {
+  const moved = movedStrips(before, after);
+  if (moved.length > 0) {
+    const scenes = describeScenes(moved.map((s) => s.sceneNumbers));
+    return `Moved ${scenes} to ${describeDay(after, moved[0].id)}`;
+  }
+
+  for (const db of before.dayBreaks) {
+    const now = after.dayBreaks.find((d) => d.id === db.id);
+    if (!now) return `Removed the Day ${db.dayNumber} break`;
+    if (now.afterStripId !== db.afterStripId) return `Moved the Day ${db.dayNumber} break`;
+  }
+
+  for (const banner of before.banners) {
+    const now = after.banners.find((b) => b.id === banner.id);
+    if (now && (now.afterStripId !== banner.afterStripId || now.sortOrder !== banner.sortOrder)) {
+      return `Moved the "${banner.label}" banner`;
+    }
+  }
+
+  return "Rearranged the board";
+}
+
+/**
+ * Run a board edit and log it for undo. The description may be worked out
+ * from the board before and after the edit. Edits that leave the board as it
+ * was aren't logged; any other edit clears what could be redone. Shoot dates
+ * are worked out again after every edit.
+ */
+export async function recordBoardChange<T>(
+  tx: Prisma.TransactionClient,
+  { scheduleId, userId }: { scheduleId: string; userId: string },
+  describe: string | ((before: BoardSnapshot, after: BoardSnapshot) => string),
+  change: () => Promise<T>
+): Promise<T> {
+  const before = await takeSnapshot(tx, scheduleId);
+  const result = await change();
+  await syncShootDates(tx, scheduleId);
+  const after = await takeSnapshot(tx, scheduleId);
+  if (JSON.stringify(before) === JSON.stringify(after)) return result;
+
+  await tx.scheduleOperation.deleteMany({ where: { scheduleId, isUndone: true } });
+  await tx.scheduleOperation.create({
+    data: {
+      scheduleId,
+      userId,
+      description: typeof describe === "string" ? describe : describe(before, after),
+      before,
+      after,
+    },
+  });
+
+  const stale = await tx.scheduleOperation.findMany({
+    where: { scheduleId },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_OPERATIONS,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await tx.scheduleOperation.deleteMany({ where: { id: { in: stale.map((op) => op.id) } } });
+  }
+
+  return result;
+}
+
+/**
+ * Lay the board out as a snapshot, keeping strip, day break and banner IDs.
+ * Strips whose sheet has since been deleted are left out, and their day
+ * breaks and banners fall back to the strip before them, as when a strip is
+ * removed. Strips on the board that the operation never saw were added
+ * since, and stay after the strip they follow now, in its day.
+ */
+async function restoreSnapshot(
+  tx: Prisma.TransactionClient,
+  scheduleId: string,
+  target: BoardSnapshot,
+  operation: { before: BoardSnapshot; after: BoardSnapshot }
+) {
+  const seen = new Set(
+    [...operation.before.strips, ...operation.after.strips].map((s) => s.breakdownId)
+  );
+  const [current, currentDayBreaks, sheets] = await Promise.all([
+    tx.stripSlot.findMany({ where: { scheduleId }, orderBy: { position: "asc" } }),
+    tx.dayBreak.findMany({ where: { scheduleId }, select: { afterStripId: true } }),
+    tx.breakdownSheet.findMany({
+      where: { id: { in: target.strips.map((s) => s.breakdownId) } },
+      select: { id: true },
+    }),
+  ]);
+  const existing = new Set(sheets.map((sheet) => sheet.id));
+  const strips: { id: string; breakdownId: string }[] = target.strips.filter((s) =>
+    existing.has(s.breakdownId)
+  );
+  const added = new Map<string, string | null>(); // Strip added since to the strip it now follows
+  current.forEach((strip, index) => {
+    if (seen.has(strip.breakdownId)) return;
+    const previous = current
+      .slice(0, index)
+      .reverse()
+      .find((s) => strips.some((placed) => placed.id === s.id));
+    const at = previous ? strips.findIndex((placed) => placed.id === previous.id) + 1 : 0;
+    strips.splice(at, 0, strip);
+    added.set(strip.id, previous?.id ?? null);
+  });
+  const stripIds = new Set(strips.map((s) => s.id));
+
+  // The nearest strip at or before this one in the snapshot that is still on the board
+  const anchorFor = (stripId: string) => {
+    const index = target.strips.findIndex((s) => s.id === stripId);
+    const anchor = target.strips
+      .slice(0, index + 1)
+      .reverse()
+      .find((s) => stripIds.has(s.id));
+    return anchor?.id ?? null;
+  };
+
+  // A day break whose strip is gone moves back a strip, unless that one
+  // already ends a day
+  const endsDay = new Set(
+    target.dayBreaks.filter((db) => stripIds.has(db.afterStripId)).map((db) => db.afterStripId)
+  );
+  const dayBreaks = target.dayBreaks.flatMap((db) => {
+    if (stripIds.has(db.afterStripId)) return [{ ...db }];
+    const afterStripId = anchorFor(db.afterStripId);
+    if (!afterStripId || endsDay.has(afterStripId)) return [];
+    endsDay.add(afterStripId);
+    return [{ ...db, afterStripId }];
+  });
+
+  // A strip added since stays in the same day as the strip it follows
+  const endedDayBefore = new Set(currentDayBreaks.map((db) => db.afterStripId));
+  for (const [stripId, previousId] of added) {
+    if (!previousId || endedDayBefore.has(previousId)) continue;
+    const dayBreak = dayBreaks.find((db) => db.afterStripId === previousId);
+    if (dayBreak) dayBreak.afterStripId = stripId;
+  }
+
+  // Day breaks go with their strips
+  await tx.bannerStrip.deleteMany({ where: { scheduleId } });
+  await tx.stripSlot.deleteMany({ where: { scheduleId } });
+
+  await tx.stripSlot.createMany({
+    data: strips.map((s, index) => ({
+      id: s.id,
+      scheduleId,
+      breakdownId: s.breakdownId,
+      position: index + 1,
+    })),
+  });
+  await tx.dayBreak.createMany({
+    data: dayBreaks.map((db) => ({
+      ...db,
+      scheduleId,
+      shootDate: db.shootDate ? new Date(db.shootDate) : null,
+    })),
+  });
+  await tx.bannerStrip.createMany({
+    data: target.banners.map((b) => ({
+      ...b,
+      scheduleId,
+      afterStripId: b.afterStripId ? anchorFor(b.afterStripId) : null,
+    })),
+  });
+
+  await renumberDayBreaks(tx, scheduleId);
+  await syncShootDates(tx, scheduleId);
+}
+
+/**
+ * Revert the latest edit that hasn't been undone. Returns its description,
+ * or null if there is nothing to undo.
+ */
+export async function undoOperation(tx: Prisma.TransactionClient, scheduleId: string) {
+  const operation = await tx.scheduleOperation.findFirst({
+    where: { scheduleId, isUndone: false },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!operation) return null;
+
+  const snapshots = {
+    before: operation.before as unknown as BoardSnapshot,
+    after: operation.after as unknown as BoardSnapshot,
+  };
+  await restoreSnapshot(tx, scheduleId, snapshots.before, snapshots);
+  await tx.scheduleOperation.update({ where: { id: operation.id }, data: { isUndone: true } });
+  return operation.description;
+}
+
+/**
+ * Reapply the earliest undone edit. Returns its description, or null if
+ * there is nothing to redo.
+ */
+export async function redoOperation(tx: Prisma.TransactionClient, scheduleId: string) {
+  const operation = await tx.scheduleOperation.findFirst({
+    where: { scheduleId, isUndone: true },
+    orderBy: { createdAt: "asc" },
+  });
+  if (!operation) return null;
+
+  const snapshots = {
+    before: operation.before as unknown as BoardSnapshot,
+    after: operation.after as unknown as BoardSnapshot,
+  };
+  await restoreSnapshot(tx, scheduleId, snapshots.after, snapshots);
+  await tx.scheduleOperation.update({ where: { id: operation.id }, data: { isUndone: false } });
+  return operation.description;
+}
+
+/**
+ * What undo and redo would do next, shown on the board's buttons.
+ */
+export async function getHistorySummary(scheduleId: string): Promise<HistorySummary> {
+  const [undo, redo] = await Promise.all([
+    prisma.scheduleOperation.findFirst({
+      where: { scheduleId, isUndone: false },
+      orderBy: { createdAt: "desc" },
+      select: { description: true },
+    }),
+    prisma.scheduleOperation.findFirst({
+      where: { scheduleId, isUndone: true },
+      orderBy: { createdAt: "asc" },
+      select: { description: true },
+    }),
+  ]);
+  return { undo: undo?.description ?? null, redo: redo?.description ?? null };
+}
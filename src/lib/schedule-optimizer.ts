@@ -0,0 +1,371 @@
+/**
+ * Auto-schedule: propose a strip order and day breaks for a schedule version.
+ * Scenes are grouped by location and INT/EXT, night work is kept together at
+ * the end of the shoot, and groups are chained so cast members work
+ * consecutive days rather than waiting on hold. Days are filled up to a page
+ * or camera-setup budget. The result depends only on the input, so the same
+ * board always gets the same proposal.
+ */
+
+import { EIGHTHS_PER_PAGE, formatPageCount, sheetEighths } from "./page-count";
+import { DEFAULT_SHEET_SETUPS } from "./shooting-time";
+
+export type OptimizeBudget = "pages" | "setups";
+
+export interface OptimizeOptions {
+  budget: OptimizeBudget;
+  perDay: number; // Pages or setups per shoot day
+}
+
+export const DEFAULT_PAGES_PER_DAY = 5;
+export const DEFAULT_SETUPS_PER_DAY = 25;
+
+export interface OptimizeSheet {
+  id: string;
+  sceneNumbers: string;
+  location: string | null;
+  intExt: string | null;
+  dayNight: string | null;
+  pageCount: string | null;
+  pageEighths?: number | null;
+  cameraSetups: number | null;
+  isOmitted: boolean;
+  sortOrder: number;
+  cast: { characterId: string }[];
+}
+
+export interface OptimizeStrip {
+  position: number;
+  breakdown: OptimizeSheet;
+}
+
+export interface ProposedDay {
+  dayNumber: number;
+  breakdownIds: string[];
+  sceneNumbers: string[];
+  locations: string[];
+  eighths: number;
+  pages: string;
+  setups: number;
+  isNight: boolean;
+}
+
+export interface CastSpan {
+  characterId: string;
+  firstDay: number;
+  lastDay: number;
+  workDays: number;
+  holdDays: number;
+}
+
+export interface ScheduleSummary {
+  dayCount: number;
+  holdDays: number; // Summed over all cast
+  castSpans: CastSpan[];
+}
+
+export interface OptimizeProposal {
+  options: OptimizeOptions;
+  order: string[]; // Breakdown IDs in proposed strip order
+  dayBreaks: number[]; // Proposed afterPosition of each day break
+  days: ProposedDay[];
+  current: ScheduleSummary;
+  proposed: ScheduleSummary;
+  missingSetups: number; // Sheets counted as one setup because they have none
+}
+
+interface SceneGroup {
+  key: string;
+  location: string;
+  isNight: boolean;
+  sheets: OptimizeSheet[];
+  castIds: Set<string>;
+  firstSortOrder: number;
+  eighths: number;
+}
+
+function isNight(sheet: OptimizeSheet) {
+  return sheet.dayNight === "NIGHT";
+}
+
+function normalizeLocation(location: string | null) {
+  return (location || "").trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+function sheetCost(sheet: OptimizeSheet, budget: OptimizeBudget) {
+  return budget === "pages"
+    ? sheetEighths(sheet)
+    : sheet.cameraSetups ?? DEFAULT_SHEET_SETUPS;
+}
+
+// Stable comparison so ties never depend on database order
+function compareSheets(a: OptimizeSheet, b: OptimizeSheet) {
+  return a.sortOrder - b.sortOrder || a.sceneNumbers.localeCompare(b.sceneNumbers) || a.id.localeCompare(b.id);
+}
+
+function groupScenes(sheets: OptimizeSheet[]): SceneGroup[] {
+  const groups = new Map<string, SceneGroup>();
+
+  for (const sheet of [...sheets].sort(compareSheets)) {
+    const location = normalizeLocation(sheet.location);
+    const key = `${isNight(sheet) ? "N" : "D"}|${sheet.intExt || ""}|${location}`;
+    const group = groups.get(key) ?? {
+      key,
+      location,
+      isNight: isNight(sheet),
+      sheets: [],
+      castIds: new Set<string>(),
+      firstSortOrder: sheet.sortOrder,
+      eighths: 0,
+    };
+    group.sheets.push(sheet);
+    sheet.cast.forEach(({ characterId }) => group.castIds.add(characterId));
+    group.eighths += sheetEighths(sheet);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
+
+function sharedCast(a: Set<string>, b: Set<string>) {
+  let count = 0;
+  b.forEach((id) => a.has(id) && count++);
+  return count;
+}
+
+// Largest groups first, so they are tried first as the start of a chain
+function sortGroups(groups: SceneGroup[]): SceneGroup[] {
+  return [...groups].sort(
+    (a, b) => b.eighths - a.eighths || a.firstSortOrder - b.firstSortOrder || a.key.localeCompare(b.key)
+  );
+}
+
+/**
+ * Chain groups from `groups[start]` so each one shares as much cast as
+ * possible with the one before it, preferring the same location (an INT/EXT
+ * pair) and then script order.
+ */
+function chainGroups(groups: SceneGroup[], start: number): SceneGroup[] {
+  const remaining = [...groups];
+  const chain: SceneGroup[] = [remaining.splice(start, 1)[0]];
+
+  while (remaining.length > 0) {
+    const previous = chain[chain.length - 1];
+    let bestIndex = 0;
+    let best = { shared: -1, sameLocation: false, sortOrder: Infinity };
+    remaining.forEach((group, index) => {
+      const candidate = {
+        shared: sharedCast(previous.castIds, group.castIds),
+        sameLocation: group.location === previous.location,
+        sortOrder: group.firstSortOrder,
+      };
+      const better =
+        candidate.shared > best.shared ||
+        (candidate.shared === best.shared &&
+          ((candidate.sameLocation && !best.sameLocation) ||
+            (candidate.sameLocation === best.sameLocation && candidate.sortOrder < best.sortOrder)));
+      if (better) {
+        best = candidate;
+        bestIndex = index;
+      }
+    });
+    chain.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return chain;
+}
+
+/**
+ * Work days, first and last day of each character given the day every
+ * breakdown falls on. Days between the first and last that they don't work
+ * are hold days.
+ */
+export function summarizeDays(
+  dayOfBreakdown: Map<string, number>,
+  sheets: OptimizeSheet[]
+): ScheduleSummary {
+  const worked = new Map<string, Set<number>>();
+  for (const sheet of sheets) {
+    const day = dayOfBreakdown.get(sheet.id);
+    if (day === undefined) continue;
+    for (const { characterId } of sheet.cast) {
+      const days = worked.get(characterId) ?? new Set<number>();
+      days.add(day);
+      worked.set(characterId, days);
+    }
+  }
+
+  const castSpans = [...worked.entries()]
+    .map(([characterId, days]) => {
+      const firstDay = Math.min(...days);
+      const lastDay = Math.max(...days);
+      return {
+        characterId,
+        firstDay,
+        lastDay,
+        workDays: days.size,
+        holdDays: lastDay - firstDay + 1 - days.size,
+      };
+    })
+    .sort((a, b) => a.firstDay - b.firstDay || a.characterId.localeCompare(b.characterId));
+
+  return {
+    dayCount: new Set(dayOfBreakdown.values()).size,
+    holdDays: castSpans.reduce((sum, span) => sum + span.holdDays, 0),
+    castSpans,
+  };
+}
+
+// Day of each scheduled breakdown on the current board
+function currentDays(strips: OptimizeStrip[], dayBreakPositions: number[]) {
+  const breaks = new Set(dayBreakPositions);
+  const dayOf = new Map<string, number>();
+  let day = 1;
+  for (const strip of [...strips].sort((a, b) => a.position - b.position)) {
+    if (!strip.breakdown.isOmitted) dayOf.set(strip.breakdown.id, day);
+    if (breaks.has(strip.position)) day++;
+  }
+  return dayOf;
+}
+
+// Fill each day up to the budget; a day never mixes day and night work
+function fillDays(chain: SceneGroup[], options: OptimizeOptions): ProposedDay[] {
+  const capacity =
+    options.budget === "pages" ? Math.round(options.perDay * EIGHTHS_PER_PAGE) : options.perDay;
+  const days: ProposedDay[] = [];
+  let day: ProposedDay | null = null;
+  let used = 0;
+
+  for (const group of chain) {
+    for (const sheet of group.sheets) {
+      const cost = sheetCost(sheet, options.budget);
+      const full = day && day.breakdownIds.length > 0 && used + cost > capacity;
+      if (!day || full || day.isNight !== group.isNight) {
+        day = {
+          dayNumber: days.length + 1,
+          breakdownIds: [],
+          sceneNumbers: [],
+          locations: [],
+          eighths: 0,
+          pages: "0",
+          setups: 0,
+          isNight: group.isNight,
+        };
+        days.push(day);
+        used = 0;
+      }
+      day.breakdownIds.push(sheet.id);
+      day.sceneNumbers.push(sheet.sceneNumbers);
+      if (group.location && !day.locations.includes(group.location)) {
+        day.locations.push(group.location);
+      }
+      day.eighths += sheetEighths(sheet);
+      day.setups += sheet.cameraSetups ?? DEFAULT_SHEET_SETUPS;
+      used += cost;
+    }
+  }
+
+  days.forEach((d) => (d.pages = formatPageCount(d.eighths)));
+  return days;
+}
+
+function dayMap(days: ProposedDay[]) {
+  const dayOf = new Map<string, number>();
+  days.forEach((d) => d.breakdownIds.forEach((id) => dayOf.set(id, d.dayNumber)));
+  return dayOf;
+}
+
+/**
+ * Try every group as the start of the chain and keep the chain whose plan has
+ * the fewest hold days, then the fewest shoot days. Ties keep the larger
+ * starting group.
+ */
+function bestChain(
+  groups: SceneGroup[],
+  plan: (chain: SceneGroup[]) => ProposedDay[],
+  sheets: OptimizeSheet[]
+): SceneGroup[] {
+  let best: SceneGroup[] = [];
+  let bestHolds = Infinity;
+  let bestDays = Infinity;
+
+  groups.forEach((_, start) => {
+    const chain = chainGroups(groups, start);
+    const days = plan(chain);
+    const { holdDays } = summarizeDays(dayMap(days), sheets);
+    if (holdDays < bestHolds || (holdDays === bestHolds && days.length < bestDays)) {
+      best = chain;
+      bestHolds = holdDays;
+      bestDays = days.length;
+    }
+  });
+  return best;
+}
+
+export function optimizeSchedule(
+  strips: OptimizeStrip[],
+  dayBreakPositions: number[],
+  options: OptimizeOptions
+): OptimizeProposal {
+  const sheets = strips.map((s) => s.breakdown);
+  const active = sheets.filter((s) => !s.isOmitted);
+  // OMITTED placeholders are kept, after the last shoot day
+  const omitted = sheets.filter((s) => s.isOmitted).sort(compareSheets);
+
+  const groups = groupScenes(active);
+  const dayGroups = sortGroups(groups.filter((g) => !g.isNight));
+  const nightGroups = sortGroups(groups.filter((g) => g.isNight));
+
+  const firstNightChain = nightGroups.length > 0 ? chainGroups(nightGroups, 0) : [];
+  const dayChain = bestChain(
+    dayGroups,
+    (chain) => fillDays([...chain, ...firstNightChain], options),
+    active
+  );
+  const nightChain = bestChain(
+    nightGroups,
+    (chain) => fillDays([...dayChain, ...chain], options),
+    active
+  );
+  const days = fillDays([...dayChain, ...nightChain], options);
+
+  const order = [...days.flatMap((d) => d.breakdownIds), ...omitted.map((s) => s.id)];
+
+  // A break after every day but the last
+  const dayBreaks: number[] = [];
+  let position = 0;
+  days.slice(0, -1).forEach((d) => {
+    position += d.breakdownIds.length;
+    dayBreaks.push(position);
+  });
+
+  return {
+    options,
+    order,
+    dayBreaks,
+    days,
+    current: summarizeDays(currentDays(strips, dayBreakPositions), active),
+    proposed: summarizeDays(dayMap(days), active),
+    missingSetups:
+      options.budget === "setups" ? active.filter((s) => s.cameraSetups == null).length : 0,
+  };
+}
+
+/**
+ * Check a budget from a request body, filling in the default for its kind.
+ */
+export function parseOptimizeOptions(
+  value: unknown
+): { ok: true; options: OptimizeOptions } | { ok: false; error: string } {
+  const body = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const budget = body.budget ?? "pages";
+  if (budget !== "pages" && budget !== "setups") {
+    return { ok: false, error: "budget must be pages or setups" };
+  }
+  const perDay =
+    body.perDay ?? (budget === "pages" ? DEFAULT_PAGES_PER_DAY : DEFAULT_SETUPS_PER_DAY);
+  if (typeof perDay !== "number" || !Number.isFinite(perDay) || perDay <= 0) {
+    return { ok: false, error: "perDay must be a positive number" };
+  }
+  return { ok: true, options: { budget, perDay } };
+}
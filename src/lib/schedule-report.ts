@@ -0,0 +1,73 @@
+/**
+ * Load a schedule version with everything its reports are built from: the
+ * project with its cast and breakdowns, the board with page totals dated from the working
+ * calendar, shooting-time estimates, the boneyard, and the Day Out of Days
+ * overrides. Used where reports are built on the server.
+ */
+
+import { prisma } from "./prisma";
+import { computeScheduleTotals } from "./schedule-totals";
+import { estimateShootingTime, TIME_MODEL_SELECT } from "./shooting-time";
+import { findBoneyard, scheduleWhere } from "./schedule-versions";
+import { ANCHOR_POSITION, withBoardPositions } from "./strip-board";
+import { planShootDates } from "./working-calendar";
+
+export async function loadScheduleReport(projectId: string, scheduleId: string | null) {
+  const found = await prisma.schedule.findFirst({
+    where: scheduleWhere(projectId, scheduleId),
+    include: {
+      stripSlots: {
+        orderBy: { position: "asc" },
+        include: {
+          breakdown: {
+            include: {
+              cast: {
+                include: { character: true },
+                orderBy: { character: { number: "asc" } },
+              },
+              elements: {
+                include: { element: true },
+                orderBy: { element: { name: "asc" } },
+              },
+            },
+          },
+        },
+      },
+      dayBreaks: { include: ANCHOR_POSITION },
+      banners: { include: ANCHOR_POSITION },
+    },
+  });
+  if (!found) return null;
+
+  const board = withBoardPositions(found);
+  const [project, holidays, boneyard, timeModel, overrides] = await Promise.all([
+    prisma.project.findUniqueOrThrow({
+      where: { id: projectId },
+      include: {
+        characters: { orderBy: { number: "asc" } },
+        breakdowns: {
+          orderBy: { sortOrder: "asc" },
+          omit: { scriptText: true },
+          include: { elements: { include: { element: true } } },
+        },
+      },
+    }),
+    prisma.projectHoliday.findMany({ where: { projectId }, orderBy: { date: "asc" } }),
+    findBoneyard(projectId, board.id),
+    prisma.project.findUniqueOrThrow({ where: { id: projectId }, select: TIME_MODEL_SELECT }),
+    prisma.doodOverride.findMany({ where: { projectId }, orderBy: { date: "asc" } }),
+  ]);
+  const totals = computeScheduleTotals(board, planShootDates(board, { ...board, holidays }).days);
+
+  return {
+    project,
+    schedule: {
+      ...board,
+      holidays,
+      totals,
+      timing: estimateShootingTime(board, totals, timeModel),
+      boneyard,
+    },
+    overrides,
+  };
+}
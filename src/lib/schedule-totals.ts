@@ -0,0 +1,157 @@
+/**
+ * Page totals for a schedule, computed once on the server and returned with
+ * the schedule so every view shows the same numbers.
+ */
+
+import { formatPageCount, sheetEighths } from "./page-count";
+
+// Shoot days per week when the schedule has no dates to group by
+const DAYS_PER_WEEK = 5;
+
+interface TotalsStrip {
+  position: number;
+  breakdown: {
+    pageCount: string | null;
+    pageEighths?: number | null;
+    isOmitted?: boolean;
+  };
+}
+
+interface TotalsDayBreak {
+  afterPosition: number;
+  shootDate: Date | string | null;
+}
+
+export interface DayTotal {
+  dayNumber: number; // 1-based, in board order
+  endPosition: number; // Position of the day's last strip
+  sceneCount: number;
+  eighths: number;
+  pages: string;
+  shootDate: string | null; // YYYY-MM-DD
+}
+
+export interface WeekTotal {
+  weekNumber: number;
+  firstDay: number;
+  lastDay: number;
+  eighths: number;
+  pages: string;
+}
+
+export interface ScheduleTotals {
+  sceneCount: number;
+  eighths: number;
+  pages: string;
+  days: DayTotal[];
+  weeks: WeekTotal[];
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addUtcDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+// Monday of the week containing the date, used to group shoot days into weeks
+function weekKey(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return toDateKey(addUtcDays(date, -daysSinceMonday));
+}
+
+/**
+ * Total the schedule's pages by day, by week and overall.
+ * A day runs from the strip after one day break to the next day break;
+ * strips after the last break make up the final day. Shoot dates come from
+ * the working calendar's plan when given (see lib/working-calendar), then
+ * the day break, otherwise consecutive days from the start date.
+ * OMITTED placeholders count toward no total.
+ */
+export function computeScheduleTotals(
+  schedule: {
+    startDate: Date | string | null;
+    stripSlots: TotalsStrip[];
+    dayBreaks: TotalsDayBreak[];
+  },
+  plannedDates?: (string | null)[]
+): ScheduleTotals {
+  const strips = [...schedule.stripSlots].sort((a, b) => a.position - b.position);
+  const breaksByPosition = new Map(
+    schedule.dayBreaks.map((db) => [db.afterPosition, db])
+  );
+  const startDate = schedule.startDate ? new Date(schedule.startDate) : null;
+
+  const days: DayTotal[] = [];
+  let eighths = 0;
+  let sceneCount = 0;
+
+  const closeDay = (endPosition: number, dayBreak: TotalsDayBreak | undefined) => {
+    const dayNumber = days.length + 1;
+    let shootDate: string | null = null;
+    if (plannedDates) {
+      shootDate = plannedDates[dayNumber - 1] ?? null;
+    } else if (dayBreak?.shootDate) {
+      shootDate = toDateKey(new Date(dayBreak.shootDate));
+    } else if (startDate) {
+      shootDate = toDateKey(addUtcDays(startDate, dayNumber - 1));
+    }
+    days.push({
+      dayNumber,
+      endPosition,
+      sceneCount,
+      eighths,
+      pages: formatPageCount(eighths),
+      shootDate,
+    });
+    eighths = 0;
+    sceneCount = 0;
+  };
+
+  strips.forEach((strip, index) => {
+    if (!strip.breakdown.isOmitted) {
+      eighths += sheetEighths(strip.breakdown);
+      sceneCount++;
+    }
+    const dayBreak = breaksByPosition.get(strip.position);
+    if (dayBreak || index === strips.length - 1) {
+      closeDay(strip.position, dayBreak);
+    }
+  });
+
+  // Group days into calendar weeks when dated, otherwise into blocks of shoot days
+  const weekKeys = days.map((day, index) =>
+    day.shootDate ? weekKey(day.shootDate) : `block-${Math.floor(index / DAYS_PER_WEEK)}`
+  );
+
+  const weeks: WeekTotal[] = [];
+  days.forEach((day, index) => {
+    if (index === 0 || weekKeys[index] !== weekKeys[index - 1]) {
+      weeks.push({
+        weekNumber: weeks.length + 1,
+        firstDay: day.dayNumber,
+        lastDay: day.dayNumber,
+        eighths: 0,
+        pages: "0",
+      });
+    }
+    const week = weeks[weeks.length - 1];
+    week.lastDay = day.dayNumber;
+    week.eighths += day.eighths;
+    week.pages = formatPageCount(week.eighths);
+  });
+
+  const totalEighths = days.reduce((sum, day) => sum + day.eighths, 0);
+
+  return {
+    sceneCount: days.reduce((sum, day) => sum + day.sceneCount, 0),
+    eighths: totalEighths,
+    pages: formatPageCount(totalEighths),
+    days,
+    weeks,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * A project keeps any number of named versions of its schedule. Schedule
+ * requests name a version with `?scheduleId=`; without one they act on the
+ * project's active version.
+ */
+
+import type { BannerType, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { syncShootDates } from "./working-calendar";
+
+export function scheduleWhere(
+  projectId: string,
+  scheduleId: string | null
+): Prisma.ScheduleWhereInput {
+  return scheduleId ? { id: scheduleId, projectId } : { projectId, isActive: true };
+}
+
+export function findSchedule(projectId: string, scheduleId: string | null) {
+  return prisma.schedule.findFirst({
+    where: scheduleWhere(projectId, scheduleId),
+  });
+}
+
+export interface VersionBoard {
+  order: string[]; // Breakdown IDs in strip order
+  dayBreaks: {
+    afterBreakdownId: string;
+    dayNumber: number;
+    shootDate?: Date | null;
+    notes?: string | null;
+  }[];
+  banners: {
+    afterBreakdownId: string | null;
+    sortOrder: number;
+    label: string;
+    bannerType: BannerType;
+  }[];
+}
+
+/**
+ * Create a schedule version laid out as `board`. Day breaks and banners name
+ * the sheet whose strip they follow, since the version's strips are new.
+ * Shoot dates are worked out from the new version's calendar.
+ */
+export async function createScheduleVersion(
+  tx: Prisma.TransactionClient,
+  data: { projectId: string; name: string; startDate: Date | null; workDays: number[] },
+  board: VersionBoard
+) {
+  const schedule = await tx.schedule.create({
+    data: {
+      ...data,
+      stripSlots: {
+        create: board.order.map((breakdownId, index) => ({ breakdownId, position: index + 1 })),
+      },
+    },
+    include: { stripSlots: true },
+  });
+
+  const stripOf = new Map(schedule.stripSlots.map((s) => [s.breakdownId, s.id]));
+  await tx.dayBreak.createMany({
+    data: board.dayBreaks.map(({ afterBreakdownId, ...dayBreak }) => ({
+      ...dayBreak,
+      scheduleId: schedule.id,
+      afterStripId: stripOf.get(afterBreakdownId)!,
+    })),
+  });
+  await tx.bannerStrip.createMany({
+    data: board.banners.map(({ afterBreakdownId, ...banner }) => ({
+      ...banner,
+      scheduleId: schedule.id,
+      afterStripId: afterBreakdownId ? stripOf.get(afterBreakdownId)! : null,
+    })),
+  });
+  await syncShootDates(tx, schedule.id);
+
+  return tx.schedule.findUniqueOrThrow({
+    where: { id: schedule.id },
+    include: {
+      _count: { select: { dayBreaks: true } },
+    },
+  });
+}
+
+/**
+ * The boneyard of a schedule version: sheets with no strip on its board, in
+ * breakdown order. They are left out of the version's totals and reports.
+ */
+export function findBoneyard(projectId: string, scheduleId: string) {
+  return prisma.breakdownSheet.findMany({
+    where: { projectId, stripSlots: { none: { scheduleId } } },
+    orderBy: { sortOrder: "asc" },
+    include: {
+      cast: {
+        include: { character: true },
+        orderBy: { character: { number: "asc" } },
+      },
+      elements: {
+        include: { element: true },
+        orderBy: { element: { name: "asc" } },
+      },
+    },
+  });
+}
@@ -0,0 +1,359 @@
+/**
+ * Shared plumbing for importing screenplays into breakdown sheets.
+ * Format-specific parsers turn a script into ParsedScene objects; this module
+ * interprets sluglines, estimates page counts and plans the import against
+ * what already exists in the project.
+ */
+
+import { EIGHTHS_PER_PAGE, parsePageCount } from "./page-count";
+import {
+  findDuplicateScenes,
+  formatSceneNumber,
+  parseSceneNumbers,
+  sceneNumberKey,
+} from "./scene-numbers";
+
+export type IntExtValue = "INT" | "EXT";
+export type DayNightValue = "DAY" | "NIGHT" | "DUSK" | "DAWN" | "DAY_FOR_NIGHT";
+
+export interface ParsedScene {
+  sceneNumbers: string;
+  intExt: IntExtValue | null;
+  location: string | null;
+  dayNight: DayNightValue | null;
+  description: string | null;
+  pageCount: string | null;
+  characters: string[]; // Speaking characters, normalized to upper case
+  omitted: boolean; // Heading reads "OMITTED"; the number is kept but the scene is cut
+  scriptText: string | null; // The scene as printed, heading first
+}
+
+export interface ParsedSlugline {
+  intExt: IntExtValue | null;
+  location: string | null;
+  dayNight: DayNightValue | null;
+}
+
+// Printed lines per script page, used to estimate page counts in eighths
+const LINES_PER_PAGE = 55;
+
+// Time-of-day words found at the end of sluglines
+const TIME_OF_DAY: Record<string, DayNightValue | null> = {
+  DAY: "DAY",
+  MORNING: "DAY",
+  AFTERNOON: "DAY",
+  NOON: "DAY",
+  NIGHT: "NIGHT",
+  MIDNIGHT: "NIGHT",
+  EVENING: "DUSK",
+  DUSK: "DUSK",
+  SUNSET: "DUSK",
+  TWILIGHT: "DUSK",
+  DAWN: "DAWN",
+  SUNRISE: "DAWN",
+  "DAY FOR NIGHT": "DAY_FOR_NIGHT",
+  CONTINUOUS: null,
+  LATER: null,
+  "MOMENTS LATER": null,
+  "SAME TIME": null,
+};
+
+const SLUGLINE_PREFIX = /^(INT\.?\s*\/\s*EXT|EXT\.?\s*\/\s*INT|I\s*\/\s*E|INT|EXT|EST)[.\s]+/i;
+
+/**
+ * Check whether a line looks like a scene heading ("INT. KITCHEN - NIGHT").
+ */
+export function isSlugline(line: string): boolean {
+  return SLUGLINE_PREFIX.test(line.trim());
+}
+
+/**
+ * Check whether a scene heading marks an omitted scene ("OMITTED", "12 OMITTED #12#").
+ */
+export function isOmittedHeading(heading: string): boolean {
+  return /^(\w+\s+)?OMITTED(\s*#[^#]+#)?$/i.test(heading.trim());
+}
+
+/**
+ * Placeholder for a scene the script marks as omitted.
+ */
+export function omittedScene(sceneNumbers: string): ParsedScene {
+  return {
+    sceneNumbers,
+    intExt: null,
+    location: null,
+    dayNight: null,
+    description: null,
+    pageCount: null,
+    characters: [],
+    omitted: true,
+    scriptText: null,
+  };
+}
+
+/**
+ * Split a slugline into INT/EXT, location and time of day.
+ * Combined headings ("INT./EXT.") take the first half, since a breakdown
+ * sheet records a single INT/EXT value.
+ */
+export function parseSlugline(heading: string): ParsedSlugline {
+  const text = heading.trim().replace(/\s+/g, " ");
+  const prefixMatch = text.match(SLUGLINE_PREFIX);
+
+  let intExt: IntExtValue | null = null;
+  let rest = text;
+
+  if (prefixMatch) {
+    const prefix = prefixMatch[1].toUpperCase();
+    if (prefix.startsWith("INT") || prefix.startsWith("I")) {
+      intExt = "INT";
+    } else {
+      intExt = "EXT";
+    }
+    rest = text.slice(prefixMatch[0].length);
+  }
+
+  let dayNight: DayNightValue | null = null;
+  const dashIndex = rest.lastIndexOf(" - ");
+  if (dashIndex >= 0) {
+    const timeOfDay = rest.slice(dashIndex + 3).trim().toUpperCase().replace(/[.()]/g, "");
+    if (timeOfDay in TIME_OF_DAY) {
+      dayNight = TIME_OF_DAY[timeOfDay];
+      rest = rest.slice(0, dashIndex);
+    }
+  }
+
+  const location = rest.replace(/^[-\s]+|[-\s]+$/g, "").trim();
+
+  return {
+    intExt,
+    location: location.length > 0 ? location : null,
+    dayNight,
+  };
+}
+
+/**
+ * Estimate a page count in eighths from the number of printed lines.
+ * Every scene counts as at least 1/8 of a page.
+ */
+export function estimateEighths(printedLines: number): number {
+  return Math.max(1, Math.round((printedLines / LINES_PER_PAGE) * EIGHTHS_PER_PAGE));
+}
+
+/**
+ * Count the printed lines a block of text occupies at a given column width.
+ */
+export function countPrintedLines(text: string, width: number): number {
+  return text
+    .split("\n")
+    .reduce((sum, line) => sum + Math.max(1, Math.ceil(line.length / width)), 0);
+}
+
+/**
+ * Reduce an action paragraph to a one-line scene description.
+ */
+export function summarizeAction(action: string, maxLength = 200): string | null {
+  const summary = action.replace(/\s+/g, " ").trim();
+  if (!summary) return null;
+  if (summary.length <= maxLength) return summary;
+  return `${summary.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+/**
+ * Normalize a character cue for matching: drop extensions like (V.O.) or
+ * (CONT'D) and compare case-insensitively.
+ */
+export function normalizeCharacterName(cue: string): string {
+  return cue
+    .replace(/\(.*?\)/g, "")
+    .replace(/\^$/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toUpperCase();
+}
+
+// ═══════════════════════════════════════════════════════════════
+// IMPORT PLANNING
+// ═══════════════════════════════════════════════════════════════
+
+export interface ExistingSheet {
+  id: string;
+  sceneNumbers: string;
+  intExt: IntExtValue | null;
+  location: string | null;
+  dayNight: DayNightValue | null;
+  pageCount: string | null;
+  isOmitted: boolean;
+  castNames: string[];
+}
+
+export interface ExistingCharacter {
+  id: string;
+  number: number;
+  name: string;
+}
+
+// Fields a re-import may change on an existing sheet
+export type ImportedField =
+  | "intExt"
+  | "location"
+  | "dayNight"
+  | "pageCount"
+  | "cast"
+  | "omitted";
+
+export const IMPORTED_FIELD_LABELS: Record<ImportedField, string> = {
+  intExt: "INT/EXT",
+  location: "location",
+  dayNight: "day/night",
+  pageCount: "pages",
+  cast: "cast",
+  omitted: "omitted",
+};
+
+export interface PlannedScene extends ParsedScene {
+  status: "new" | "changed" | "unchanged" | "skipped";
+  existingId: string | null;
+  changedFields: ImportedField[];
+  skipReason: string | null; // Why a skipped scene can't get a sheet of its own
+}
+
+export interface ScriptImportPlan {
+  scenes: PlannedScene[];
+  newCharacters: string[];
+  matchedCharacters: { name: string; characterId: string; number: number }[];
+}
+
+/**
+ * Normalize a sheet's scene numbers for matching: the scenes it covers in
+ * canonical form, so "12a " and "12A" or "3 - 4" and "3-4" are the same
+ * sheet. Numbers that don't parse are compared as typed.
+ */
+export function sceneKey(sceneNumbers: string): string {
+  const parsed = parseSceneNumbers(sceneNumbers);
+  if (!parsed.ok) return sceneNumbers.trim().toUpperCase();
+  return parsed.scenes
+    .map((scene) => formatSceneNumber(scene).toUpperCase())
+    .sort()
+    .join(",");
+}
+
+/**
+ * The scenes a sheet's numbers cover, ignoring part markers, so a sheet for
+ * "3-4" or "14pt1" is found by a script's "3" or "14".
+ */
+export function coveredScenes(sceneNumbers: string): string[] {
+  const parsed = parseSceneNumbers(sceneNumbers);
+  return parsed.ok ? parsed.scenes.map(sceneNumberKey) : [sceneNumbers.trim().toUpperCase()];
+}
+
+function diffScene(scene: ParsedScene, sheet: ExistingSheet): ImportedField[] {
+  const changed: ImportedField[] = [];
+  if (scene.omitted !== sheet.isOmitted) changed.push("omitted");
+  // An omitted scene has no slugline to compare
+  if (scene.omitted) return changed;
+
+  if (scene.intExt !== sheet.intExt) changed.push("intExt");
+  if ((scene.location || "").toUpperCase() !== (sheet.location || "").toUpperCase()) {
+    changed.push("location");
+  }
+  if (scene.dayNight !== sheet.dayNight) changed.push("dayNight");
+  const pages = (pageCount: string | null) => (pageCount ? parsePageCount(pageCount) : null);
+  if (pages(scene.pageCount) !== pages(sheet.pageCount)) changed.push("pageCount");
+
+  const castNames = new Set(sheet.castNames.map(normalizeCharacterName));
+  if (scene.characters.some((name) => !castNames.has(name))) changed.push("cast");
+
+  return changed;
+}
+
+/**
+ * Match parsed scenes to existing breakdown sheets by scene number and
+ * work out which ones are new, changed or unchanged. A scene with no sheet of
+ * its own is skipped when its number doesn't parse or another sheet already
+ * covers it (a range like "3-4", or parts like "14pt1"), so importing never
+ * puts a scene on two sheets. New scenes take the normalized number.
+ */
+export function matchScenes(
+  scenes: ParsedScene[],
+  existingSheets: ExistingSheet[]
+): PlannedScene[] {
+  const sheetsByScene = new Map(
+    existingSheets.map((sheet) => [sceneKey(sheet.sceneNumbers), sheet])
+  );
+  const planned: { sceneNumbers: string }[] = [...existingSheets]; // Including new sheets so far
+  const skip = (scene: ParsedScene, skipReason: string): PlannedScene => ({
+    ...scene,
+    status: "skipped",
+    existingId: null,
+    changedFields: [],
+    skipReason,
+  });
+
+  return scenes.map((scene) => {
+    const sheet = sheetsByScene.get(sceneKey(scene.sceneNumbers));
+    if (!sheet) {
+      const parsed = parseSceneNumbers(scene.sceneNumbers);
+      if (!parsed.ok) return skip(scene, parsed.error);
+      const duplicates = findDuplicateScenes(parsed.scenes, planned);
+      if (duplicates.length > 0) {
+        return skip(scene, `Scene ${duplicates.join(", ")} is already on another breakdown sheet`);
+      }
+      planned.push({ sceneNumbers: parsed.display });
+      return {
+        ...scene,
+        sceneNumbers: parsed.display,
+        status: "new",
+        existingId: null,
+        changedFields: [],
+        skipReason: null,
+      };
+    }
+    const changedFields = diffScene(scene, sheet);
+    return {
+      ...scene,
+      status: changedFields.length > 0 ? "changed" : "unchanged",
+      existingId: sheet.id,
+      changedFields,
+      skipReason: null,
+    };
+  });
+}
+
+/**
+ * Compare parsed scenes and characters against the project.
+ * Scenes are matched to existing breakdown sheets by scene number, so
+ * re-importing a revised script updates those sheets instead of duplicating
+ * them. Speaking characters without a Character row are listed so they can
+ * be created.
+ */
+export function planScriptImport(
+  scenes: ParsedScene[],
+  existingSheets: ExistingSheet[],
+  existingCharacters: ExistingCharacter[]
+): ScriptImportPlan {
+  const charactersByName = new Map(
+    existingCharacters.map((c) => [normalizeCharacterName(c.name), c])
+  );
+
+  const plannedScenes = matchScenes(scenes, existingSheets);
+
+  const newCharacters: string[] = [];
+  const matchedCharacters: ScriptImportPlan["matchedCharacters"] = [];
+  const seen = new Set<string>();
+
+  plannedScenes.forEach((scene) => {
+    scene.characters.forEach((name) => {
+      if (seen.has(name)) return;
+      seen.add(name);
+      const match = charactersByName.get(name);
+      if (match) {
+        matchedCharacters.push({ name, characterId: match.id, number: match.number });
+      } else {
+        newCharacters.push(name);
+      }
+    });
+  });
+
+  return { scenes: plannedScenes, newCharacters, matchedCharacters };
+}
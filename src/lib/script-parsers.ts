@@ -0,0 +1,20 @@
+/**
+ * Screenplay parsers by upload format, shared by script import and revisions.
+ */
+
+import type { ParsedScene } from "./script-import";
+import { parseFountain } from "./fountain";
+import { parseFdx } from "./fdx";
+
+export const SCRIPT_PARSERS: Record<string, (content: string) => ParsedScene[]> = {
+  fountain: parseFountain,
+  fdx: parseFdx,
+};
+
+/**
+ * The parser for an upload format from a request body, or null for anything
+ * that isn't one (including inherited keys like "constructor").
+ */
+export function scriptParser(format: unknown): ((content: string) => ParsedScene[]) | null {
+  return typeof format === "string" && Object.hasOwn(SCRIPT_PARSERS, format) ? SCRIPT_PARSERS[format] : null;
+}
@@ -0,0 +1,134 @@
+/**
+ * Script revisions: the industry colored-page sequence and the scene-level
+ * diff between a revised script and the project's breakdown sheets.
+ */
+
+import {
+  type ParsedScene,
+  type ExistingSheet,
+  type ImportedField,
+  coveredScenes,
+  matchScenes,
+} from "./script-import";
+
+export type RevisionColor =
+  | "WHITE"
+  | "BLUE"
+  | "PINK"
+  | "YELLOW"
+  | "GREEN"
+  | "GOLDENROD"
+  | "BUFF"
+  | "SALMON"
+  | "CHERRY";
+
+export type RevisionChangeType = "ADDED" | "OMITTED" | "CHANGED";
+
+// Colors in the order revision pages are issued
+export const REVISION_COLORS: RevisionColor[] = [
+  "WHITE",
+  "BLUE",
+  "PINK",
+  "YELLOW",
+  "GREEN",
+  "GOLDENROD",
+  "BUFF",
+  "SALMON",
+  "CHERRY",
+];
+
+export const REVISION_COLOR_LABELS: Record<RevisionColor, string> = {
+  WHITE: "White",
+  BLUE: "Blue",
+  PINK: "Pink",
+  YELLOW: "Yellow",
+  GREEN: "Green",
+  GOLDENROD: "Goldenrod",
+  BUFF: "Buff",
+  SALMON: "Salmon",
+  CHERRY: "Cherry",
+};
+
+// Swatch colors for the review screen (approximate paper stock)
+export const REVISION_COLOR_HEX: Record<RevisionColor, string> = {
+  WHITE: "#f5f5f4",
+  BLUE: "#93c5fd",
+  PINK: "#f9a8d4",
+  YELLOW: "#fde047",
+  GREEN: "#86efac",
+  GOLDENROD: "#daa520",
+  BUFF: "#f0dc82",
+  SALMON: "#fa8072",
+  CHERRY: "#de3163",
+};
+
+/**
+ * Color for the next revision given how many a project already has.
+ * After Cherry the sequence starts again (double White, double Blue, …).
+ */
+export function nextRevisionColor(existingRevisions: number): RevisionColor {
+  return REVISION_COLORS[existingRevisions % REVISION_COLORS.length];
+}
+
+export interface RevisionSceneChange {
+  type: RevisionChangeType;
+  breakdownId: string | null;
+  sceneNumbers: string;
+  changedFields: ImportedField[];
+  scene: ParsedScene | null; // The revised scene; null when it's missing from the script
+}
+
+/**
+ * Diff a revised script against the breakdown sheets.
+ * Scenes are matched by scene number. Sheets whose scene is marked OMITTED
+ * or missing from the revision are reported as omitted; an omitted sheet
+ * that reappears is reported as changed so accepting it restores the scene.
+ * Scenes another sheet already covers, in a range or in parts, are left to
+ * those sheets.
+ */
+export function diffRevision(
+  scenes: ParsedScene[],
+  existingSheets: ExistingSheet[]
+): RevisionSceneChange[] {
+  const changes: RevisionSceneChange[] = [];
+  const seen = new Set<string>();
+
+  matchScenes(scenes, existingSheets).forEach(
+    ({ status, existingId, changedFields, ...scene }) => {
+      coveredScenes(scene.sceneNumbers).forEach((key) => seen.add(key));
+
+      if (status === "new") {
+        // A number the script has already omitted needs no placeholder of ours
+        if (scene.omitted) return;
+        changes.push({
+          type: "ADDED",
+          breakdownId: null,
+          sceneNumbers: scene.sceneNumbers,
+          changedFields: [],
+          scene,
+        });
+      } else if (status === "changed") {
+        changes.push({
+          type: scene.omitted ? "OMITTED" : "CHANGED",
+          breakdownId: existingId,
+          sceneNumbers: scene.sceneNumbers,
+          changedFields,
+          scene,
+        });
+      }
+    }
+  );
+
+  existingSheets.forEach((sheet) => {
+    if (sheet.isOmitted || coveredScenes(sheet.sceneNumbers).some((key) => seen.has(key))) return;
+    changes.push({
+      type: "OMITTED",
+      breakdownId: sheet.id,
+      sceneNumbers: sheet.sceneNumbers,
+      changedFields: ["omitted"],
+      scene: null,
+    });
+  });
+
+  return changes;
+}
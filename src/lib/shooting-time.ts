@@ -0,0 +1,169 @@
+/**
+ * Shooting-time estimates for strips and days, from a per-project time
+ * model. A strip takes a set time per camera setup plus a set time per eighth
+ * of a page. A day adds a meal break and the overhead of each company move
+ * banner in it. Estimates are computed on the server with the schedule's
+ * totals so the board and reports agree.
+ */
+
+import { sheetEighths } from "./page-count";
+import type { ScheduleTotals } from "./schedule-totals";
+
+export interface TimeModel {
+  minutesPerSetup: number;
+  minutesPerEighth: number;
+  companyMoveMinutes: number;
+  mealBreakMinutes: number;
+  maxDayMinutes: number; // Days estimated over this are flagged
+}
+
+export const DEFAULT_TIME_MODEL: TimeModel = {
+  minutesPerSetup: 30,
+  minutesPerEighth: 5,
+  companyMoveMinutes: 60,
+  mealBreakMinutes: 60,
+  maxDayMinutes: 12 * 60,
+};
+
+export const TIME_MODEL_LABELS: Record<keyof TimeModel, string> = {
+  minutesPerSetup: "Minutes per camera setup",
+  minutesPerEighth: "Minutes per 1/8 page",
+  companyMoveMinutes: "Minutes per company move",
+  mealBreakMinutes: "Meal break minutes",
+  maxDayMinutes: "Maximum day length (minutes)",
+};
+
+// Select on a project to read its time model
+export const TIME_MODEL_SELECT = {
+  minutesPerSetup: true,
+  minutesPerEighth: true,
+  companyMoveMinutes: true,
+  mealBreakMinutes: true,
+  maxDayMinutes: true,
+} as const;
+
+// Sheets without an estimate count as a single setup
+export const DEFAULT_SHEET_SETUPS = 1;
+
+interface TimingStrip {
+  id: string;
+  position: number;
+  breakdown: {
+    cameraSetups: number | null;
+    pageCount: string | null;
+    pageEighths?: number | null;
+    isOmitted?: boolean;
+  };
+}
+
+interface TimingBanner {
+  afterPosition: number;
+  bannerType: string;
+}
+
+export interface DayEstimate {
+  dayNumber: number;
+  endPosition: number;
+  minutes: number;
+  companyMoves: number;
+  isOverLength: boolean;
+}
+
+export interface ShootingTime {
+  model: TimeModel;
+  strips: Record<string, number>; // Minutes by strip ID
+  days: DayEstimate[];
+  minutes: number;
+}
+
+/**
+ * "45m", "2h" or "10h 30m".
+ */
+export function formatDuration(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * Minutes to shoot one sheet. OMITTED placeholders take no time.
+ */
+export function estimateSheetMinutes(sheet: TimingStrip["breakdown"], model: TimeModel): number {
+  if (sheet.isOmitted) return 0;
+  const setups = sheet.cameraSetups ?? DEFAULT_SHEET_SETUPS;
+  return setups * model.minutesPerSetup + sheetEighths(sheet) * model.minutesPerEighth;
+}
+
+/**
+ * Estimate each strip and each day of the schedule. A company move banner
+ * counts toward the day of the strip that follows it.
+ */
+export function estimateShootingTime(
+  schedule: { stripSlots: TimingStrip[]; banners: TimingBanner[] },
+  totals: ScheduleTotals,
+  model: TimeModel
+): ShootingTime {
+  const strips: Record<string, number> = {};
+  const days = totals.days.map((day) => ({
+    dayNumber: day.dayNumber,
+    endPosition: day.endPosition,
+    minutes: 0,
+    companyMoves: 0,
+    isOverLength: false,
+  }));
+  const dayAt = (position: number) => days.find((day) => day.endPosition >= position);
+
+  for (const strip of schedule.stripSlots) {
+    const minutes = estimateSheetMinutes(strip.breakdown, model);
+    strips[strip.id] = minutes;
+    const day = dayAt(strip.position);
+    if (day) day.minutes += minutes;
+  }
+
+  const positions = schedule.stripSlots.map((s) => s.position).sort((a, b) => a - b);
+  for (const banner of schedule.banners) {
+    if (banner.bannerType !== "MOVE") continue;
+    const next = positions.find((position) => position > banner.afterPosition);
+    const day = next === undefined ? undefined : dayAt(next);
+    if (!day) continue;
+    day.companyMoves++;
+    day.minutes += model.companyMoveMinutes;
+  }
+
+  for (const day of days) {
+    if (day.minutes > 0) day.minutes += model.mealBreakMinutes;
+    day.isOverLength = day.minutes > model.maxDayMinutes;
+  }
+
+  return {
+    model,
+    strips,
+    days,
+    minutes: days.reduce((sum, day) => sum + day.minutes, 0),
+  };
+}
+
+/**
+ * Check time model fields from a request body. Only the fields given are
+ * returned, for a partial update. Each is a whole number of minutes.
+ */
+export function parseTimeModel(
+  value: unknown
+): { ok: true; model: Partial<TimeModel> } | { ok: false; error: string } {
+  const body = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const model: Partial<TimeModel> = {};
+
+  for (const field of Object.keys(TIME_MODEL_LABELS) as (keyof TimeModel)[]) {
+    const minutes = body[field];
+    if (minutes === undefined) continue;
+    const min = field === "maxDayMinutes" ? 1 : 0;
+    if (typeof minutes !== "number" || !Number.isInteger(minutes) || minutes < min || minutes > 24 * 60) {
+      return { ok: false, error: `${field} must be a whole number of minutes from ${min} to 1440` };
+    }
+    model[field] = minutes;
+  }
+
+  return { ok: true, model };
+}
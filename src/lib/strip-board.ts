@@ -0,0 +1,425 @@
+/**
+ * Keep the board in order as strips are inserted, removed and moved. Day
+ * breaks and banners are anchored to the strip they follow rather than to a
+ * position, so only strips carry positions and a day keeps its strips however
+ * the rest of the board is reordered.
+ */
+
+import type { Prisma } from "@prisma/client";
+
+interface Anchored {
+  afterStrip: { position: number } | null;
+  sortOrder?: number;
+}
+
+// Include on day break and banner queries so they can be placed on the board
+export const ANCHOR_POSITION = { afterStrip: { select: { position: true } } } as const;
+
+/**
+ * Replace each item's anchor with `afterPosition`, the board position of the
+ * strip it follows (0 for a banner at the top), and sort into board order.
+ */
+export function placeOnBoard<T extends Anchored>(items: T[]) {
+  return items
+    .map(({ afterStrip, ...item }) => ({ ...item, afterPosition: afterStrip?.position ?? 0 }))
+    .sort((a, b) => a.afterPosition - b.afterPosition || (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+}
+
+/**
+ * A schedule with its day breaks and banners placed on the board, as the
+ * totals, reports and board expect them.
+ */
+export function withBoardPositions<
+  D extends Anchored,
+  B extends Anchored,
+  S extends { dayBreaks: D[]; banners: B[] },
+>(schedule: S & { dayBreaks: D[]; banners: B[] }) {
+  const { dayBreaks, banners, ...rest } = schedule;
+  return { ...rest, dayBreaks: placeOnBoard(dayBreaks), banners: placeOnBoard(banners) };
+}
+
+/**
+ * Move the banners that follow one strip to another (null for the top of the
+ * board), after any banners already there.
+ */
+async function moveBanners(
+  tx: Prisma.TransactionClient,
+  scheduleId: string,
+  fromStripId: string,
+  toStripId: string | null
+) {
+  const last = await tx.bannerStrip.aggregate({
+    where: { scheduleId, afterStripId: toStripId },
+    _max: { sortOrder: true },
+  });
+  await tx.bannerStrip.updateMany({
+    where: { afterStripId: fromStripId },
+    data: {
+      afterStripId: toStripId,
+      sortOrder: { increment: (last._max.sortOrder ?? -1) + 1 },
+    },
+  });
+}
+
+/**
+ * Insert strips for `breakdownIds` directly after `strip`, in the order given.
+ * The day break and banners that followed `strip` move to the last new strip,
+ * so the new strips join its shoot day.
+ */
+export async function insertStripsAfter(
+  tx: Prisma.TransactionClient,
+  strip: { id: string; scheduleId: string; position: number },
+  breakdownIds: string[]
+) {
+  if (breakdownIds.length === 0) return;
+
+  await tx.stripSlot.updateMany({
+    where: { scheduleId: strip.scheduleId, position: { gt: strip.position } },
+    data: { position: { increment: breakdownIds.length } },
+  });
+  await tx.stripSlot.createMany({
+    data: breakdownIds.map((breakdownId, index) => ({
+      scheduleId: strip.scheduleId,
+      breakdownId,
+      position: strip.position + index + 1,
+    })),
+  });
+
+  const last = await tx.stripSlot.findUniqueOrThrow({
+    where: {
+      scheduleId_breakdownId: {
+        scheduleId: strip.scheduleId,
+        breakdownId: breakdownIds[breakdownIds.length - 1],
+      },
+    },
+  });
+  await tx.dayBreak.updateMany({
+    where: { afterStripId: strip.id },
+    data: { afterStripId: last.id },
+  });
+  await tx.bannerStrip.updateMany({
+    where: { afterStripId: strip.id },
+    data: { afterStripId: last.id },
+  });
+}
+
+/**
+ * Place strips for `breakdownIds` after the strip `afterStripId` (null for the
+ * top of the board). With `sameDay` they join that strip's shoot day;
+ * otherwise they follow its day break and banners, starting the next day.
+ */
+export async function placeStrips(
+  tx: Prisma.TransactionClient,
+  scheduleId: string,
+  breakdownIds: string[],
+  afterStripId: string | null,
+  sameDay: boolean
+) {
+  const after = afterStripId
+    ? await tx.stripSlot.findFirstOrThrow({ where: { id: afterStripId, scheduleId } })
+    : null;
+  if (after && sameDay) {
+    await insertStripsAfter(tx, after, breakdownIds);
+    return;
+  }
+
+  const position = after?.position ?? 0;
+  await tx.stripSlot.updateMany({
+    where: { scheduleId, position: { gt: position } },
+    data: { position: { increment: breakdownIds.length } },
+  });
+  await tx.stripSlot.createMany({
+    data: breakdownIds.map((breakdownId, index) => ({
+      scheduleId,
+      breakdownId,
+      position: position + index + 1,
+    })),
+  });
+}
+
+/**
+ * Remove a strip and close the gap. A day break after it moves to the strip
+ * before it, unless that strip already ends a day or there is none, in which
+ * case the break is dropped and the days after it are renumbered. Banners
+ * after it move to the strip before it.
+ */
+export async function removeStrip(tx: Prisma.TransactionClient, stripId: string) {
+  const strip = await tx.stripSlot.findUniqueOrThrow({
+    where: { id: stripId },
+    include: { dayBreak: true },
+  });
+  const previous = await tx.stripSlot.findFirst({
+    where: { scheduleId: strip.scheduleId, position: { lt: strip.position } },
+    orderBy: { position: "desc" },
+    include: { dayBreak: true },
+  });
+
+  if (strip.dayBreak) {
+    if (previous && !previous.dayBreak) {
+      await tx.dayBreak.update({
+        where: { id: strip.dayBreak.id },
+        data: { afterStripId: previous.id },
+      });
+    } else {
+      await tx.dayBreak.delete({ where: { id: strip.dayBreak.id } });
+    }
+  }
+  await moveBanners(tx, strip.scheduleId, strip.id, previous?.id ?? null);
+
+  await tx.stripSlot.delete({ where: { id: strip.id } });
+  await tx.stripSlot.updateMany({
+    where: { scheduleId: strip.scheduleId, position: { gt: strip.position } },
+    data: { position: { decrement: 1 } },
+  });
+
+  if (strip.dayBreak) {
+    await renumberDayBreaks(tx, strip.scheduleId);
+  }
+}
+
+/**
+ * Give new breakdown sheets a strip at the end of every schedule version,
+ * in the order given.
+ */
+export async function appendStrips(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  breakdownIds: string[]
+) {
+  if (breakdownIds.length === 0) return;
+
+  const schedules = await tx.schedule.findMany({
+    where: { projectId },
+    select: { id: true },
+  });
+  for (const schedule of schedules) {
+    const maxPosition = await tx.stripSlot.aggregate({
+      where: { scheduleId: schedule.id },
+      _max: { position: true },
+    });
+    const lastPosition = maxPosition._max.position || 0;
+    await tx.stripSlot.createMany({
+      data: breakdownIds.map((breakdownId, index) => ({
+        scheduleId: schedule.id,
+        breakdownId,
+        position: lastPosition + index + 1,
+      })),
+    });
+  }
+}
+
+/**
+ * Rewrite strip positions to follow `order` (strip IDs), skipping strips
+ * already in place.
+ */
+async function writePositions(
+  tx: Prisma.TransactionClient,
+  strips: { id: string; position: number }[],
+  order: string[]
+) {
+  const current = new Map(strips.map((s) => [s.id, s.position]));
+  for (const [index, id] of order.entries()) {
+    if (current.get(id) !== index + 1) {
+      await tx.stripSlot.update({ where: { id }, data: { position: index + 1 } });
+    }
+  }
+}
+
+/**
+ * Move a set of strips so they sit together, in board order, starting at
+ * `targetPosition` of the resulting board. A day break or banner that
+ * followed a moved strip stays where it was on the board, after the nearest
+ * unmoved strip before it; a day break that would then double up on another
+ * is dropped, and the day breaks are renumbered.
+ */
+export async function moveStrips(
+  tx: Prisma.TransactionClient,
+  scheduleId: string,
+  stripIds: string[],
+  targetPosition: number
+) {
+  const strips = await tx.stripSlot.findMany({
+    where: { scheduleId },
+    orderBy: { position: "asc" },
+    include: { dayBreak: true },
+  });
+  const moving = new Set(stripIds);
+  const block = strips.filter((s) => moving.has(s.id));
+  const rest = strips.filter((s) => !moving.has(s.id));
+
+  const endsDay = new Set(rest.filter((s) => s.dayBreak).map((s) => s.id));
+  for (const strip of block) {
+    const anchor = rest.filter((s) => s.position < strip.position).pop() ?? null;
+    if (strip.dayBreak) {
+      if (anchor && !endsDay.has(anchor.id)) {
+        await tx.dayBreak.update({
+          where: { id: strip.dayBreak.id },
+          data: { afterStripId: anchor.id },
+        });
+        endsDay.add(anchor.id);
+      } else {
+        await tx.dayBreak.delete({ where: { id: strip.dayBreak.id } });
+      }
+    }
+    await moveBanners(tx, scheduleId, strip.id, anchor?.id ?? null);
+  }
+
+  const order = [
+    ...rest.slice(0, targetPosition - 1),
+    ...block,
+    ...rest.slice(targetPosition - 1),
+  ];
+  await writePositions(tx, strips, order.map((s) => s.id));
+  await renumberDayBreaks(tx, scheduleId);
+}
+
+export type BoardItemType = "strip" | "dayBreak" | "banner";
+
+export interface BoardItem {
+  type: BoardItemType;
+  id: string;
+}
+
+export interface BoardArrangement {
+  order: string[]; // Strip IDs in board order
+  dayBreaks: Map<string, string>; // Day break ID to the strip it follows
+  droppedDayBreaks: string[]; // Day breaks left with no strips in their day
+  banners: Map<string, { afterStripId: string | null; sortOrder: number }>;
+}
+
+/**
+ * The board as one list of strips, day breaks and banners in board order:
+ * banners at the top, then each strip followed by its day break and banners.
+ */
+export function listBoardItems(
+  strips: { id: string; position: number }[],
+  dayBreaks: { id: string; afterStripId: string }[],
+  banners: { id: string; afterStripId: string | null; sortOrder: number }[]
+): BoardItem[] {
+  const bannersAfter = (stripId: string | null): BoardItem[] =>
+    banners
+      .filter((b) => b.afterStripId === stripId)
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((b) => ({ type: "banner", id: b.id }));
+  const dayBreakAfter = new Map(dayBreaks.map((db) => [db.afterStripId, db.id]));
+
+  return [
+    ...bannersAfter(null),
+    ...[...strips]
+      .sort((a, b) => a.position - b.position)
+      .flatMap((strip): BoardItem[] => {
+        const dayBreakId = dayBreakAfter.get(strip.id);
+        return [
+          { type: "strip", id: strip.id },
+          ...(dayBreakId ? [{ type: "dayBreak" as const, id: dayBreakId }] : []),
+          ...bannersAfter(strip.id),
+        ];
+      }),
+  ];
+}
+
+/**
+ * Work out strip positions and anchors from the full board as one list of
+ * strips, day breaks and banners. The list must hold every item on the board
+ * exactly once, or it is out of date. As in moveStrips, a day break that
+ * would end a day with no strips is dropped. A day break is drawn before the
+ * banners that follow the same strip.
+ */
+export function planArrangement(
+  board: Record<BoardItemType, string[]>,
+  items: BoardItem[]
+): { ok: true; arrangement: BoardArrangement } | { ok: false; error: string } {
+  const keys = (list: BoardItem[]) => list.map((item) => `${item.type}:${item.id}`).sort();
+  const expected = keys(
+    (Object.keys(board) as BoardItemType[]).flatMap((type) => board[type].map((id) => ({ type, id })))
+  );
+  const given = keys(items);
+  if (given.length !== expected.length || given.some((key, index) => key !== expected[index])) {
+    return { ok: false, error: "The strip board has changed since it was loaded. Refresh and try again." };
+  }
+
+  const arrangement: BoardArrangement = {
+    order: [],
+    dayBreaks: new Map(),
+    droppedDayBreaks: [],
+    banners: new Map(),
+  };
+  let afterStripId: string | null = null;
+  let dayHasStrips = false;
+  let sortOrder = 0;
+
+  for (const item of items) {
+    switch (item.type) {
+      case "strip":
+        arrangement.order.push(item.id);
+        afterStripId = item.id;
+        dayHasStrips = true;
+        sortOrder = 0;
+        break;
+      case "dayBreak":
+        if (afterStripId && dayHasStrips) {
+          arrangement.dayBreaks.set(item.id, afterStripId);
+        } else {
+          arrangement.droppedDayBreaks.push(item.id);
+        }
+        dayHasStrips = false;
+        break;
+      case "banner":
+        arrangement.banners.set(item.id, { afterStripId, sortOrder: sortOrder++ });
+        break;
+    }
+  }
+
+  return { ok: true, arrangement };
+}
+
+/**
+ * Write an arrangement from planArrangement. Day breaks keep their IDs and
+ * details but are renumbered in board order.
+ */
+export async function arrangeBoard(
+  tx: Prisma.TransactionClient,
+  scheduleId: string,
+  arrangement: BoardArrangement
+) {
+  const strips = await tx.stripSlot.findMany({ where: { scheduleId } });
+  await writePositions(tx, strips, arrangement.order);
+
+  // A break can't take a strip another break still holds, so re-create the
+  // ones that move rather than updating them one by one
+  const dayBreaks = await tx.dayBreak.findMany({ where: { scheduleId } });
+  const moved = dayBreaks.filter(
+    (db) => arrangement.dayBreaks.has(db.id) && arrangement.dayBreaks.get(db.id) !== db.afterStripId
+  );
+  await tx.dayBreak.deleteMany({
+    where: { id: { in: [...arrangement.droppedDayBreaks, ...moved.map((db) => db.id)] } },
+  });
+  await tx.dayBreak.createMany({
+    data: moved.map((db) => ({ ...db, afterStripId: arrangement.dayBreaks.get(db.id)! })),
+  });
+
+  const banners = await tx.bannerStrip.findMany({ where: { scheduleId } });
+  for (const banner of banners) {
+    const place = arrangement.banners.get(banner.id)!;
+    if (place.afterStripId !== banner.afterStripId || place.sortOrder !== banner.sortOrder) {
+      await tx.bannerStrip.update({ where: { id: banner.id }, data: place });
+    }
+  }
+
+  await renumberDayBreaks(tx, scheduleId);
+}
+
+/**
+ * Number the day breaks 1, 2, 3... in board order.
+ */
+export async function renumberDayBreaks(tx: Prisma.TransactionClient, scheduleId: string) {
+  const dayBreaks = await tx.dayBreak.findMany({
+    where: { scheduleId },
+    orderBy: { afterStrip: { position: "asc" } },
+  });
+  for (const [index, db] of dayBreaks.entries()) {
+    if (db.dayNumber !== index + 1) {
+      await tx.dayBreak.update({ where: { id: db.id }, data: { dayNumber: index + 1 } });
+    }
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Sort and group strips on the board by scene details, as a starting point
+ * for manual ordering. Day breaks and banners keep their place in the board
+ * list, so each day keeps its number of strips and only which strips fill
+ * the days changes.
+ */
+
+import { compareSceneNumbers } from "./scene-numbers";
+import { sheetEighths } from "./page-count";
+import type { BoardItem } from "./strip-board";
+
+export type SortKey = "location" | "intExt" | "dayNight" | "cast" | "storyDay" | "scene" | "pages";
+export type SortDirection = "asc" | "desc";
+
+export const SORT_KEY_LABELS: Record<SortKey, string> = {
+  location: "Location",
+  intExt: "INT/EXT",
+  dayNight: "Day/Night",
+  cast: "Cast",
+  storyDay: "Story day",
+  scene: "Scene number",
+  pages: "Pages",
+};
+
+export interface SortCriterion {
+  key: SortKey;
+  direction: SortDirection;
+  // For cast: scenes with this character come first. Without one, scenes
+  // are grouped by their cast numbers.
+  characterId?: string;
+}
+
+export interface SortOptions {
+  criteria: SortCriterion[];
+  // Sort only the strips after this day break (null for the top of the board)
+  fromDayBreakId: string | null;
+  // ...up to and including the day this break ends (null for the end)
+  toDayBreakId: string | null;
+}
+
+export interface SortSheet {
+  sceneNumbers: string;
+  location: string | null;
+  intExt: string | null;
+  dayNight: string | null;
+  storyDay: number | null;
+  pageCount: string | null;
+  pageEighths?: number | null;
+  cast: { character: { id: string; number: number } }[];
+}
+
+const INT_EXT_ORDER = ["INT", "EXT"];
+const DAY_NIGHT_ORDER = ["DAY", "DAWN", "DUSK", "NIGHT", "DAY_FOR_NIGHT"];
+
+function compareOrder(order: string[]) {
+  return (a: string, b: string) => order.indexOf(a) - order.indexOf(b);
+}
+
+function locationKey(sheet: SortSheet) {
+  return sheet.location?.trim().toUpperCase() || null;
+}
+
+function castNumbers(sheet: SortSheet) {
+  return sheet.cast.map((c) => c.character.number).sort((a, b) => a - b);
+}
+
+function compareCastNumbers(a: number[], b: number[]) {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Compare two sheets on one criterion. Scenes missing the value sort after
+ * the rest whatever the direction.
+ */
+function compareBy(criterion: SortCriterion, a: SortSheet, b: SortSheet): number {
+  const directed = (result: number) => (criterion.direction === "desc" ? -result : result);
+  const missingLast = <V>(x: V | null, y: V | null, compare: (x: V, y: V) => number) => {
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    return directed(compare(x, y));
+  };
+
+  switch (criterion.key) {
+    case "location":
+      return missingLast(locationKey(a), locationKey(b), (x, y) => x.localeCompare(y));
+    case "intExt":
+      return missingLast(a.intExt, b.intExt, compareOrder(INT_EXT_ORDER));
+    case "dayNight":
+      return missingLast(a.dayNight, b.dayNight, compareOrder(DAY_NIGHT_ORDER));
+    case "storyDay":
+      return missingLast(a.storyDay, b.storyDay, (x, y) => x - y);
+    case "scene":
+      return directed(compareSceneNumbers(a.sceneNumbers, b.sceneNumbers));
+    case "pages":
+      return directed(sheetEighths(a) - sheetEighths(b));
+    case "cast": {
+      if (criterion.characterId) {
+        const has = (sheet: SortSheet) =>
+          sheet.cast.some((c) => c.character.id === criterion.characterId);
+        return directed(Number(has(b)) - Number(has(a)));
+      }
+      const x = castNumbers(a);
+      const y = castNumbers(b);
+      return missingLast(x.length ? x : null, y.length ? y : null, compareCastNumbers);
+    }
+  }
+}
+
+/**
+ * Sort strips by each criterion in turn. The sort is stable, so strips that
+ * compare equal on every criterion keep their board order.
+ */
+export function sortStrips<T extends { position: number; breakdown: SortSheet }>(
+  strips: T[],
+  criteria: SortCriterion[]
+): T[] {
+  return [...strips].sort((a, b) => {
+    for (const criterion of criteria) {
+      const result = compareBy(criterion, a.breakdown, b.breakdown);
+      if (result !== 0) return result;
+    }
+    return a.position - b.position;
+  });
+}
+
+/**
+ * The board list with the strips in range replaced by the same strips in
+ * sorted order. Returns an error if a day break bounding the range is not on
+ * the board or the range is empty.
+ */
+export function sortBoardItems<T extends { id: string; position: number; breakdown: SortSheet }>(
+  items: BoardItem[],
+  strips: T[],
+  options: SortOptions
+): { ok: true; items: BoardItem[] } | { ok: false; error: string } {
+  const indexOfBreak = (id: string | null, fallback: number) =>
+    id === null ? fallback : items.findIndex((item) => item.type === "dayBreak" && item.id === id);
+  const from = indexOfBreak(options.fromDayBreakId, -1);
+  const to = indexOfBreak(options.toDayBreakId, items.length);
+  if ((options.fromDayBreakId && from === -1) || to === -1) {
+    return { ok: false, error: "Day break not found" };
+  }
+  if (to <= from) {
+    return { ok: false, error: "The first day break must come before the last" };
+  }
+
+  const stripById = new Map(strips.map((strip) => [strip.id, strip]));
+  const inRange = (item: BoardItem, index: number) => item.type === "strip" && index > from && index < to;
+  const sorted = sortStrips(
+    items.filter(inRange).map((item) => stripById.get(item.id)!),
+    options.criteria
+  );
+  if (sorted.length === 0) {
+    return { ok: false, error: "There are no strips to sort between those day breaks" };
+  }
+
+  let next = 0;
+  return {
+    ok: true,
+    items: items.map((item, index) =>
+      inRange(item, index) ? { type: "strip", id: sorted[next++].id } : item
+    ),
+  };
+}
+
+/**
+ * "Sorted Days 2–4 by Location, INT/EXT" for the undo history.
+ */
+export function describeSort(options: SortOptions, dayBreaks: { id: string; dayNumber: number }[]) {
+  const dayNumber = (id: string | null) => dayBreaks.find((db) => db.id === id)?.dayNumber;
+  const first = (dayNumber(options.fromDayBreakId) ?? 0) + 1;
+  const last = dayNumber(options.toDayBreakId);
+  const range =
+    !options.fromDayBreakId && !options.toDayBreakId
+      ? "the board"
+      : last === undefined
+        ? `Day ${first} to the end of the board`
+        : first === last
+          ? `Day ${first}`
+          : `Days ${first}–${last}`;
+  const keys = options.criteria.map((c) => SORT_KEY_LABELS[c.key]).join(", ");
+  return `Sorted ${range} by ${keys}`;
+}
+
+/**
+ * Check sort options from a request body. Each criterion needs a key; the
+ * direction defaults to ascending.
+ */
+export function parseSortOptions(
+  value: unknown
+): { ok: true; options: SortOptions } | { ok: false; error: string } {
+  const body = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const { criteria, fromDayBreakId = null, toDayBreakId = null } = body;
+
+  if (!Array.isArray(criteria) || criteria.length === 0) {
+    return { ok: false, error: "criteria must be a non-empty list of sort keys" };
+  }
+
+  const parsed: SortCriterion[] = [];
+  for (const entry of criteria) {
+    const fields = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const { key, direction = "asc", characterId } = fields;
+    if (!Object.keys(SORT_KEY_LABELS).includes(key as string)) {
+      return { ok: false, error: `key must be one of ${Object.keys(SORT_KEY_LABELS).join(", ")}` };
+    }
+    if (direction !== "asc" && direction !== "desc") {
+      return { ok: false, error: "direction must be asc or desc" };
+    }
+    if (characterId !== undefined && (key !== "cast" || typeof characterId !== "string")) {
+      return { ok: false, error: "characterId can only be given for a cast sort" };
+    }
+    parsed.push({ key: key as SortKey, direction, ...(characterId ? { characterId } : {}) });
+  }
+
+  if (
+    (fromDayBreakId !== null && typeof fromDayBreakId !== "string") ||
+    (toDayBreakId !== null && typeof toDayBreakId !== "string")
+  ) {
+    return { ok: false, error: "fromDayBreakId and toDayBreakId must be day break IDs or null" };
+  }
+
+  return { ok: true, options: { criteria: parsed, fromDayBreakId, toDayBreakId } };
+}
@@ -0,0 +1,321 @@
+/**
+ * Strip colors and layout for a project. Color rules are checked in order and
+ * the first that matches a sheet colors its strip; a sheet no rule matches is
+ * gray. The layout picks which fields a strip shows and in what order. Both
+ * are stored on the project and used by the strip board, the Strip Board
+ * preview and the Strip Board PDF.
+ */
+
+import { formatDuration } from "./shooting-time";
+
+export type StripLight = "DAY" | "NIGHT";
+
+export type ColorRuleMatch =
+  | { type: "intExtDayNight"; intExt: "INT" | "EXT"; light: StripLight }
+  | { type: "flashback" }
+  | { type: "location"; location: string }
+  | { type: "tag"; tag: string };
+
+export type ColorRuleType = ColorRuleMatch["type"];
+
+export interface StripColor {
+  background: string; // #rrggbb
+  text: string;
+}
+
+export interface ColorRule extends StripColor {
+  match: ColorRuleMatch;
+}
+
+export const COLOR_RULE_TYPE_LABELS: Record<ColorRuleType, string> = {
+  intExtDayNight: "INT/EXT + Day/Night",
+  flashback: "Flashback",
+  location: "Location",
+  tag: "Strip tag",
+};
+
+const DARK_TEXT = "#1c1917";
+
+export const DEFAULT_COLOR_RULES: ColorRule[] = [
+  { match: { type: "intExtDayNight", intExt: "EXT", light: "DAY" }, background: "#fef08a", text: DARK_TEXT },
+  { match: { type: "intExtDayNight", intExt: "INT", light: "DAY" }, background: "#ffffff", text: DARK_TEXT },
+  { match: { type: "intExtDayNight", intExt: "EXT", light: "NIGHT" }, background: "#86efac", text: DARK_TEXT },
+  { match: { type: "intExtDayNight", intExt: "INT", light: "NIGHT" }, background: "#93c5fd", text: DARK_TEXT },
+];
+
+// For sheets no rule matches
+export const UNMATCHED_STRIP_COLOR: StripColor = { background: "#d6d3d1", text: DARK_TEXT };
+
+export type StripField =
+  | "scene"
+  | "intExt"
+  | "dayNight"
+  | "location"
+  | "description"
+  | "pages"
+  | "time"
+  | "cast"
+  | "storyDay"
+  | "setups"
+  | "tag";
+
+// Width in rem on the board; fields that grow share what's left of the row
+export const STRIP_FIELDS: Record<StripField, { label: string; width: number; grow?: boolean }> = {
+  scene: { label: "Scene", width: 3 },
+  intExt: { label: "I/E", width: 2 },
+  dayNight: { label: "D/N", width: 2 },
+  location: { label: "Location", width: 8, grow: true },
+  description: { label: "Description", width: 8, grow: true },
+  pages: { label: "Pages", width: 3 },
+  time: { label: "Time", width: 4 },
+  cast: { label: "Cast #", width: 6 },
+  storyDay: { label: "Story Day", width: 4 },
+  setups: { label: "Setups", width: 3 },
+  tag: { label: "Tag", width: 5 },
+};
+
+export const DEFAULT_STRIP_LAYOUT: StripField[] = [
+  "scene",
+  "intExt",
+  "dayNight",
+  "location",
+  "description",
+  "pages",
+  "time",
+  "cast",
+];
+
+export interface StripStyle {
+  colorRules: ColorRule[];
+  layout: StripField[];
+}
+
+interface StyledSheet {
+  sceneNumbers: string;
+  intExt: string | null;
+  dayNight: string | null;
+  location: string | null;
+  description: string | null;
+  pageCount: string | null;
+  storyDay: number | null;
+  cameraSetups: number | null;
+  isFlashback: boolean;
+  isOmitted?: boolean;
+  stripTag: string | null;
+  cast: { character: { number: number } }[];
+}
+
+/**
+ * The project's stored style, with the defaults for whatever it hasn't set.
+ */
+export function getStripStyle(project: { stripColorRules: unknown; stripLayout: unknown }): StripStyle {
+  return {
+    colorRules: (project.stripColorRules as ColorRule[] | null) ?? DEFAULT_COLOR_RULES,
+    layout: (project.stripLayout as StripField[] | null) ?? DEFAULT_STRIP_LAYOUT,
+  };
+}
+
+function lightOf(dayNight: string | null): StripLight | null {
+  if (dayNight === "DAY" || dayNight === "DAWN" || dayNight === "DUSK") return "DAY";
+  if (dayNight === "NIGHT" || dayNight === "DAY_FOR_NIGHT") return "NIGHT";
+  return null;
+}
+
+function sameText(a: string | null, b: string) {
+  return a?.trim().toUpperCase() === b.trim().toUpperCase();
+}
+
+function matches(match: ColorRuleMatch, sheet: StyledSheet): boolean {
+  switch (match.type) {
+    case "intExtDayNight": {
+      // Anything that isn't EXT, including a sheet with no INT/EXT set, counts as INT
+      const intExt = sheet.intExt === "EXT" ? "EXT" : "INT";
+      return intExt === match.intExt && lightOf(sheet.dayNight) === match.light;
+    }
+    case "flashback":
+      return sheet.isFlashback;
+    case "location":
+      return sameText(sheet.location, match.location);
+    case "tag":
+      return sameText(sheet.stripTag, match.tag);
+  }
+}
+
+/**
+ * The color of the first rule the sheet matches.
+ */
+export function getStripColor(rules: ColorRule[], sheet: StyledSheet): StripColor {
+  return rules.find((rule) => matches(rule.match, sheet)) ?? UNMATCHED_STRIP_COLOR;
+}
+
+/**
+ * "Day/EXT", "Flashback", "Location: DINER" or "Tag: Unit 2", for legends.
+ */
+export function describeColorRule(rule: ColorRule): string {
+  const { match } = rule;
+  switch (match.type) {
+    case "intExtDayNight":
+      return `${match.light === "DAY" ? "Day" : "Night"}/${match.intExt}`;
+    case "flashback":
+      return "Flashback";
+    case "location":
+      return `Location: ${match.location}`;
+    case "tag":
+      return `Tag: ${match.tag}`;
+  }
+}
+
+/**
+ * A strip field as text, empty when the sheet has no value. OMITTED
+ * placeholders show only their scene numbers.
+ */
+export function stripFieldText(field: StripField, sheet: StyledSheet, minutes?: number): string {
+  if (sheet.isOmitted) {
+    if (field === "scene") return sheet.sceneNumbers;
+    return field === "location" ? "OMITTED" : "";
+  }
+
+  switch (field) {
+    case "scene":
+      return sheet.sceneNumbers;
+    case "intExt":
+      return sheet.intExt || "";
+    case "dayNight":
+      return sheet.dayNight?.charAt(0) || "";
+    case "location":
+      return sheet.location || "";
+    case "description":
+      return sheet.description || "";
+    case "pages":
+      return sheet.pageCount || "";
+    case "time":
+      return minutes === undefined ? "" : formatDuration(minutes);
+    case "cast":
+      return sheet.cast
+        .map((c) => c.character.number)
+        .sort((a, b) => a - b)
+        .join(", ");
+    case "storyDay":
+      return sheet.storyDay === null ? "" : String(sheet.storyDay);
+    case "setups":
+      return sheet.cameraSetups === null ? "" : String(sheet.cameraSetups);
+    case "tag":
+      return sheet.stripTag || "";
+  }
+}
+
+/**
+ * Column positions for a layout across a row of the given width, for
+ * reports. Fixed fields keep their share of width; growing fields split the
+ * rest.
+ */
+export function layoutColumns(layout: StripField[], left: number, width: number) {
+  const scale = 6; // Report units per rem
+  const fixed = layout
+    .filter((field) => !STRIP_FIELDS[field].grow)
+    .reduce((sum, field) => sum + STRIP_FIELDS[field].width * scale, 0);
+  const growing = layout.filter((field) => STRIP_FIELDS[field].grow).length;
+  const share = growing > 0 ? Math.max(width - fixed, 0) / growing : 0;
+
+  let x = left;
+  return layout.map((field) => {
+    const columnWidth = STRIP_FIELDS[field].grow ? share : STRIP_FIELDS[field].width * scale;
+    const column = { field, x, width: columnWidth };
+    x += columnWidth;
+    return column;
+  });
+}
+
+/**
+ * "#fef08a" as [254, 240, 138].
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function parseMatch(value: unknown): ColorRuleMatch | null {
+  const match = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  switch (match.type) {
+    case "intExtDayNight":
+      if ((match.intExt !== "INT" && match.intExt !== "EXT") || (match.light !== "DAY" && match.light !== "NIGHT")) {
+        return null;
+      }
+      return { type: "intExtDayNight", intExt: match.intExt, light: match.light };
+    case "flashback":
+      return { type: "flashback" };
+    case "location":
+      return typeof match.location === "string" && match.location.trim()
+        ? { type: "location", location: match.location.trim() }
+        : null;
+    case "tag":
+      return typeof match.tag === "string" && match.tag.trim() ? { type: "tag", tag: match.tag.trim() } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check stripColorRules and stripLayout from a request body. Only the fields
+ * given are returned; null puts a field back to its default.
+ */
+export function parseStripStyle(
+  value: unknown
+):
+  | { ok: true; style: { stripColorRules?: ColorRule[] | null; stripLayout?: StripField[] | null } }
+  | { ok: false; error: string } {
+  const body = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const style: { stripColorRules?: ColorRule[] | null; stripLayout?: StripField[] | null } = {};
+
+  if (body.stripColorRules !== undefined) {
+    if (body.stripColorRules === null) {
+      style.stripColorRules = null;
+    } else if (!Array.isArray(body.stripColorRules)) {
+      return { ok: false, error: "stripColorRules must be a list of color rules" };
+    } else {
+      const rules: ColorRule[] = [];
+      for (const entry of body.stripColorRules) {
+        const rule = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+        const match = parseMatch(rule.match);
+        if (!match) {
+          return {
+            ok: false,
+            error: `Each rule needs a match of type ${Object.keys(COLOR_RULE_TYPE_LABELS).join(", ")} with its value`,
+          };
+        }
+        if (
+          typeof rule.background !== "string" ||
+          !HEX_COLOR.test(rule.background) ||
+          typeof rule.text !== "string" ||
+          !HEX_COLOR.test(rule.text)
+        ) {
+          return { ok: false, error: "Rule colors must be hex colors such as #fef08a" };
+        }
+        rules.push({ match, background: rule.background.toLowerCase(), text: rule.text.toLowerCase() });
+      }
+      style.stripColorRules = rules;
+    }
+  }
+
+  if (body.stripLayout !== undefined) {
+    if (body.stripLayout === null) {
+      style.stripLayout = null;
+    } else if (
+      !Array.isArray(body.stripLayout) ||
+      body.stripLayout.length === 0 ||
+      body.stripLayout.some((field) => !Object.keys(STRIP_FIELDS).includes(field)) ||
+      new Set(body.stripLayout).size !== body.stripLayout.length
+    ) {
+      return {
+        ok: false,
+        error: `stripLayout must list each field at most once, from ${Object.keys(STRIP_FIELDS).join(", ")}`,
+      };
+    } else {
+      style.stripLayout = body.stripLayout as StripField[];
+    }
+  }
+
+  return { ok: true, style };
+}
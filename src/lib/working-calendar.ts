@@ -0,0 +1,171 @@
+/**
+ * The working calendar of a schedule version: which weekdays it shoots, the
+ * project's holidays, and the banners that take a day of their own. Walking
+ * the board in order from the start date, each shoot day and each TRAVEL,
+ * HOLIDAY or PRERIG banner takes the next working day. The dates are written
+ * to the day breaks and banners whenever the board or the calendar changes,
+ * so the board, the calendar and every report show the same date for a day.
+ */
+
+import type { BannerType, Prisma } from "@prisma/client";
+import { ANCHOR_POSITION, withBoardPositions } from "./strip-board";
+
+export const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5];
+
+export const WORK_WEEK_PRESETS: { label: string; workDays: number[] }[] = [
+  { label: "5-day week (Mon–Fri)", workDays: [1, 2, 3, 4, 5] },
+  { label: "6-day week (Mon–Sat)", workDays: [1, 2, 3, 4, 5, 6] },
+  { label: "Split week (Tue–Sat)", workDays: [2, 3, 4, 5, 6] },
+];
+
+// Banners that take a working day of their own instead of marking the board
+export const DATED_BANNER_TYPES: BannerType[] = ["TRAVEL", "HOLIDAY", "PRERIG"];
+
+// A work week with no days would never reach a date
+const MAX_DAYS_SEARCHED = 366;
+
+export interface WorkingCalendar {
+  startDate: Date | string | null;
+  workDays: number[]; // 0 = Sunday
+  holidays: { date: Date | string }[];
+}
+
+interface CalendarBoard {
+  stripSlots: { position: number }[];
+  dayBreaks: { afterPosition: number }[];
+  banners: { id: string; afterPosition: number; sortOrder?: number; bannerType: string }[];
+}
+
+export interface CalendarPlan {
+  days: (string | null)[]; // YYYY-MM-DD for each shoot day in order
+  banners: Record<string, string | null>; // By banner ID
+}
+
+function toDateKey(date: Date | string): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+function addUtcDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * Date every shoot day and dated banner on the board. A dated banner placed
+ * in the middle of a shoot day takes the day after it. Without a start date
+ * nothing is dated.
+ */
+export function planShootDates(board: CalendarBoard, calendar: WorkingCalendar): CalendarPlan {
+  const plan: CalendarPlan = { days: [], banners: {} };
+  const breaks = new Set(board.dayBreaks.map((db) => db.afterPosition));
+  const strips = [...board.stripSlots].sort((a, b) => a.position - b.position);
+  const bannersAfter = (position: number) =>
+    board.banners
+      .filter((b) => b.afterPosition === position)
+      .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+
+  const holidays = new Set(calendar.holidays.map((h) => toDateKey(h.date)));
+  const isWorkingDay = (dateKey: string) =>
+    calendar.workDays.includes(new Date(`${dateKey}T00:00:00.000Z`).getUTCDay()) && !holidays.has(dateKey);
+  const workingDayFrom = (dateKey: string) => {
+    let day = dateKey;
+    for (let i = 0; i < MAX_DAYS_SEARCHED && !isWorkingDay(day); i++) day = addUtcDays(day, 1);
+    return day;
+  };
+
+  let next = calendar.startDate ? workingDayFrom(toDateKey(calendar.startDate)) : null;
+  const takeDay = () => {
+    const day = next;
+    if (next) next = workingDayFrom(addUtcDays(next, 1));
+    return day;
+  };
+
+  let dayHasStrips = false;
+  let waiting: string[] = []; // Dated banners inside the current shoot day
+  const placeBanners = (position: number) => {
+    for (const banner of bannersAfter(position)) {
+      if (!DATED_BANNER_TYPES.includes(banner.bannerType as BannerType)) {
+        plan.banners[banner.id] = null;
+      } else if (dayHasStrips) {
+        waiting.push(banner.id);
+      } else {
+        plan.banners[banner.id] = takeDay();
+      }
+    }
+  };
+  const endDay = () => {
+    plan.days.push(takeDay());
+    for (const id of waiting) plan.banners[id] = takeDay();
+    waiting = [];
+    dayHasStrips = false;
+  };
+
+  placeBanners(0);
+  for (const strip of strips) {
+    dayHasStrips = true;
+    if (breaks.has(strip.position)) endDay();
+    placeBanners(strip.position);
+  }
+  if (dayHasStrips) endDay();
+
+  return plan;
+}
+
+/**
+ * Load a schedule version's board and calendar, date it, and write the dates
+ * that changed to its day breaks and banners.
+ */
+export async function syncShootDates(tx: Prisma.TransactionClient, scheduleId: string) {
+  const found = await tx.schedule.findUniqueOrThrow({
+    where: { id: scheduleId },
+    include: {
+      stripSlots: { select: { position: true } },
+      dayBreaks: { include: ANCHOR_POSITION },
+      banners: { include: ANCHOR_POSITION },
+    },
+  });
+  const holidays = await tx.projectHoliday.findMany({ where: { projectId: found.projectId } });
+  const schedule = withBoardPositions(found);
+  const plan = planShootDates(schedule, { ...schedule, holidays });
+
+  const same = (stored: Date | null, planned: string | null | undefined) =>
+    (stored ? toDateKey(stored) : null) === (planned ?? null);
+  const toDate = (planned: string | null | undefined) => (planned ? new Date(planned) : null);
+
+  for (const [index, db] of schedule.dayBreaks.entries()) {
+    if (!same(db.shootDate, plan.days[index])) {
+      await tx.dayBreak.update({ where: { id: db.id }, data: { shootDate: toDate(plan.days[index]) } });
+    }
+  }
+  for (const banner of schedule.banners) {
+    if (!same(banner.date, plan.banners[banner.id])) {
+      await tx.bannerStrip.update({ where: { id: banner.id }, data: { date: toDate(plan.banners[banner.id]) } });
+    }
+  }
+}
+
+/**
+ * Date every version of a project, after its holidays change.
+ */
+export async function syncProjectShootDates(tx: Prisma.TransactionClient, projectId: string) {
+  const schedules = await tx.schedule.findMany({ where: { projectId }, select: { id: true } });
+  for (const schedule of schedules) {
+    await syncShootDates(tx, schedule.id);
+  }
+}
+
+/**
+ * Check a work week from a request body: weekday numbers from 0 (Sunday) to
+ * 6 (Saturday), at least one.
+ */
+export function parseWorkDays(value: unknown): { ok: true; workDays: number[] } | { ok: false; error: string } {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+  ) {
+    return { ok: false, error: "workDays must list at least one weekday from 0 (Sunday) to 6 (Saturday)" };
+  }
+  return { ok: true, workDays: [...new Set(value as number[])].sort() };
+}